@@ -173,12 +173,85 @@ async function main() {
     },
   ];
 
+  // Category taxonomy, parents before their children
+  const categories = [
+    {
+      id: "esoteric",
+      parent_id: null,
+      description: "Mystical and occult traditions of hidden knowledge.",
+      display_order: 0,
+    },
+    {
+      id: "alchemical",
+      parent_id: "esoteric",
+      description: "Symbols of the alchemical work of transformation.",
+      display_order: 0,
+    },
+    {
+      id: "kabbalistic",
+      parent_id: "esoteric",
+      description: "Symbols from Kabbalah and its maps of creation.",
+      display_order: 1,
+    },
+    {
+      id: "spiritual",
+      parent_id: "esoteric",
+      description: "Symbols of spiritual practice and awakening.",
+      display_order: 2,
+    },
+    {
+      id: "cultural",
+      parent_id: null,
+      description: "Symbols rooted in a particular civilization or era.",
+      display_order: 1,
+    },
+    {
+      id: "egyptian",
+      parent_id: "cultural",
+      description: "Symbols of ancient Egyptian religion and kingship.",
+      display_order: 0,
+    },
+    {
+      id: "historical",
+      parent_id: "cultural",
+      description: "Symbols that carry the teachings of past civilizations.",
+      display_order: 1,
+    },
+    {
+      id: "intellectual",
+      parent_id: null,
+      description: "Symbols of abstract thought.",
+      display_order: 2,
+    },
+    {
+      id: "mathematical",
+      parent_id: "intellectual",
+      description: "Symbols drawn from number and geometry.",
+      display_order: 0,
+    },
+    {
+      id: "philosophical",
+      parent_id: "intellectual",
+      description: "Symbols of philosophical ideas such as balance and unity.",
+      display_order: 1,
+    },
+  ];
+
+  // Insert categories
+  for (const category of categories) {
+    await prisma.category.upsert({
+      where: { id: category.id },
+      update: {},
+      create: category,
+    });
+  }
+
   // Insert symbols
   for (const symbol of symbols) {
     await prisma.symbol.upsert({
       where: { id: symbol.id },
       update: {},
-      create: symbol,
+      create: { ...symbol, origin: "human", provenance: "seed" },
     });
   }
 
@@ -191,6 +264,7 @@ async function main() {
     });
   }
 
+  console.log(`✅ Created ${categories.length} categories`);
   console.log(`✅ Created ${symbols.length} symbols`);
   console.log(`✅ Created ${symbolSets.length} symbol sets`);
   console.log("🌱 Database seeded successfully!");
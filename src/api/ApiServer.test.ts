@@ -10,9 +10,25 @@ const mockDatabase: IDatabase = {
   getSymbols: vi.fn(),
   getSymbol: vi.fn(),
   searchSymbols: vi.fn(),
+  getSearchFacets: vi.fn(),
+  querySymbols: vi.fn(),
+  findSimilarSymbols: vi.fn(),
   filterByCategory: vi.fn(),
+  getCategoryFacets: vi.fn(),
   getCategories: vi.fn(),
+  suggest: vi.fn(),
+  getPropertySchemas: vi.fn(),
+  getPropertySchema: vi.fn(),
+  setPropertySchema: vi.fn(),
+  deletePropertySchema: vi.fn(),
+  filterByTags: vi.fn(),
+  getTags: vi.fn(),
+  getCategoryTree: vi.fn(),
+  createCategory: vi.fn(),
+  updateCategory: vi.fn(),
+  deleteCategory: vi.fn(),
   getSymbolSets: vi.fn(),
+  getSymbolSet: vi.fn(),
   searchSymbolSets: vi.fn(),
   healthCheck: vi.fn(),
   createSymbol: vi.fn(),
@@ -20,6 +36,22 @@ const mockDatabase: IDatabase = {
   deleteSymbol: vi.fn(),
   createSymbolSet: vi.fn(),
   updateSymbolSet: vi.fn(),
+  deleteSymbolSet: vi.fn(),
+  addSymbolToSet: vi.fn(),
+  removeSymbolFromSet: vi.fn(),
+  setMemberWeight: vi.fn(),
+  getRelationships: vi.fn(),
+  createRelationship: vi.fn(),
+  updateRelationship: vi.fn(),
+  deleteRelationship: vi.fn(),
+  getNeighborhood: vi.fn(),
+  repairSymmetricRelationships: vi.fn(),
+  getRevisions: vi.fn(),
+  getRevision: vi.fn(),
+  restoreRevision: vi.fn(),
+  getDeletedSymbols: vi.fn(),
+  restoreSymbol: vi.fn(),
+  purgeDeleted: vi.fn(),
 };
 
 describe('ApiServer - Structure Tests', () => {
@@ -62,12 +94,12 @@ describe('ApiServer - Structure Tests', () => {
       apiServer = new ApiServer(mockDatabase);
     });
 
-    it('should have start method that returns a promise', () => {
+    it('should have start method that returns a promise', async () => {
       const startPromise = apiServer.start(0); // Use port 0 to get any available port
       expect(startPromise).toBeInstanceOf(Promise);
-      
-      // Don't actually start the server in tests, just verify the interface
-      return expect(startPromise).rejects.toThrow(); // Will reject because we're not in a proper server environment
+
+      await expect(startPromise).resolves.toBeUndefined();
+      await apiServer.stop();
     });
 
     it('should have stop method that returns a promise', async () => {
@@ -7,9 +7,18 @@ import swaggerUi from 'swagger-ui-express';
 
 import type { IDatabase } from '@/database/Database.js';
 import { createTestRoutes } from './routes/test-api.js';
-// import { createSymbolRoutes } from './routes/symbols.js';
-// import { createSymbolSetRoutes } from './routes/symbol-sets.js';
+import { createCategoryRoutes } from './routes/categories.js';
+import { createGraphRoutes } from './routes/graph.js';
 import { createHealthRoutes } from './routes/health.js';
+import { createOntologyRoutes } from './routes/ontology.js';
+import { createPropertySchemaRoutes } from './routes/property-schemas.js';
+import { createRelationshipRoutes } from './routes/relationships.js';
+import { createRevisionRoutes } from './routes/revisions.js';
+import { createSuggestRoutes } from './routes/suggest.js';
+import { createSymbolSetRoutes } from './routes/symbol-sets.js';
+import { createSymbolRoutes } from './routes/symbols.js';
+import { createTagRoutes } from './routes/tags.js';
+import { createTrashRoutes } from './routes/trash.js';
 
 /**
  * REST API Server for Symbols Awakening
@@ -64,12 +73,38 @@ export class ApiServer {
     // Test routes
     this.app.use('/api', createTestRoutes(this.database));
 
-    // TODO: Enable after fixing TypeScript issues
     // Symbol management routes
-    // this.app.use('/api/symbols', createSymbolRoutes(this.database));
+    this.app.use('/api/symbols', createSymbolRoutes(this.database));
 
     // Symbol set routes
-    // this.app.use('/api/symbol-sets', createSymbolSetRoutes(this.database));
+    this.app.use('/api/symbol-sets', createSymbolSetRoutes(this.database));
+
+    // Typed relationship routes
+    this.app.use('/api/relationships', createRelationshipRoutes(this.database));
+
+    // Graph exploration routes
+    this.app.use('/api/graph', createGraphRoutes(this.database));
+
+    // Revision history routes
+    this.app.use('/api/revisions', createRevisionRoutes(this.database));
+
+    // Trash routes for deleted symbols
+    this.app.use('/api/trash', createTrashRoutes(this.database));
+
+    // Category taxonomy routes
+    this.app.use('/api/categories', createCategoryRoutes(this.database));
+
+    // Property schema routes
+    this.app.use('/api/property-schemas', createPropertySchemaRoutes(this.database));
+
+    // Tag routes
+    this.app.use('/api/tags', createTagRoutes(this.database));
+
+    // Suggestion routes
+    this.app.use('/api/suggest', createSuggestRoutes(this.database));
+
+    // Ontology maintenance routes
+    this.app.use('/api/ontology', createOntologyRoutes(this.database));
 
     // API info endpoint
     this.app.get('/api', (_req, res) => {
@@ -80,12 +115,21 @@ export class ApiServer {
         endpoints: {
           symbols: '/api/symbols',
           symbolSets: '/api/symbol-sets',
+          relationships: '/api/relationships',
+          graph: '/api/graph',
+          revisions: '/api/revisions',
+          trash: '/api/trash',
+          categories: '/api/categories',
+          propertySchemas: '/api/property-schemas',
+          tags: '/api/tags',
+          suggest: '/api/suggest',
+          ontology: '/api/ontology',
           health: '/api/health',
           docs: '/api/docs',
         },
         mcp: {
           available: true,
-          tools: 11,
+          tools: 38,
           description: 'MCP server also available via stdio transport',
         },
       });
@@ -187,6 +231,23 @@ the same functionality for AI assistants and automation tools.
                     complexity: 'medium',
                   },
                 },
+                matched_fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Parts of the symbol a search matched (search results only)',
+                  example: ['name', 'interpretations.mathematical'],
+                },
+                highlights: {
+                  type: 'array',
+                  description: 'Excerpts of the description and interpretations around a search match, matched words wrapped in ** (search results only)',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      field: { type: 'string', example: 'interpretations.mathematical' },
+                      snippet: { type: 'string', example: 'Represents **unbounded** quantity' },
+                    },
+                  },
+                },
                 created_at: {
                   type: 'string',
                   format: 'date-time',
@@ -224,10 +285,59 @@ the same functionality for AI assistants and automation tools.
                   example: 'Collection of symbols representing ancient wisdom traditions',
                 },
                 symbols: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Array of symbol IDs in this set',
-                  example: ['infinity_symbol', 'ouroboros'],
+                  type: 'object',
+                  additionalProperties: {
+                    type: 'object',
+                    properties: { weight: { type: 'number', minimum: 0, maximum: 1 } },
+                  },
+                  description: 'Member symbol IDs mapped to their weight in this set',
+                  example: { infinity_symbol: { weight: 1 }, ouroboros: { weight: 0.5 } },
+                },
+                created_at: {
+                  type: 'string',
+                  format: 'date-time',
+                },
+                updated_at: {
+                  type: 'string',
+                  format: 'date-time',
+                },
+              },
+            },
+            SymbolRelationship: {
+              type: 'object',
+              required: ['id', 'source_id', 'target_id', 'relation_type'],
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'Unique identifier for the relationship',
+                },
+                source_id: {
+                  type: 'string',
+                  description: 'ID of the symbol the relationship starts from',
+                  example: 'ouroboros',
+                },
+                target_id: {
+                  type: 'string',
+                  description: 'ID of the symbol the relationship points to',
+                  example: 'infinity',
+                },
+                relation_type: {
+                  type: 'string',
+                  enum: ['related', 'opposes', 'complements', 'derives_from', 'aspect_of'],
+                  description: 'How the source symbol relates to the target',
+                  example: 'aspect_of',
+                },
+                weight: {
+                  type: 'number',
+                  nullable: true,
+                  minimum: 0,
+                  maximum: 1,
+                  description: 'Optional strength of the relationship',
+                },
+                note: {
+                  type: 'string',
+                  nullable: true,
+                  description: 'Optional curator note',
                 },
                 created_at: {
                   type: 'string',
@@ -256,6 +366,59 @@ the same functionality for AI assistants and automation tools.
                 },
               },
             },
+            Pagination: {
+              type: 'object',
+              properties: {
+                limit: {
+                  type: 'integer',
+                  example: 50,
+                },
+                offset: {
+                  type: 'integer',
+                  description: 'Offset requested; left out when paging by cursor',
+                  example: 0,
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor requested, if any',
+                },
+                count: {
+                  type: 'integer',
+                  description: 'Number of results on this page',
+                  example: 50,
+                },
+                total: {
+                  type: 'integer',
+                  description: 'Number of results across every page',
+                  example: 120,
+                },
+                has_more: {
+                  type: 'boolean',
+                  description: 'Whether more results follow this page',
+                  example: true,
+                },
+                next_cursor: {
+                  type: 'string',
+                  nullable: true,
+                  description: 'Pass as cursor to read the next page; null on the last page',
+                },
+              },
+            },
+            FacetCount: {
+              type: 'object',
+              properties: {
+                value: {
+                  type: 'string',
+                  description: 'Facet value; property values are given as text',
+                  example: 'transformation',
+                },
+                count: {
+                  type: 'integer',
+                  description: 'Number of matching symbols with the value',
+                  example: 12,
+                },
+              },
+            },
           },
         },
       },
@@ -275,7 +438,7 @@ the same functionality for AI assistants and automation tools.
    */
   private setupErrorHandling(): void {
     // Handle 404 errors
-    this.app.use('*', (req, res) => {
+    this.app.use((req, res) => {
       res.status(404).json({
         success: false,
         error: `Route ${req.method} ${req.originalUrl} not found`,
@@ -283,6 +446,15 @@ the same functionality for AI assistants and automation tools.
           api: '/api',
           symbols: '/api/symbols',
           symbolSets: '/api/symbol-sets',
+          relationships: '/api/relationships',
+          graph: '/api/graph',
+          revisions: '/api/revisions',
+          trash: '/api/trash',
+          categories: '/api/categories',
+          propertySchemas: '/api/property-schemas',
+          tags: '/api/tags',
+          suggest: '/api/suggest',
+          ontology: '/api/ontology',
           health: '/api/health',
           docs: '/api/docs',
         },
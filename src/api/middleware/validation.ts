@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { PropertySchemaService } from '@/services/PropertySchemaService.js';
 
 /**
  * Validation schemas for different parts of the request
@@ -53,7 +55,13 @@ export function validateRequest(schemas: ValidationSchemas) {
           });
           return;
         }
-        req.query = queryResult.data;
+        // Express 5 only gives req.query a getter, so it can't be assigned
+        Object.defineProperty(req, 'query', {
+          value: queryResult.data,
+          writable: true,
+          configurable: true,
+          enumerable: true,
+        });
       }
 
       // Validate path parameters
@@ -87,6 +95,52 @@ export function validateRequest(schemas: ValidationSchemas) {
   };
 }
 
+/**
+ * Middleware factory that checks a symbol body's properties against its
+ * category's property schema. Runs after validateRequest; on routes with an
+ * :id parameter the body is treated as an update to that symbol.
+ */
+export function validatePropertySchema(database: IDatabase) {
+  const propertySchemaService = new PropertySchemaService(database);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const body = req.body as { category?: string | null; properties?: Record<string, unknown> };
+      const id = req.params.id;
+      const result = id
+        ? await propertySchemaService.checkUpdate(id, body)
+        : await propertySchemaService.check(body.category, body.properties);
+
+      if (!result.success) {
+        throw result.error ?? new Error('Failed to check property schema');
+      }
+
+      if (result.data && result.data.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request body',
+          details: {
+            issues: result.data.map(violation => ({
+              path: `properties.${violation.property}`,
+              message: violation.message,
+              code: 'property_schema',
+            })),
+          },
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Validation error',
+        message: error instanceof Error ? error.message : 'Unknown validation error',
+      });
+    }
+  };
+}
+
 /**
  * Middleware for handling async route handlers
  * Catches any unhandled promise rejections and passes them to Express error handler
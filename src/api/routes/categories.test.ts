@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createCategoryRoutes } from './categories.js';
+
+describe('category routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/categories', createCategoryRoutes(new DemoDatabase()));
+  });
+
+  it('lists the symbols of a category and its descendants', async () => {
+    const response = await request(app)
+      .get('/api/categories/passage/symbols')
+      .query({ include_descendants: 'true' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((symbol: { id: string }) => symbol.id).sort())
+      .toEqual(['key', 'labyrinth', 'river']);
+  });
+
+  it('creates a category under a parent', async () => {
+    const response = await request(app)
+      .post('/api/categories')
+      .send({ id: 'threshold', parent_id: 'passage' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({ id: 'threshold', parent_id: 'passage' });
+  });
+});
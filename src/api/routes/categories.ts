@@ -0,0 +1,363 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { localizeSymbol } from '@/database/locales.js';
+import { PROVENANCE_ORIGINS, SORT_FIELDS, SORT_ORDERS } from '@/types/Symbol.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for category operations
+ */
+const CreateCategorySchema = z.object({
+  id: z.string()
+    .min(1, 'Category name is required')
+    .max(100, 'Category name must be less than 100 characters'),
+  parent_id: z.string().min(1).nullable().default(null),
+  description: z.string()
+    .max(2000, 'Description must be less than 2000 characters')
+    .nullable()
+    .default(null),
+  display_order: z.number().int().default(0),
+});
+
+const UpdateCategorySchema = z.object({
+  parent_id: z.string().min(1).nullable().optional(),
+  description: z.string()
+    .max(2000, 'Description must be less than 2000 characters')
+    .nullable()
+    .optional(),
+  display_order: z.number().int().optional(),
+});
+
+const CategorySymbolsQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(1000).default(50),
+  offset: z.coerce.number().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(SORT_FIELDS).optional(),
+  order: z.enum(SORT_ORDERS).optional(),
+  include_descendants: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  exclude_origins: z.string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((origin) => origin.trim()) : undefined))
+    .pipe(z.array(z.enum(PROVENANCE_ORIGINS)).optional()),
+  locale: z.string().min(2).max(35).optional(),
+});
+
+/**
+ * Create category taxonomy routes
+ */
+export function createCategoryRoutes(database: IDatabase): Router {
+  const router = Router();
+
+  /**
+   * @swagger
+   * /api/categories:
+   *   get:
+   *     summary: Get the category taxonomy as a tree, siblings in display order
+   *     tags: [Categories]
+   *     responses:
+   *       200:
+   *         description: Top-level categories with nested children and symbol counts
+   */
+  router.get('/', async (_req, res) => {
+    try {
+      const result = await database.getCategoryTree();
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to retrieve categories',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/categories/{id}/symbols:
+   *   get:
+   *     summary: List symbols in a category, optionally including its subcategories
+   *     tags: [Categories]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: esoteric
+   *       - in: query
+   *         name: include_descendants
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *       - in: query
+   *         name: exclude_origins
+   *         schema:
+   *           type: string
+   *         description: Comma-separated origins (human, ai, import) to leave out; symbols of unknown origin are kept
+   *         example: ai
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 1000
+   *           default: 50
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           default: 0
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: next_cursor from the previous page's pagination, to read the page after it; takes precedence over offset
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           enum: [name, created_at, updated_at, relevance, relation_count, set_weight]
+   *         description: Order of the symbols; relation_count is the relationships from a symbol and set_weight its total weight across symbol sets. Defaults to name
+   *       - in: query
+   *         name: order
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *         description: Sort direction; defaults to asc for name and desc for everything else
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *         description: Locale for names, descriptions and interpretations, falling back to the base language, then the original text
+   *         example: es
+   *     responses:
+   *       200:
+   *         description: Symbols in the category
+   */
+  router.get('/:id/symbols', validateRequest({ query: CategorySymbolsQuerySchema }), async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const query = req.query as unknown as z.infer<typeof CategorySymbolsQuerySchema>;
+      const { limit, offset, cursor, sort, order, include_descendants, exclude_origins, locale } = query;
+
+      const result = await database.filterByCategory(id, {
+        limit,
+        offset,
+        ...(cursor && { cursor }),
+        ...(sort && { sort }),
+        ...(order && { order }),
+        includeDescendants: include_descendants,
+        ...(exclude_origins && { excludeOrigins: exclude_origins }),
+      });
+
+      if (!result.success) {
+        res.status(result.error?.message.includes('Invalid cursor') ? 400 : 500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to filter symbols by category',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: locale ? result.data?.map((symbol) => localizeSymbol(symbol, locale)) : result.data,
+        pagination: {
+          limit,
+          ...(cursor ? { cursor } : { offset }),
+          count: result.data?.length ?? 0,
+          ...result.page,
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/categories:
+   *   post:
+   *     summary: Add a category to the taxonomy
+   *     tags: [Categories]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [id]
+   *             properties:
+   *               id:
+   *                 type: string
+   *                 example: 'alchemical'
+   *               parent_id:
+   *                 type: string
+   *                 nullable: true
+   *                 example: 'esoteric'
+   *               description:
+   *                 type: string
+   *                 nullable: true
+   *               display_order:
+   *                 type: integer
+   *                 default: 0
+   *     responses:
+   *       201:
+   *         description: Category created successfully
+   *       404:
+   *         description: Parent category not found
+   *       409:
+   *         description: Category already exists
+   */
+  router.post('/', validateRequest({ body: CreateCategorySchema }), async (req, res) => {
+    try {
+      const categoryData = req.body as z.infer<typeof CreateCategorySchema>;
+
+      const result = await database.createCategory(categoryData);
+
+      if (!result.success) {
+        const message = result.error?.message ?? 'Failed to create category';
+        const statusCode = message.includes('already exists')
+          ? 409
+          : message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({ success: false, error: message });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/categories/{id}:
+   *   put:
+   *     summary: Change a category's parent, description or display order
+   *     tags: [Categories]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               parent_id:
+   *                 type: string
+   *                 nullable: true
+   *               description:
+   *                 type: string
+   *                 nullable: true
+   *               display_order:
+   *                 type: integer
+   *     responses:
+   *       200:
+   *         description: Category updated successfully
+   *       400:
+   *         description: The new parent is the category itself or one of its descendants
+   *       404:
+   *         description: Category or parent category not found
+   */
+  router.put('/:id', validateRequest({ body: UpdateCategorySchema }), async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const updates = req.body as z.infer<typeof UpdateCategorySchema>;
+
+      const result = await database.updateCategory(id, updates);
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to update category',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/categories/{id}:
+   *   delete:
+   *     summary: Remove a category; its children move up to its parent and symbols keep their category
+   *     tags: [Categories]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Category deleted successfully
+   *       404:
+   *         description: Category not found
+   */
+  router.delete('/:id', async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+
+      const result = await database.deleteCategory(id);
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to delete category',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Category "${id}" deleted successfully`,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createGraphRoutes } from './graph.js';
+
+describe('graph routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use('/api/graph', createGraphRoutes(new DemoDatabase()));
+  });
+
+  it('finds the shortest path between two symbols', async () => {
+    const response = await request(app)
+      .get('/api/graph/path')
+      .query({ from: 'labyrinth', to: 'key', max_hops: 2 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ from_id: 'labyrinth', to_id: 'key', connected: true });
+    expect(response.body.data.paths[0].length).toBe(1);
+  });
+
+  it('requires both ends of the path', async () => {
+    const response = await request(app).get('/api/graph/path').query({ from: 'labyrinth' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid query parameters');
+  });
+});
@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { GraphService } from '@/services/GraphService.js';
+import { RELATION_TYPES } from '@/types/Symbol.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for graph operations
+ */
+const FindPathQuerySchema = z.object({
+  from: z.string().min(1, 'Start symbol ID is required'),
+  to: z.string().min(1, 'End symbol ID is required'),
+  max_hops: z.coerce.number().int().min(1).max(6).default(4),
+  max_paths: z.coerce.number().int().min(1).max(10).default(3),
+  direction: z.enum(['outgoing', 'incoming', 'both']).default('both'),
+  relation_types: z.string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((type) => type.trim()) : undefined))
+    .pipe(z.array(z.enum(RELATION_TYPES)).optional()),
+  locale: z.string().min(2).max(35).optional(),
+});
+
+/**
+ * Create graph exploration routes
+ */
+export function createGraphRoutes(database: IDatabase): Router {
+  const router = Router();
+  const graphService = new GraphService(database);
+
+  /**
+   * @swagger
+   * /api/graph/path:
+   *   get:
+   *     summary: Find the shortest relationship paths between two symbols
+   *     tags: [Graph]
+   *     parameters:
+   *       - in: query
+   *         name: from
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Symbol ID to start from
+   *         example: labyrinth
+   *       - in: query
+   *         name: to
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Symbol ID to reach
+   *         example: mirror
+   *       - in: query
+   *         name: max_hops
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 6
+   *           default: 4
+   *       - in: query
+   *         name: max_paths
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 10
+   *           default: 3
+   *       - in: query
+   *         name: direction
+   *         schema:
+   *           type: string
+   *           enum: [outgoing, incoming, both]
+   *           default: both
+   *       - in: query
+   *         name: relation_types
+   *         schema:
+   *           type: string
+   *         description: Comma-separated relation types to walk
+   *         example: related,aspect_of
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *         description: Locale for symbol names and interpretations
+   *         example: es
+   *     responses:
+   *       200:
+   *         description: Shortest paths, each hop carrying its symbols and shared interpretation contexts
+   *       400:
+   *         description: Invalid query parameters
+   *       404:
+   *         description: Start or end symbol not found
+   */
+  router.get('/path', validateRequest({ query: FindPathQuerySchema }), async (req, res) => {
+    try {
+      const query = req.query as unknown as z.infer<typeof FindPathQuerySchema>;
+      const { from, to, max_hops, max_paths, direction, relation_types, locale } = query;
+
+      const result = await graphService.findPaths(from, to, {
+        maxHops: max_hops,
+        maxPaths: max_paths,
+        direction,
+        ...(relation_types && { relationTypes: relation_types }),
+        ...(locale && { locale }),
+      });
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 500;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to find symbol path',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createOntologyRoutes } from './ontology.js';
+
+describe('ontology routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/ontology', createOntologyRoutes(new DemoDatabase()));
+  });
+
+  it('reports only the requested checks', async () => {
+    const response = await request(app)
+      .get('/api/ontology/validate')
+      .query({ checks: 'dangling_related_symbol' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.fix_applied).toBe(false);
+    expect(response.body.data.issues.length).toBeGreaterThan(0);
+    expect(
+      response.body.data.issues.every((issue: { type: string }) => issue.type === 'dangling_related_symbol')
+    ).toBe(true);
+  });
+
+  it('rejects an unknown check', async () => {
+    const response = await request(app).get('/api/ontology/validate').query({ checks: 'spelling' });
+
+    expect(response.status).toBe(400);
+  });
+});
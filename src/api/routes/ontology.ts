@@ -0,0 +1,129 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { IntegrityService } from '@/services/IntegrityService.js';
+import { INTEGRITY_CHECKS } from '@/types/Symbol.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for ontology maintenance operations
+ */
+const ValidateQuerySchema = z.object({
+  checks: z.string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((check) => check.trim()) : undefined))
+    .pipe(z.array(z.enum(INTEGRITY_CHECKS)).optional()),
+});
+
+const ValidateBodySchema = z.object({
+  fix: z.boolean().default(false),
+  checks: z.array(z.enum(INTEGRITY_CHECKS)).optional(),
+}).default({});
+
+/**
+ * Create ontology maintenance routes
+ */
+export function createOntologyRoutes(database: IDatabase): Router {
+  const router = Router();
+  const integrityService = new IntegrityService(database);
+
+  /**
+   * @swagger
+   * /api/ontology/validate:
+   *   get:
+   *     summary: Report integrity issues in the ontology without changing anything
+   *     tags: [Ontology]
+   *     parameters:
+   *       - in: query
+   *         name: checks
+   *         schema:
+   *           type: string
+   *         description: Comma-separated checks to run (default all)
+   *         example: dangling_related_symbol,missing_set_member
+   *     responses:
+   *       200:
+   *         description: Integrity report with a summary and one entry per issue
+   *       400:
+   *         description: Invalid query parameters
+   */
+  router.get('/validate', validateRequest({ query: ValidateQuerySchema }), async (req, res) => {
+    try {
+      const { checks } = req.query as unknown as z.infer<typeof ValidateQuerySchema>;
+
+      const result = await integrityService.validate({ ...(checks && { checks }) });
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to validate ontology',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/ontology/validate:
+   *   post:
+   *     summary: Validate the ontology, optionally repairing fixable issues
+   *     tags: [Ontology]
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               fix:
+   *                 type: boolean
+   *                 default: false
+   *                 description: Remove dangling links and missing set members, and add missing reverse links
+   *               checks:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   enum: [dangling_related_symbol, missing_set_member, one_way_link, orphan_category, empty_description, property_schema_violation]
+   *     responses:
+   *       200:
+   *         description: Integrity report, with fixed issues marked
+   *       400:
+   *         description: Invalid input data
+   */
+  router.post('/validate', validateRequest({ body: ValidateBodySchema }), async (req, res) => {
+    try {
+      const { fix, checks } = req.body as z.infer<typeof ValidateBodySchema>;
+
+      const result = await integrityService.validate({ fix, ...(checks && { checks }) });
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to validate ontology',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
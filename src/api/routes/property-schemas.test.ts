@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createPropertySchemaRoutes } from './property-schemas.js';
+
+describe('property schema routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/property-schemas', createPropertySchemaRoutes(new DemoDatabase()));
+  });
+
+  it('sets and reads a category schema', async () => {
+    const set = await request(app)
+      .put('/api/property-schemas/access')
+      .send({ properties: { material: { type: 'string', required: true } } });
+    const read = await request(app).get('/api/property-schemas/access');
+
+    expect(set.status).toBe(200);
+    expect(read.body.data).toMatchObject({
+      category: 'access',
+      properties: { material: { type: 'string', required: true } },
+      allow_additional: false,
+    });
+  });
+
+  it('rejects an unknown property type', async () => {
+    const response = await request(app)
+      .put('/api/property-schemas/access')
+      .send({ properties: { material: { type: 'color' } } });
+
+    expect(response.status).toBe(400);
+  });
+});
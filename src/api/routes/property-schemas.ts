@@ -0,0 +1,239 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { PROPERTY_TYPES } from '@/types/Symbol.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for property schema operations
+ */
+const PropertyDefinitionSchema = z.object({
+  type: z.enum(PROPERTY_TYPES),
+  enum: z.array(z.string().min(1)).min(1).optional(),
+  required: z.boolean().optional(),
+  description: z.string()
+    .max(500, 'Description must be less than 500 characters')
+    .optional(),
+});
+
+const SetPropertySchemaSchema = z.object({
+  properties: z.record(PropertyDefinitionSchema),
+  allow_additional: z.boolean().default(false),
+});
+
+/**
+ * Create property schema routes
+ */
+export function createPropertySchemaRoutes(database: IDatabase): Router {
+  const router = Router();
+
+  /**
+   * @swagger
+   * /api/property-schemas:
+   *   get:
+   *     summary: List the property schema of every category that has one
+   *     tags: [Property Schemas]
+   *     responses:
+   *       200:
+   *         description: Property schemas ordered by category
+   */
+  router.get('/', async (_req, res) => {
+    try {
+      const result = await database.getPropertySchemas();
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to retrieve property schemas',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/property-schemas/{category}:
+   *   get:
+   *     summary: Get the allowed property keys, types and values for a category
+   *     tags: [Property Schemas]
+   *     parameters:
+   *       - in: path
+   *         name: category
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: The category's property schema
+   *       404:
+   *         description: The category has no property schema
+   */
+  router.get('/:category', async (req, res) => {
+    try {
+      const category = req.params.category ?? '';
+
+      const result = await database.getPropertySchema(category);
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to retrieve property schema',
+        });
+        return;
+      }
+
+      if (!result.data) {
+        res.status(404).json({
+          success: false,
+          error: `Property schema for category "${category}" not found`,
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/property-schemas/{category}:
+   *   put:
+   *     summary: Create or replace a category's property schema
+   *     description: New and updated symbols in the category must conform. Existing symbols are not rewritten; POST /api/ontology/validate reports those that break the schema.
+   *     tags: [Property Schemas]
+   *     parameters:
+   *       - in: path
+   *         name: category
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - properties
+   *             properties:
+   *               properties:
+   *                 type: object
+   *                 additionalProperties:
+   *                   type: object
+   *                   required:
+   *                     - type
+   *                   properties:
+   *                     type:
+   *                       type: string
+   *                       enum: [string, number, boolean, string_array]
+   *                     enum:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                     required:
+   *                       type: boolean
+   *                     description:
+   *                       type: string
+   *                 example: { "origin": { "type": "string", "enum": ["ancient", "medieval", "modern"], "required": true } }
+   *               allow_additional:
+   *                 type: boolean
+   *                 default: false
+   *     responses:
+   *       200:
+   *         description: Property schema saved
+   *       400:
+   *         description: Invalid input data
+   */
+  router.put('/:category', validateRequest({ body: SetPropertySchemaSchema }), async (req, res) => {
+    try {
+      const category = req.params.category ?? '';
+      const { properties, allow_additional } = req.body as z.infer<typeof SetPropertySchemaSchema>;
+
+      const result = await database.setPropertySchema({ category, properties, allow_additional });
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to save property schema',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/property-schemas/{category}:
+   *   delete:
+   *     summary: Remove a category's property schema so its symbols accept any properties
+   *     tags: [Property Schemas]
+   *     parameters:
+   *       - in: path
+   *         name: category
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Property schema deleted successfully
+   *       404:
+   *         description: The category has no property schema
+   */
+  router.delete('/:category', async (req, res) => {
+    try {
+      const category = req.params.category ?? '';
+
+      const result = await database.deletePropertySchema(category);
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to delete property schema',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Property schema for category "${category}" deleted successfully`,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createRelationshipRoutes } from './relationships.js';
+
+describe('relationship routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/relationships', createRelationshipRoutes(new DemoDatabase()));
+  });
+
+  it('lists the relationships of a symbol', async () => {
+    const response = await request(app)
+      .get('/api/relationships')
+      .query({ symbol_id: 'ouroboros', direction: 'outgoing' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+    expect(response.body.data.map((relationship: { target_id: string }) => relationship.target_id))
+      .toEqual(expect.arrayContaining(['infinity', 'mandala']));
+    expect(response.body.pagination).toMatchObject({ limit: 50, offset: 0 });
+  });
+
+  it('rejects an unknown relation type', async () => {
+    const response = await request(app)
+      .get('/api/relationships')
+      .query({ relation_type: 'sibling' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid query parameters');
+  });
+
+  it('creates a relationship', async () => {
+    const response = await request(app)
+      .post('/api/relationships')
+      .send({ source_id: 'mirror', target_id: 'river', relation_type: 'opposes' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      source_id: 'mirror',
+      target_id: 'river',
+      relation_type: 'opposes',
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { RELATION_TYPES } from '@/types/Symbol.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for relationship operations
+ */
+const CreateRelationshipSchema = z.object({
+  source_id: z.string().min(1, 'Source symbol ID is required'),
+  target_id: z.string().min(1, 'Target symbol ID is required'),
+  relation_type: z.enum(RELATION_TYPES).default('related'),
+  weight: z.number().min(0).max(1).nullable().default(null),
+  note: z.string()
+    .max(2000, 'Note must be less than 2000 characters')
+    .nullable()
+    .default(null),
+});
+
+const UpdateRelationshipSchema = z.object({
+  weight: z.number().min(0).max(1).nullable().optional(),
+  note: z.string()
+    .max(2000, 'Note must be less than 2000 characters')
+    .nullable()
+    .optional(),
+});
+
+const QueryRelationshipsSchema = z.object({
+  limit: z.coerce.number().min(1).max(1000).default(50),
+  offset: z.coerce.number().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  symbol_id: z.string().optional(),
+  direction: z.enum(['outgoing', 'incoming', 'both']).default('both'),
+  relation_type: z.enum(RELATION_TYPES).optional(),
+});
+
+/**
+ * Create relationship routes
+ */
+export function createRelationshipRoutes(database: IDatabase): Router {
+  const router = Router();
+
+  /**
+   * @swagger
+   * /api/relationships:
+   *   get:
+   *     summary: List typed relationships between symbols
+   *     tags: [Relationships]
+   *     parameters:
+   *       - in: query
+   *         name: symbol_id
+   *         schema:
+   *           type: string
+   *         description: Only return relationships touching this symbol
+   *       - in: query
+   *         name: direction
+   *         schema:
+   *           type: string
+   *           enum: [outgoing, incoming, both]
+   *           default: both
+   *         description: Which side of the relationship symbol_id must be on
+   *       - in: query
+   *         name: relation_type
+   *         schema:
+   *           type: string
+   *           enum: [related, opposes, complements, derives_from, aspect_of]
+   *         description: Filter by relation type
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 1000
+   *           default: 50
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           default: 0
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: next_cursor from the previous page's pagination, to read the page after it; takes precedence over offset
+   *     responses:
+   *       200:
+   *         description: List of relationships
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                   example: true
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/SymbolRelationship'
+   */
+  router.get('/', validateRequest({ query: QueryRelationshipsSchema }), async (req, res) => {
+    try {
+      const query = req.query as unknown as z.infer<typeof QueryRelationshipsSchema>;
+      const { limit, offset, cursor, symbol_id, direction, relation_type } = query;
+
+      const result = await database.getRelationships({
+        ...(symbol_id && { symbolId: symbol_id }),
+        ...(relation_type && { relationType: relation_type }),
+        direction,
+        limit,
+        offset,
+        ...(cursor && { cursor }),
+      });
+
+      if (!result.success) {
+        res.status(result.error?.message.includes('Invalid cursor') ? 400 : 500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to retrieve relationships',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        pagination: {
+          limit,
+          ...(cursor ? { cursor } : { offset }),
+          count: result.data?.length ?? 0,
+          ...result.page,
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/relationships:
+   *   post:
+   *     summary: Create a typed relationship between two symbols
+   *     tags: [Relationships]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [source_id, target_id]
+   *             properties:
+   *               source_id:
+   *                 type: string
+   *                 example: 'ouroboros'
+   *               target_id:
+   *                 type: string
+   *                 example: 'infinity'
+   *               relation_type:
+   *                 type: string
+   *                 enum: [related, opposes, complements, derives_from, aspect_of]
+   *                 default: related
+   *               weight:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 1
+   *                 example: 0.8
+   *               note:
+   *                 type: string
+   *                 example: 'Both express endless continuity'
+   *     responses:
+   *       201:
+   *         description: Relationship created successfully
+   *       400:
+   *         description: Invalid input data
+   *       404:
+   *         description: Source or target symbol not found
+   *       409:
+   *         description: Relationship already exists
+   */
+  router.post('/', validateRequest({ body: CreateRelationshipSchema }), async (req, res) => {
+    try {
+      const relationshipData = req.body as z.infer<typeof CreateRelationshipSchema>;
+
+      const result = await database.createRelationship(relationshipData);
+
+      if (!result.success) {
+        const message = result.error?.message ?? 'Failed to create relationship';
+        const statusCode = message.includes('already exists')
+          ? 409
+          : message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({ success: false, error: message });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/relationships/{id}:
+   *   put:
+   *     summary: Update the weight or note of a relationship
+   *     tags: [Relationships]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Relationship ID to update
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               weight:
+   *                 type: number
+   *                 nullable: true
+   *               note:
+   *                 type: string
+   *                 nullable: true
+   *     responses:
+   *       200:
+   *         description: Relationship updated successfully
+   *       404:
+   *         description: Relationship not found
+   */
+  router.put('/:id', validateRequest({ body: UpdateRelationshipSchema }), async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const updates = req.body as z.infer<typeof UpdateRelationshipSchema>;
+
+      const result = await database.updateRelationship(id, updates);
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to update relationship',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/relationships/{id}:
+   *   delete:
+   *     summary: Delete a relationship
+   *     tags: [Relationships]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Relationship ID to delete
+   *     responses:
+   *       200:
+   *         description: Relationship deleted successfully
+   *       404:
+   *         description: Relationship not found
+   */
+  router.delete('/:id', async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+
+      const result = await database.deleteRelationship(id);
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to delete relationship',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Relationship "${id}" deleted successfully`,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
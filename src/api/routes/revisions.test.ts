@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createRevisionRoutes } from './revisions.js';
+
+describe('revision routes', () => {
+  let app: express.Application;
+  let database: DemoDatabase;
+
+  beforeEach(() => {
+    database = new DemoDatabase();
+    app = express();
+    app.use(express.json());
+    app.use('/api/revisions', createRevisionRoutes(database));
+  });
+
+  it('lists the revisions of a symbol', async () => {
+    await database.updateSymbol('mirror', { description: 'A reflecting surface' });
+
+    const response = await request(app)
+      .get('/api/revisions')
+      .query({ entity_type: 'symbol', entity_id: 'mirror' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toHaveLength(1);
+    expect(response.body.data[0]).toMatchObject({ entity_id: 'mirror', action: 'update' });
+  });
+
+  it('diffs a revision against the current version', async () => {
+    await database.updateSymbol('mirror', { description: 'A reflecting surface' });
+    const [revision] = (await database.getRevisions({ entityId: 'mirror' })).data ?? [];
+
+    const response = await request(app).get(`/api/revisions/${revision?.id}/diff`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+  });
+});
@@ -0,0 +1,278 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { RevisionService } from '@/services/RevisionService.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for revision operations
+ */
+const QueryRevisionsSchema = z.object({
+  limit: z.coerce.number().min(1).max(1000).default(50),
+  offset: z.coerce.number().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  entity_type: z.enum(['symbol', 'symbol_set']).optional(),
+  entity_id: z.string().optional(),
+});
+
+const DiffQuerySchema = z.object({
+  against: z.string().optional(),
+});
+
+const RestoreRevisionSchema = z.object({
+  actor: z.string().max(255).default('api'),
+  summary: z.string().max(500).optional(),
+}).default({});
+
+/**
+ * Create revision history routes
+ */
+export function createRevisionRoutes(database: IDatabase): Router {
+  const router = Router();
+  const revisionService = new RevisionService(database);
+
+  /**
+   * @swagger
+   * /api/revisions:
+   *   get:
+   *     summary: List prior versions of symbols and symbol sets, newest first
+   *     tags: [Revisions]
+   *     parameters:
+   *       - in: query
+   *         name: entity_type
+   *         schema:
+   *           type: string
+   *           enum: [symbol, symbol_set]
+   *       - in: query
+   *         name: entity_id
+   *         schema:
+   *           type: string
+   *         description: Only return revisions of this symbol or symbol set
+   *         example: mirror
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 1000
+   *           default: 50
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           default: 0
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: next_cursor from the previous page's pagination, to read the page after it; takes precedence over offset
+   *     responses:
+   *       200:
+   *         description: List of revisions
+   */
+  router.get('/', validateRequest({ query: QueryRevisionsSchema }), async (req, res) => {
+    try {
+      const query = req.query as unknown as z.infer<typeof QueryRevisionsSchema>;
+      const { limit, offset, cursor, entity_type, entity_id } = query;
+
+      const result = await database.getRevisions({
+        ...(entity_type && { entityType: entity_type }),
+        ...(entity_id && { entityId: entity_id }),
+        limit,
+        offset,
+        ...(cursor && { cursor }),
+      });
+
+      if (!result.success) {
+        res.status(result.error?.message.includes('Invalid cursor') ? 400 : 500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to retrieve revisions',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        pagination: {
+          limit,
+          ...(cursor ? { cursor } : { offset }),
+          count: result.data?.length ?? 0,
+          ...result.page,
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/revisions/{id}:
+   *   get:
+   *     summary: Get a revision by ID
+   *     tags: [Revisions]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Revision with the stored snapshot
+   *       404:
+   *         description: Revision not found
+   */
+  router.get('/:id', async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+
+      const result = await database.getRevision(id);
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to retrieve revision',
+        });
+        return;
+      }
+
+      if (!result.data) {
+        res.status(404).json({
+          success: false,
+          error: `Revision with ID "${id}" not found`,
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/revisions/{id}/diff:
+   *   get:
+   *     summary: Compare a revision with the current record or another revision
+   *     tags: [Revisions]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: against
+   *         schema:
+   *           type: string
+   *         description: Revision ID to compare with (default is the current record)
+   *     responses:
+   *       200:
+   *         description: Field-by-field changes
+   *       400:
+   *         description: Revisions belong to different records
+   *       404:
+   *         description: Revision or record not found
+   */
+  router.get('/:id/diff', validateRequest({ query: DiffQuerySchema }), async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const { against } = req.query as unknown as z.infer<typeof DiffQuerySchema>;
+
+      const result = await revisionService.diff(id, against);
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to compare revisions',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/revisions/{id}/restore:
+   *   post:
+   *     summary: Restore a symbol or symbol set to this revision
+   *     tags: [Revisions]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               actor:
+   *                 type: string
+   *                 default: api
+   *               summary:
+   *                 type: string
+   *                 example: 'Undo bad agent edit'
+   *     responses:
+   *       200:
+   *         description: Restored record
+   *       404:
+   *         description: Revision or record not found
+   */
+  router.post('/:id/restore', validateRequest({ body: RestoreRevisionSchema }), async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const { actor, summary } = req.body as z.infer<typeof RestoreRevisionSchema>;
+
+      const result = await database.restoreRevision(id, { actor, ...(summary && { summary }) });
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to restore revision',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: `Revision "${id}" restored successfully`,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createSuggestRoutes } from './suggest.js';
+
+describe('suggest routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use('/api/suggest', createSuggestRoutes(new DemoDatabase()));
+  });
+
+  it('suggests values of the requested kinds', async () => {
+    const response = await request(app).get('/api/suggest').query({ prefix: 'lab', kinds: 'name,alias' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toEqual([
+      { value: 'Labyrinth', kind: 'name', symbol_id: 'labyrinth' },
+      { value: 'Labyrinth', kind: 'alias', symbol_id: 'labyrinth' },
+    ]);
+  });
+
+  it('rejects an unknown kind', async () => {
+    const response = await request(app).get('/api/suggest').query({ kinds: 'tag' });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { SUGGESTION_KINDS } from '@/types/Symbol.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for suggestions
+ */
+const SuggestQuerySchema = z.object({
+  prefix: z.string().default(''),
+  kinds: z.string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((kind) => kind.trim()) : undefined))
+    .pipe(z.array(z.enum(SUGGESTION_KINDS)).optional()),
+  limit: z.coerce.number().min(1).max(50).default(10),
+});
+
+/**
+ * Create suggestion routes
+ */
+export function createSuggestRoutes(database: IDatabase): Router {
+  const router = Router();
+
+  /**
+   * @swagger
+   * /api/suggest:
+   *   get:
+   *     summary: Suggest symbol IDs, names, aliases and categories completing a prefix
+   *     description: Values match at their start or at the start of a later word, ignoring case. Whole matches come first, then values starting with the prefix, then the rest, each alphabetically. Trashed symbols are left out.
+   *     tags: [Suggest]
+   *     parameters:
+   *       - in: query
+   *         name: prefix
+   *         schema:
+   *           type: string
+   *           default: ''
+   *         description: Text typed so far; an empty prefix suggests everything
+   *         example: lab
+   *       - in: query
+   *         name: kinds
+   *         schema:
+   *           type: string
+   *         description: Comma-separated kinds (id, name, alias, category) to suggest; defaults to all of them
+   *         example: name,alias
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 50
+   *           default: 10
+   *     responses:
+   *       200:
+   *         description: Suggestions, each with its value, kind and the symbol_id it belongs to (null for categories)
+   */
+  router.get('/', validateRequest({ query: SuggestQuerySchema }), async (req, res) => {
+    try {
+      const { prefix, kinds, limit } = req.query as unknown as z.infer<typeof SuggestQuerySchema>;
+
+      const result = await database.suggest(prefix, { limit, ...(kinds && { kinds }) });
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to suggest completions',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createSymbolSetRoutes } from './symbol-sets.js';
+
+describe('symbol set routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/symbol-sets', createSymbolSetRoutes(new DemoDatabase()));
+  });
+
+  it('lists symbol sets in the requested order', async () => {
+    const response = await request(app).get('/api/symbol-sets').query({ sort: 'name', order: 'desc', limit: 1 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((set: { id: string }) => set.id)).toEqual(['dream-journey']);
+    expect(response.body.pagination).toMatchObject({ total: 2, has_more: true });
+  });
+
+  it('rejects sort fields symbol sets do not have', async () => {
+    const response = await request(app).get('/api/symbol-sets').query({ sort: 'relevance' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('reads a set with its members expanded, heaviest first', async () => {
+    const response = await request(app).get('/api/symbol-sets/cycles-of-change').query({ expand: 'true' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.members.map((member: { symbol_id: string }) => member.symbol_id)).toEqual([
+      'ouroboros',
+      'infinity',
+      'mandala',
+    ]);
+  });
+
+  it('creates a set from symbol IDs at full weight', async () => {
+    const response = await request(app).post('/api/symbol-sets').send({
+      id: 'thresholds',
+      name: 'Thresholds',
+      description: 'Symbols of passage',
+      symbols: ['key', 'labyrinth'],
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toMatchObject({
+      category: null,
+      symbols: { key: { weight: 1 }, labyrinth: { weight: 1 } },
+    });
+  });
+
+  it('adds, reweights and removes members', async () => {
+    const added = await request(app).post('/api/symbol-sets/dream-journey/members').send({ symbol_id: 'infinity', weight: 0.4 });
+    const reweighted = await request(app).put('/api/symbol-sets/dream-journey/members/infinity').send({ weight: 0.9 });
+    const removed = await request(app).delete('/api/symbol-sets/dream-journey/members/infinity');
+    const duplicate = await request(app).post('/api/symbol-sets/dream-journey/members').send({ symbol_id: 'key' });
+
+    expect(added.body.data.symbols.infinity).toMatchObject({ weight: 0.4 });
+    expect(reweighted.body.data.symbols.infinity).toMatchObject({ weight: 0.9 });
+    expect(removed.body.data.symbols).not.toHaveProperty('infinity');
+    expect(duplicate.status).toBe(409);
+  });
+});
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import type { IDatabase } from '@/database/Database.js';
+import { localizeSymbolSet } from '@/database/locales.js';
+import { SET_SORT_FIELDS, SORT_ORDERS, type SymbolSet } from '@/types/Symbol.js';
 import { validateRequest } from '../middleware/validation.js';
 
 /**
@@ -27,12 +29,42 @@ const CreateSymbolSetSchema = z.object({
 
 const UpdateSymbolSetSchema = CreateSymbolSetSchema.partial().omit({ id: true });
 
+const GetSymbolSetQuerySchema = z.object({
+  expand: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  locale: z.string().min(2).max(35).optional(),
+});
+
+const ChangeContextSchema = z.object({
+  actor: z.string().max(255).default('api'),
+  summary: z.string().max(500).optional(),
+});
+
+const AddMemberSchema = ChangeContextSchema.extend({
+  symbol_id: z.string().min(1, 'Symbol ID is required'),
+  weight: z.number().min(0).max(1).default(1.0),
+});
+
+const MemberWeightSchema = ChangeContextSchema.extend({
+  weight: z.number().min(0).max(1),
+});
+
 const QuerySymbolSetsSchema = z.object({
   limit: z.coerce.number().min(1).max(1000).default(50),
   offset: z.coerce.number().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(SET_SORT_FIELDS).optional(),
+  order: z.enum(SORT_ORDERS).optional(),
   search: z.string().optional(),
+  locale: z.string().min(2).max(35).optional(),
 });
 
+/**
+ * Member map for the symbol IDs given in a request body, each at full weight
+ */
+function memberMap(symbolIds: string[]): SymbolSet['symbols'] {
+  return Object.fromEntries(symbolIds.map((symbolId) => [symbolId, { weight: 1.0 }]));
+}
+
 /**
  * Create symbol set routes
  */
@@ -62,10 +94,33 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
    *           default: 0
    *         description: Number of symbol sets to skip
    *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: next_cursor from the previous page's pagination, to read the page after it; takes precedence over offset
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           enum: [name, created_at, updated_at]
+   *         description: Order of the symbol sets; defaults to name
+   *       - in: query
+   *         name: order
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *         description: Sort direction; defaults to asc for name and desc for everything else
+   *       - in: query
    *         name: search
    *         schema:
    *           type: string
    *         description: Search symbol sets by text query
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *         description: Locale for set names and descriptions
+   *         example: es
    *     responses:
    *       200:
    *         description: List of symbol sets
@@ -82,47 +137,42 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
    *                   items:
    *                     $ref: '#/components/schemas/SymbolSet'
    *                 pagination:
-   *                   type: object
-   *                   properties:
-   *                     limit:
-   *                       type: integer
-   *                     offset:
-   *                       type: integer
-   *                     count:
-   *                       type: integer
+   *                   $ref: '#/components/schemas/Pagination'
    */
   router.get('/', validateRequest({ query: QuerySymbolSetsSchema }), async (req, res) => {
     try {
-      const { limit, offset, search } = req.query as z.infer<typeof QuerySymbolSetsSchema>;
+      const { limit, offset, cursor, sort, order, search, locale } = req.query as unknown as z.infer<typeof QuerySymbolSetsSchema>;
+      const options = { limit, offset, ...(cursor && { cursor }), ...(sort && { sort }), ...(order && { order }) };
 
       let result;
       if (search) {
-        result = await database.searchSymbolSets(search, { limit, offset });
+        result = await database.searchSymbolSets(search, options);
       } else {
-        result = await database.getSymbolSets({ limit, offset });
+        result = await database.getSymbolSets(options);
       }
 
       if (!result.success) {
-        return res.status(500).json({
+        return res.status(result.error?.message.includes('Invalid cursor') ? 400 : 500).json({
           success: false,
           error: result.error?.message || 'Failed to retrieve symbol sets',
         });
       }
 
-      res.json({
+      return res.json({
         success: true,
-        data: result.data,
+        data: locale ? result.data?.map((symbolSet) => localizeSymbolSet(symbolSet, locale)) : result.data,
         pagination: {
           limit,
-          offset,
+          ...(cursor ? { cursor } : { offset }),
           count: result.data?.length || 0,
+          ...result.page,
         },
         query: {
           ...(search && { search }),
         },
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -142,6 +192,18 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
    *         schema:
    *           type: string
    *         description: Symbol set ID
+   *       - in: query
+   *         name: expand
+   *         schema:
+   *           type: boolean
+   *           default: false
+   *         description: Resolve members to full symbols sorted by weight, flagging missing ones
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *         description: Locale for set names and descriptions, and for member symbols when expanded
+   *         example: es
    *     responses:
    *       200:
    *         description: Symbol set details
@@ -158,31 +220,32 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
    *       404:
    *         description: Symbol set not found
    */
-  router.get('/:id', async (req, res) => {
+  router.get('/:id', validateRequest({ query: GetSymbolSetQuerySchema }), async (req, res) => {
     try {
-      const { id } = req.params;
+      const id = req.params.id ?? '';
+      const { expand, locale } = req.query as unknown as z.infer<typeof GetSymbolSetQuerySchema>;
 
-      // Search for the specific symbol set
-      const result = await database.searchSymbolSets(id, { limit: 1 });
+      const result = await database.getSymbolSet(id, { expand });
 
       if (!result.success) {
-        return res.status(500).json({
+        res.status(500).json({
           success: false,
-          error: result.error?.message || 'Failed to retrieve symbol set',
+          error: result.error?.message ?? 'Failed to retrieve symbol set',
         });
+        return;
       }
 
-      const symbolSet = result.data?.find(s => s.id === id);
-      if (!symbolSet) {
-        return res.status(404).json({
+      if (!result.data) {
+        res.status(404).json({
           success: false,
           error: `Symbol set with ID "${id}" not found`,
         });
+        return;
       }
 
       res.json({
         success: true,
-        data: symbolSet,
+        data: locale ? localizeSymbolSet(result.data, locale) : result.data,
       });
     } catch (error) {
       res.status(500).json({
@@ -226,6 +289,7 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
    *                 type: array
    *                 items:
    *                   type: string
+   *                 description: Symbol IDs to include, each at weight 1; use the members routes to weight them
    *                 example: ["infinity_symbol", "tree_of_life"]
    *     responses:
    *       201:
@@ -249,7 +313,11 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
     try {
       const symbolSetData = req.body as z.infer<typeof CreateSymbolSetSchema>;
 
-      const result = await database.createSymbolSet(symbolSetData);
+      const result = await database.createSymbolSet({
+        ...symbolSetData,
+        category: symbolSetData.category ?? null,
+        symbols: memberMap(symbolSetData.symbols),
+      });
 
       if (!result.success) {
         const statusCode = result.error?.message.includes('already exists') ? 409 : 400;
@@ -259,12 +327,12 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
         });
       }
 
-      res.status(201).json({
+      return res.status(201).json({
         success: true,
         data: result.data,
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -304,6 +372,7 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
    *                 type: array
    *                 items:
    *                   type: string
+   *                 description: Symbol IDs to replace the members with, each at weight 1; use the members routes to weight them
    *     responses:
    *       200:
    *         description: Symbol set updated successfully
@@ -324,10 +393,13 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
    */
   router.put('/:id', validateRequest({ body: UpdateSymbolSetSchema }), async (req, res) => {
     try {
-      const { id } = req.params;
-      const updates = req.body as z.infer<typeof UpdateSymbolSetSchema>;
+      const id = req.params.id ?? '';
+      const { symbols, ...updates } = req.body as z.infer<typeof UpdateSymbolSetSchema>;
 
-      const result = await database.updateSymbolSet(id, updates);
+      const result = await database.updateSymbolSet(id, {
+        ...updates,
+        ...(symbols && { symbols: memberMap(symbols) }),
+      });
 
       if (!result.success) {
         const statusCode = result.error?.message.includes('not found') ? 404 : 400;
@@ -337,6 +409,249 @@ export function createSymbolSetRoutes(database: IDatabase): Router {
         });
       }
 
+      return res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/symbol-sets/{id}:
+   *   delete:
+   *     summary: Delete a symbol set; its member symbols are kept
+   *     tags: [Symbol Sets]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Symbol set ID to delete
+   *     responses:
+   *       200:
+   *         description: Symbol set deleted successfully
+   *       404:
+   *         description: Symbol set not found
+   */
+  router.delete('/:id', async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+
+      const result = await database.deleteSymbolSet(id, { actor: 'api' });
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 500;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to delete symbol set',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Symbol set "${id}" deleted successfully`,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/symbol-sets/{id}/members:
+   *   post:
+   *     summary: Add an existing symbol to a symbol set
+   *     tags: [Symbol Sets]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Symbol set ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [symbol_id]
+   *             properties:
+   *               symbol_id:
+   *                 type: string
+   *                 example: 'ouroboros'
+   *               weight:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 1
+   *                 default: 1.0
+   *               actor:
+   *                 type: string
+   *                 default: api
+   *               summary:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Updated symbol set
+   *       404:
+   *         description: Symbol set or symbol not found
+   *       409:
+   *         description: Symbol is already in the set
+   */
+  router.post('/:id/members', validateRequest({ body: AddMemberSchema }), async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const { symbol_id, weight, actor, summary } = req.body as z.infer<typeof AddMemberSchema>;
+
+      const result = await database.addSymbolToSet(id, symbol_id, weight, { actor, ...(summary && { summary }) });
+
+      if (!result.success) {
+        const message = result.error?.message ?? '';
+        const statusCode = message.includes('not found') ? 404 : message.includes('already in') ? 409 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to add symbol to set',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/symbol-sets/{id}/members/{symbolId}:
+   *   put:
+   *     summary: Change the weight of a symbol in a symbol set
+   *     tags: [Symbol Sets]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Symbol set ID
+   *       - in: path
+   *         name: symbolId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Member symbol ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [weight]
+   *             properties:
+   *               weight:
+   *                 type: number
+   *                 minimum: 0
+   *                 maximum: 1
+   *               actor:
+   *                 type: string
+   *                 default: api
+   *               summary:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Updated symbol set
+   *       404:
+   *         description: Symbol set not found or symbol is not a member
+   */
+  router.put('/:id/members/:symbolId', validateRequest({ body: MemberWeightSchema }), async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const symbolId = req.params.symbolId ?? '';
+      const { weight, actor, summary } = req.body as z.infer<typeof MemberWeightSchema>;
+
+      const result = await database.setMemberWeight(id, symbolId, weight, { actor, ...(summary && { summary }) });
+
+      if (!result.success) {
+        const message = result.error?.message ?? '';
+        const statusCode = message.includes('not found') || message.includes('is not in') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to set member weight',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/symbol-sets/{id}/members/{symbolId}:
+   *   delete:
+   *     summary: Remove a symbol from a symbol set; the symbol itself is kept
+   *     tags: [Symbol Sets]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Symbol set ID
+   *       - in: path
+   *         name: symbolId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Member symbol ID
+   *     responses:
+   *       200:
+   *         description: Updated symbol set
+   *       404:
+   *         description: Symbol set not found or symbol is not a member
+   */
+  router.delete('/:id/members/:symbolId', async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const symbolId = req.params.symbolId ?? '';
+
+      const result = await database.removeSymbolFromSet(id, symbolId, { actor: 'api' });
+
+      if (!result.success) {
+        const message = result.error?.message ?? '';
+        const statusCode = message.includes('not found') || message.includes('is not in') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to remove symbol from set',
+        });
+        return;
+      }
+
       res.json({
         success: true,
         data: result.data,
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createSymbolRoutes } from './symbols.js';
+
+describe('symbol routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/symbols', createSymbolRoutes(new DemoDatabase()));
+  });
+
+  const ids = (response: request.Response): string[] =>
+    response.body.data.map((symbol: { id: string }) => symbol.id);
+
+  it('pages through symbols in the requested order', async () => {
+    const first = await request(app).get('/api/symbols').query({ limit: 2, sort: 'name', order: 'desc' });
+    const second = await request(app)
+      .get('/api/symbols')
+      .query({ limit: 2, sort: 'name', order: 'desc', cursor: first.body.pagination.next_cursor });
+
+    expect(first.status).toBe(200);
+    expect(ids(first)).toEqual(['river', 'ouroboros']);
+    expect(first.body.pagination).toMatchObject({ total: 7, has_more: true });
+    expect(ids(second)).toEqual(['mirror', 'mandala']);
+  });
+
+  it('searches within a category with highlights and facets', async () => {
+    const response = await request(app).get('/api/symbols').query({ search: 'serpent', category: 'transformation' });
+    const elsewhere = await request(app).get('/api/symbols').query({ search: 'serpent', category: 'journey' });
+
+    expect(response.status).toBe(200);
+    expect(ids(response)).toEqual(['ouroboros']);
+    expect(response.body.data[0].matched_fields).toContain('aliases');
+    expect(response.body.facets.categories).toEqual([{ value: 'transformation', count: 1 }]);
+    expect(ids(elsewhere)).toEqual([]);
+  });
+
+  it('filters by interpretation context', async () => {
+    const response = await request(app)
+      .get('/api/symbols')
+      .query({ interpretation_context: 'dream', interpretation_text: 'loop' });
+
+    expect(response.status).toBe(200);
+    expect(ids(response)).toEqual(['ouroboros']);
+  });
+
+  it('answers structured queries and reports syntax errors', async () => {
+    const matched = await request(app).get('/api/symbols').query({ q: 'tag:initiation AND NOT category:journey' });
+    const invalid = await request(app).get('/api/symbols').query({ q: 'category:' });
+
+    expect(ids(matched)).toEqual(['key']);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('reads a symbol by alias in another locale', async () => {
+    const response = await request(app).get('/api/symbols/uroboros').query({ locale: 'es' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ id: 'ouroboros', name: 'Uróboros', locale: 'es' });
+  });
+
+  it('returns 404 for an unknown symbol', async () => {
+    const response = await request(app).get('/api/symbols/missing');
+
+    expect(response.status).toBe(404);
+  });
+
+  it("rejects properties that break the category's schema", async () => {
+    const response = await request(app).post('/api/symbols').send({
+      id: 'phoenix',
+      name: 'Phoenix',
+      category: 'transformation',
+      description: 'A bird reborn from its ashes',
+      properties: { origin: 'future' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.details.issues[0].path).toBe('properties.origin');
+  });
+
+  it('creates, updates and deletes a symbol', async () => {
+    const created = await request(app).post('/api/symbols').send({
+      id: 'phoenix',
+      name: 'Phoenix',
+      category: 'transformation',
+      description: 'A bird reborn from its ashes',
+      properties: { origin: 'ancient' },
+    });
+    const updated = await request(app).put('/api/symbols/phoenix').send({ name: 'Firebird' });
+    const deleted = await request(app).delete('/api/symbols/phoenix');
+    const missing = await request(app).get('/api/symbols/phoenix');
+
+    expect(created.status).toBe(201);
+    expect(updated.body.data.name).toBe('Firebird');
+    expect(deleted.status).toBe(200);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -1,7 +1,21 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import type { IDatabase } from '@/database/Database.js';
-import { validateRequest } from '../middleware/validation.js';
+import { localizeSymbol } from '@/database/locales.js';
+import { hasJsonFilters, parsePropertyValue } from '@/database/search.js';
+import { allOf, parseSymbolQuery } from '@/database/symbolQuery.js';
+import { SearchService } from '@/services/SearchService.js';
+import {
+  SEARCH_MODES,
+  SORT_FIELDS,
+  SORT_ORDERS,
+  type PropertyFilter,
+  type SearchOptions,
+  type SearchSuggestion,
+  type SymbolFacets,
+  type SymbolQuery,
+} from '@/types/Symbol.js';
+import { validatePropertySchema, validateRequest } from '../middleware/validation.js';
 
 /**
  * Validation schemas for symbol operations
@@ -36,8 +50,68 @@ const UpdateSymbolSchema = CreateSymbolSchema.partial().omit({ id: true });
 const QuerySymbolsSchema = z.object({
   limit: z.coerce.number().min(1).max(1000).default(50),
   offset: z.coerce.number().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(SORT_FIELDS).optional(),
+  order: z.enum(SORT_ORDERS).optional(),
   category: z.string().optional(),
   search: z.string().optional(),
+  q: z.string().min(1).optional(),
+  mode: z.enum(SEARCH_MODES).default('fulltext'),
+  interpretation_context: z.string().min(1).optional(),
+  interpretation_text: z.string().min(1).optional(),
+  property: z.union([z.string(), z.array(z.string())])
+    .transform((value) => (Array.isArray(value) ? value : [value]))
+    .refine((values) => values.every((value) => /^[^:]+:.+$/.test(value)), {
+      message: 'Property filters must look like key:value',
+    })
+    .optional(),
+  locale: z.string().min(2).max(35).optional(),
+});
+
+/**
+ * Property filter from key:value query parameters
+ */
+function parsePropertyFilter(values: string[]): PropertyFilter {
+  const filter: PropertyFilter = {};
+  for (const value of values) {
+    const separator = value.indexOf(':');
+    filter[value.slice(0, separator)] = parsePropertyValue(value.slice(separator + 1));
+  }
+  return filter;
+}
+
+/**
+ * Symbol query ANDed with the category, search text and filter parameters
+ * given alongside it
+ */
+function withQueryParams(
+  parsed: SymbolQuery,
+  category: string | undefined,
+  search: string | undefined,
+  filters: SearchOptions
+): SymbolQuery {
+  const clauses: SymbolQuery[] = [parsed];
+  if (category) {
+    clauses.push({ type: 'field', field: 'category', value: category });
+  }
+  if (search) {
+    clauses.push({ type: 'text', text: search });
+  }
+  if (filters.interpretationContext !== undefined || filters.interpretationText !== undefined) {
+    clauses.push({
+      type: 'interpretation',
+      context: filters.interpretationContext ?? null,
+      contains: filters.interpretationText ?? null,
+    });
+  }
+  for (const [key, value] of Object.entries(filters.properties ?? {})) {
+    clauses.push({ type: 'property', key, value });
+  }
+  return allOf(clauses);
+}
+
+const GetSymbolQuerySchema = z.object({
+  locale: z.string().min(2).max(35).optional(),
 });
 
 /**
@@ -45,6 +119,7 @@ const QuerySymbolsSchema = z.object({
  */
 export function createSymbolRoutes(database: IDatabase): Router {
   const router = Router();
+  const searchService = new SearchService(database);
 
   /**
    * @swagger
@@ -69,15 +144,72 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *           default: 0
    *         description: Number of symbols to skip
    *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: next_cursor from the previous page's pagination, to read the page after it; takes precedence over offset
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           enum: [name, created_at, updated_at, relevance, relation_count, set_weight]
+   *         description: Order of the symbols; relevance is the search score, relation_count the relationships from a symbol and set_weight its total weight across symbol sets. Defaults to relevance for searches and name otherwise
+   *       - in: query
+   *         name: order
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *         description: Sort direction; defaults to asc for name and desc for everything else
+   *       - in: query
    *         name: category
    *         schema:
    *           type: string
-   *         description: Filter by category
+   *         description: Filter by category; combines with search, q and the interpretation and property filters
    *       - in: query
    *         name: search
    *         schema:
    *           type: string
-   *         description: Search symbols by text query
+   *         description: Search symbols by text query, most relevant first
+   *       - in: query
+   *         name: q
+   *         schema:
+   *           type: string
+   *         description: 'Structured query combining category:, tag:, origin:, property.<key>=, interpretation.<context>, interpretation.<context>~"<text>" and search words with AND, OR, NOT and parentheses. Other filters given alongside are ANDed with it; results are ordered by name unless sort is given.'
+   *         example: 'category:journey AND property.direction=inward AND interpretation.dream~"decision"'
+   *       - in: query
+   *         name: mode
+   *         schema:
+   *           type: string
+   *           enum: [fulltext, fuzzy]
+   *           default: fulltext
+   *         description: How search text is matched; fuzzy tolerates misspelled names and aliases. A full-text search that finds nothing returns did_you_mean suggestions.
+   *       - in: query
+   *         name: interpretation_context
+   *         schema:
+   *           type: string
+   *         description: Only symbols with an interpretation in this context; also limits interpretation_text to it
+   *         example: dream
+   *       - in: query
+   *         name: interpretation_text
+   *         schema:
+   *           type: string
+   *         description: Only symbols whose interpretations contain this text, ignoring case
+   *       - in: query
+   *         name: property
+   *         schema:
+   *           type: array
+   *           items:
+   *             type: string
+   *         style: form
+   *         explode: true
+   *         description: Only symbols with this property value, as key:value; repeat for several. A list property matches when it contains the value. Works with or without search text.
+   *         example: element:water
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *         description: Locale for names, descriptions and interpretations, falling back to the base language, then the original text
+   *         example: es
    *     responses:
    *       200:
    *         description: List of symbols
@@ -94,14 +226,29 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *                   items:
    *                     $ref: '#/components/schemas/Symbol'
    *                 pagination:
+   *                   $ref: '#/components/schemas/Pagination'
+   *                 facets:
    *                   type: object
+   *                   description: For searches and category listings, counts over all matches by category, tag, property value and interpretation context, most common first
    *                   properties:
-   *                     limit:
-   *                       type: integer
-   *                     offset:
-   *                       type: integer
-   *                     total:
-   *                       type: integer
+   *                     categories:
+   *                       type: array
+   *                       items:
+   *                         $ref: '#/components/schemas/FacetCount'
+   *                     tags:
+   *                       type: array
+   *                       items:
+   *                         $ref: '#/components/schemas/FacetCount'
+   *                     properties:
+   *                       type: object
+   *                       additionalProperties:
+   *                         type: array
+   *                         items:
+   *                           $ref: '#/components/schemas/FacetCount'
+   *                     interpretation_contexts:
+   *                       type: array
+   *                       items:
+   *                         $ref: '#/components/schemas/FacetCount'
    *       400:
    *         description: Invalid query parameters
    *         content:
@@ -112,19 +259,52 @@ export function createSymbolRoutes(database: IDatabase): Router {
   router.get('/', validateRequest({ query: QuerySymbolsSchema }), async (req, res) => {
     try {
       const query = req.query as unknown as z.infer<typeof QuerySymbolsSchema>;
-      const { limit, offset, category, search } = query;
+      const { limit, offset, cursor, sort, order, category, search, mode, locale } = query;
+      const sorting = { ...(sort && { sort }), ...(order && { order }) };
+      const filters: SearchOptions = {
+        ...(query.interpretation_context && { interpretationContext: query.interpretation_context }),
+        ...(query.interpretation_text && { interpretationText: query.interpretation_text }),
+        ...(query.property && { properties: parsePropertyFilter(query.property) }),
+      };
 
       let result;
-      if (search) {
-        result = await database.searchSymbols(search, { limit, offset });
+      let suggestions: SearchSuggestion[] = [];
+      let facets: SymbolFacets | undefined;
+      if (query.q) {
+        const parsed = parseSymbolQuery(query.q);
+        if (!parsed.success || !parsed.data) {
+          return res.status(400).json({
+            success: false,
+            error: `Invalid query: ${parsed.error?.message ?? 'unknown syntax error'}`,
+          });
+        }
+        result = await database.querySymbols(withQueryParams(parsed.data, category, search, filters), { limit, offset, ...(cursor && { cursor }), ...sorting });
+      } else if (search || hasJsonFilters(filters)) {
+        const searchResult = await searchService.searchSymbols(search ?? '', {
+          limit,
+          offset,
+          ...(cursor && { cursor }),
+          ...sorting,
+          mode,
+          ...(category && { category }),
+          ...filters,
+        });
+        suggestions = searchResult.data?.did_you_mean ?? [];
+        facets = searchResult.data?.facets;
+        result = { ...searchResult, data: searchResult.data?.symbols };
       } else if (category) {
-        result = await database.filterByCategory(category, { limit, offset });
+        result = await database.filterByCategory(category, { limit, offset, ...(cursor && { cursor }), ...sorting });
+        const facetResult = await database.getCategoryFacets(category);
+        facets = facetResult.data;
+        if (!facetResult.success) {
+          result = { success: false, error: facetResult.error };
+        }
       } else {
-        result = await database.getSymbols({ limit, offset });
+        result = await database.getSymbols({ limit, offset, ...(cursor && { cursor }), ...sorting });
       }
 
       if (!result.success) {
-        return res.status(500).json({
+        return res.status(result.error?.message.includes('Invalid cursor') ? 400 : 500).json({
           success: false,
           error: result.error?.message || 'Failed to retrieve symbols',
         });
@@ -132,19 +312,26 @@ export function createSymbolRoutes(database: IDatabase): Router {
 
       return res.json({
         success: true,
-        data: result.data,
+        data: locale ? result.data?.map((symbol) => localizeSymbol(symbol, locale)) : result.data,
         pagination: {
           limit,
-          offset,
+          ...(cursor ? { cursor } : { offset }),
           count: result.data?.length || 0,
+          ...result.page,
         },
         query: {
+          ...(query.q && { q: query.q }),
           ...(category && { category }),
-          ...(search && { search }),
+          ...(search && { search, mode }),
+          ...(query.interpretation_context && { interpretation_context: query.interpretation_context }),
+          ...(query.interpretation_text && { interpretation_text: query.interpretation_text }),
+          ...(filters.properties && { properties: filters.properties }),
         },
+        ...(suggestions.length > 0 && { did_you_mean: suggestions }),
+        ...(facets && { facets }),
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -164,6 +351,12 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *         schema:
    *           type: string
    *         description: Symbol ID
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *         description: Locale for names, descriptions and interpretations, falling back to the base language, then the original text
+   *         example: es
    *     responses:
    *       200:
    *         description: Symbol details
@@ -184,12 +377,12 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  router.get('/:id', async (req, res) => {
+  router.get('/:id', validateRequest({ query: GetSymbolQuerySchema }), async (req, res) => {
     try {
-      const { id } = req.params;
+      const id = req.params.id ?? '';
+      const { locale } = req.query as unknown as z.infer<typeof GetSymbolQuerySchema>;
 
-      // Search for the specific symbol
-      const result = await database.searchSymbols(id, { limit: 1 });
+      const result = await database.getSymbol(id);
 
       if (!result.success) {
         return res.status(500).json({
@@ -198,7 +391,7 @@ export function createSymbolRoutes(database: IDatabase): Router {
         });
       }
 
-      const symbol = result.data?.find(s => s.id === id);
+      const symbol = result.data;
       if (!symbol) {
         return res.status(404).json({
           success: false,
@@ -206,12 +399,12 @@ export function createSymbolRoutes(database: IDatabase): Router {
         });
       }
 
-      res.json({
+      return res.json({
         success: true,
-        data: symbol,
+        data: locale ? localizeSymbol(symbol, locale) : symbol,
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -273,7 +466,7 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *                 data:
    *                   $ref: '#/components/schemas/Symbol'
    *       400:
-   *         description: Invalid input data
+   *         description: Invalid input data, or properties that break the category's property schema
    *         content:
    *           application/json:
    *             schema:
@@ -285,7 +478,7 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  router.post('/', validateRequest({ body: CreateSymbolSchema }), async (req, res) => {
+  router.post('/', validateRequest({ body: CreateSymbolSchema }), validatePropertySchema(database), async (req, res) => {
     try {
       const symbolData = req.body as z.infer<typeof CreateSymbolSchema>;
 
@@ -299,12 +492,12 @@ export function createSymbolRoutes(database: IDatabase): Router {
         });
       }
 
-      res.status(201).json({
+      return res.status(201).json({
         success: true,
         data: result.data,
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -362,7 +555,7 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *                 data:
    *                   $ref: '#/components/schemas/Symbol'
    *       400:
-   *         description: Invalid input data
+   *         description: Invalid input data, or properties that break the category's property schema
    *         content:
    *           application/json:
    *             schema:
@@ -374,9 +567,9 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  router.put('/:id', validateRequest({ body: UpdateSymbolSchema }), async (req, res) => {
+  router.put('/:id', validateRequest({ body: UpdateSymbolSchema }), validatePropertySchema(database), async (req, res) => {
     try {
-      const { id } = req.params;
+      const id = req.params.id ?? '';
       const updates = req.body as z.infer<typeof UpdateSymbolSchema>;
 
       const result = await database.updateSymbol(id, updates);
@@ -389,12 +582,12 @@ export function createSymbolRoutes(database: IDatabase): Router {
         });
       }
 
-      res.json({
+      return res.json({
         success: true,
         data: result.data,
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -443,7 +636,7 @@ export function createSymbolRoutes(database: IDatabase): Router {
    */
   router.delete('/:id', async (req, res) => {
     try {
-      const { id } = req.params;
+      const id = req.params.id ?? '';
       const cascade = req.query.cascade === 'true';
 
       const result = await database.deleteSymbol(id, cascade);
@@ -456,12 +649,12 @@ export function createSymbolRoutes(database: IDatabase): Router {
         });
       }
 
-      res.json({
+      return res.json({
         success: true,
         message: `Symbol "${id}" deleted successfully${cascade ? ' with cascade cleanup' : ''}`,
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -491,7 +684,7 @@ export function createSymbolRoutes(database: IDatabase): Router {
    *                     type: string
    *                   example: ["mathematical", "spiritual", "ancient"]
    */
-  router.get('/meta/categories', async (req, res) => {
+  router.get('/meta/categories', async (_req, res) => {
     try {
       const result = await database.getCategories();
 
@@ -502,13 +695,13 @@ export function createSymbolRoutes(database: IDatabase): Router {
         });
       }
 
-      res.json({
+      return res.json({
         success: true,
         data: result.data,
         count: result.data?.length || 0,
       });
     } catch (error) {
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createTagRoutes } from './tags.js';
+
+describe('tag routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use('/api/tags', createTagRoutes(new DemoDatabase()));
+  });
+
+  it('lists tags with symbol counts', async () => {
+    const response = await request(app).get('/api/tags');
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toContainEqual({ tag: 'initiation', count: 2 });
+  });
+
+  it('filters symbols carrying all of the tags', async () => {
+    const response = await request(app)
+      .get('/api/tags/symbols')
+      .query({ tags: 'initiation,quest', match: 'all' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((symbol: { id: string }) => symbol.id)).toEqual(['labyrinth']);
+  });
+});
@@ -0,0 +1,176 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { localizeSymbol } from '@/database/locales.js';
+import { PROVENANCE_ORIGINS, SORT_FIELDS, SORT_ORDERS } from '@/types/Symbol.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for tag operations
+ */
+const TaggedSymbolsQuerySchema = z.object({
+  tags: z.string()
+    .min(1, 'At least one tag is required')
+    .transform((value) => value.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0)),
+  match: z.enum(['any', 'all']).default('any'),
+  exclude_origins: z.string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((origin) => origin.trim()) : undefined))
+    .pipe(z.array(z.enum(PROVENANCE_ORIGINS)).optional()),
+  limit: z.coerce.number().min(1).max(1000).default(50),
+  offset: z.coerce.number().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(SORT_FIELDS).optional(),
+  order: z.enum(SORT_ORDERS).optional(),
+  locale: z.string().min(2).max(35).optional(),
+});
+
+/**
+ * Create tag routes
+ */
+export function createTagRoutes(database: IDatabase): Router {
+  const router = Router();
+
+  /**
+   * @swagger
+   * /api/tags:
+   *   get:
+   *     summary: List every tag in use with the number of symbols carrying it, most used first
+   *     tags: [Tags]
+   *     responses:
+   *       200:
+   *         description: Tags with symbol counts
+   */
+  router.get('/', async (_req, res) => {
+    try {
+      const result = await database.getTags();
+
+      if (!result.success) {
+        res.status(500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to retrieve tags',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/tags/symbols:
+   *   get:
+   *     summary: List symbols carrying any or all of the given tags
+   *     tags: [Tags]
+   *     parameters:
+   *       - in: query
+   *         name: tags
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Comma-separated tags
+   *         example: flow,time
+   *       - in: query
+   *         name: match
+   *         schema:
+   *           type: string
+   *           enum: [any, all]
+   *           default: any
+   *       - in: query
+   *         name: exclude_origins
+   *         schema:
+   *           type: string
+   *         description: Comma-separated origins (human, ai, import) to leave out; symbols of unknown origin are kept
+   *         example: ai
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 1000
+   *           default: 50
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           default: 0
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: next_cursor from the previous page's pagination, to read the page after it; takes precedence over offset
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           enum: [name, created_at, updated_at, relevance, relation_count, set_weight]
+   *         description: Order of the symbols; relation_count is the relationships from a symbol and set_weight its total weight across symbol sets. Defaults to name
+   *       - in: query
+   *         name: order
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *         description: Sort direction; defaults to asc for name and desc for everything else
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *         description: Locale for names, descriptions and interpretations, falling back to the base language, then the original text
+   *         example: es
+   *     responses:
+   *       200:
+   *         description: Matching symbols
+   */
+  router.get('/symbols', validateRequest({ query: TaggedSymbolsQuerySchema }), async (req, res) => {
+    try {
+      const query = req.query as unknown as z.infer<typeof TaggedSymbolsQuerySchema>;
+      const { tags, match, limit, offset, cursor, sort, order, exclude_origins, locale } = query;
+
+      const result = await database.filterByTags(tags, {
+        match,
+        limit,
+        offset,
+        ...(cursor && { cursor }),
+        ...(sort && { sort }),
+        ...(order && { order }),
+        ...(exclude_origins && { excludeOrigins: exclude_origins }),
+      });
+
+      if (!result.success) {
+        res.status(result.error?.message.includes('Invalid cursor') ? 400 : 500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to filter symbols by tags',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: locale ? result.data?.map((symbol) => localizeSymbol(symbol, locale)) : result.data,
+        pagination: {
+          limit,
+          ...(cursor ? { cursor } : { offset }),
+          count: result.data?.length ?? 0,
+          ...result.page,
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
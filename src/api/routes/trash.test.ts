@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { createTrashRoutes } from './trash.js';
+
+describe('trash routes', () => {
+  let app: express.Application;
+  let database: DemoDatabase;
+
+  beforeEach(async () => {
+    database = new DemoDatabase();
+    await database.deleteSymbol('river');
+    app = express();
+    app.use(express.json());
+    app.use('/api/trash', createTrashRoutes(database));
+  });
+
+  it('lists deleted symbols', async () => {
+    const response = await request(app).get('/api/trash').query({ limit: 10 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.map((symbol: { id: string }) => symbol.id)).toEqual(['river']);
+    expect(response.body.pagination).toMatchObject({ limit: 10, total: 1 });
+  });
+
+  it('purges deleted symbols older than the given age', async () => {
+    const kept = await request(app).delete('/api/trash').query({ older_than_days: 1 });
+
+    expect(kept.status).toBe(200);
+    expect((await database.getDeletedSymbols()).data).toHaveLength(1);
+
+    const purged = await request(app).delete('/api/trash');
+
+    expect(purged.status).toBe(200);
+    expect((await database.getDeletedSymbols()).data).toHaveLength(0);
+  });
+});
@@ -0,0 +1,268 @@
+import { Router, type Response } from 'express';
+import { z } from 'zod';
+import type { IDatabase } from '@/database/Database.js';
+import { localizeSymbol } from '@/database/locales.js';
+import { DAY_MS, SORT_FIELDS, SORT_ORDERS } from '@/types/Symbol.js';
+import { validateRequest } from '../middleware/validation.js';
+
+/**
+ * Validation schemas for trash operations
+ */
+const QueryTrashSchema = z.object({
+  limit: z.coerce.number().min(1).max(1000).default(50),
+  offset: z.coerce.number().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  sort: z.enum(SORT_FIELDS).optional(),
+  order: z.enum(SORT_ORDERS).optional(),
+  locale: z.string().min(2).max(35).optional(),
+});
+
+const RestoreSymbolSchema = z.object({
+  actor: z.string().max(255).default('api'),
+  summary: z.string().max(500).optional(),
+}).default({});
+
+const PurgeQuerySchema = z.object({
+  older_than_days: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * Create trash routes for deleted symbols
+ */
+export function createTrashRoutes(database: IDatabase): Router {
+  const router = Router();
+
+  /**
+   * Purge matching symbols and send the response
+   */
+  const purge = async (res: Response, id?: string, olderThanDays?: number): Promise<void> => {
+    const result = await database.purgeDeleted({
+      ...(id && { id }),
+      ...(olderThanDays !== undefined && {
+        deletedBefore: new Date(Date.now() - olderThanDays * DAY_MS),
+      }),
+    });
+
+    if (!result.success) {
+      const statusCode = result.error?.message.includes('not in the trash') ? 404 : 500;
+      res.status(statusCode).json({
+        success: false,
+        error: result.error?.message ?? 'Failed to purge deleted symbols',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.data,
+      message: `Permanently removed ${result.data?.length ?? 0} symbol(s) from the trash`,
+    });
+  };
+
+  /**
+   * @swagger
+   * /api/trash:
+   *   get:
+   *     summary: List deleted symbols, most recently deleted first
+   *     tags: [Trash]
+   *     parameters:
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 1000
+   *           default: 50
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *           default: 0
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *         description: next_cursor from the previous page's pagination, to read the page after it; takes precedence over offset
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           enum: [name, created_at, updated_at, relevance, relation_count, set_weight]
+   *         description: Order of the symbols; defaults to most recently deleted first
+   *       - in: query
+   *         name: order
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *         description: Sort direction; defaults to asc for name and desc for everything else
+   *       - in: query
+   *         name: locale
+   *         schema:
+   *           type: string
+   *         description: Locale for names, descriptions and interpretations, falling back to the base language, then the original text
+   *         example: es
+   *     responses:
+   *       200:
+   *         description: List of deleted symbols with their deletion time
+   */
+  router.get('/', validateRequest({ query: QueryTrashSchema }), async (req, res) => {
+    try {
+      const { limit, offset, cursor, sort, order, locale } = req.query as unknown as z.infer<typeof QueryTrashSchema>;
+
+      const result = await database.getDeletedSymbols({
+        limit,
+        offset,
+        ...(cursor && { cursor }),
+        ...(sort && { sort }),
+        ...(order && { order }),
+      });
+
+      if (!result.success) {
+        res.status(result.error?.message.includes('Invalid cursor') ? 400 : 500).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to retrieve deleted symbols',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: locale ? result.data?.map((symbol) => localizeSymbol(symbol, locale)) : result.data,
+        pagination: {
+          limit,
+          ...(cursor ? { cursor } : { offset }),
+          count: result.data?.length ?? 0,
+          ...result.page,
+        },
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/trash/{id}/restore:
+   *   post:
+   *     summary: Bring a deleted symbol back, with the relationships removed when it was deleted
+   *     tags: [Trash]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               actor:
+   *                 type: string
+   *                 default: api
+   *               summary:
+   *                 type: string
+   *                 example: 'Deleted by mistake'
+   *     responses:
+   *       200:
+   *         description: Restored symbol
+   *       400:
+   *         description: Symbol is not deleted
+   *       404:
+   *         description: Symbol not found
+   */
+  router.post('/:id/restore', validateRequest({ body: RestoreSymbolSchema }), async (req, res) => {
+    try {
+      const id = req.params.id ?? '';
+      const { actor, summary } = req.body as z.infer<typeof RestoreSymbolSchema>;
+
+      const result = await database.restoreSymbol(id, { actor, ...(summary && { summary }) });
+
+      if (!result.success) {
+        const statusCode = result.error?.message.includes('not found') ? 404 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error?.message ?? 'Failed to restore symbol',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.data,
+        message: `Symbol "${id}" restored successfully`,
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/trash:
+   *   delete:
+   *     summary: Permanently remove deleted symbols; revision history is kept
+   *     tags: [Trash]
+   *     parameters:
+   *       - in: query
+   *         name: older_than_days
+   *         schema:
+   *           type: integer
+   *           minimum: 0
+   *         description: Only purge symbols deleted more than this many days ago
+   *     responses:
+   *       200:
+   *         description: IDs of the purged symbols
+   */
+  router.delete('/', validateRequest({ query: PurgeQuerySchema }), async (req, res) => {
+    try {
+      const { older_than_days } = req.query as unknown as z.infer<typeof PurgeQuerySchema>;
+
+      await purge(res, undefined, older_than_days);
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  /**
+   * @swagger
+   * /api/trash/{id}:
+   *   delete:
+   *     summary: Permanently remove one deleted symbol; revision history is kept
+   *     tags: [Trash]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: ID of the purged symbol
+   *       404:
+   *         description: Symbol is not in the trash
+   */
+  router.delete('/:id', async (req, res) => {
+    try {
+      await purge(res, req.params.id ?? '');
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return router;
+}
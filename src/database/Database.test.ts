@@ -3,23 +3,95 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { Symbol, SymbolSet } from "@/types/Symbol.js";
 
 import { type IDatabase, PrismaDatabase } from "./Database.js";
+import { DemoDatabase } from "./DemoDatabase.js";
+import { embedText } from "./embeddings.js";
+import { encodeCursor } from "./pagination.js";
 
 // Mock Prisma Client
 const mockPrismaClient = {
   $connect: vi.fn(),
   $disconnect: vi.fn(),
   $queryRaw: vi.fn(),
+  $executeRaw: vi.fn(),
+  $transaction: vi.fn(),
   symbol: {
     findMany: vi.fn(),
     findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    count: vi.fn(),
+    update: vi.fn(),
+  },
+  symbolRelationship: {
+    findMany: vi.fn(),
+    deleteMany: vi.fn(),
+    createMany: vi.fn(),
+  },
+  symbolEmbedding: {
+    upsert: vi.fn(),
+  },
+  revision: {
+    aggregate: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+    findFirst: vi.fn(),
   },
   symbolSet: {
     findMany: vi.fn(),
+    count: vi.fn(),
+    update: vi.fn(),
+  },
+  category: {
+    findMany: vi.fn(),
+  },
+  propertySchema: {
+    findFirst: vi.fn(),
+    upsert: vi.fn(),
+    delete: vi.fn(),
+  },
+};
+
+// Aliases and citations are loaded with every symbol
+const symbolInclude = {
+  aliases: {
+    select: { label: true, language: true },
+    orderBy: { label: "asc" },
+  },
+  citations: {
+    select: {
+      source_title: true,
+      author: true,
+      url: true,
+      isbn: true,
+      page: true,
+      confidence: true,
+      interpretation: true,
+    },
+    orderBy: [
+      { interpretation: { sort: "asc", nulls: "first" } },
+      { source_title: "asc" },
+    ],
   },
 };
 
+type Fragment = { strings: readonly string[]; values: unknown[] };
+
+/** Text of a Prisma.sql fragment, nested fragments inlined and values as ? */
+const sqlText = ({ strings, values }: Fragment): string =>
+  strings.reduce((text, part, index) => {
+    const value = values[index - 1];
+    const inlined =
+      value && typeof value === "object" && "strings" in value ? sqlText(value as Fragment) : "?";
+    return `${text}${inlined}${part}`;
+  });
+
+vi.mock("child_process", () => ({ execSync: vi.fn() }));
+
 vi.mock("@prisma/client", () => ({
   PrismaClient: vi.fn(() => mockPrismaClient),
+  Prisma: {
+    sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({ strings, values }),
+    join: (values: unknown[], separator: string) => ({ values, separator }),
+  },
 }));
 
 describe("Database Layer", () => {
@@ -130,6 +202,8 @@ describe("Database Layer", () => {
         expect(result.success).toBe(true);
         expect(result.data).toEqual([mockSymbol]);
         expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith({
+          where: { deleted_at: null },
+          include: symbolInclude,
           take: 50,
           skip: 0,
           orderBy: { name: "asc" },
@@ -142,12 +216,85 @@ describe("Database Layer", () => {
         await database.getSymbols({ limit: 10, offset: 20 });
 
         expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith({
+          where: { deleted_at: null },
+          include: symbolInclude,
           take: 10,
           skip: 20,
           orderBy: { name: "asc" },
         });
       });
 
+      it("should leave out excluded origins but keep symbols of unknown origin", async () => {
+        mockPrismaClient.symbol.findMany.mockResolvedValue([]);
+
+        await database.getSymbols({ excludeOrigins: ["ai"] });
+
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: {
+              deleted_at: null,
+              AND: [{ OR: [{ origin: null }, { origin: { notIn: ["ai"] } }] }],
+            },
+          })
+        );
+      });
+
+      it("should report the total and a cursor for the next page", async () => {
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+        mockPrismaClient.symbol.count.mockResolvedValue(120);
+
+        const first = await database.getSymbols();
+        const next = first.page?.next_cursor ?? "";
+        await database.getSymbols({ cursor: next });
+
+        expect(first.page).toEqual({ total: 120, has_more: true, next_cursor: encodeCursor(50) });
+        expect(mockPrismaClient.symbol.count).toHaveBeenCalledWith({ where: { deleted_at: null } });
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenLastCalledWith(
+          expect.objectContaining({ take: 50, skip: 50 })
+        );
+      });
+
+      it("should sort by a timestamp with name and id as tie-breakers", async () => {
+        mockPrismaClient.symbol.findMany.mockResolvedValue([]);
+
+        await database.getSymbols({ sort: "updated_at" });
+
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            orderBy: [{ updated_at: "desc" }, { name: "asc" }, { id: "asc" }],
+          })
+        );
+      });
+
+      it("should rank by relation count in SQL over the matching ids", async () => {
+        mockPrismaClient.symbol.findMany
+          .mockResolvedValueOnce([{ id: "test-symbol-1" }, { id: "test-symbol-2" }])
+          .mockResolvedValueOnce([mockSymbol]);
+        mockPrismaClient.$queryRaw.mockResolvedValue([{ id: "test-symbol-1", score: null }]);
+
+        const result = await database.getSymbols({ sort: "relation_count", order: "asc", limit: 1 });
+
+        expect(result.data).toEqual([mockSymbol]);
+        expect(result.page).toEqual({ total: 2, has_more: true, next_cursor: encodeCursor(1) });
+        const [, ids, order, limit] = mockPrismaClient.$queryRaw.mock.calls[0] as [
+          string[],
+          string[],
+          Fragment,
+          number,
+        ];
+        expect(ids).toEqual(["test-symbol-1", "test-symbol-2"]);
+        expect(sqlText(order)).toMatch(/FROM symbol_relationships[\s\S]*\) ASC NULLS LAST, symbols\.name ASC/);
+        expect(limit).toBe(1);
+      });
+
+      it("should reject a cursor it did not issue", async () => {
+        const result = await database.getSymbols({ cursor: "not-a-cursor" });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Invalid cursor "not-a-cursor"');
+        expect(mockPrismaClient.symbol.findMany).not.toHaveBeenCalled();
+      });
+
       it("should handle database errors gracefully", async () => {
         mockPrismaClient.symbol.findMany.mockRejectedValue(
           new Error("Database error")
@@ -170,11 +317,30 @@ describe("Database Layer", () => {
         expect(result.data).toEqual(mockSymbol);
         expect(mockPrismaClient.symbol.findUnique).toHaveBeenCalledWith({
           where: { id: "test-symbol-1" },
+          include: symbolInclude,
+        });
+      });
+
+      it("should resolve an alias to the canonical symbol", async () => {
+        mockPrismaClient.symbol.findUnique.mockResolvedValue(null);
+        mockPrismaClient.symbol.findFirst.mockResolvedValue(mockSymbol);
+
+        const result = await database.getSymbol("Test Alias");
+
+        expect(result.data).toEqual(mockSymbol);
+        expect(mockPrismaClient.symbol.findFirst).toHaveBeenCalledWith({
+          where: {
+            deleted_at: null,
+            aliases: { some: { label: { equals: "Test Alias", mode: "insensitive" } } },
+          },
+          include: symbolInclude,
+          orderBy: { name: "asc" },
         });
       });
 
       it("should return null when symbol is not found", async () => {
         mockPrismaClient.symbol.findUnique.mockResolvedValue(null);
+        mockPrismaClient.symbol.findFirst.mockResolvedValue(null);
 
         const result = await database.getSymbol("missing-symbol");
 
@@ -195,34 +361,258 @@ describe("Database Layer", () => {
     });
 
     describe("searchSymbols", () => {
-      it("should search symbols by query", async () => {
-        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+      /** The ranking query's SQL, order, paging and the match subquery it ranks */
+      const rankingQuery = () => {
+        const [strings, matches, order, limit, offset] = mockPrismaClient.$queryRaw.mock.calls[0] as [
+          string[],
+          Fragment,
+          Fragment,
+          number,
+          number,
+        ];
+        return { sql: strings.join("?"), matches, order: sqlText(order), limit, offset };
+      };
+
+      it("should rank matches on the search vector and return them with their score", async () => {
+        const otherSymbol = { ...mockSymbol, id: "test-symbol-2", name: "Other Test" };
+        mockPrismaClient.$queryRaw.mockResolvedValue([
+          { id: "test-symbol-2", score: 0.60793 },
+          { id: "test-symbol-1", score: 0.1 },
+        ]);
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol, otherSymbol]);
 
-        const result = await database.searchSymbols("test");
+        const result = await database.searchSymbols("Test symbols!");
 
         expect(result.success).toBe(true);
-        expect(result.data).toEqual([mockSymbol]);
+        const highlighted = {
+          matched_fields: ["name", "category", "description", "interpretations.test"],
+          highlights: [
+            { field: "description", snippet: "A **test** symbol" },
+            { field: "interpretations.test", snippet: "**test** interpretation" },
+          ],
+        };
+        expect(result.data).toEqual([
+          { ...otherSymbol, score: 0.6079, ...highlighted },
+          { ...mockSymbol, score: 0.1, ...highlighted },
+        ]);
+        const { sql, matches, order, limit, offset } = rankingQuery();
+        expect(sql).toContain("JOIN symbols ON symbols.id = matches.id");
+        expect(order).toBe("matches.score DESC NULLS LAST, symbols.name ASC, symbols.id ASC");
+        expect(matches.strings.join("?")).toContain("ts_rank(symbols.search_vector, query)");
+        expect(matches.values).toEqual(["test:* & symbols:*", expect.anything()]);
+        expect([limit, offset]).toEqual([50, 0]);
         expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith({
-          where: {
-            OR: [
-              { name: { contains: "test", mode: "insensitive" } },
-              { description: { contains: "test", mode: "insensitive" } },
-              { category: { contains: "test", mode: "insensitive" } },
-            ],
-          },
-          take: 50,
-          skip: 0,
-          orderBy: { name: "asc" },
+          where: { id: { in: ["test-symbol-2", "test-symbol-1"] } },
+          include: symbolInclude,
         });
       });
 
+      it.each([
+        ["the", ["infinity", "mandala", "ouroboros"]],
+        ["flowing", ["river"]],
+        ["cycle", ["ouroboros"]],
+      ])("should match %s as an unstemmed word prefix, as the demo database does", async (text, ids) => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+        const demo = await new DemoDatabase().searchSymbols(text);
+        await database.searchSymbols(text);
+
+        const { matches } = rankingQuery();
+        expect(matches.strings.join("?")).toContain("to_tsquery('simple', ?)");
+        expect(matches.values[0]).toBe(`${text}:*`);
+        expect(demo.data?.map((symbol) => symbol.id).sort()).toEqual(ids);
+      });
+
       it("should handle empty search results", async () => {
-        mockPrismaClient.symbol.findMany.mockResolvedValue([]);
+        mockPrismaClient.$queryRaw.mockResolvedValue([]);
 
         const result = await database.searchSymbols("nonexistent");
 
         expect(result.success).toBe(true);
         expect(result.data).toEqual([]);
+        expect(mockPrismaClient.symbol.findMany).not.toHaveBeenCalled();
+      });
+
+      it("should match names and aliases by trigram similarity in fuzzy mode", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([{ id: "test-symbol-1", score: 0.5 }]);
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+
+        const result = await database.searchSymbols("tset symbl", { mode: "fuzzy", limit: 5 });
+
+        expect(result.data).toEqual([
+          { ...mockSymbol, score: 0.5, matched_fields: ["name"], highlights: [] },
+        ]);
+        const { matches, limit } = rankingQuery();
+        expect(matches.strings.join("?")).toContain("similarity(symbols.name, ?)");
+        expect(matches.values).toEqual(["tset symbl", "tset symbl", expect.anything(), "tset symbl", "tset symbl"]);
+        expect(limit).toBe(5);
+      });
+
+      it("should order the matches by another field when asked", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+        await database.searchSymbols("water", { sort: "created_at", order: "asc" });
+
+        expect(rankingQuery().order).toBe(
+          "symbols.created_at ASC NULLS LAST, symbols.name ASC, symbols.id ASC"
+        );
+      });
+
+      it("should narrow the search by interpretation and property filters", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+        await database.searchSymbols("water", {
+          interpretationContext: "dream",
+          interpretationText: "100%",
+          properties: { element: "water" },
+        });
+
+        const [, filter] = rankingQuery().matches.values as [string, Fragment];
+        const [, , , interpretation, properties] = filter.values as [unknown, unknown, unknown, Fragment, Fragment];
+        expect(interpretation.strings.join("?")).toContain(
+          `jsonb_path_query(entry.value, 'strict $.** ? (@.type() == "string")') AS leaf`
+        );
+        expect(interpretation.values).toEqual(["dream", "dream", "%100\\%%", "dream", "dream", "%100\\%%"]);
+        expect(properties.values).toEqual(['{"element":"water"}']);
+      });
+
+      it("should narrow the search to a category", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+        await database.searchSymbols("water", { category: "flow" });
+
+        const [, filter] = rankingQuery().matches.values as [string, Fragment];
+        expect(filter.values.slice(0, 3)).toEqual([[], "flow", "flow"]);
+      });
+
+      it("should list filter matches by name when there are no search words", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([{ id: "test-symbol-1", score: null }]);
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+
+        const result = await database.searchSymbols("", { properties: { element: "water" } });
+
+        expect(result.data).toEqual([
+          { ...mockSymbol, matched_fields: ["properties.element"], highlights: [] },
+        ]);
+        expect(rankingQuery().matches.strings.join("?")).toContain("NULL::float8 AS score");
+      });
+
+      it("should not query for a search without words", async () => {
+        const result = await database.searchSymbols("?!");
+
+        expect(result.data).toEqual([]);
+        expect(mockPrismaClient.$queryRaw).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("facets", () => {
+      it("should count facets over every search match and order them by count", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([
+          { facet: "category", key: null, value: "journey", count: 4 },
+          { facet: "category", key: null, value: "transformation", count: 12 },
+          { facet: "tag", key: null, value: "flow", count: 2 },
+          { facet: "property", key: "element", value: "water", count: 3 },
+          { facet: "interpretation_context", key: null, value: "dream", count: 16 },
+        ]);
+
+        const result = await database.getSearchFacets("test", { category: "journey" });
+
+        expect(result.data).toEqual({
+          categories: [
+            { value: "transformation", count: 12 },
+            { value: "journey", count: 4 },
+          ],
+          tags: [{ value: "flow", count: 2 }],
+          properties: { element: [{ value: "water", count: 3 }] },
+          interpretation_contexts: [{ value: "dream", count: 16 }],
+        });
+        const [strings, matches] = mockPrismaClient.$queryRaw.mock.calls[0] as [string[], { strings: string[] }];
+        expect(strings.join("?")).toContain("jsonb_object_keys(matched.interpretations)");
+        expect(matches.strings.join("?")).toContain("SELECT matches.id FROM");
+      });
+
+      it("should count facets over every symbol in a category", async () => {
+        mockPrismaClient.symbol.findMany.mockResolvedValue([{ id: "a" }, { id: "b" }]);
+        mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+        const result = await database.getCategoryFacets("journey");
+
+        expect(result.data?.categories).toEqual([]);
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith({
+          where: { category: { equals: "journey", mode: "insensitive" }, deleted_at: null },
+          select: { id: true },
+        });
+        const [, matches] = mockPrismaClient.$queryRaw.mock.calls[0] as [string[], { values: unknown[] }];
+        expect(matches.values).toEqual([["a", "b"]]);
+      });
+    });
+
+    describe("querySymbols", () => {
+      it("should translate the parsed query into SQL and load the matches by name", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([{ id: "test-symbol-1", score: null }]);
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+
+        const result = await database.querySymbols(
+          {
+            type: "and",
+            clauses: [
+              { type: "field", field: "category", value: "journey" },
+              { type: "not", clause: { type: "text", text: "maze" } },
+            ],
+          },
+          { limit: 10 }
+        );
+
+        expect(result.data).toEqual([mockSymbol]);
+        const [, matches, order, limit, offset] = mockPrismaClient.$queryRaw.mock.calls[0] as [
+          string[],
+          { values: [unknown, { values: Array<{ values: Array<{ strings: string[]; values: unknown[] }>; separator: string }> }] },
+          Fragment,
+          number,
+          number,
+        ];
+        expect(sqlText(order)).toBe("symbols.name ASC, symbols.id ASC");
+        const [clauses] = matches.values[1].values;
+        expect(clauses?.separator).toBe(" AND ");
+        expect(clauses?.values[0]?.strings.join("?")).toBe("LOWER(symbols.category) = LOWER(?)");
+        expect(clauses?.values[0]?.values).toEqual(["journey"]);
+        expect(clauses?.values[1]?.strings.join("?")).toBe("NOT COALESCE(?, false)");
+        expect([limit, offset]).toEqual([10, 0]);
+      });
+    });
+
+    describe("findSimilarSymbols", () => {
+      it("should rank stored vectors by similarity to the text's vector", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([{ id: "test-symbol-1", score: 0.4321 }]);
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+
+        const result = await database.findSimilarSymbols({ text: "rebirth" }, { limit: 5 });
+
+        expect(result.data).toEqual([{ ...mockSymbol, score: 0.4321 }]);
+        const [, matches, order, limit, offset] = mockPrismaClient.$queryRaw.mock.calls[0] as [
+          string[],
+          { strings: string[]; values: [number[], unknown, string | null, number] },
+          Fragment,
+          number,
+          number,
+        ];
+        const [vector, , sourceId] = matches.values;
+        expect(matches.strings.join("?")).toContain("JOIN symbol_embeddings");
+        expect(vector).toEqual(embedText("rebirth"));
+        expect(sourceId).toBeNull();
+        expect(sqlText(order)).toBe("matches.score DESC NULLS LAST, symbols.name ASC, symbols.id ASC");
+        expect([limit, offset]).toEqual([5, 0]);
+      });
+
+      it("should report a missing symbol", async () => {
+        mockPrismaClient.symbol.findFirst.mockResolvedValue(null);
+        mockPrismaClient.symbol.findUnique.mockResolvedValue(null);
+
+        const result = await database.findSimilarSymbols({ symbolId: "phoenix" });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Symbol with ID "phoenix" not found');
+        expect(mockPrismaClient.$queryRaw).not.toHaveBeenCalled();
       });
     });
 
@@ -235,12 +625,98 @@ describe("Database Layer", () => {
         expect(result.success).toBe(true);
         expect(result.data).toEqual([mockSymbol]);
         expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith({
-          where: { category: "test" },
+          where: { category: { equals: "test", mode: "insensitive" }, deleted_at: null },
+          include: symbolInclude,
           take: 50,
           skip: 0,
           orderBy: { name: "asc" },
         });
       });
+
+      it("should include descendant categories when asked", async () => {
+        mockPrismaClient.category.findMany.mockResolvedValue([
+          { id: "esoteric", parent_id: null },
+          { id: "alchemical", parent_id: "esoteric" },
+          { id: "transformation", parent_id: "alchemical" },
+          { id: "historical", parent_id: null },
+        ]);
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+
+        await database.filterByCategory("esoteric", { includeDescendants: true });
+
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: {
+              category: {
+                in: ["esoteric", "alchemical", "transformation"],
+                mode: "insensitive",
+              },
+              deleted_at: null,
+            },
+          })
+        );
+      });
+
+      it("should match the category ignoring case", async () => {
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+
+        await database.filterByCategory("Esoteric");
+
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: {
+              category: { equals: "Esoteric", mode: "insensitive" },
+              deleted_at: null,
+            },
+          })
+        );
+      });
+
+      it("should find descendants of a category given in another case", async () => {
+        mockPrismaClient.category.findMany.mockResolvedValue([
+          { id: "esoteric", parent_id: null },
+          { id: "alchemical", parent_id: "esoteric" },
+          { id: "historical", parent_id: null },
+        ]);
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+
+        await database.filterByCategory("ESOTERIC", { includeDescendants: true });
+
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: {
+              category: { in: ["esoteric", "alchemical"], mode: "insensitive" },
+              deleted_at: null,
+            },
+          })
+        );
+      });
+    });
+
+    describe("filterByTags", () => {
+      it("should match any of the normalized tags by default", async () => {
+        mockPrismaClient.symbol.findMany.mockResolvedValue([mockSymbol]);
+
+        await database.filterByTags([" Flow", "time"]);
+
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: { tags: { hasSome: ["flow", "time"] }, deleted_at: null },
+          })
+        );
+      });
+
+      it("should require every tag in all mode", async () => {
+        mockPrismaClient.symbol.findMany.mockResolvedValue([]);
+
+        await database.filterByTags(["flow", "time"], { match: "all" });
+
+        expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: { tags: { hasEvery: ["flow", "time"] }, deleted_at: null },
+          })
+        );
+      });
     });
 
     describe("getCategories", () => {
@@ -255,7 +731,7 @@ describe("Database Layer", () => {
         expect(result.success).toBe(true);
         expect(result.data).toEqual(["test", "demo"]);
         expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith({
-          where: { category: { not: null } },
+          where: { category: { not: null }, deleted_at: null },
           select: { category: true },
           distinct: ["category"],
           orderBy: { category: "asc" },
@@ -275,6 +751,63 @@ describe("Database Layer", () => {
         expect(result.data).toEqual(["test", "demo"]);
       });
     });
+
+    describe("suggest", () => {
+      it("should match the prefix at word starts and rank the candidates", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([
+          { value: "serpent eating its tail", kind: "alias", symbol_id: "ouroboros" },
+          { value: "tail_50%", kind: "id", symbol_id: "tail_50%" },
+        ]);
+
+        const result = await database.suggest(" Tail_50% ", { kinds: ["id", "alias"], limit: 5 });
+
+        expect(result.data?.map((suggestion) => suggestion.value)).toEqual(["tail_50%"]);
+        const [strings, ...values] = mockPrismaClient.$queryRaw.mock.calls[0] as [string[], ...unknown[]];
+        expect(strings.join("?")).toContain("WHERE symbols.deleted_at IS NULL");
+        expect(values).toEqual([
+          "Tail_50%",
+          "Tail\\_50\\%%",
+          ["id", "alias"],
+          "Tail\\_50\\%%",
+          "% Tail\\_50\\%%",
+          20,
+        ]);
+      });
+
+      it("should fetch only the best few candidates", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+        await database.suggest("", { limit: 3 });
+
+        const [strings, ...values] = mockPrismaClient.$queryRaw.mock.calls[0] as [string[], ...unknown[]];
+        const sql = strings.join("?");
+        expect(sql).toContain("SELECT DISTINCT ON (candidates.kind, candidates.symbol_id, LOWER(candidates.value))");
+        expect(sql).toContain("ORDER BY matches.rank, LOWER(matches.value)");
+        expect(sql).toMatch(/LIMIT \?\s*$/);
+        expect(values.at(-1)).toBe(12);
+      });
+
+      it("should limit the suggestions only after removing duplicates", async () => {
+        mockPrismaClient.$queryRaw.mockResolvedValue([
+          { value: "Journey", kind: "category", symbol_id: null },
+          { value: "journey", kind: "category", symbol_id: null },
+          { value: "Journal", kind: "name", symbol_id: "journal" },
+        ]);
+
+        const result = await database.suggest("jour", { limit: 2 });
+
+        expect(result.data?.map((suggestion) => suggestion.value)).toEqual(["Journal", "journey"]);
+      });
+
+      it("should fail when the query fails", async () => {
+        mockPrismaClient.$queryRaw.mockRejectedValue(new Error("Query failed"));
+
+        const result = await database.suggest("tail");
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe("Query failed");
+      });
+    });
   });
 
   describe("SymbolSet Operations", () => {
@@ -319,6 +852,28 @@ describe("Database Layer", () => {
           orderBy: { name: "asc" },
         });
       });
+
+      it("should sort by creation time", async () => {
+        mockPrismaClient.symbolSet.findMany.mockResolvedValue([]);
+
+        await database.getSymbolSets({ sort: "created_at", order: "asc" });
+
+        expect(mockPrismaClient.symbolSet.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            orderBy: [{ created_at: "asc" }, { name: "asc" }, { id: "asc" }],
+          })
+        );
+      });
+
+      it("should reject orders that only apply to symbols", async () => {
+        const result = await database.getSymbolSets({ sort: "set_weight" });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe(
+          "Symbol sets cannot be sorted by set_weight; use name, created_at, updated_at"
+        );
+        expect(mockPrismaClient.symbolSet.findMany).not.toHaveBeenCalled();
+      });
     });
 
     describe("searchSymbolSets", () => {
@@ -345,6 +900,275 @@ describe("Database Layer", () => {
     });
   });
 
+  describe("Schema initialization", () => {
+    type StoredSymbol = { id: string; name: string; related_symbols: string[]; deleted_at: Date | null };
+    type StoredRelationship = { id: string; source_id: string; target_id: string; relation_type: string };
+
+    let symbols: StoredSymbol[];
+    let relationships: StoredRelationship[];
+
+    beforeEach(async () => {
+      symbols = [
+        { id: "key", name: "Key", related_symbols: ["labyrinth"], deleted_at: null },
+        { id: "labyrinth", name: "Labyrinth", related_symbols: ["mirror"], deleted_at: null },
+        { id: "mirror", name: "Mirror", related_symbols: [], deleted_at: null },
+      ];
+      relationships = [
+        { id: "r1", source_id: "key", target_id: "labyrinth", relation_type: "related" },
+        { id: "r2", source_id: "labyrinth", target_id: "mirror", relation_type: "related" },
+      ];
+
+      // Just enough of the tables for deleting a symbol and initializing
+      mockPrismaClient.$transaction.mockImplementation((work: (tx: unknown) => unknown) => work(mockPrismaClient));
+      mockPrismaClient.symbol.findUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+        symbols.find((symbol) => symbol.id === where.id)
+      );
+      mockPrismaClient.symbol.findMany.mockImplementation(
+        ({ where = {} }: { where?: { deleted_at?: null; id?: { in: string[] } } } = {}) =>
+          symbols.filter(
+            (symbol) =>
+              (where.deleted_at !== null || symbol.deleted_at === null) &&
+              (!where.id || where.id.in.includes(symbol.id))
+          )
+      );
+      mockPrismaClient.symbol.update.mockImplementation(
+        ({ where, data }: { where: { id: string }; data: Partial<StoredSymbol> }) =>
+          Object.assign(symbols.find((symbol) => symbol.id === where.id) ?? {}, data)
+      );
+      mockPrismaClient.symbolRelationship.findMany.mockImplementation(({ where }: { where: { source_id: string } }) =>
+        relationships.filter((relationship) => relationship.source_id === where.source_id)
+      );
+      mockPrismaClient.symbolRelationship.deleteMany.mockImplementation(({ where }: { where: { id: { in: string[] } } }) => {
+        relationships = relationships.filter((relationship) => !where.id.in.includes(relationship.id));
+      });
+      mockPrismaClient.symbolRelationship.createMany.mockImplementation(
+        ({ data }: { data: Omit<StoredRelationship, "id">[] }) => {
+          const added = data.filter(
+            (link) =>
+              !relationships.some(
+                (relationship) =>
+                  relationship.source_id === link.source_id && relationship.target_id === link.target_id
+              )
+          );
+          relationships.push(...added.map((link, index) => ({ ...link, id: `new-${index}` })));
+          return { count: added.length };
+        }
+      );
+      mockPrismaClient.revision.aggregate.mockResolvedValue({ _max: { version: null } });
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+      mockPrismaClient.$connect.mockResolvedValue(undefined);
+      await database.connect();
+    });
+
+    afterEach(() => {
+      for (const mock of [
+        mockPrismaClient.$transaction,
+        mockPrismaClient.symbol.findUnique,
+        mockPrismaClient.symbol.findMany,
+        mockPrismaClient.symbol.update,
+        mockPrismaClient.symbolRelationship.findMany,
+        mockPrismaClient.symbolRelationship.deleteMany,
+        mockPrismaClient.symbolRelationship.createMany,
+      ]) {
+        mock.mockReset();
+      }
+    });
+
+    it("should not bring back a trashed symbol's relationships", async () => {
+      await database.deleteSymbol("key");
+      await database.initializeSchema();
+
+      expect(symbols.find((symbol) => symbol.id === "key")?.related_symbols).toEqual(["labyrinth"]);
+      expect(relationships.map((relationship) => relationship.id)).toEqual(["r2"]);
+      expect(mockPrismaClient.symbol.findMany).toHaveBeenCalledWith({
+        where: { deleted_at: null },
+        select: { id: true, related_symbols: true },
+      });
+    });
+  });
+
+  describe("Trash", () => {
+    const mandala = { id: "mandala", name: "Mandala", related_symbols: [] as string[] };
+
+    beforeEach(async () => {
+      mockPrismaClient.$transaction.mockImplementation((work: (tx: unknown) => unknown) => work(mockPrismaClient));
+      mockPrismaClient.symbolRelationship.findMany.mockResolvedValue([]);
+      mockPrismaClient.symbol.findMany.mockResolvedValue([]);
+      mockPrismaClient.revision.aggregate.mockResolvedValue({ _max: { version: null } });
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+      mockPrismaClient.$connect.mockResolvedValue(undefined);
+      await database.connect();
+    });
+
+    afterEach(() => {
+      mockPrismaClient.$transaction.mockReset();
+    });
+
+    it("should record the set memberships a cascade delete removes", async () => {
+      mockPrismaClient.symbol.findUnique.mockResolvedValue({ ...mandala, deleted_at: null });
+      mockPrismaClient.symbolSet.findMany.mockResolvedValue([
+        { id: "cycles-of-change", symbols: { ouroboros: { weight: 1.0 }, mandala: { weight: 0.7 } } },
+      ]);
+
+      await database.deleteSymbol("mandala", true);
+
+      expect(mockPrismaClient.symbolSet.update).toHaveBeenCalledWith({
+        where: { id: "cycles-of-change" },
+        data: { symbols: { ouroboros: { weight: 1.0 } }, updated_at: expect.any(Date) },
+      });
+      expect(mockPrismaClient.revision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entity_id: "mandala",
+          action: "delete",
+          removed_memberships: [{ set_id: "cycles-of-change", weight: 0.7 }],
+        }),
+      });
+    });
+
+    it("should put a restored symbol back in the sets a cascade removed it from", async () => {
+      mockPrismaClient.symbol.findUnique.mockResolvedValue({ ...mandala, deleted_at: new Date() });
+      mockPrismaClient.revision.findFirst.mockResolvedValue({
+        removed_relationships: [],
+        removed_memberships: [
+          { set_id: "cycles-of-change", weight: 0.7 },
+          { set_id: "deleted-set", weight: 0.5 },
+        ],
+      });
+      mockPrismaClient.symbol.update.mockResolvedValue({ ...mandala, deleted_at: null });
+      mockPrismaClient.symbolRelationship.createMany.mockResolvedValue({ count: 0 });
+      mockPrismaClient.symbolSet.findMany.mockResolvedValue([
+        { id: "cycles-of-change", symbols: { ouroboros: { weight: 1.0 } } },
+      ]);
+
+      const result = await database.restoreSymbol("mandala");
+
+      expect(result.success).toBe(true);
+      expect(mockPrismaClient.symbolSet.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ["cycles-of-change", "deleted-set"] } },
+      });
+      expect(mockPrismaClient.symbolSet.update).toHaveBeenCalledTimes(1);
+      expect(mockPrismaClient.symbolSet.update).toHaveBeenCalledWith({
+        where: { id: "cycles-of-change" },
+        data: {
+          symbols: { ouroboros: { weight: 1.0 }, mandala: { weight: 0.7 } },
+          updated_at: expect.any(Date),
+        },
+      });
+    });
+  });
+
+  describe("Symmetric relations", () => {
+    beforeEach(async () => {
+      mockPrismaClient.$transaction.mockImplementation((work: (tx: unknown) => unknown) => work(mockPrismaClient));
+      mockPrismaClient.revision.aggregate.mockResolvedValue({ _max: { version: null } });
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+      database = new PrismaDatabase({ symmetricRelations: true });
+      mockPrismaClient.$connect.mockResolvedValue(undefined);
+      await database.connect();
+    });
+
+    afterEach(() => {
+      mockPrismaClient.$transaction.mockReset();
+    });
+
+    it("should record back-links in the target's history", async () => {
+      mockPrismaClient.symbolRelationship.findMany.mockResolvedValue([
+        { source_id: "river", target_id: "key", relation_type: "opposes", weight: null, note: null },
+      ]);
+      mockPrismaClient.symbol.findMany.mockResolvedValue([{ id: "key", name: "Key", related_symbols: [] }]);
+      mockPrismaClient.symbolRelationship.createMany.mockResolvedValue({ count: 1 });
+
+      const result = await database.repairSymmetricRelationships();
+
+      expect(result.data).toBe(1);
+      expect(mockPrismaClient.revision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entity_id: "key",
+          changed_fields: ["related_symbols"],
+          summary: 'Linked back to "river"',
+        }),
+      });
+      expect(mockPrismaClient.symbol.update).toHaveBeenCalledWith({
+        where: { id: "key" },
+        data: { related_symbols: ["river"], updated_at: expect.any(Date) },
+      });
+      expect(mockPrismaClient.$executeRaw).toHaveBeenCalled();
+      expect(mockPrismaClient.symbolEmbedding.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { symbol_id: "key" } })
+      );
+    });
+  });
+
+  describe("Revisions", () => {
+    beforeEach(async () => {
+      mockPrismaClient.$transaction.mockImplementation((work: (tx: unknown) => unknown) => work(mockPrismaClient));
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+      mockPrismaClient.symbol.findMany.mockResolvedValue([]);
+
+      mockPrismaClient.$connect.mockResolvedValue(undefined);
+      await database.connect();
+    });
+
+    afterEach(() => {
+      mockPrismaClient.$transaction.mockReset();
+    });
+
+    it("should lock the symbol and number the revision after its latest version", async () => {
+      const key = { id: "key", name: "Key", related_symbols: [], deleted_at: null };
+      mockPrismaClient.symbol.findUnique.mockResolvedValue(key);
+      mockPrismaClient.symbol.update.mockResolvedValue({ ...key, name: "Old Key" });
+      mockPrismaClient.revision.aggregate.mockResolvedValue({ _max: { version: 4 } });
+
+      await database.updateSymbol("key", { name: "Old Key" });
+
+      const [strings, id] = mockPrismaClient.$queryRaw.mock.calls[0] as [string[], string];
+      expect(strings.join("?")).toBe("SELECT id FROM symbols WHERE id = ? FOR UPDATE");
+      expect(id).toBe("key");
+      expect(mockPrismaClient.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        mockPrismaClient.revision.aggregate.mock.invocationCallOrder[0] ?? 0
+      );
+      expect(mockPrismaClient.revision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ entity_id: "key", version: 5 }),
+      });
+    });
+  });
+
+  describe("Property schemas", () => {
+    beforeEach(async () => {
+      mockPrismaClient.$connect.mockResolvedValue(undefined);
+      await database.connect();
+    });
+
+    it("should look up a category's schema ignoring case", async () => {
+      mockPrismaClient.propertySchema.findFirst.mockResolvedValue({ category: "transformation" });
+
+      const result = await database.getPropertySchema("Transformation");
+
+      expect(result.data).toEqual({ category: "transformation" });
+      expect(mockPrismaClient.propertySchema.findFirst).toHaveBeenCalledWith({
+        where: { category: { equals: "Transformation", mode: "insensitive" } },
+      });
+    });
+
+    it("should replace a schema saved under another casing", async () => {
+      mockPrismaClient.propertySchema.findFirst.mockResolvedValue({ category: "transformation" });
+      mockPrismaClient.propertySchema.upsert.mockResolvedValue({ category: "Transformation" });
+
+      await database.setPropertySchema({
+        category: "Transformation",
+        properties: {},
+        allow_additional: true,
+      });
+
+      expect(mockPrismaClient.propertySchema.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { category: "transformation" } })
+      );
+    });
+  });
+
   describe("Error Handling", () => {
     it("should handle queries when not connected", async () => {
       const result = await database.getSymbols();
@@ -1,14 +1,339 @@
 import { PrismaClient, Prisma } from "@prisma/client";
 
-import type {
-  QueryOptions,
-  QueryResult,
-  Symbol,
-  SymbolSet,
+import {
+  SUGGESTION_KINDS,
+  SYMMETRIC_RELATION_TYPES,
+  type CategoryFilterOptions,
+  type Citation,
+  type CategoryTreeNode,
+  type ChangeContext,
+  type ExpandedSymbolSet,
+  type NeighborhoodOptions,
+  type PropertyFilter,
+  type PropertySchema,
+  type ProvenanceOrigin,
+  type PurgeOptions,
+  type QueryOptions,
+  type QueryResult,
+  type RelationshipQueryOptions,
+  type RemovedSetMembership,
+  type Revision,
+  type RevisionAction,
+  type RevisionEntityType,
+  type RevisionQueryOptions,
+  type SearchOptions,
+  type SimilarityTarget,
+  type SortOrder,
+  type Suggestion,
+  type SuggestOptions,
+  type Symbol,
+  type SymbolCategory,
+  type SymbolFacets,
+  type SymbolNeighborhood,
+  type SymbolRelationship,
+  type SymbolSet,
+  type SymbolQuery,
+  type SymbolSetQueryOptions,
+  type TagCount,
+  type TagFilterOptions,
 } from "@/types/Symbol.js";
+import {
+  changedFields,
+  restorableFields,
+  reverseLinkSummary,
+  summarizeChange,
+} from "@/database/revisions.js";
+import { normalizeAliases } from "@/database/aliases.js";
+import {
+  buildCategoryTree,
+  categoryWithDescendants,
+  createsCategoryCycle,
+} from "@/database/categories.js";
+import { memberWeight, resolveMembers, withMember, withoutMember } from "@/database/setMembers.js";
+import { countTags, normalizeTags } from "@/database/tags.js";
+import { normalizeTranslations } from "@/database/locales.js";
+import {
+  hasJsonFilters,
+  roundScore,
+  searchTerms,
+  toTsQuery,
+} from "@/database/search.js";
+import { citationError, normalizeCitations } from "@/database/provenance.js";
+import { buildFacets, type FacetRow } from "@/database/facets.js";
+import { highlightMatches } from "@/database/highlights.js";
+import {
+  embedSymbol,
+  embedText,
+  SIMILAR_PAGE_SIZE,
+  SIMILARITY_THRESHOLD,
+} from "@/database/embeddings.js";
+import { pageInfo, pageWindow, type PageWindow } from "@/database/pagination.js";
+import { resolveSetSort, resolveSort, type Sort } from "@/database/sorting.js";
+import { rankSuggestions, SUGGEST_LIMIT } from "@/database/suggest.js";
 
 /**
- * Database connection and query interface for the symbols ontology
+ * Behaviour switches shared by every database implementation
+ */
+export interface DatabaseOptions {
+  /**
+   * Keep symmetric relations (related, opposes, complements) two-way: creating,
+   * updating or deleting one side also writes the reverse link. Off by default.
+   */
+  symmetricRelations?: boolean;
+}
+
+/**
+ * Relations loaded with every symbol returned to callers or snapshotted
+ */
+const SYMBOL_INCLUDE = {
+  aliases: {
+    select: { label: true, language: true },
+    orderBy: { label: "asc" },
+  },
+  citations: {
+    select: {
+      source_title: true,
+      author: true,
+      url: true,
+      isbn: true,
+      page: true,
+      confidence: true,
+      interpretation: true,
+    },
+    orderBy: [
+      { interpretation: { sort: "asc", nulls: "first" } },
+      { source_title: "asc" },
+    ],
+  },
+} as const;
+
+/**
+ * Where clause leaving out symbols of the given origins. Symbols of unknown
+ * origin are kept, which a plain notIn would drop.
+ */
+function originFilter(excludeOrigins: ProvenanceOrigin[] = []): Prisma.SymbolWhereInput {
+  return excludeOrigins.length > 0
+    ? { AND: [{ OR: [{ origin: null }, { origin: { notIn: excludeOrigins } }] }] }
+    : {};
+}
+
+/**
+ * Escape LIKE wildcards so user text matches literally
+ */
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * SQL condition for an interpretation in the context (any context when null)
+ * containing the text, ignoring case; with no text, for the context existing.
+ * Strings nested in objects and arrays are matched one by one, as textValues
+ * does for the demo database.
+ */
+function interpretationFilterSql(context: string | null, text: string | null): Prisma.Sql {
+  const pattern = text === null ? null : `%${escapeLike(text)}%`;
+
+  return Prisma.sql`
+    (${context}::text IS NULL OR symbols.interpretations ? ${context})
+    AND (${pattern}::text IS NULL OR EXISTS (
+      SELECT 1
+      FROM jsonb_each(symbols.interpretations) AS entry,
+        jsonb_path_query(entry.value, 'strict $.** ? (@.type() == "string")') AS leaf
+      WHERE (${context}::text IS NULL OR entry.key = ${context})
+        AND leaf #>> '{}' ILIKE ${pattern}
+    ))
+  `;
+}
+
+/**
+ * SQL condition for every property value matching exactly, or as an element
+ * of a list-valued property
+ */
+function propertyFilterSql(properties: PropertyFilter): Prisma.Sql {
+  return Prisma.sql`
+    NOT EXISTS (
+      SELECT 1 FROM jsonb_each(${JSON.stringify(properties)}::jsonb) AS wanted
+      WHERE NOT COALESCE(
+        symbols.properties -> wanted.key = wanted.value
+          OR (jsonb_typeof(symbols.properties -> wanted.key) = 'array'
+            AND symbols.properties -> wanted.key @> jsonb_build_array(wanted.value)),
+        false
+      )
+    )
+  `;
+}
+
+/**
+ * SQL condition shared by every search query: live symbols outside the
+ * excluded origins, in the category when one is given, that pass the
+ * interpretation and property filters
+ */
+function searchFilterSql(options: SearchOptions): Prisma.Sql {
+  const { excludeOrigins = [], category = null } = options;
+
+  return Prisma.sql`
+    symbols.deleted_at IS NULL
+    AND (symbols.origin IS NULL OR NOT (symbols.origin = ANY(${excludeOrigins}::text[])))
+    AND (${category}::text IS NULL OR symbols.category = ${category})
+    AND ${interpretationFilterSql(options.interpretationContext ?? null, options.interpretationText ?? null)}
+    AND ${propertyFilterSql(options.properties ?? {})}
+  `;
+}
+
+/**
+ * SQL selecting the id, name and relevance score of every symbol a search
+ * matches, or null when it cannot match anything. Full-text mode ranks on the
+ * GIN-indexed search vector; fuzzy mode on trigram similarity to the name or
+ * any alias, above pg_trgm's threshold. Without search words the
+ * interpretation and property filters alone select the matches, unscored.
+ */
+function searchMatchSql(query: string, options: SearchOptions): Prisma.Sql | null {
+  const filter = searchFilterSql(options);
+  const terms = searchTerms(query);
+
+  if (terms.length === 0) {
+    return hasJsonFilters(options)
+      ? Prisma.sql`
+          SELECT symbols.id, symbols.name, NULL::float8 AS score
+          FROM symbols
+          WHERE ${filter}
+        `
+      : null;
+  }
+
+  if (options.mode === "fuzzy") {
+    return Prisma.sql`
+      SELECT symbols.id, symbols.name, GREATEST(
+        similarity(symbols.name, ${query}),
+        COALESCE(MAX(similarity(symbol_aliases.label, ${query})), 0)
+      ) AS score
+      FROM symbols
+      LEFT JOIN symbol_aliases ON symbol_aliases.symbol_id = symbols.id
+      WHERE ${filter}
+        AND (symbols.name % ${query} OR symbol_aliases.label % ${query})
+      GROUP BY symbols.id
+    `;
+  }
+
+  return Prisma.sql`
+    SELECT symbols.id, symbols.name, ts_rank(symbols.search_vector, query) AS score
+    FROM symbols, to_tsquery('simple', ${toTsQuery(terms)}) AS query
+    WHERE ${filter}
+      AND symbols.search_vector @@ query
+  `;
+}
+
+/**
+ * SQL condition for a parsed symbol query. NOT treats unknown (NULL) results
+ * as false, so it matches symbols missing the field the way the demo
+ * database does.
+ */
+function symbolQuerySql(query: SymbolQuery): Prisma.Sql {
+  switch (query.type) {
+    case "and":
+      return Prisma.sql`(${Prisma.join(query.clauses.map(symbolQuerySql), " AND ")})`;
+    case "or":
+      return Prisma.sql`(${Prisma.join(query.clauses.map(symbolQuerySql), " OR ")})`;
+    case "not":
+      return Prisma.sql`NOT COALESCE(${symbolQuerySql(query.clause)}, false)`;
+    case "field":
+      if (query.field === "tag") {
+        return Prisma.sql`${query.value} = ANY(symbols.tags)`;
+      }
+      return query.field === "category"
+        ? Prisma.sql`LOWER(symbols.category) = LOWER(${query.value})`
+        : Prisma.sql`symbols.origin = ${query.value}`;
+    case "property":
+      return Prisma.sql`(${propertyFilterSql({ [query.key]: query.value })})`;
+    case "interpretation":
+      return Prisma.sql`(${interpretationFilterSql(query.context, query.contains)})`;
+    case "text":
+      return Prisma.sql`symbols.search_vector @@ to_tsquery('simple', ${toTsQuery(searchTerms(query.text))})`;
+  }
+}
+
+/**
+ * Link between two symbols as far as reverse-link maintenance is concerned
+ */
+type RelationLink = Pick<SymbolRelationship, "source_id" | "target_id" | "relation_type"> &
+  Partial<Pick<SymbolRelationship, "weight" | "note">>;
+
+/**
+ * Sort keys that are not columns of the symbols table
+ */
+const RELATION_COUNT_SQL = Prisma.sql`(
+  SELECT COUNT(*) FROM symbol_relationships
+  WHERE symbol_relationships.source_id = symbols.id
+)`;
+
+// Members are stored as { weight } or, in older sets, as a bare number
+const SET_WEIGHT_SQL = Prisma.sql`COALESCE((
+  SELECT SUM(CASE
+    WHEN jsonb_typeof(symbol_sets.symbols -> symbols.id) = 'number'
+      THEN (symbol_sets.symbols ->> symbols.id)::float8
+    WHEN jsonb_typeof(symbol_sets.symbols -> symbols.id -> 'weight') = 'number'
+      THEN (symbol_sets.symbols -> symbols.id ->> 'weight')::float8
+    ELSE 0
+  END)
+  FROM symbol_sets
+  WHERE symbol_sets.symbols -> symbols.id IS NOT NULL
+), 0)`;
+
+/**
+ * ORDER BY over the symbols table, ties broken by name and then id. Relevance
+ * needs a scored matches query alongside; without one it falls back to name.
+ */
+function symbolOrderSql(sort: Sort, scored = false): Prisma.Sql {
+  // Ascending names need nothing beyond the tie-breakers
+  const keys: Record<Sort["field"], Prisma.Sql | null> = {
+    name: sort.order === "desc" ? Prisma.sql`symbols.name` : null,
+    created_at: Prisma.sql`symbols.created_at`,
+    updated_at: Prisma.sql`symbols.updated_at`,
+    relevance: scored ? Prisma.sql`matches.score` : null,
+    relation_count: RELATION_COUNT_SQL,
+    set_weight: SET_WEIGHT_SQL,
+  };
+  const key = keys[sort.field];
+
+  if (!key) {
+    return Prisma.sql`symbols.name ASC, symbols.id ASC`;
+  }
+  return sort.order === "asc"
+    ? Prisma.sql`${key} ASC NULLS LAST, symbols.name ASC, symbols.id ASC`
+    : Prisma.sql`${key} DESC NULLS LAST, symbols.name ASC, symbols.id ASC`;
+}
+
+/**
+ * Prisma orderBy for sorts on a column, or null for those that need SQL
+ */
+function columnOrderBy(sort: Sort): Record<string, SortOrder> | Array<Record<string, SortOrder>> | null {
+  switch (sort.field) {
+    case "name":
+      return { name: sort.order };
+    case "created_at":
+    case "updated_at":
+      return [{ [sort.field]: sort.order }, { name: "asc" }, { id: "asc" }];
+    case "relevance":
+      // Plain lists have no score to rank by
+      return { name: "asc" };
+    default:
+      return null;
+  }
+}
+
+function isSymmetricLink(link: RelationLink): boolean {
+  return (
+    link.source_id !== link.target_id &&
+    SYMMETRIC_RELATION_TYPES.includes(link.relation_type)
+  );
+}
+
+/**
+ * Database connection and query interface for the symbols ontology.
+ *
+ * Operations returning a page of a list take a limit with either an offset
+ * or the next_cursor of the previous page, and report the total and the next
+ * cursor in the result's page.
  */
 export interface IDatabase {
   /**
@@ -32,36 +357,143 @@ export interface IDatabase {
   getSymbols(options?: QueryOptions): Promise<QueryResult<Symbol[]>>;
 
   /**
-   * Get a symbol by ID
+   * Get a symbol by ID, or by one of its aliases (ignoring case) when no
+   * symbol has that ID
    */
   getSymbol(id: string): Promise<QueryResult<Symbol | null>>;
 
   /**
-   * Search symbols by text query
+   * Search symbols, most relevant first, each with its score. Full-text mode
+   * (the default) matches words across name, aliases, description, category
+   * and interpretations; fuzzy mode tolerates misspelled names and aliases.
    */
   searchSymbols(
     query: string,
+    options?: SearchOptions
+  ): Promise<QueryResult<Symbol[]>>;
+
+  /**
+   * Symbols closest in meaning to free text or to another symbol (which is
+   * left out), most similar first, each with its cosine similarity as score.
+   * Compares locally computed vectors that every write keeps up to date.
+   */
+  findSimilarSymbols(
+    target: SimilarityTarget,
+    options?: QueryOptions
+  ): Promise<QueryResult<Symbol[]>>;
+
+  /**
+   * Symbols matching a parsed symbol query (see parseSymbolQuery), by name
+   */
+  querySymbols(
+    query: SymbolQuery,
     options?: QueryOptions
   ): Promise<QueryResult<Symbol[]>>;
 
   /**
-   * Filter symbols by category
+   * Facet counts over every symbol searchSymbols matches with these options,
+   * ignoring limit and offset
+   */
+  getSearchFacets(
+    query: string,
+    options?: SearchOptions
+  ): Promise<QueryResult<SymbolFacets>>;
+
+  /**
+   * Filter symbols by category, optionally including its descendant categories
    */
   filterByCategory(
     category: string,
-    options?: QueryOptions
+    options?: CategoryFilterOptions
   ): Promise<QueryResult<Symbol[]>>;
 
+  /**
+   * Facet counts over every symbol filterByCategory matches with these
+   * options, ignoring limit and offset
+   */
+  getCategoryFacets(
+    category: string,
+    options?: CategoryFilterOptions
+  ): Promise<QueryResult<SymbolFacets>>;
+
   /**
    * Get all available categories
    */
   getCategories(): Promise<QueryResult<string[]>>;
 
+  /**
+   * Symbol IDs, names and aliases and categories that complete the prefix at
+   * their start or at the start of a word, whole matches first, then
+   * alphabetically. Trashed symbols are left out.
+   */
+  suggest(prefix: string, options?: SuggestOptions): Promise<QueryResult<Suggestion[]>>;
+
+  /**
+   * Filter symbols carrying any (default) or all of the given tags
+   */
+  filterByTags(
+    tags: string[],
+    options?: TagFilterOptions
+  ): Promise<QueryResult<Symbol[]>>;
+
+  /**
+   * Get every tag in use with the number of symbols carrying it, most used first
+   */
+  getTags(): Promise<QueryResult<TagCount[]>>;
+
+  /**
+   * Get the category taxonomy as a tree, siblings in display order
+   */
+  getCategoryTree(): Promise<QueryResult<CategoryTreeNode[]>>;
+
+  /**
+   * Add a category to the taxonomy under an existing parent
+   */
+  createCategory(category: Omit<SymbolCategory, 'created_at' | 'updated_at'>): Promise<QueryResult<SymbolCategory>>;
+
+  /**
+   * Update a category's description, display order or parent
+   */
+  updateCategory(id: string, updates: Partial<Omit<SymbolCategory, 'id' | 'created_at' | 'updated_at'>>): Promise<QueryResult<SymbolCategory>>;
+
+  /**
+   * Remove a category from the taxonomy. Its children move up to its parent;
+   * symbols keep their category name.
+   */
+  deleteCategory(id: string): Promise<QueryResult<boolean>>;
+
+  /**
+   * Get every category's property schema, ordered by category
+   */
+  getPropertySchemas(): Promise<QueryResult<PropertySchema[]>>;
+
+  /**
+   * Get the property schema for a category, or null when it has none
+   */
+  getPropertySchema(category: string): Promise<QueryResult<PropertySchema | null>>;
+
+  /**
+   * Create or replace the property schema for a category
+   */
+  setPropertySchema(schema: Omit<PropertySchema, 'created_at' | 'updated_at'>): Promise<QueryResult<PropertySchema>>;
+
+  /**
+   * Remove a category's property schema; its symbols' properties are no
+   * longer checked
+   */
+  deletePropertySchema(category: string): Promise<QueryResult<boolean>>;
+
   /**
    * Get symbol sets with optional pagination
    */
   getSymbolSets(options?: QueryOptions): Promise<QueryResult<SymbolSet[]>>;
 
+  /**
+   * Get a symbol set by ID, optionally with its members resolved to full
+   * symbol records and sorted by weight
+   */
+  getSymbolSet(id: string, options?: SymbolSetQueryOptions): Promise<QueryResult<ExpandedSymbolSet | null>>;
+
   /**
    * Search symbol sets by text query
    */
@@ -81,14 +513,32 @@ export interface IDatabase {
   createSymbol(symbol: Omit<Symbol, 'created_at' | 'updated_at'>): Promise<QueryResult<Symbol>>;
 
   /**
-   * Update an existing symbol
+   * Update an existing symbol, recording its prior version as a revision
+   */
+  updateSymbol(id: string, updates: Partial<Omit<Symbol, 'id' | 'created_at' | 'updated_at'>>, context?: ChangeContext): Promise<QueryResult<Symbol>>;
+
+  /**
+   * Move a symbol to the trash, recording its final version and the
+   * relationships removed with it as a revision. Cascading also removes it
+   * from other symbols' related_symbols and from every symbol set.
+   */
+  deleteSymbol(id: string, cascade?: boolean, context?: ChangeContext): Promise<QueryResult<boolean>>;
+
+  /**
+   * Get symbols in the trash, most recently deleted first
+   */
+  getDeletedSymbols(options?: QueryOptions): Promise<QueryResult<Symbol[]>>;
+
+  /**
+   * Bring a symbol back from the trash, re-linking the symbols that
+   * referenced it when it was deleted
    */
-  updateSymbol(id: string, updates: Partial<Omit<Symbol, 'id' | 'created_at' | 'updated_at'>>): Promise<QueryResult<Symbol>>;
+  restoreSymbol(id: string, context?: ChangeContext): Promise<QueryResult<Symbol>>;
 
   /**
-   * Delete a symbol by ID
+   * Permanently remove symbols from the trash, returning their IDs
    */
-  deleteSymbol(id: string, cascade?: boolean): Promise<QueryResult<boolean>>;
+  purgeDeleted(options?: PurgeOptions): Promise<QueryResult<string[]>>;
 
   /**
    * Create a new symbol set
@@ -96,9 +546,77 @@ export interface IDatabase {
   createSymbolSet(symbolSet: Omit<SymbolSet, 'created_at' | 'updated_at'>): Promise<QueryResult<SymbolSet>>;
 
   /**
-   * Update an existing symbol set
+   * Update an existing symbol set, recording its prior version as a revision
+   */
+  updateSymbolSet(id: string, updates: Partial<Omit<SymbolSet, 'id' | 'created_at' | 'updated_at'>>, context?: ChangeContext): Promise<QueryResult<SymbolSet>>;
+
+  /**
+   * Delete a symbol set, recording its final version as a revision
    */
-  updateSymbolSet(id: string, updates: Partial<Omit<SymbolSet, 'id' | 'created_at' | 'updated_at'>>): Promise<QueryResult<SymbolSet>>;
+  deleteSymbolSet(id: string, context?: ChangeContext): Promise<QueryResult<boolean>>;
+
+  /**
+   * Add an existing symbol to a symbol set with the given weight (default 1.0)
+   */
+  addSymbolToSet(setId: string, symbolId: string, weight?: number, context?: ChangeContext): Promise<QueryResult<SymbolSet>>;
+
+  /**
+   * Remove a symbol from a symbol set
+   */
+  removeSymbolFromSet(setId: string, symbolId: string, context?: ChangeContext): Promise<QueryResult<SymbolSet>>;
+
+  /**
+   * Change the weight of a symbol that is already in a symbol set
+   */
+  setMemberWeight(setId: string, symbolId: string, weight: number, context?: ChangeContext): Promise<QueryResult<SymbolSet>>;
+
+  /**
+   * Get typed relationships with optional symbol, direction and type filters
+   */
+  getRelationships(options?: RelationshipQueryOptions): Promise<QueryResult<SymbolRelationship[]>>;
+
+  /**
+   * Create a typed relationship between two existing symbols
+   */
+  createRelationship(relationship: Omit<SymbolRelationship, 'id' | 'created_at' | 'updated_at'>): Promise<QueryResult<SymbolRelationship>>;
+
+  /**
+   * Update the weight or note of an existing relationship
+   */
+  updateRelationship(id: string, updates: Partial<Pick<SymbolRelationship, 'weight' | 'note'>>): Promise<QueryResult<SymbolRelationship>>;
+
+  /**
+   * Delete a relationship by ID
+   */
+  deleteRelationship(id: string): Promise<QueryResult<boolean>>;
+
+  /**
+   * Get the relationships touching any of the given symbols, together with
+   * the symbols on the other end, in a single round trip
+   */
+  getNeighborhood(symbolIds: string[], options?: NeighborhoodOptions): Promise<QueryResult<SymbolNeighborhood>>;
+
+  /**
+   * Add the missing reverse link for every symmetric relationship, returning
+   * how many were created. Runs regardless of the symmetricRelations option.
+   */
+  repairSymmetricRelationships(): Promise<QueryResult<number>>;
+
+  /**
+   * Get stored revisions, newest first
+   */
+  getRevisions(options?: RevisionQueryOptions): Promise<QueryResult<Revision[]>>;
+
+  /**
+   * Get a revision by ID
+   */
+  getRevision(id: string): Promise<QueryResult<Revision | null>>;
+
+  /**
+   * Write a revision's snapshot back to its symbol or symbol set. The version
+   * being replaced is itself recorded, so a restore can be undone.
+   */
+  restoreRevision(id: string, context?: ChangeContext): Promise<QueryResult<Symbol | SymbolSet>>;
 }
 
 /**
@@ -106,9 +624,11 @@ export interface IDatabase {
  */
 export class PrismaDatabase implements IDatabase {
   private prisma: PrismaClient | null = null;
+  private readonly symmetricRelations: boolean;
 
-  constructor() {
+  constructor(options: DatabaseOptions = {}) {
     // Prisma client will be initialized in connect()
+    this.symmetricRelations = options.symmetricRelations ?? false;
   }
 
   async connect(): Promise<void> {
@@ -148,6 +668,17 @@ export class PrismaDatabase implements IDatabase {
         execSync("npx tsx prisma/seed.ts", { stdio: "inherit" });
       }
 
+      // Carry existing related_symbols over into typed relationships
+      const migration = await this.migrateRelatedSymbols();
+      if (!migration.success) {
+        throw migration.error ?? new Error("Relationship migration failed");
+      }
+
+      // Build search vectors and embeddings for symbols written outside this
+      // class, e.g. by the seed
+      await this.refreshSearchVectors(this.prisma);
+      await this.refreshEmbeddings(this.prisma);
+
       // eslint-disable-next-line no-console, no-undef
       console.error("✓ Database schema initialized successfully with Prisma");
     } catch (error) {
@@ -163,15 +694,9 @@ export class PrismaDatabase implements IDatabase {
         throw new Error("Database not connected");
       }
 
-      const { limit = 50, offset = 0 } = options;
-
-      const symbols = await this.prisma.symbol.findMany({
-        take: limit,
-        skip: offset,
-        orderBy: { name: "asc" },
-      });
+      const where = { deleted_at: null, ...originFilter(options.excludeOrigins) };
 
-      return { success: true, data: symbols as Symbol[] };
+      return await this.symbolPage(where, resolveSort(options), pageWindow(options));
     } catch (error) {
       return { success: false, error: error as Error };
     }
@@ -185,330 +710,2118 @@ export class PrismaDatabase implements IDatabase {
 
       const symbol = await this.prisma.symbol.findUnique({
         where: { id },
+        include: SYMBOL_INCLUDE,
       });
 
-      return { success: true, data: symbol as Symbol | null };
-    } catch (error) {
-      return { success: false, error: error as Error };
-    }
-  }
-
-  async searchSymbols(
-    query: string,
-    options: QueryOptions = {}
-  ): Promise<QueryResult<Symbol[]>> {
-    try {
-      if (!this.prisma) {
-        throw new Error("Database not connected");
+      // Symbols in the trash are invisible until restored
+      if (symbol && !symbol.deleted_at) {
+        return { success: true, data: symbol as Symbol };
       }
 
-      const { limit = 50, offset = 0 } = options;
-
-      const symbols = await this.prisma.symbol.findMany({
+      // Fall back to an alias, resolving it to the canonical symbol
+      const aliased = await this.prisma.symbol.findFirst({
         where: {
-          OR: [
-            { name: { contains: query, mode: "insensitive" } },
-            { description: { contains: query, mode: "insensitive" } },
-            { category: { contains: query, mode: "insensitive" } },
-          ],
+          deleted_at: null,
+          aliases: { some: { label: { equals: id.trim(), mode: "insensitive" } } },
         },
-        take: limit,
-        skip: offset,
+        include: SYMBOL_INCLUDE,
         orderBy: { name: "asc" },
       });
 
-      return { success: true, data: symbols as Symbol[] };
+      return { success: true, data: (aliased as Symbol | null) ?? null };
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async filterByCategory(
-    category: string,
-    options: QueryOptions = {}
+  async searchSymbols(
+    query: string,
+    options: SearchOptions = {}
   ): Promise<QueryResult<Symbol[]>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      const { limit = 50, offset = 0 } = options;
+      const window = pageWindow(options);
+      const matches = searchMatchSql(query, options);
+      if (!matches) {
+        return { success: true, data: [], page: pageInfo(0, window) };
+      }
 
-      const symbols = await this.prisma.symbol.findMany({
-        where: { category },
-        take: limit,
-        skip: offset,
-        orderBy: { name: "asc" },
-      });
+      // Rank the matches, then load the page of them whole
+      const ranked = (await this.prisma.$queryRaw`
+        SELECT matches.id, matches.score
+        FROM (${matches}) AS matches
+        JOIN symbols ON symbols.id = matches.id
+        ORDER BY ${symbolOrderSql(resolveSort(options, "relevance"), true)}
+        LIMIT ${window.limit} OFFSET ${window.offset}
+      `) as Array<{ id: string; score: number | null }>;
 
-      return { success: true, data: symbols as Symbol[] };
+      return {
+        success: true,
+        data: (await this.loadRanked(ranked)).map((symbol) => ({
+          ...symbol,
+          ...highlightMatches(symbol, query, options),
+        })),
+        page: pageInfo(await this.countMatches(matches), window),
+      };
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async getCategories(): Promise<QueryResult<string[]>> {
+  async getSearchFacets(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<QueryResult<SymbolFacets>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      const result = await this.prisma.symbol.findMany({
-        where: {
-          category: { not: null },
-        },
-        select: { category: true },
-        distinct: ["category"],
-        orderBy: { category: "asc" },
-      });
-
-      const categories = result
-        .map((item: { category: string | null }) => item.category)
-        .filter(
-          (category: string | null): category is string => category !== null
-        );
+      const matches = searchMatchSql(query, options);
+      if (!matches) {
+        return { success: true, data: buildFacets([]) };
+      }
 
-      return { success: true, data: categories };
+      return {
+        success: true,
+        data: await this.countFacets(Prisma.sql`SELECT matches.id FROM (${matches}) AS matches`),
+      };
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async getSymbolSets(
+  async findSimilarSymbols(
+    target: SimilarityTarget,
     options: QueryOptions = {}
-  ): Promise<QueryResult<SymbolSet[]>> {
+  ): Promise<QueryResult<Symbol[]>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      const { limit = 50, offset = 0 } = options;
+      const { excludeOrigins } = options;
+      const window = pageWindow(options, SIMILAR_PAGE_SIZE);
 
-      const symbolSets = await this.prisma.symbolSet.findMany({
-        take: limit,
-        skip: offset,
-        orderBy: { name: "asc" },
-      });
+      let vector: number[];
+      let sourceId: string | null = null;
+      if ("symbolId" in target) {
+        const source = await this.getSymbol(target.symbolId);
+        if (!source.success) {
+          return { success: false, error: source.error ?? new Error("Failed to load symbol") };
+        }
+        if (!source.data) {
+          return {
+            success: false,
+            error: new Error(`Symbol with ID "${target.symbolId}" not found`),
+          };
+        }
+        const stored = (await this.prisma.symbolEmbedding.findUnique({
+          where: { symbol_id: source.data.id },
+        })) as { vector: number[] } | null;
+        vector = stored?.vector ?? embedSymbol(source.data);
+        sourceId = source.data.id;
+      } else {
+        vector = embedText(target.text);
+      }
 
-      return { success: true, data: symbolSets as SymbolSet[] };
+      // Cosine similarity against every stored vector; both sides are unit length
+      const matches = Prisma.sql`
+        SELECT scored.id, scored.name, scored.score
+        FROM (
+          SELECT symbols.id, symbols.name, (
+            SELECT SUM(pair.stored * pair.wanted)
+            FROM unnest(symbol_embeddings.vector, ${vector}::float8[]) AS pair(stored, wanted)
+          ) AS score
+          FROM symbols
+          JOIN symbol_embeddings ON symbol_embeddings.symbol_id = symbols.id
+          WHERE ${searchFilterSql({ ...(excludeOrigins && { excludeOrigins }) })}
+            AND symbols.id IS DISTINCT FROM ${sourceId}
+        ) AS scored
+        WHERE scored.score >= ${SIMILARITY_THRESHOLD}
+      `;
+
+      const ranked = (await this.prisma.$queryRaw`
+        SELECT matches.id, matches.score
+        FROM (${matches}) AS matches
+        JOIN symbols ON symbols.id = matches.id
+        ORDER BY ${symbolOrderSql(resolveSort(options, "relevance"), true)}
+        LIMIT ${window.limit} OFFSET ${window.offset}
+      `) as Array<{ id: string; score: number }>;
+
+      return {
+        success: true,
+        data: await this.loadRanked(ranked),
+        page: pageInfo(await this.countMatches(matches), window),
+      };
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async searchSymbolSets(
-    query: string,
+  async querySymbols(
+    query: SymbolQuery,
     options: QueryOptions = {}
-  ): Promise<QueryResult<SymbolSet[]>> {
+  ): Promise<QueryResult<Symbol[]>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      const { limit = 50, offset = 0 } = options;
+      const { excludeOrigins } = options;
+      const window = pageWindow(options);
 
-      const symbolSets = await this.prisma.symbolSet.findMany({
-        where: {
-          OR: [
-            { name: { contains: query, mode: "insensitive" } },
-            { description: { contains: query, mode: "insensitive" } },
-            { category: { contains: query, mode: "insensitive" } },
-          ],
-        },
-        take: limit,
-        skip: offset,
-        orderBy: { name: "asc" },
-      });
+      const matches = Prisma.sql`
+        SELECT symbols.id, symbols.name
+        FROM symbols
+        WHERE ${searchFilterSql({ ...(excludeOrigins && { excludeOrigins }) })}
+          AND ${symbolQuerySql(query)}
+      `;
 
-      return { success: true, data: symbolSets as SymbolSet[] };
+      const ranked = (await this.prisma.$queryRaw`
+        SELECT matches.id, NULL::float8 AS score
+        FROM (${matches}) AS matches
+        JOIN symbols ON symbols.id = matches.id
+        ORDER BY ${symbolOrderSql(resolveSort(options))}
+        LIMIT ${window.limit} OFFSET ${window.offset}
+      `) as Array<{ id: string; score: number | null }>;
+
+      return {
+        success: true,
+        data: await this.loadRanked(ranked),
+        page: pageInfo(await this.countMatches(matches), window),
+      };
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async healthCheck(): Promise<
-    QueryResult<{ status: string; timestamp: Date }>
-  > {
-    try {
-      if (!this.prisma) {
-        throw new Error("Database not connected");
-      }
+  /**
+   * Number of rows the matches query selects
+   */
+  private async countMatches(matches: Prisma.Sql): Promise<number> {
+    if (!this.prisma) {
+      return 0;
+    }
 
-      // Simple query to test connection
-      await this.prisma.$queryRaw`SELECT 1`;
+    const [row] = (await this.prisma.$queryRaw`
+      SELECT COUNT(*)::int AS total FROM (${matches}) AS matches
+    `) as Array<{ total: number }>;
+    return Number(row?.total ?? 0);
+  }
+
+  /**
+   * Full symbol records for search hits, in rank order with their scores
+   * (left off for filter-only matches, which are not ranked)
+   */
+  private async loadRanked(ranked: Array<{ id: string; score: number | null }>): Promise<Symbol[]> {
+    if (!this.prisma || ranked.length === 0) {
+      return [];
+    }
+
+    const symbols = (await this.prisma.symbol.findMany({
+      where: { id: { in: ranked.map((row) => row.id) } },
+      include: SYMBOL_INCLUDE,
+    })) as Symbol[];
+    const byId = new Map(symbols.map((symbol) => [symbol.id, symbol]));
+
+    return ranked.flatMap(({ id, score }) => {
+      const symbol = byId.get(id);
+      if (!symbol) {
+        return [];
+      }
+      return score === null ? [symbol] : [{ ...symbol, score: roundScore(Number(score)) }];
+    });
+  }
+
+  /**
+   * Page of the symbols matching the where clause, in the given order. Sorts
+   * Prisma cannot express are ranked in SQL over the matching ids.
+   */
+  private async symbolPage(
+    where: Prisma.SymbolWhereInput,
+    sort: Sort,
+    window: PageWindow,
+    orderBy = columnOrderBy(sort)
+  ): Promise<QueryResult<Symbol[]>> {
+    if (!this.prisma) {
+      throw new Error("Database not connected");
+    }
+
+    if (orderBy) {
+      const [symbols, total] = await Promise.all([
+        this.prisma.symbol.findMany({
+          where,
+          include: SYMBOL_INCLUDE,
+          take: window.limit,
+          skip: window.offset,
+          orderBy,
+        }),
+        this.prisma.symbol.count({ where }),
+      ]);
+
+      return { success: true, data: symbols as Symbol[], page: pageInfo(total, window) };
+    }
+
+    const matches = (await this.prisma.symbol.findMany({
+      where,
+      select: { id: true },
+    })) as Array<{ id: string }>;
+    const ids = matches.map((symbol) => symbol.id);
+
+    const ranked = (await this.prisma.$queryRaw`
+      SELECT symbols.id, NULL::float8 AS score
+      FROM symbols
+      WHERE symbols.id = ANY(${ids}::text[])
+      ORDER BY ${symbolOrderSql(sort)}
+      LIMIT ${window.limit} OFFSET ${window.offset}
+    `) as Array<{ id: string; score: number | null }>;
+
+    return { success: true, data: await this.loadRanked(ranked), page: pageInfo(ids.length, window) };
+  }
+
+  async filterByCategory(
+    category: string,
+    options: CategoryFilterOptions = {}
+  ): Promise<QueryResult<Symbol[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const window = pageWindow(options);
+      const where = await this.categoryWhere(category, options);
+
+      return await this.symbolPage(where, resolveSort(options), window);
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getCategoryFacets(
+    category: string,
+    options: CategoryFilterOptions = {}
+  ): Promise<QueryResult<SymbolFacets>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const matches = (await this.prisma.symbol.findMany({
+        where: await this.categoryWhere(category, options),
+        select: { id: true },
+      })) as Array<{ id: string }>;
+      const ids = matches.map((symbol) => symbol.id);
 
       return {
         success: true,
-        data: {
-          status: "healthy",
-          timestamp: new Date(),
+        data: await this.countFacets(Prisma.sql`SELECT unnest(${ids}::text[]) AS id`),
+      };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  /**
+   * Where clause for the live symbols in a category, or in it and its
+   * descendants, ignoring case as the demo database does
+   */
+  private async categoryWhere(
+    category: string,
+    options: CategoryFilterOptions
+  ): Promise<Prisma.SymbolWhereInput> {
+    const { includeDescendants = false, excludeOrigins } = options;
+
+    let categoryFilter: Prisma.StringNullableFilter = { equals: category, mode: "insensitive" };
+    if (includeDescendants && this.prisma) {
+      const categories = (await this.prisma.category.findMany({
+        select: { id: true, parent_id: true },
+      })) as Pick<SymbolCategory, "id" | "parent_id">[];
+      const declared = categories.find((item) => item.id.toLowerCase() === category.toLowerCase());
+      categoryFilter = {
+        in: categoryWithDescendants(categories, declared?.id ?? category),
+        mode: "insensitive",
+      };
+    }
+
+    return { category: categoryFilter, deleted_at: null, ...originFilter(excludeOrigins) };
+  }
+
+  /**
+   * Facet counts over the symbols whose ids the matches query selects.
+   * List-valued properties count each element once per symbol.
+   */
+  private async countFacets(matches: Prisma.Sql): Promise<SymbolFacets> {
+    if (!this.prisma) {
+      return buildFacets([]);
+    }
+
+    const rows = (await this.prisma.$queryRaw`
+      WITH matched AS (
+        SELECT symbols.* FROM symbols
+        JOIN (${matches}) AS matches ON matches.id = symbols.id
+      )
+      SELECT 'category' AS facet, NULL::text AS key, matched.category::text AS value, COUNT(*)::int AS count
+      FROM matched
+      WHERE matched.category IS NOT NULL
+      GROUP BY matched.category
+      UNION ALL
+      SELECT 'tag', NULL, tag, COUNT(*)::int
+      FROM matched, unnest(matched.tags) AS tag
+      GROUP BY tag
+      UNION ALL
+      SELECT 'interpretation_context', NULL, context, COUNT(*)::int
+      FROM matched, jsonb_object_keys(matched.interpretations) AS context
+      GROUP BY context
+      UNION ALL
+      SELECT 'property', property.key, item.value #>> '{}', COUNT(DISTINCT matched.id)::int
+      FROM matched,
+        jsonb_each(matched.properties) AS property,
+        jsonb_array_elements(
+          CASE jsonb_typeof(property.value)
+            WHEN 'array' THEN property.value
+            ELSE jsonb_build_array(property.value)
+          END
+        ) AS item(value)
+      WHERE jsonb_typeof(item.value) IN ('string', 'number', 'boolean')
+      GROUP BY property.key, item.value #>> '{}'
+    `) as FacetRow[];
+
+    return buildFacets(rows);
+  }
+
+  async getCategories(): Promise<QueryResult<string[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const result = await this.prisma.symbol.findMany({
+        where: {
+          category: { not: null },
+          deleted_at: null,
         },
+        select: { category: true },
+        distinct: ["category"],
+        orderBy: { category: "asc" },
+      });
+
+      const categories = result
+        .map((item: { category: string | null }) => item.category)
+        .filter(
+          (category: string | null): category is string => category !== null
+        );
+
+      return { success: true, data: categories };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async suggest(prefix: string, options: SuggestOptions = {}): Promise<QueryResult<Suggestion[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const { kinds = [...SUGGESTION_KINDS], limit = SUGGEST_LIMIT } = options;
+      const needle = prefix.trim();
+      const atStart = `${escapeLike(needle)}%`;
+      const atWord = `% ${escapeLike(needle)}%`;
+
+      // Categories come from the taxonomy and from symbols outside it. SQL
+      // drops case variants and keeps the best matches, a few times more than
+      // asked for so rankSuggestions, which orders, dedupes and limits them the
+      // same way as the demo database, is not cut short by collation order
+      const candidates = (await this.prisma.$queryRaw`
+        SELECT matches.value, matches.kind, matches.symbol_id
+        FROM (
+          SELECT DISTINCT ON (candidates.kind, candidates.symbol_id, LOWER(candidates.value))
+            candidates.value,
+            candidates.kind,
+            candidates.symbol_id,
+            CASE
+              WHEN LOWER(candidates.value) = LOWER(${needle}) THEN 0
+              WHEN candidates.value ILIKE ${atStart} THEN 1
+              ELSE 2
+            END AS rank
+          FROM (
+            SELECT symbols.id AS value, 'id' AS kind, symbols.id AS symbol_id
+            FROM symbols WHERE symbols.deleted_at IS NULL
+            UNION
+            SELECT symbols.name, 'name', symbols.id
+            FROM symbols WHERE symbols.deleted_at IS NULL
+            UNION
+            SELECT symbol_aliases.label, 'alias', symbols.id
+            FROM symbol_aliases
+            JOIN symbols ON symbols.id = symbol_aliases.symbol_id
+            WHERE symbols.deleted_at IS NULL
+            UNION
+            SELECT symbols.category, 'category', NULL
+            FROM symbols WHERE symbols.deleted_at IS NULL AND symbols.category IS NOT NULL
+            UNION
+            SELECT categories.id, 'category', NULL FROM categories
+          ) AS candidates
+          WHERE candidates.kind = ANY(${kinds}::text[])
+            AND (candidates.value ILIKE ${atStart} OR candidates.value ILIKE ${atWord})
+          ORDER BY candidates.kind, candidates.symbol_id, LOWER(candidates.value), candidates.value
+        ) AS matches
+        ORDER BY matches.rank, LOWER(matches.value), matches.kind, matches.symbol_id
+        LIMIT ${limit * 4}
+      `) as Suggestion[];
+
+      return { success: true, data: rankSuggestions(candidates, prefix, limit) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async filterByTags(
+    tags: string[],
+    options: TagFilterOptions = {}
+  ): Promise<QueryResult<Symbol[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const { match = "any", excludeOrigins } = options;
+      const window = pageWindow(options);
+      const wanted = normalizeTags(tags);
+      const where: Prisma.SymbolWhereInput = {
+        tags: match === "all" ? { hasEvery: wanted } : { hasSome: wanted },
+        deleted_at: null,
+        ...originFilter(excludeOrigins),
       };
+
+      return await this.symbolPage(where, resolveSort(options), window);
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async createSymbol(symbol: Omit<Symbol, 'created_at' | 'updated_at'>): Promise<QueryResult<Symbol>> {
+  async getTags(): Promise<QueryResult<TagCount[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const symbols = await this.prisma.symbol.findMany({
+        where: { tags: { isEmpty: false }, deleted_at: null },
+        select: { tags: true },
+      });
+
+      return { success: true, data: countTags(symbols) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getCategoryTree(): Promise<QueryResult<CategoryTreeNode[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const [categories, symbols] = await Promise.all([
+        this.prisma.category.findMany(),
+        this.prisma.symbol.findMany({
+          where: { category: { not: null }, deleted_at: null },
+          select: { category: true },
+        }),
+      ]);
+
+      return { success: true, data: buildCategoryTree(categories as SymbolCategory[], symbols) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async createCategory(category: Omit<SymbolCategory, 'created_at' | 'updated_at'>): Promise<QueryResult<SymbolCategory>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      const createdSymbol = await this.prisma.symbol.create({
+      if (category.parent_id) {
+        const parent = await this.prisma.category.findUnique({
+          where: { id: category.parent_id },
+        });
+        if (!parent) {
+          return { success: false, error: new Error(`Parent category with ID "${category.parent_id}" not found`) };
+        }
+      }
+
+      const createdCategory = await this.prisma.category.create({
         data: {
-          id: symbol.id,
-          name: symbol.name,
-          category: symbol.category,
-          description: symbol.description,
-          interpretations: symbol.interpretations as Prisma.InputJsonValue,
-          related_symbols: symbol.related_symbols,
-          properties: symbol.properties as Prisma.InputJsonValue,
+          id: category.id,
+          parent_id: category.parent_id,
+          description: category.description,
+          display_order: category.display_order,
         },
       });
 
-      return { success: true, data: createdSymbol as Symbol };
+      return { success: true, data: createdCategory as SymbolCategory };
     } catch (error) {
       if (error instanceof Error && error.message.includes('Unique constraint')) {
-        return { success: false, error: new Error(`Symbol with ID "${symbol.id}" already exists`) };
+        return { success: false, error: new Error(`Category "${category.id}" already exists`) };
       }
       return { success: false, error: error as Error };
     }
   }
 
-  async updateSymbol(id: string, updates: Partial<Omit<Symbol, 'id' | 'created_at' | 'updated_at'>>): Promise<QueryResult<Symbol>> {
+  async updateCategory(id: string, updates: Partial<Omit<SymbolCategory, 'id' | 'created_at' | 'updated_at'>>): Promise<QueryResult<SymbolCategory>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      // Check if symbol exists
-      const existingSymbol = await this.prisma.symbol.findUnique({
-        where: { id },
+      const categories = await this.prisma.category.findMany({
+        select: { id: true, parent_id: true },
       });
 
-      if (!existingSymbol) {
-        return { success: false, error: new Error(`Symbol with ID "${id}" not found`) };
+      if (!categories.some((category: { id: string }) => category.id === id)) {
+        return { success: false, error: new Error(`Category with ID "${id}" not found`) };
+      }
+
+      const parentId = updates.parent_id;
+      if (parentId) {
+        if (!categories.some((category: { id: string }) => category.id === parentId)) {
+          return { success: false, error: new Error(`Parent category with ID "${parentId}" not found`) };
+        }
+        if (createsCategoryCycle(categories, id, parentId)) {
+          return { success: false, error: new Error(`Category "${id}" cannot be placed under itself or one of its descendants`) };
+        }
       }
 
-      const updatedSymbol = await this.prisma.symbol.update({
+      const updatedCategory = await this.prisma.category.update({
         where: { id },
         data: {
-          ...(updates as Prisma.SymbolUpdateInput),
+          ...(updates.parent_id !== undefined && { parent_id: updates.parent_id }),
+          ...(updates.description !== undefined && { description: updates.description }),
+          ...(updates.display_order !== undefined && { display_order: updates.display_order }),
           updated_at: new Date(),
         },
       });
 
-      return { success: true, data: updatedSymbol as Symbol };
+      return { success: true, data: updatedCategory as SymbolCategory };
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async deleteSymbol(id: string, cascade: boolean = false): Promise<QueryResult<boolean>> {
+  async deleteCategory(id: string): Promise<QueryResult<boolean>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      // Check if symbol exists
-      const existingSymbol = await this.prisma.symbol.findUnique({
+      const existingCategory = await this.prisma.category.findUnique({
         where: { id },
       });
 
-      if (!existingSymbol) {
-        return { success: false, error: new Error(`Symbol with ID "${id}" not found`) };
+      if (!existingCategory) {
+        return { success: false, error: new Error(`Category with ID "${id}" not found`) };
       }
 
-      // If cascade is true, remove this symbol from related_symbols arrays
-      if (cascade) {
-        // Find all symbols that reference this symbol
-        const referencingSymbols = await this.prisma.symbol.findMany({
-          where: {
-            related_symbols: {
-              has: id,
-            },
-          },
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await tx.category.updateMany({
+          where: { parent_id: id },
+          data: { parent_id: existingCategory.parent_id, updated_at: new Date() },
         });
+        await tx.category.delete({ where: { id } });
+      });
 
-        // Update each referencing symbol to remove this ID
-        for (const refSymbol of referencingSymbols) {
-          const updatedRelatedSymbols = (refSymbol.related_symbols as string[]).filter(
-            (relatedId) => relatedId !== id
-          );
-          
-          await this.prisma.symbol.update({
-            where: { id: refSymbol.id },
-            data: {
-              related_symbols: updatedRelatedSymbols,
-              updated_at: new Date(),
-            },
-          });
-        }
+      return { success: true, data: true };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getPropertySchemas(): Promise<QueryResult<PropertySchema[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
       }
 
-      // Delete the symbol
-      await this.prisma.symbol.delete({
-        where: { id },
+      const schemas = await this.prisma.propertySchema.findMany({
+        orderBy: { category: "asc" },
       });
 
-      return { success: true, data: true };
+      return { success: true, data: schemas as PropertySchema[] };
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async createSymbolSet(symbolSet: Omit<SymbolSet, 'created_at' | 'updated_at'>): Promise<QueryResult<SymbolSet>> {
+  async getPropertySchema(category: string): Promise<QueryResult<PropertySchema | null>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      const createdSymbolSet = await this.prisma.symbolSet.create({
-        data: {
-          id: symbolSet.id,
-          name: symbolSet.name,
-          category: symbolSet.category,
-          description: symbolSet.description,
-          symbols: symbolSet.symbols as Prisma.InputJsonValue,
-        },
+      const schema = await this.prisma.propertySchema.findFirst({
+        where: { category: { equals: category, mode: "insensitive" } },
       });
 
-      return { success: true, data: createdSymbolSet as SymbolSet };
+      return { success: true, data: schema as PropertySchema | null };
     } catch (error) {
-      if (error instanceof Error && error.message.includes('Unique constraint')) {
-        return { success: false, error: new Error(`Symbol set with ID "${symbolSet.id}" already exists`) };
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async setPropertySchema(schema: Omit<PropertySchema, 'created_at' | 'updated_at'>): Promise<QueryResult<PropertySchema>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
       }
+
+      // Replace a schema saved under another casing of the category
+      const existingSchema = await this.prisma.propertySchema.findFirst({
+        where: { category: { equals: schema.category, mode: "insensitive" } },
+      });
+
+      const savedSchema = await this.prisma.propertySchema.upsert({
+        where: { category: existingSchema?.category ?? schema.category },
+        create: {
+          category: schema.category,
+          properties: schema.properties,
+          allow_additional: schema.allow_additional,
+        },
+        update: {
+          category: schema.category,
+          properties: schema.properties,
+          allow_additional: schema.allow_additional,
+          updated_at: new Date(),
+        },
+      });
+
+      return { success: true, data: savedSchema as PropertySchema };
+    } catch (error) {
       return { success: false, error: error as Error };
     }
   }
 
-  async updateSymbolSet(id: string, updates: Partial<Omit<SymbolSet, 'id' | 'created_at' | 'updated_at'>>): Promise<QueryResult<SymbolSet>> {
+  async deletePropertySchema(category: string): Promise<QueryResult<boolean>> {
     try {
       if (!this.prisma) {
         throw new Error("Database not connected");
       }
 
-      // Check if symbol set exists
-      const existingSymbolSet = await this.prisma.symbolSet.findUnique({
-        where: { id },
+      const existingSchema = await this.prisma.propertySchema.findFirst({
+        where: { category: { equals: category, mode: "insensitive" } },
       });
 
-      if (!existingSymbolSet) {
-        return { success: false, error: new Error(`Symbol set with ID "${id}" not found`) };
+      if (!existingSchema) {
+        return { success: false, error: new Error(`Property schema for category "${category}" not found`) };
+      }
+
+      await this.prisma.propertySchema.delete({ where: { category: existingSchema.category } });
+
+      return { success: true, data: true };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getSymbolSets(
+    options: QueryOptions = {}
+  ): Promise<QueryResult<SymbolSet[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const sort = resolveSetSort(options);
+      if (!sort.data) {
+        return { success: false, error: sort.error };
+      }
+      const window = pageWindow(options);
+
+      const [symbolSets, total] = await Promise.all([
+        this.prisma.symbolSet.findMany({
+          take: window.limit,
+          skip: window.offset,
+          orderBy: columnOrderBy(sort.data),
+        }),
+        this.prisma.symbolSet.count(),
+      ]);
+
+      return { success: true, data: symbolSets as SymbolSet[], page: pageInfo(total, window) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getSymbolSet(id: string, options: SymbolSetQueryOptions = {}): Promise<QueryResult<ExpandedSymbolSet | null>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
       }
 
-      const updatedSymbolSet = await this.prisma.symbolSet.update({
+      const symbolSet = (await this.prisma.symbolSet.findUnique({
         where: { id },
-        data: {
-          ...(updates as Prisma.SymbolSetUpdateInput),
-          updated_at: new Date(),
-        },
+      })) as SymbolSet | null;
+
+      if (!symbolSet || !options.expand) {
+        return { success: true, data: symbolSet };
+      }
+
+      // Trashed symbols are left out so their members show up as missing
+      const symbols = await this.prisma.symbol.findMany({
+        where: { id: { in: Object.keys(symbolSet.symbols) }, deleted_at: null },
+        include: SYMBOL_INCLUDE,
       });
 
-      return { success: true, data: updatedSymbolSet as SymbolSet };
+      return {
+        success: true,
+        data: { ...symbolSet, members: resolveMembers(symbolSet, symbols as Symbol[]) },
+      };
     } catch (error) {
       return { success: false, error: error as Error };
     }
   }
+
+  async searchSymbolSets(
+    query: string,
+    options: QueryOptions = {}
+  ): Promise<QueryResult<SymbolSet[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const sort = resolveSetSort(options);
+      if (!sort.data) {
+        return { success: false, error: sort.error };
+      }
+      const window = pageWindow(options);
+      const where: Prisma.SymbolSetWhereInput = {
+        OR: [
+          { name: { contains: query, mode: "insensitive" } },
+          { description: { contains: query, mode: "insensitive" } },
+          { category: { contains: query, mode: "insensitive" } },
+        ],
+      };
+
+      const [symbolSets, total] = await Promise.all([
+        this.prisma.symbolSet.findMany({
+          where,
+          take: window.limit,
+          skip: window.offset,
+          orderBy: columnOrderBy(sort.data),
+        }),
+        this.prisma.symbolSet.count({ where }),
+      ]);
+
+      return { success: true, data: symbolSets as SymbolSet[], page: pageInfo(total, window) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async healthCheck(): Promise<
+    QueryResult<{ status: string; timestamp: Date }>
+  > {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      // Simple query to test connection
+      await this.prisma.$queryRaw`SELECT 1`;
+
+      return {
+        success: true,
+        data: {
+          status: "healthy",
+          timestamp: new Date(),
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async createSymbol(symbol: Omit<Symbol, 'created_at' | 'updated_at'>): Promise<QueryResult<Symbol>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const citations = normalizeCitations(symbol.citations ?? []);
+      const invalid = citationError(citations, symbol.interpretations);
+      if (invalid) {
+        return { success: false, error: invalid };
+      }
+
+      const createdSymbol = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const created = await tx.symbol.create({
+          data: {
+            id: symbol.id,
+            name: symbol.name,
+            category: symbol.category,
+            description: symbol.description,
+            interpretations: symbol.interpretations as Prisma.InputJsonValue,
+            related_symbols: symbol.related_symbols,
+            properties: symbol.properties as Prisma.InputJsonValue,
+            aliases: { create: normalizeAliases(symbol.aliases ?? []) },
+            tags: normalizeTags(symbol.tags ?? []),
+            translations: normalizeTranslations(symbol.translations ?? {}) as Prisma.InputJsonValue,
+            citations: { create: citations },
+            origin: symbol.origin ?? null,
+            provenance: symbol.provenance ?? null,
+          },
+          include: SYMBOL_INCLUDE,
+        });
+
+        const links: RelationLink[] = symbol.related_symbols.map((targetId) => ({
+          source_id: symbol.id,
+          target_id: targetId,
+          relation_type: "related",
+        }));
+
+        await tx.symbolRelationship.createMany({
+          data: links,
+          skipDuplicates: true,
+        });
+
+        if (this.symmetricRelations) {
+          await this.addReverseLinks(tx, links);
+        }
+
+        await this.refreshSearchVectors(tx, [symbol.id]);
+        await this.refreshEmbeddings(tx, [symbol.id]);
+
+        return created;
+      });
+
+      return { success: true, data: createdSymbol as Symbol };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Unique constraint')) {
+        return { success: false, error: new Error(`Symbol with ID "${symbol.id}" already exists`) };
+      }
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async updateSymbol(id: string, updates: Partial<Omit<Symbol, 'id' | 'created_at' | 'updated_at'>>, context: ChangeContext = {}): Promise<QueryResult<Symbol>> {
+    return this.writeSymbolUpdate(id, updates, context, "update");
+  }
+
+  /**
+   * Apply updates to a symbol and record the version they replace
+   */
+  private async writeSymbolUpdate(
+    id: string,
+    updates: Partial<Omit<Symbol, 'id' | 'created_at' | 'updated_at'>>,
+    context: ChangeContext,
+    action: RevisionAction
+  ): Promise<QueryResult<Symbol>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      // Check if symbol exists
+      const existingSymbol = await this.prisma.symbol.findUnique({
+        where: { id },
+        include: SYMBOL_INCLUDE,
+      });
+
+      if (!existingSymbol || existingSymbol.deleted_at) {
+        return { success: false, error: new Error(`Symbol with ID "${id}" not found`) };
+      }
+
+      const { aliases, citations, ...fields } = updates;
+      const changes = {
+        ...updates,
+        ...(aliases && { aliases: normalizeAliases(aliases) }),
+        ...(citations && { citations: normalizeCitations(citations) }),
+        ...(updates.tags && { tags: normalizeTags(updates.tags) }),
+        ...(updates.translations && {
+          translations: normalizeTranslations(updates.translations),
+        }),
+      };
+
+      if (changes.citations ?? changes.interpretations) {
+        const invalid = citationError(
+          changes.citations ?? (existingSymbol.citations as Citation[]),
+          changes.interpretations ?? (existingSymbol.interpretations as Record<string, unknown>)
+        );
+        if (invalid) {
+          return { success: false, error: invalid };
+        }
+      }
+
+      const updatedSymbol = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await this.recordRevision(tx, "symbol", existingSymbol as Symbol, action, changedFields(existingSymbol, changes), context);
+
+        // New alias and citation lists replace the old ones wholesale
+        const updated = await tx.symbol.update({
+          where: { id },
+          data: {
+            ...(fields as Prisma.SymbolUpdateInput),
+            ...(changes.tags && { tags: changes.tags }),
+            ...(changes.translations && {
+              translations: changes.translations as Prisma.InputJsonValue,
+            }),
+            ...(changes.aliases && {
+              aliases: { deleteMany: {}, create: changes.aliases },
+            }),
+            ...(changes.citations && {
+              citations: { deleteMany: {}, create: changes.citations },
+            }),
+            updated_at: new Date(),
+          },
+          include: SYMBOL_INCLUDE,
+        });
+
+        // Keep typed relationships in step with the related_symbols list
+        if (updates.related_symbols) {
+          const previous = existingSymbol.related_symbols as string[];
+          const added = updates.related_symbols.filter(
+            (targetId) => !previous.includes(targetId)
+          );
+          const removed = previous.filter(
+            (targetId) => !updates.related_symbols?.includes(targetId)
+          );
+
+          const links: RelationLink[] = added.map((targetId) => ({
+            source_id: id,
+            target_id: targetId,
+            relation_type: "related",
+          }));
+
+          await tx.symbolRelationship.createMany({
+            data: links,
+            skipDuplicates: true,
+          });
+
+          if (removed.length > 0) {
+            const dropped = (await tx.symbolRelationship.findMany({
+              where: { source_id: id, target_id: { in: removed } },
+            })) as SymbolRelationship[];
+
+            await tx.symbolRelationship.deleteMany({
+              where: { source_id: id, target_id: { in: removed } },
+            });
+
+            if (this.symmetricRelations) {
+              await this.removeReverseLinks(tx, dropped, context);
+            }
+          }
+
+          if (this.symmetricRelations) {
+            await this.addReverseLinks(tx, links, context);
+          }
+        }
+
+        await this.refreshSearchVectors(tx, [id]);
+        await this.refreshEmbeddings(tx, [id]);
+
+        return updated;
+      });
+
+      return { success: true, data: updatedSymbol as Symbol };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async deleteSymbol(id: string, cascade: boolean = false, context: ChangeContext = {}): Promise<QueryResult<boolean>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      // Check if symbol exists
+      const existingSymbol = await this.prisma.symbol.findUnique({
+        where: { id },
+        include: SYMBOL_INCLUDE,
+      });
+
+      if (!existingSymbol || existingSymbol.deleted_at) {
+        return { success: false, error: new Error(`Symbol with ID "${id}" not found`) };
+      }
+
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Drop outgoing relationships, plus incoming ones when cascading or
+        // the symmetric partners' links back when that policy is on
+        const outgoing = (await tx.symbolRelationship.findMany({
+          where: { source_id: id },
+        })) as SymbolRelationship[];
+        const reverse = outgoing.filter(isSymmetricLink);
+
+        let incoming: SymbolRelationship[] = [];
+        if (cascade) {
+          incoming = (await tx.symbolRelationship.findMany({
+            where: { target_id: id },
+          })) as SymbolRelationship[];
+        } else if (this.symmetricRelations && reverse.length > 0) {
+          incoming = (await tx.symbolRelationship.findMany({
+            where: {
+              OR: reverse.map((link) => ({
+                source_id: link.target_id,
+                target_id: id,
+                relation_type: link.relation_type,
+              })),
+            },
+          })) as SymbolRelationship[];
+        }
+
+        const removed = [...outgoing, ...incoming];
+        await tx.symbolRelationship.deleteMany({
+          where: { id: { in: removed.map((relationship) => relationship.id) } },
+        });
+
+        // Referencing symbols lose this ID once no link back to it remains,
+        // each edit recorded so it shows up in their history
+        const referencing = await tx.symbol.findMany({
+          where: cascade
+            ? { related_symbols: { has: id }, deleted_at: null, id: { not: id } }
+            : { id: { in: incoming.map((relationship) => relationship.source_id) }, deleted_at: null },
+          include: SYMBOL_INCLUDE,
+        });
+
+        for (const refSymbol of referencing) {
+          if (!cascade) {
+            const remaining = await tx.symbolRelationship.count({
+              where: { source_id: refSymbol.id, target_id: id },
+            });
+            if (remaining > 0) {
+              continue;
+            }
+          }
+
+          await this.recordRevision(tx, "symbol", refSymbol as Symbol, "update", ["related_symbols"], {
+            ...context,
+            summary: `Unlinked deleted symbol "${id}"`,
+          });
+          await tx.symbol.update({
+            where: { id: refSymbol.id },
+            data: {
+              related_symbols: (refSymbol.related_symbols as string[]).filter(
+                (relatedId) => relatedId !== id
+              ),
+              updated_at: new Date(),
+            },
+          });
+        }
+
+        // Cascading also takes the symbol out of every set that contains it
+        const memberships: RemovedSetMembership[] = [];
+        if (cascade) {
+          const symbolSets = (await tx.symbolSet.findMany()) as SymbolSet[];
+          for (const symbolSet of symbolSets.filter((item) => id in item.symbols)) {
+            await this.recordRevision(tx, "symbol_set", symbolSet, "update", ["symbols"], {
+              ...context,
+              summary: `Removed deleted symbol "${id}"`,
+            });
+            memberships.push({ set_id: symbolSet.id, weight: memberWeight(symbolSet.symbols[id]) });
+            await tx.symbolSet.update({
+              where: { id: symbolSet.id },
+              data: {
+                symbols: withoutMember(symbolSet.symbols, id) as Prisma.InputJsonValue,
+                updated_at: new Date(),
+              },
+            });
+          }
+        }
+
+        // Move the symbol to the trash, keeping what was removed for a restore
+        await this.recordRevision(tx, "symbol", existingSymbol as Symbol, "delete", [], context, removed, memberships);
+        await tx.symbol.update({
+          where: { id },
+          data: { deleted_at: new Date() },
+        });
+      });
+
+      return { success: true, data: true };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getDeletedSymbols(options: QueryOptions = {}): Promise<QueryResult<Symbol[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const sort = resolveSort(options);
+      const where = { deleted_at: { not: null } };
+
+      // Most recently deleted first unless another order is asked for
+      return await this.symbolPage(
+        where,
+        sort,
+        pageWindow(options),
+        options.sort ? columnOrderBy(sort) : { deleted_at: "desc" }
+      );
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async restoreSymbol(id: string, context: ChangeContext = {}): Promise<QueryResult<Symbol>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const existingSymbol = await this.prisma.symbol.findUnique({
+        where: { id },
+        include: SYMBOL_INCLUDE,
+      });
+
+      if (!existingSymbol) {
+        return { success: false, error: new Error(`Symbol with ID "${id}" not found`) };
+      }
+      if (!existingSymbol.deleted_at) {
+        return { success: false, error: new Error(`Symbol with ID "${id}" is not deleted`) };
+      }
+
+      const deletion = (await this.prisma.revision.findFirst({
+        where: { entity_type: "symbol", entity_id: id, action: "delete" },
+        orderBy: { created_at: "desc" },
+      })) as Revision | null;
+      const removed = deletion?.removed_relationships ?? [];
+      const memberships = deletion?.removed_memberships ?? [];
+
+      const restoredSymbol = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await this.recordRevision(tx, "symbol", existingSymbol as Symbol, "restore", ["deleted_at"], context);
+
+        const restored = await tx.symbol.update({
+          where: { id },
+          data: { deleted_at: null, updated_at: new Date() },
+          include: SYMBOL_INCLUDE,
+        });
+
+        // Incoming links only come back from symbols that are still live
+        const sources = await tx.symbol.findMany({
+          where: {
+            id: {
+              in: removed
+                .filter((relationship) => relationship.target_id === id)
+                .map((relationship) => relationship.source_id),
+            },
+            deleted_at: null,
+          },
+          include: SYMBOL_INCLUDE,
+        });
+        const sourceIds = new Set(sources.map((source: { id: string }) => source.id));
+
+        await tx.symbolRelationship.createMany({
+          data: removed
+            .filter((relationship) => relationship.source_id === id || sourceIds.has(relationship.source_id))
+            .map((relationship) => ({
+              source_id: relationship.source_id,
+              target_id: relationship.target_id,
+              relation_type: relationship.relation_type,
+              weight: relationship.weight,
+              note: relationship.note,
+            })),
+          skipDuplicates: true,
+        });
+
+        for (const source of sources) {
+          const relatedSymbols = source.related_symbols as string[];
+          if (!relatedSymbols.includes(id)) {
+            await this.recordRevision(tx, "symbol", source as Symbol, "update", ["related_symbols"], {
+              ...context,
+              summary: `Re-linked restored symbol "${id}"`,
+            });
+            await tx.symbol.update({
+              where: { id: source.id },
+              data: {
+                related_symbols: [...relatedSymbols, id],
+                updated_at: new Date(),
+              },
+            });
+          }
+        }
+
+        // Sets the cascade took it out of get it back at its old weight
+        const symbolSets = (await tx.symbolSet.findMany({
+          where: { id: { in: memberships.map((membership) => membership.set_id) } },
+        })) as SymbolSet[];
+        for (const membership of memberships) {
+          const symbolSet = symbolSets.find((item) => item.id === membership.set_id);
+          if (!symbolSet || id in symbolSet.symbols) {
+            continue;
+          }
+
+          await this.recordRevision(tx, "symbol_set", symbolSet, "update", ["symbols"], {
+            ...context,
+            summary: `Re-added restored symbol "${id}"`,
+          });
+          await tx.symbolSet.update({
+            where: { id: symbolSet.id },
+            data: {
+              symbols: withMember(symbolSet.symbols, id, membership.weight) as Prisma.InputJsonValue,
+              updated_at: new Date(),
+            },
+          });
+        }
+
+        return restored;
+      });
+
+      return { success: true, data: restoredSymbol as Symbol };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async purgeDeleted(options: PurgeOptions = {}): Promise<QueryResult<string[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const { id, deletedBefore } = options;
+
+      const purgeable = await this.prisma.symbol.findMany({
+        where: {
+          deleted_at: deletedBefore ? { lt: deletedBefore } : { not: null },
+          ...(id && { id }),
+        },
+        select: { id: true },
+      });
+      const ids = purgeable.map((symbol: { id: string }) => symbol.id);
+
+      if (id && ids.length === 0) {
+        return { success: false, error: new Error(`Symbol with ID "${id}" is not in the trash`) };
+      }
+
+      // Revisions are kept so the history of purged symbols stays readable
+      await this.prisma.symbol.deleteMany({
+        where: { id: { in: ids } },
+      });
+
+      return { success: true, data: ids };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async createSymbolSet(symbolSet: Omit<SymbolSet, 'created_at' | 'updated_at'>): Promise<QueryResult<SymbolSet>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const createdSymbolSet = await this.prisma.symbolSet.create({
+        data: {
+          id: symbolSet.id,
+          name: symbolSet.name,
+          category: symbolSet.category,
+          description: symbolSet.description,
+          symbols: symbolSet.symbols as Prisma.InputJsonValue,
+          translations: normalizeTranslations(symbolSet.translations ?? {}) as Prisma.InputJsonValue,
+        },
+      });
+
+      return { success: true, data: createdSymbolSet as SymbolSet };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Unique constraint')) {
+        return { success: false, error: new Error(`Symbol set with ID "${symbolSet.id}" already exists`) };
+      }
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async updateSymbolSet(id: string, updates: Partial<Omit<SymbolSet, 'id' | 'created_at' | 'updated_at'>>, context: ChangeContext = {}): Promise<QueryResult<SymbolSet>> {
+    return this.writeSymbolSetUpdate(id, updates, context, "update");
+  }
+
+  /**
+   * Apply updates to a symbol set and record the version they replace
+   */
+  private async writeSymbolSetUpdate(
+    id: string,
+    updates: Partial<Omit<SymbolSet, 'id' | 'created_at' | 'updated_at'>>,
+    context: ChangeContext,
+    action: RevisionAction
+  ): Promise<QueryResult<SymbolSet>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      // Check if symbol set exists
+      const existingSymbolSet = await this.prisma.symbolSet.findUnique({
+        where: { id },
+      });
+
+      if (!existingSymbolSet) {
+        return { success: false, error: new Error(`Symbol set with ID "${id}" not found`) };
+      }
+
+      const changes = updates.translations
+        ? { ...updates, translations: normalizeTranslations(updates.translations) }
+        : updates;
+
+      const updatedSymbolSet = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await this.recordRevision(tx, "symbol_set", existingSymbolSet as SymbolSet, action, changedFields(existingSymbolSet, changes), context);
+
+        return tx.symbolSet.update({
+          where: { id },
+          data: {
+            ...(changes as Prisma.SymbolSetUpdateInput),
+            updated_at: new Date(),
+          },
+        });
+      });
+
+      return { success: true, data: updatedSymbolSet as SymbolSet };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async deleteSymbolSet(id: string, context: ChangeContext = {}): Promise<QueryResult<boolean>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const existingSymbolSet = await this.prisma.symbolSet.findUnique({
+        where: { id },
+      });
+
+      if (!existingSymbolSet) {
+        return { success: false, error: new Error(`Symbol set with ID "${id}" not found`) };
+      }
+
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await this.recordRevision(tx, "symbol_set", existingSymbolSet as SymbolSet, "delete", [], context);
+
+        await tx.symbolSet.delete({
+          where: { id },
+        });
+      });
+
+      return { success: true, data: true };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async addSymbolToSet(setId: string, symbolId: string, weight: number = 1.0, context: ChangeContext = {}): Promise<QueryResult<SymbolSet>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const symbolSet = (await this.prisma.symbolSet.findUnique({
+        where: { id: setId },
+      })) as SymbolSet | null;
+
+      if (!symbolSet) {
+        return { success: false, error: new Error(`Symbol set with ID "${setId}" not found`) };
+      }
+
+      const symbol = await this.prisma.symbol.findFirst({
+        where: { id: symbolId, deleted_at: null },
+        select: { id: true },
+      });
+
+      if (!symbol) {
+        return { success: false, error: new Error(`Symbol with ID "${symbolId}" not found`) };
+      }
+      if (symbolId in symbolSet.symbols) {
+        return { success: false, error: new Error(`Symbol "${symbolId}" is already in symbol set "${setId}"`) };
+      }
+
+      return this.writeSymbolSetUpdate(
+        setId,
+        { symbols: { ...symbolSet.symbols, [symbolId]: { weight } } },
+        { ...context, summary: context.summary ?? `Added "${symbolId}"` },
+        "update"
+      );
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async removeSymbolFromSet(setId: string, symbolId: string, context: ChangeContext = {}): Promise<QueryResult<SymbolSet>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const symbolSet = (await this.prisma.symbolSet.findUnique({
+        where: { id: setId },
+      })) as SymbolSet | null;
+
+      if (!symbolSet) {
+        return { success: false, error: new Error(`Symbol set with ID "${setId}" not found`) };
+      }
+      if (!(symbolId in symbolSet.symbols)) {
+        return { success: false, error: new Error(`Symbol "${symbolId}" is not in symbol set "${setId}"`) };
+      }
+
+      return this.writeSymbolSetUpdate(
+        setId,
+        { symbols: withoutMember(symbolSet.symbols, symbolId) },
+        { ...context, summary: context.summary ?? `Removed "${symbolId}"` },
+        "update"
+      );
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async setMemberWeight(setId: string, symbolId: string, weight: number, context: ChangeContext = {}): Promise<QueryResult<SymbolSet>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const symbolSet = (await this.prisma.symbolSet.findUnique({
+        where: { id: setId },
+      })) as SymbolSet | null;
+
+      if (!symbolSet) {
+        return { success: false, error: new Error(`Symbol set with ID "${setId}" not found`) };
+      }
+
+      const member = symbolSet.symbols[symbolId];
+      if (member === undefined) {
+        return { success: false, error: new Error(`Symbol "${symbolId}" is not in symbol set "${setId}"`) };
+      }
+
+      return this.writeSymbolSetUpdate(
+        setId,
+        { symbols: { ...symbolSet.symbols, [symbolId]: { ...(member as object), weight } } },
+        { ...context, summary: context.summary ?? `Set weight of "${symbolId}" to ${weight}` },
+        "update"
+      );
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getRelationships(options: RelationshipQueryOptions = {}): Promise<QueryResult<SymbolRelationship[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const { symbolId, direction = "both", relationType } = options;
+      const window = pageWindow(options);
+
+      const where: Prisma.SymbolRelationshipWhereInput = {
+        ...(relationType && { relation_type: relationType }),
+      };
+
+      if (symbolId) {
+        if (direction === "outgoing") {
+          where.source_id = symbolId;
+        } else if (direction === "incoming") {
+          where.target_id = symbolId;
+        } else {
+          where.OR = [{ source_id: symbolId }, { target_id: symbolId }];
+        }
+      }
+
+      const [relationships, total] = await Promise.all([
+        this.prisma.symbolRelationship.findMany({
+          where,
+          take: window.limit,
+          skip: window.offset,
+          orderBy: [{ source_id: "asc" }, { target_id: "asc" }],
+        }),
+        this.prisma.symbolRelationship.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        data: relationships as SymbolRelationship[],
+        page: pageInfo(total, window),
+      };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async createRelationship(relationship: Omit<SymbolRelationship, 'id' | 'created_at' | 'updated_at'>): Promise<QueryResult<SymbolRelationship>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const { source_id, target_id } = relationship;
+
+      if (source_id === target_id) {
+        return { success: false, error: new Error("A symbol cannot be related to itself") };
+      }
+
+      const endpoints = await this.prisma.symbol.findMany({
+        where: { id: { in: [source_id, target_id] }, deleted_at: null },
+      });
+
+      const source = endpoints.find((symbol: { id: string }) => symbol.id === source_id);
+      if (!source) {
+        return { success: false, error: new Error(`Symbol with ID "${source_id}" not found`) };
+      }
+      if (!endpoints.some((symbol: { id: string }) => symbol.id === target_id)) {
+        return { success: false, error: new Error(`Symbol with ID "${target_id}" not found`) };
+      }
+
+      const createdRelationship = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const created = await tx.symbolRelationship.create({
+          data: {
+            source_id,
+            target_id,
+            relation_type: relationship.relation_type,
+            weight: relationship.weight,
+            note: relationship.note,
+          },
+        });
+
+        // related_symbols lists every outgoing target regardless of type
+        const relatedSymbols = source.related_symbols as string[];
+        if (!relatedSymbols.includes(target_id)) {
+          await tx.symbol.update({
+            where: { id: source_id },
+            data: {
+              related_symbols: [...relatedSymbols, target_id],
+              updated_at: new Date(),
+            },
+          });
+        }
+
+        if (this.symmetricRelations) {
+          await this.addReverseLinks(tx, [relationship]);
+        }
+
+        return created;
+      });
+
+      return { success: true, data: createdRelationship as SymbolRelationship };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Unique constraint')) {
+        return {
+          success: false,
+          error: new Error(
+            `Relationship "${relationship.relation_type}" from "${relationship.source_id}" to "${relationship.target_id}" already exists`
+          ),
+        };
+      }
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async updateRelationship(id: string, updates: Partial<Pick<SymbolRelationship, 'weight' | 'note'>>): Promise<QueryResult<SymbolRelationship>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const existingRelationship = await this.prisma.symbolRelationship.findUnique({
+        where: { id },
+      });
+
+      if (!existingRelationship) {
+        return { success: false, error: new Error(`Relationship with ID "${id}" not found`) };
+      }
+
+      const data = {
+        ...(updates.weight !== undefined && { weight: updates.weight }),
+        ...(updates.note !== undefined && { note: updates.note }),
+        updated_at: new Date(),
+      };
+
+      const updatedRelationship = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const updated = await tx.symbolRelationship.update({
+          where: { id },
+          data,
+        });
+
+        // Mirror weight and note onto the reverse link
+        if (this.symmetricRelations && isSymmetricLink(existingRelationship as SymbolRelationship)) {
+          await tx.symbolRelationship.updateMany({
+            where: {
+              source_id: existingRelationship.target_id,
+              target_id: existingRelationship.source_id,
+              relation_type: existingRelationship.relation_type,
+            },
+            data,
+          });
+        }
+
+        return updated;
+      });
+
+      return { success: true, data: updatedRelationship as SymbolRelationship };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async deleteRelationship(id: string): Promise<QueryResult<boolean>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const existingRelationship = await this.prisma.symbolRelationship.findUnique({
+        where: { id },
+      });
+
+      if (!existingRelationship) {
+        return { success: false, error: new Error(`Relationship with ID "${id}" not found`) };
+      }
+
+      const { source_id, target_id } = existingRelationship as SymbolRelationship;
+
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await tx.symbolRelationship.delete({ where: { id } });
+
+        if (this.symmetricRelations) {
+          await this.removeReverseLinks(tx, [existingRelationship as SymbolRelationship]);
+        }
+
+        // Only unlink related_symbols once no relationship of any type remains
+        const remaining = await tx.symbolRelationship.count({
+          where: { source_id, target_id },
+        });
+
+        if (remaining === 0) {
+          const source = await tx.symbol.findUnique({ where: { id: source_id } });
+          if (source) {
+            await tx.symbol.update({
+              where: { id: source_id },
+              data: {
+                related_symbols: (source.related_symbols as string[]).filter(
+                  (relatedId) => relatedId !== target_id
+                ),
+                updated_at: new Date(),
+              },
+            });
+          }
+        }
+      });
+
+      return { success: true, data: true };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getNeighborhood(symbolIds: string[], options: NeighborhoodOptions = {}): Promise<QueryResult<SymbolNeighborhood>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const { direction = "both", relationTypes } = options;
+
+      if (symbolIds.length === 0) {
+        return { success: true, data: { relationships: [], symbols: [] } };
+      }
+
+      const endpoints: Prisma.SymbolRelationshipWhereInput[] = [];
+      if (direction !== "incoming") {
+        endpoints.push({ source_id: { in: symbolIds } });
+      }
+      if (direction !== "outgoing") {
+        endpoints.push({ target_id: { in: symbolIds } });
+      }
+
+      const relationships = (await this.prisma.symbolRelationship.findMany({
+        where: {
+          OR: endpoints,
+          ...(relationTypes && relationTypes.length > 0 && {
+            relation_type: { in: relationTypes },
+          }),
+        },
+        orderBy: [{ source_id: "asc" }, { target_id: "asc" }],
+      })) as SymbolRelationship[];
+
+      const neighborIds = Array.from(
+        new Set(relationships.flatMap((item) => [item.source_id, item.target_id]))
+      );
+
+      const symbols = await this.prisma.symbol.findMany({
+        where: { id: { in: neighborIds }, deleted_at: null },
+        include: SYMBOL_INCLUDE,
+      });
+
+      return { success: true, data: { relationships, symbols: symbols as Symbol[] } };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  /**
+   * Backfill a generic "related" relationship for every related_symbols entry
+   * that does not have one yet. Safe to run repeatedly. Trashed symbols keep
+   * their related_symbols for a restore but get no relationships back.
+   */
+  async migrateRelatedSymbols(): Promise<QueryResult<number>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const symbols = await this.prisma.symbol.findMany({
+        where: { deleted_at: null },
+        select: { id: true, related_symbols: true },
+      });
+
+      const data = symbols.flatMap(
+        (symbol: { id: string; related_symbols: string[] }) =>
+          symbol.related_symbols.map((targetId) => ({
+            source_id: symbol.id,
+            target_id: targetId,
+            relation_type: "related",
+          }))
+      );
+
+      const result = await this.prisma.symbolRelationship.createMany({
+        data,
+        skipDuplicates: true,
+      });
+
+      return { success: true, data: result.count };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async repairSymmetricRelationships(): Promise<QueryResult<number>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const relationships = (await this.prisma.symbolRelationship.findMany({
+        where: { relation_type: { in: [...SYMMETRIC_RELATION_TYPES] } },
+      })) as SymbolRelationship[];
+
+      const created = await this.prisma.$transaction((tx: Prisma.TransactionClient) =>
+        this.addReverseLinks(tx, relationships)
+      );
+
+      return { success: true, data: created };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getRevisions(options: RevisionQueryOptions = {}): Promise<QueryResult<Revision[]>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const { entityType, entityId } = options;
+      const window = pageWindow(options);
+      const where: Prisma.RevisionWhereInput = {
+        ...(entityType && { entity_type: entityType }),
+        ...(entityId && { entity_id: entityId }),
+      };
+
+      const [revisions, total] = await Promise.all([
+        this.prisma.revision.findMany({
+          where,
+          take: window.limit,
+          skip: window.offset,
+          orderBy: [{ created_at: "desc" }, { version: "desc" }],
+        }),
+        this.prisma.revision.count({ where }),
+      ]);
+
+      return { success: true, data: revisions as Revision[], page: pageInfo(total, window) };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async getRevision(id: string): Promise<QueryResult<Revision | null>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const revision = await this.prisma.revision.findUnique({
+        where: { id },
+      });
+
+      return { success: true, data: revision as Revision | null };
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  async restoreRevision(id: string, context: ChangeContext = {}): Promise<QueryResult<Symbol | SymbolSet>> {
+    try {
+      if (!this.prisma) {
+        throw new Error("Database not connected");
+      }
+
+      const revision = (await this.prisma.revision.findUnique({
+        where: { id },
+      })) as Revision | null;
+
+      if (!revision) {
+        return { success: false, error: new Error(`Revision with ID "${id}" not found`) };
+      }
+
+      const restoreContext = {
+        ...context,
+        summary: context.summary ?? `Reverted to version ${revision.version}`,
+      };
+
+      return revision.entity_type === "symbol"
+        ? await this.writeSymbolUpdate(
+            revision.entity_id,
+            restorableFields(revision.snapshot as Symbol),
+            restoreContext,
+            "revert"
+          )
+        : await this.writeSymbolSetUpdate(
+            revision.entity_id,
+            restorableFields(revision.snapshot as SymbolSet),
+            restoreContext,
+            "revert"
+          );
+    } catch (error) {
+      return { success: false, error: error as Error };
+    }
+  }
+
+  /**
+   * Rewrite the full-text search vector of the given symbols, or of every
+   * symbol when no IDs are given. Name matches weigh most (A), then aliases
+   * (B), the description (C), and the category and interpretation text (D).
+   * The simple configuration keeps every word unstemmed, so matching agrees
+   * with the demo database's word prefixes.
+   */
+  private async refreshSearchVectors(
+    client: Prisma.TransactionClient | PrismaClient,
+    ids?: string[]
+  ): Promise<void> {
+    await client.$executeRaw`
+      UPDATE symbols SET search_vector =
+        setweight(to_tsvector('simple', name), 'A') ||
+        setweight(to_tsvector('simple', coalesce(
+          (SELECT string_agg(label, ' ') FROM symbol_aliases WHERE symbol_aliases.symbol_id = symbols.id),
+          ''
+        )), 'B') ||
+        setweight(to_tsvector('simple', coalesce(description, '')), 'C') ||
+        setweight(
+          to_tsvector('simple', coalesce(category, '')) ||
+            jsonb_to_tsvector('simple', interpretations, '["string"]'),
+          'D'
+        )
+      WHERE ${ids === undefined} OR id = ANY(${ids ?? []}::text[])
+    `;
+  }
+
+  /**
+   * Recompute the similarity vector of the given symbols, or of every symbol
+   * when no IDs are given
+   */
+  private async refreshEmbeddings(
+    client: Prisma.TransactionClient | PrismaClient,
+    ids?: string[]
+  ): Promise<void> {
+    const symbols = (await client.symbol.findMany({
+      where: ids === undefined ? {} : { id: { in: ids } },
+      include: { aliases: true },
+    })) as Symbol[];
+
+    for (const symbol of symbols) {
+      const vector = embedSymbol(symbol);
+      await client.symbolEmbedding.upsert({
+        where: { symbol_id: symbol.id },
+        create: { symbol_id: symbol.id, vector },
+        update: { vector },
+      });
+    }
+  }
+
+  /**
+   * Store the version of a record that a change is about to replace
+   */
+  private async recordRevision(
+    tx: Prisma.TransactionClient,
+    entityType: RevisionEntityType,
+    snapshot: Symbol | SymbolSet,
+    action: RevisionAction,
+    fields: string[],
+    context: ChangeContext,
+    removedRelationships: SymbolRelationship[] = [],
+    removedMemberships: RemovedSetMembership[] = []
+  ): Promise<void> {
+    // Edits that leave every field as it was are not worth a revision
+    if (action !== "delete" && fields.length === 0) {
+      return;
+    }
+
+    // Lock the entity's row so concurrent writers take turns numbering
+    // versions instead of both reading the same latest one
+    await (entityType === "symbol"
+      ? tx.$queryRaw`SELECT id FROM symbols WHERE id = ${snapshot.id} FOR UPDATE`
+      : tx.$queryRaw`SELECT id FROM symbol_sets WHERE id = ${snapshot.id} FOR UPDATE`);
+    const latest = await tx.revision.aggregate({
+      where: { entity_type: entityType, entity_id: snapshot.id },
+      _max: { version: true },
+    });
+
+    await tx.revision.create({
+      data: {
+        entity_type: entityType,
+        entity_id: snapshot.id,
+        version: (latest._max.version ?? 0) + 1,
+        action,
+        snapshot: snapshot as unknown as Prisma.InputJsonValue,
+        changed_fields: fields,
+        removed_relationships: removedRelationships as unknown as Prisma.InputJsonValue,
+        removed_memberships: removedMemberships as unknown as Prisma.InputJsonValue,
+        actor: context.actor ?? null,
+        summary: summarizeChange(action, fields, context),
+      },
+    });
+  }
+
+  /**
+   * Create the reverse of every symmetric link whose target exists, listing the
+   * source in the target's related_symbols. Returns the number of links created.
+   */
+  private async addReverseLinks(
+    tx: Prisma.TransactionClient,
+    links: RelationLink[],
+    context: ChangeContext = {}
+  ): Promise<number> {
+    const symmetric = links.filter(isSymmetricLink);
+    if (symmetric.length === 0) {
+      return 0;
+    }
+
+    const targets = (await tx.symbol.findMany({
+      where: {
+        id: { in: Array.from(new Set(symmetric.map((link) => link.target_id))) },
+        deleted_at: null,
+      },
+      include: SYMBOL_INCLUDE,
+    })) as Symbol[];
+    const targetIds = new Set(targets.map((target) => target.id));
+    const reverse = symmetric.filter((link) => targetIds.has(link.target_id));
+
+    const result = await tx.symbolRelationship.createMany({
+      data: reverse.map((link) => ({
+        source_id: link.target_id,
+        target_id: link.source_id,
+        relation_type: link.relation_type,
+        weight: link.weight ?? null,
+        note: link.note ?? null,
+      })),
+      skipDuplicates: true,
+    });
+
+    for (const target of targets) {
+      const missing = Array.from(
+        new Set(
+          reverse
+            .filter((link) => link.target_id === target.id && !target.related_symbols.includes(link.source_id))
+            .map((link) => link.source_id)
+        )
+      );
+
+      if (missing.length > 0) {
+        await this.writeRelatedSymbols(tx, target, [...target.related_symbols, ...missing], {
+          ...context,
+          summary: reverseLinkSummary(true, missing),
+        });
+      }
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Delete the reverse of every symmetric link, unlisting the source from the
+   * target's related_symbols once no relationship back to it remains
+   */
+  private async removeReverseLinks(
+    tx: Prisma.TransactionClient,
+    links: RelationLink[],
+    context: ChangeContext = {}
+  ): Promise<void> {
+    const symmetric = links.filter(isSymmetricLink);
+    if (symmetric.length === 0) {
+      return;
+    }
+
+    await tx.symbolRelationship.deleteMany({
+      where: {
+        OR: symmetric.map((link) => ({
+          source_id: link.target_id,
+          target_id: link.source_id,
+          relation_type: link.relation_type,
+        })),
+      },
+    });
+
+    const targets = (await tx.symbol.findMany({
+      where: { id: { in: Array.from(new Set(symmetric.map((link) => link.target_id))) } },
+      include: SYMBOL_INCLUDE,
+    })) as Symbol[];
+
+    for (const target of targets) {
+      const unlinked: string[] = [];
+      const sourceIds = new Set(
+        symmetric.filter((link) => link.target_id === target.id).map((link) => link.source_id)
+      );
+
+      for (const sourceId of sourceIds) {
+        const remaining = await tx.symbolRelationship.count({
+          where: { source_id: target.id, target_id: sourceId },
+        });
+        if (remaining === 0 && target.related_symbols.includes(sourceId)) {
+          unlinked.push(sourceId);
+        }
+      }
+
+      if (unlinked.length > 0) {
+        await this.writeRelatedSymbols(
+          tx,
+          target,
+          target.related_symbols.filter((relatedId) => !unlinked.includes(relatedId)),
+          { ...context, summary: reverseLinkSummary(false, unlinked) }
+        );
+      }
+    }
+  }
+
+  /**
+   * Rewrite a symbol's related_symbols, recording the version it replaces and
+   * refreshing its search data like any other symbol write
+   */
+  private async writeRelatedSymbols(
+    tx: Prisma.TransactionClient,
+    symbol: Symbol,
+    relatedSymbols: string[],
+    context: ChangeContext
+  ): Promise<void> {
+    await this.recordRevision(tx, "symbol", symbol, "update", ["related_symbols"], context);
+    await tx.symbol.update({
+      where: { id: symbol.id },
+      data: {
+        related_symbols: relatedSymbols,
+        updated_at: new Date(),
+      },
+    });
+    await this.refreshSearchVectors(tx, [symbol.id]);
+    await this.refreshEmbeddings(tx, [symbol.id]);
+  }
 }
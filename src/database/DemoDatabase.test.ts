@@ -1,7 +1,9 @@
-import { describe, expect, it, beforeEach } from "vitest";
+import { describe, expect, it, beforeEach, vi } from "vitest";
 
 import { DemoDatabase } from "./DemoDatabase.js";
-import type { Symbol, SymbolSet } from "@/types/Symbol.js";
+import { localizeSymbol, localizeSymbolSet } from "./locales.js";
+import { parseSymbolQuery } from "./symbolQuery.js";
+import type { ExpandedSymbolSet, Symbol } from "@/types/Symbol.js";
 
 describe("DemoDatabase", () => {
   let database: DemoDatabase;
@@ -38,6 +40,263 @@ describe("DemoDatabase", () => {
     expect(result.data?.some((item) => item.id === "river")).toBe(true);
   });
 
+  it("ranks name matches above description and interpretation matches", async () => {
+    const result = await database.searchSymbols("river");
+
+    expect(result.data?.[0]?.id).toBe("river");
+    const scores = result.data?.map((item) => item.score ?? 0) ?? [];
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(scores.every((score) => score > 0)).toBe(true);
+  });
+
+  it("matches word prefixes and requires every search term", async () => {
+    const prefix = await database.searchSymbols("ourob");
+    const unmatched = await database.searchSymbols("ouroboros labyrinth");
+
+    expect(prefix.data?.map((item) => item.id)).toEqual(["ouroboros"]);
+    expect(unmatched.data).toEqual([]);
+  });
+
+  it("reports the matched fields with highlighted snippets", async () => {
+    const result = await database.searchSymbols("emotional");
+    const river = result.data?.find((item) => item.id === "river");
+
+    expect(river?.matched_fields).toEqual([
+      "description",
+      "interpretations.dream",
+    ]);
+    expect(river?.highlights).toEqual([
+      {
+        field: "description",
+        snippet:
+          "Flowing water representing time, transition, and **emotional** movement.",
+      },
+      {
+        field: "interpretations.dream",
+        snippet: "Life changes or **emotional** current",
+      },
+    ]);
+  });
+
+  it("trims snippets of long text around the match", async () => {
+    await database.updateSymbol("key", {
+      description: `${"Opens many doors and ".repeat(10)}grants passage to hidden chambers. ${"It also locks them again. ".repeat(10)}`,
+    });
+
+    const result = await database.searchSymbols("chambers");
+    const [highlight] = result.data?.[0]?.highlights ?? [];
+
+    expect(highlight?.snippet).toMatch(/^…\S.* hidden \*\*chambers\*\*\. .*\S…$/);
+    expect(highlight?.snippet.length).toBeLessThanOrEqual(166);
+  });
+
+  it("highlights the interpretation text a filter matched", async () => {
+    const result = await database.searchSymbols("", {
+      interpretationText: "between",
+    });
+
+    expect(result.data?.map((item) => item.id)).toEqual(["river"]);
+    expect(result.data?.[0]?.matched_fields).toEqual([
+      "interpretations.mythic",
+    ]);
+    expect(result.data?.[0]?.highlights).toEqual([
+      {
+        field: "interpretations.mythic",
+        snippet: "Boundary **between** worlds",
+      },
+    ]);
+  });
+
+  it("finds misspelled names and aliases in fuzzy mode", async () => {
+    const misspelled = await database.searchSymbols("ourobouros", { mode: "fuzzy" });
+    const alias = await database.searchSymbols("uroborus", { mode: "fuzzy" });
+    const unrelated = await database.searchSymbols("telescope", { mode: "fuzzy" });
+
+    expect(misspelled.data?.map((item) => item.id)).toEqual(["ouroboros"]);
+    expect(misspelled.data?.[0]?.score).toBe(0.9);
+    expect(alias.data?.map((item) => item.id)).toEqual(["ouroboros"]);
+    expect(unrelated.data).toEqual([]);
+  });
+
+  it("narrows searches by interpretation context and text", async () => {
+    const mathematical = await database.searchSymbols("", {
+      interpretationContext: "mathematical",
+    });
+    const hidden = await database.searchSymbols("", {
+      interpretationContext: "dream",
+      interpretationText: "HIDDEN",
+    });
+    const elsewhere = await database.searchSymbols("", {
+      interpretationContext: "ritual",
+      interpretationText: "hidden",
+    });
+
+    expect(mathematical.data?.map((item) => item.id)).toEqual(["infinity"]);
+    expect(hidden.data?.map((item) => item.id)).toEqual(["key", "mirror"]);
+    expect(elsewhere.data).toEqual([]);
+  });
+
+  it("narrows searches by property values", async () => {
+    const water = await database.searchSymbols("", {
+      properties: { element: "water" },
+    });
+    const withText = await database.searchSymbols("cycles", {
+      properties: { polarity: "dual" },
+    });
+    const mismatch = await database.searchSymbols("river", {
+      properties: { element: "fire" },
+    });
+
+    expect(water.data?.map((item) => item.id)).toEqual(["river"]);
+    expect(water.data?.[0]?.score).toBeUndefined();
+    expect(withText.data?.map((item) => item.id)).toEqual(["ouroboros"]);
+    expect(mismatch.data).toEqual([]);
+  });
+
+  it("narrows searches to a category", async () => {
+    const everywhere = await database.searchSymbols("symbol");
+    const result = await database.searchSymbols("symbol", {
+      category: "boundlessness",
+    });
+
+    expect(everywhere.data?.length).toBeGreaterThan(1);
+    expect(result.data?.map((item) => item.id)).toEqual(["infinity"]);
+  });
+
+  it("counts facets over every search match", async () => {
+    const result = await database.getSearchFacets("symbol", {
+      limit: 1,
+      properties: { polarity: "dual" },
+    });
+
+    expect(result.data).toEqual({
+      categories: [{ value: "transformation", count: 1 }],
+      tags: [
+        { value: "cycles", count: 1 },
+        { value: "eternity", count: 1 },
+        { value: "renewal", count: 1 },
+      ],
+      properties: {
+        origin: [{ value: "ancient", count: 1 }],
+        polarity: [{ value: "dual", count: 1 }],
+      },
+      interpretation_contexts: [
+        { value: "dream", count: 1 },
+        { value: "mythic", count: 1 },
+      ],
+    });
+  });
+
+  it("counts facets over a category and its descendants", async () => {
+    const result = await database.getCategoryFacets("passage", {
+      includeDescendants: true,
+    });
+
+    expect(result.data?.categories).toEqual([
+      { value: "access", count: 1 },
+      { value: "flow", count: 1 },
+      { value: "journey", count: 1 },
+    ]);
+    expect(result.data?.tags[0]).toEqual({ value: "initiation", count: 2 });
+    expect(result.data?.properties["element"]).toEqual([
+      { value: "water", count: 1 },
+    ]);
+  });
+
+  it("finds symbols matching a parsed query, ordered by name", async () => {
+    const run = (text: string, options = {}) => {
+      const parsed = parseSymbolQuery(text);
+      if (!parsed.data) {
+        throw parsed.error;
+      }
+      return database.querySymbols(parsed.data, options);
+    };
+
+    const journey = await run(
+      'category:journey AND property.direction=inward AND interpretation.dream~"decision"'
+    );
+    const either = await run(
+      "tag:cycles OR (interpretation.ritual AND NOT tag:initiation)",
+      { excludeOrigins: ["ai"] }
+    );
+    const textual = await run("eternal NOT origin:ai");
+
+    expect(journey.data?.map((item) => item.id)).toEqual(["labyrinth"]);
+    expect(either.data?.map((item) => item.id)).toEqual([
+      "mandala",
+      "mirror",
+      "ouroboros",
+    ]);
+    expect(textual.data?.map((item) => item.id)).toEqual(["ouroboros"]);
+  });
+
+  it("matches query categories ignoring case", async () => {
+    const result = await database.querySymbols({
+      type: "field",
+      field: "category",
+      value: "Journey",
+    });
+
+    expect(result.data?.map((item) => item.id)).toEqual(["labyrinth"]);
+  });
+
+  it("finds symbols close in meaning to text that none of them contain", async () => {
+    const result = await database.findSimilarSymbols({ text: "rebirth" });
+
+    expect(result.data?.map((item) => item.id)).toEqual(["ouroboros"]);
+    expect(result.data?.[0]?.score).toBeGreaterThan(0);
+  });
+
+  it("finds symbols similar to another symbol, leaving it out", async () => {
+    const result = await database.findSimilarSymbols({ symbolId: "ouroboros" });
+    const missing = await database.findSimilarSymbols({ symbolId: "phoenix" });
+
+    expect(result.data?.[0]?.id).toBe("infinity");
+    expect(result.data?.some((item) => item.id === "ouroboros")).toBe(false);
+    expect(missing.error?.message).toBe('Symbol with ID "phoenix" not found');
+  });
+
+  it("refreshes a symbol's vector when it changes", async () => {
+    await database.updateSymbol("river", {
+      tags: ["rebirth", "renewal"],
+    });
+
+    const result = await database.findSimilarSymbols({ text: "resurrection" });
+
+    expect(result.data?.map((item) => item.id)).toContain("river");
+  });
+
+  it("pages through a list with cursors or offsets", async () => {
+    const all = await database.getSymbols();
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await database.getSymbols({
+        limit: 3,
+        ...(cursor && { cursor }),
+      });
+      ids.push(...(page.data ?? []).map((item) => item.id));
+      cursor = page.page?.next_cursor ?? undefined;
+    } while (cursor);
+    const byOffset = await database.getSymbols({ limit: 3, offset: 3 });
+
+    expect(ids).toEqual(all.data?.map((item) => item.id));
+    expect(all.page).toEqual({
+      total: ids.length,
+      has_more: false,
+      next_cursor: null,
+    });
+    expect(byOffset.data?.map((item) => item.id)).toEqual(ids.slice(3, 6));
+    expect(byOffset.page?.has_more).toBe(true);
+  });
+
+  it("rejects a malformed cursor", async () => {
+    const result = await database.searchSymbols("symbol", { cursor: "bogus" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Invalid cursor "bogus"');
+  });
+
   it("filters by category", async () => {
     const result = await database.filterByCategory("journey");
 
@@ -141,4 +400,983 @@ describe("DemoDatabase", () => {
     expect(updateResult.success).toBe(true);
     expect(updateResult.data?.description).toBe("updated");
   });
+
+  it("migrates related_symbols into generic related relationships", async () => {
+    const result = await database.getRelationships({
+      symbolId: "ouroboros",
+      direction: "outgoing",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.map((item) => item.target_id)).toEqual([
+      "infinity",
+      "mandala",
+    ]);
+    expect(result.data?.every((item) => item.relation_type === "related")).toBe(
+      true
+    );
+  });
+
+  it("creates typed relationships and links related_symbols", async () => {
+    const result = await database.createRelationship({
+      source_id: "mirror",
+      target_id: "labyrinth",
+      relation_type: "opposes",
+      weight: 0.4,
+      note: "Reflection against wandering",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.relation_type).toBe("opposes");
+
+    const mirror = await database.getSymbol("mirror");
+    expect(mirror.data?.related_symbols).toContain("labyrinth");
+
+    const duplicate = await database.createRelationship({
+      source_id: "mirror",
+      target_id: "labyrinth",
+      relation_type: "opposes",
+      weight: null,
+      note: null,
+    });
+    expect(duplicate.success).toBe(false);
+    expect(duplicate.error?.message).toContain("already exists");
+  });
+
+  it("rejects relationships to unknown symbols", async () => {
+    const result = await database.createRelationship({
+      source_id: "mirror",
+      target_id: "shadow",
+      relation_type: "aspect_of",
+      weight: null,
+      note: null,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("not found");
+  });
+
+  it("unlinks related_symbols when the last relationship is deleted", async () => {
+    const created = await database.createRelationship({
+      source_id: "river",
+      target_id: "key",
+      relation_type: "complements",
+      weight: null,
+      note: null,
+    });
+    const id = created.data?.id ?? "";
+
+    const updated = await database.updateRelationship(id, { weight: 0.9 });
+    expect(updated.data?.weight).toBe(0.9);
+
+    const deleted = await database.deleteRelationship(id);
+    expect(deleted.success).toBe(true);
+
+    const river = await database.getSymbol("river");
+    expect(river.data?.related_symbols).not.toContain("key");
+  });
+
+  it("syncs relationships when related_symbols are updated", async () => {
+    await database.updateSymbol("labyrinth", { related_symbols: ["key", "mirror"] });
+
+    const result = await database.getRelationships({
+      symbolId: "labyrinth",
+      direction: "outgoing",
+    });
+
+    expect(result.data?.map((item) => item.target_id)).toEqual([
+      "key",
+      "mirror",
+    ]);
+  });
+
+  it("leaves reverse links alone when symmetric relations are off", async () => {
+    await database.updateSymbol("ouroboros", {
+      related_symbols: ["infinity", "mandala", "river"],
+    });
+
+    const river = await database.getSymbol("river");
+    expect(river.data?.related_symbols).not.toContain("ouroboros");
+  });
+
+  describe("sorting", () => {
+    const ids = (result: { data?: Symbol[] }) =>
+      result.data?.map((item) => item.id);
+
+    it("lists symbols by name unless told otherwise", async () => {
+      const byName = await database.getSymbols();
+      const reversed = await database.getSymbols({ order: "desc" });
+      const names = byName.data?.map((item) => item.name) ?? [];
+
+      expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+      expect(ids(reversed)).toEqual([...(ids(byName) ?? [])].reverse());
+    });
+
+    it("lists recently updated symbols first", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        vi.setSystemTime(new Date(Date.now() + 60_000));
+        await database.updateSymbol("key", { description: "Updated" });
+
+        const all = await database.getSymbols({ sort: "updated_at" });
+        const tagged = await database.filterByTags(["initiation"], {
+          sort: "updated_at",
+        });
+
+        expect(ids(all)?.[0]).toBe("key");
+        expect(ids(tagged)).toEqual(["key", "labyrinth"]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("sorts by relation count and by total set weight", async () => {
+      await database.updateSymbol("mirror", {
+        related_symbols: ["shadow", "mask", "river"],
+      });
+
+      const related = await database.getSymbols({ sort: "relation_count" });
+      const weighted = await database.getSymbols({ sort: "set_weight" });
+
+      expect(ids(related)?.[0]).toBe("mirror");
+      expect(ids(weighted)).toEqual([
+        "labyrinth",
+        "ouroboros",
+        "infinity",
+        "river",
+        "key",
+        "mandala",
+        "mirror",
+      ]);
+    });
+
+    it("orders search results by another field on request", async () => {
+      const result = await database.searchSymbols("symbol", {
+        sort: "name",
+      });
+      const names = result.data?.map((item) => item.name) ?? [];
+
+      expect(names.length).toBeGreaterThan(1);
+      expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+    });
+
+    it("rejects symbol-only orders for symbol sets", async () => {
+      const byCreation = await database.getSymbolSets({
+        sort: "created_at",
+      });
+      const result = await database.searchSymbolSets("symbols", {
+        sort: "relation_count",
+      });
+
+      expect(byCreation.success).toBe(true);
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe(
+        "Symbol sets cannot be sorted by relation_count; use name, created_at, updated_at"
+      );
+    });
+  });
+
+  describe("with symmetric relations", () => {
+    beforeEach(() => {
+      database = new DemoDatabase({ symmetricRelations: true });
+    });
+
+    it("adds the back-link when related_symbols gain a target", async () => {
+      await database.updateSymbol("ouroboros", {
+        related_symbols: ["infinity", "mandala", "river"],
+      });
+
+      const river = await database.getSymbol("river");
+      expect(river.data?.related_symbols).toContain("ouroboros");
+
+      const reverse = await database.getRelationships({
+        symbolId: "river",
+        direction: "outgoing",
+        relationType: "related",
+      });
+      expect(reverse.data?.map((item) => item.target_id)).toContain("ouroboros");
+    });
+
+    it("adds back-links for a newly created symbol", async () => {
+      await database.createSymbol({
+        id: "phoenix",
+        name: "Phoenix",
+        category: "transformation",
+        description: "A bird reborn from its ashes",
+        interpretations: {},
+        related_symbols: ["ouroboros", "unknown"],
+        properties: {},
+      });
+
+      const ouroboros = await database.getSymbol("ouroboros");
+      expect(ouroboros.data?.related_symbols).toContain("phoenix");
+    });
+
+    it("removes the back-link when a target is dropped", async () => {
+      await database.updateSymbol("ouroboros", { related_symbols: ["mandala"] });
+
+      const infinity = await database.getSymbol("infinity");
+      expect(infinity.data?.related_symbols).not.toContain("ouroboros");
+    });
+
+    it("records back-link changes in the target's history", async () => {
+      await database.updateSymbol(
+        "ouroboros",
+        { related_symbols: ["mandala", "river"] },
+        { actor: "curator" }
+      );
+
+      const river = await database.getRevisions({ entityId: "river" });
+      expect(river.data?.[0]).toMatchObject({
+        action: "update",
+        actor: "curator",
+        changed_fields: ["related_symbols"],
+        summary: 'Linked back to "ouroboros"',
+      });
+      const infinity = await database.getRevisions({ entityId: "infinity" });
+      expect(infinity.data?.[0]).toMatchObject({
+        actor: "curator",
+        summary: 'Unlinked from "ouroboros"',
+      });
+      expect(infinity.data?.[0]?.snapshot).toMatchObject({
+        related_symbols: expect.arrayContaining(["ouroboros"]),
+      });
+    });
+
+    it("removes back-links when a symbol is deleted", async () => {
+      await database.deleteSymbol("infinity");
+
+      const ouroboros = await database.getSymbol("ouroboros");
+      expect(ouroboros.data?.related_symbols).toEqual(["mandala"]);
+    });
+
+    it("mirrors symmetric relationships but not directional ones", async () => {
+      const complements = await database.createRelationship({
+        source_id: "river",
+        target_id: "key",
+        relation_type: "complements",
+        weight: 0.5,
+        note: null,
+      });
+      await database.createRelationship({
+        source_id: "mirror",
+        target_id: "key",
+        relation_type: "aspect_of",
+        weight: null,
+        note: null,
+      });
+
+      const keyLinks = await database.getRelationships({
+        symbolId: "key",
+        direction: "outgoing",
+      });
+      expect(keyLinks.data).toContainEqual(
+        expect.objectContaining({
+          target_id: "river",
+          relation_type: "complements",
+          weight: 0.5,
+        })
+      );
+      expect(keyLinks.data?.map((item) => item.target_id)).not.toContain("mirror");
+
+      await database.updateRelationship(complements.data?.id ?? "", { weight: 0.9 });
+      const mirrored = await database.getRelationships({
+        symbolId: "key",
+        direction: "outgoing",
+        relationType: "complements",
+      });
+      expect(mirrored.data?.[0]?.weight).toBe(0.9);
+
+      await database.deleteRelationship(complements.data?.id ?? "");
+      const key = await database.getSymbol("key");
+      expect(key.data?.related_symbols).not.toContain("river");
+    });
+  });
+
+  it("repairs missing reverse links in one pass", async () => {
+    await database.createRelationship({
+      source_id: "river",
+      target_id: "key",
+      relation_type: "opposes",
+      weight: null,
+      note: null,
+    });
+
+    const first = await database.repairSymmetricRelationships();
+    const second = await database.repairSymmetricRelationships();
+
+    expect(first.data).toBe(1);
+    expect(second.data).toBe(0);
+    const key = await database.getSymbol("key");
+    expect(key.data?.related_symbols).toContain("river");
+  });
+
+  describe("revisions", () => {
+    it("records the prior version with actor and changed fields", async () => {
+      await database.updateSymbol(
+        "mirror",
+        { description: "A polished surface" },
+        { actor: "curator" }
+      );
+
+      const result = await database.getRevisions({ entityId: "mirror" });
+
+      expect(result.data).toHaveLength(1);
+      expect(result.data?.[0]).toMatchObject({
+        entity_type: "symbol",
+        version: 1,
+        action: "update",
+        changed_fields: ["description"],
+        actor: "curator",
+        summary: "Updated description",
+      });
+      expect(result.data?.[0]?.snapshot.description).toContain("reflective");
+    });
+
+    it("skips edits that change nothing", async () => {
+      const mirror = await database.getSymbol("mirror");
+      await database.updateSymbol("mirror", { name: mirror.data?.name ?? "" });
+
+      const result = await database.getRevisions({ entityId: "mirror" });
+      expect(result.data).toEqual([]);
+    });
+
+    it("restores a prior version and records the one it replaces", async () => {
+      await database.updateSymbol("mirror", { description: "First edit" });
+      await database.updateSymbol("mirror", { description: "Bad edit" });
+      const history = await database.getRevisions({ entityId: "mirror" });
+      const firstEdit = history.data?.[0]?.id ?? "";
+
+      const restored = await database.restoreRevision(firstEdit, { actor: "curator" });
+
+      expect(restored.success).toBe(true);
+      expect((restored.data as Symbol).description).toBe("First edit");
+
+      const after = await database.getRevisions({ entityId: "mirror" });
+      expect(after.data?.[0]).toMatchObject({
+        version: 3,
+        action: "revert",
+        actor: "curator",
+        summary: "Reverted to version 2",
+      });
+      expect(after.data?.[0]?.snapshot.description).toBe("Bad edit");
+    });
+
+    it("records symbol set edits and deletions", async () => {
+      await database.updateSymbolSet("dream-journey", { name: "Night Journey" });
+      await database.deleteSymbol("key", false, { actor: "api" });
+
+      const sets = await database.getRevisions({ entityType: "symbol_set" });
+      expect(sets.data?.map((item) => item.entity_id)).toEqual(["dream-journey"]);
+
+      const deleted = await database.getRevisions({ entityId: "key" });
+      expect(deleted.data?.[0]).toMatchObject({ action: "delete", actor: "api" });
+    });
+
+    it("reports an unknown revision", async () => {
+      const result = await database.restoreRevision("missing");
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("not found");
+    });
+  });
+
+  describe("trash", () => {
+    it("hides deleted symbols until they are restored", async () => {
+      await database.deleteSymbol("mirror", false, { actor: "curator" });
+
+      const hidden = await database.getSymbol("mirror");
+      expect(hidden.data).toBeNull();
+
+      const trash = await database.getDeletedSymbols();
+      expect(trash.data?.map((symbol) => symbol.id)).toEqual(["mirror"]);
+      expect(trash.data?.[0]?.deleted_at).toBeInstanceOf(Date);
+
+      const restored = await database.restoreSymbol("mirror", { actor: "curator" });
+
+      expect(restored.success).toBe(true);
+      expect(restored.data?.deleted_at).toBeNull();
+      const history = await database.getRevisions({ entityId: "mirror" });
+      expect(history.data?.[0]).toMatchObject({
+        action: "restore",
+        actor: "curator",
+        summary: "Restored from trash",
+      });
+    });
+
+    it("brings back removed relationships and links on restore", async () => {
+      await database.createRelationship({
+        source_id: "key",
+        target_id: "labyrinth",
+        relation_type: "aspect_of",
+        weight: 0.7,
+        note: null,
+      });
+      await database.createRelationship({
+        source_id: "labyrinth",
+        target_id: "river",
+        relation_type: "related",
+        weight: null,
+        note: null,
+      });
+
+      const before = await database.getRelationships({ symbolId: "labyrinth" });
+
+      await database.deleteSymbol("labyrinth", true);
+
+      const unlinked = await database.getSymbol("key");
+      expect(unlinked.data?.related_symbols).not.toContain("labyrinth");
+      const dropped = await database.getRelationships({ symbolId: "labyrinth" });
+      expect(dropped.data).toEqual([]);
+
+      await database.restoreSymbol("labyrinth");
+
+      const relinked = await database.getSymbol("key");
+      expect(relinked.data?.related_symbols).toContain("labyrinth");
+      const links = await database.getRelationships({ symbolId: "labyrinth" });
+      expect(links.data).toHaveLength(before.data?.length ?? 0);
+      expect(links.data).toContainEqual(
+        expect.objectContaining({ source_id: "key", weight: 0.7 })
+      );
+    });
+
+    it("keeps a trashed ID reserved", async () => {
+      await database.deleteSymbol("key");
+
+      const result = await database.createSymbol({
+        id: "key",
+        name: "Key",
+        category: null,
+        description: null,
+        interpretations: {},
+        related_symbols: [],
+        properties: {},
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("already exists");
+    });
+
+    it("refuses to restore a symbol that is not deleted", async () => {
+      const result = await database.restoreSymbol("key");
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("is not deleted");
+    });
+
+    it("purges trashed symbols but keeps their history", async () => {
+      await database.deleteSymbol("key");
+      await database.deleteSymbol("river");
+
+      const cutoff = new Date(Date.now() + 1000);
+      const single = await database.purgeDeleted({ id: "key" });
+      const rest = await database.purgeDeleted({ deletedBefore: cutoff });
+
+      expect(single.data).toEqual(["key"]);
+      expect(rest.data).toEqual(["river"]);
+      const trash = await database.getDeletedSymbols();
+      expect(trash.data).toEqual([]);
+      const history = await database.getRevisions({ entityId: "key" });
+      expect(history.data?.[0]?.action).toBe("delete");
+
+      const missing = await database.purgeDeleted({ id: "key" });
+      expect(missing.success).toBe(false);
+      expect(missing.error?.message).toContain("not in the trash");
+    });
+  });
+
+  describe("symbol set membership", () => {
+    it("adds, reweights and removes members with a revision each", async () => {
+      await database.addSymbolToSet("dream-journey", "ouroboros", 0.3, {
+        actor: "curator",
+      });
+      await database.setMemberWeight("dream-journey", "ouroboros", 0.9);
+      const removed = await database.removeSymbolFromSet("dream-journey", "key");
+
+      expect(removed.data?.symbols).toEqual({
+        labyrinth: { weight: 1.0 },
+        river: { weight: 0.8 },
+        mirror: { weight: 0.6 },
+        ouroboros: { weight: 0.9 },
+      });
+
+      const history = await database.getRevisions({ entityId: "dream-journey" });
+      expect(history.data?.map((item) => item.summary)).toEqual([
+        'Removed "key"',
+        'Set weight of "ouroboros" to 0.9',
+        'Added "ouroboros"',
+      ]);
+      expect(history.data?.[2]?.actor).toBe("curator");
+    });
+
+    it("rejects unknown symbols and duplicate or missing members", async () => {
+      const unknown = await database.addSymbolToSet("dream-journey", "phoenix");
+      const duplicate = await database.addSymbolToSet("dream-journey", "key");
+      const missing = await database.setMemberWeight("dream-journey", "ouroboros", 0.5);
+
+      expect(unknown.error?.message).toContain("not found");
+      expect(duplicate.error?.message).toContain("already in symbol set");
+      expect(missing.error?.message).toContain("is not in symbol set");
+    });
+
+    it("returns a set with members resolved and sorted by weight", async () => {
+      await database.addSymbolToSet("dream-journey", "ouroboros", 0.9);
+      await database.deleteSymbol("ouroboros");
+
+      const plain = await database.getSymbolSet("dream-journey");
+      const expanded = await database.getSymbolSet("dream-journey", { expand: true });
+      const missing = await database.getSymbolSet("phoenix-rising");
+
+      expect(plain.data).not.toHaveProperty("members");
+      expect(expanded.data?.members?.map((member) => member.symbol_id)).toEqual([
+        "labyrinth",
+        "ouroboros",
+        "river",
+        "key",
+        "mirror",
+      ]);
+      expect(expanded.data?.members?.[0]?.symbol?.name).toBe("Labyrinth");
+      expect(expanded.data?.members?.[1]).toMatchObject({
+        weight: 0.9,
+        symbol: null,
+        missing: true,
+      });
+      expect(missing.data).toBeNull();
+    });
+
+    it("deletes a symbol set and keeps its history", async () => {
+      const result = await database.deleteSymbolSet("cycles-of-change");
+
+      expect(result.success).toBe(true);
+      const sets = await database.getSymbolSets();
+      expect(sets.data?.map((set) => set.id)).toEqual(["dream-journey"]);
+      const history = await database.getRevisions({ entityId: "cycles-of-change" });
+      expect(history.data?.[0]?.action).toBe("delete");
+    });
+
+    it("removes a symbol from every set when deleting with cascade", async () => {
+      await database.addSymbolToSet("cycles-of-change", "river");
+
+      await database.deleteSymbol("river", true);
+
+      const sets = await database.getSymbolSets();
+      expect(sets.data?.some((set) => "river" in set.symbols)).toBe(false);
+    });
+
+    it("puts a restored symbol back in the sets a cascade removed it from", async () => {
+      await database.deleteSymbol("mandala", true);
+      await database.restoreSymbol("mandala", { actor: "curator" });
+
+      const set = await database.getSymbolSet("cycles-of-change");
+      expect(set.data?.symbols).toEqual({
+        ouroboros: { weight: 1.0 },
+        infinity: { weight: 0.9 },
+        mandala: { weight: 0.7 },
+      });
+      const history = await database.getRevisions({ entityId: "cycles-of-change" });
+      expect(history.data?.[0]).toMatchObject({
+        action: "update",
+        actor: "curator",
+        summary: 'Re-added restored symbol "mandala"',
+      });
+    });
+
+    it("leaves set membership alone when deleting without cascade", async () => {
+      await database.deleteSymbol("river");
+
+      const sets = await database.getSymbolSets();
+      const dreamJourney = sets.data?.find((set) => set.id === "dream-journey");
+      expect(dreamJourney?.symbols).toHaveProperty("river");
+    });
+  });
+
+  describe("aliases", () => {
+    it("finds symbols by alias in search", async () => {
+      const byAlias = await database.searchSymbols("serpent eating its tail");
+      const byTranslation = await database.searchSymbols("οὐροβόρος");
+
+      expect(byAlias.data?.map((symbol) => symbol.id)).toEqual(["ouroboros"]);
+      expect(byTranslation.data?.map((symbol) => symbol.id)).toEqual(["ouroboros"]);
+    });
+
+    it("resolves an alias to the canonical symbol", async () => {
+      const result = await database.getSymbol("uroboros");
+
+      expect(result.data?.id).toBe("ouroboros");
+    });
+
+    it("prefers an exact ID over another symbol's alias", async () => {
+      await database.updateSymbol("mirror", {
+        aliases: [{ label: "key", language: "en" }],
+      });
+
+      const result = await database.getSymbol("key");
+
+      expect(result.data?.id).toBe("key");
+    });
+
+    it("normalizes aliases written through create and update", async () => {
+      await database.createSymbol({
+        id: "phoenix",
+        name: "Phoenix",
+        category: "transformation",
+        description: "A bird reborn from its ashes",
+        interpretations: {},
+        related_symbols: [],
+        properties: {},
+        aliases: [
+          { label: " Fenix ", language: "es" },
+          { label: "fenix", language: "ES" },
+          { label: "", language: null },
+        ],
+      });
+      const created = await database.getSymbol("phoenix");
+      expect(created.data?.aliases).toEqual([{ label: "Fenix", language: "es" }]);
+
+      const updated = await database.updateSymbol("phoenix", {
+        aliases: [{ label: "Feng huang", language: "zh-Latn" }],
+      });
+      expect(updated.data?.aliases).toEqual([
+        { label: "Feng huang", language: "zh-Latn" },
+      ]);
+      const history = await database.getRevisions({ entityId: "phoenix" });
+      expect(history.data?.[0]?.changed_fields).toEqual(["aliases"]);
+    });
+  });
+
+  describe("category taxonomy", () => {
+    it("returns the category tree in display order with symbol counts", async () => {
+      const result = await database.getCategoryTree();
+
+      expect(result.data?.map((node) => node.id)).toEqual([
+        "esoteric",
+        "psyche",
+        "passage",
+      ]);
+      const esoteric = result.data?.[0];
+      expect(esoteric?.symbol_count).toBe(0);
+      expect(esoteric?.children.map((node) => [node.id, node.symbol_count])).toEqual([
+        ["transformation", 1],
+        ["boundlessness", 1],
+      ]);
+    });
+
+    it("filters by a category and its descendants", async () => {
+      const direct = await database.filterByCategory("esoteric");
+      const nested = await database.filterByCategory("Esoteric", {
+        includeDescendants: true,
+      });
+
+      expect(direct.data).toEqual([]);
+      expect(nested.data?.map((symbol) => symbol.id).sort()).toEqual([
+        "infinity",
+        "ouroboros",
+      ]);
+    });
+
+    it("rejects a parent that would create a cycle", async () => {
+      const result = await database.updateCategory("esoteric", {
+        parent_id: "transformation",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("cannot be placed under itself");
+    });
+
+    it("creates categories only under an existing parent", async () => {
+      const orphan = await database.createCategory({
+        id: "alchemical",
+        parent_id: "occult",
+        description: null,
+        display_order: 0,
+      });
+      expect(orphan.error?.message).toBe('Parent category with ID "occult" not found');
+
+      await database.createCategory({
+        id: "alchemical",
+        parent_id: "transformation",
+        description: "The alchemical work",
+        display_order: 0,
+      });
+      await database.updateSymbol("ouroboros", { category: "alchemical" });
+
+      const nested = await database.filterByCategory("esoteric", {
+        includeDescendants: true,
+      });
+      expect(nested.data?.map((symbol) => symbol.id)).toContain("ouroboros");
+    });
+
+    it("moves children up to the parent of a deleted category", async () => {
+      await database.deleteCategory("passage");
+
+      const tree = await database.getCategoryTree();
+      expect(tree.data?.map((node) => node.id).sort()).toEqual([
+        "access",
+        "esoteric",
+        "flow",
+        "journey",
+        "psyche",
+      ]);
+    });
+  });
+
+  describe("tags", () => {
+    it("filters symbols carrying any of the tags", async () => {
+      const result = await database.filterByTags(["Eternity", "initiation"]);
+
+      expect(result.data?.map((symbol) => symbol.id).sort()).toEqual([
+        "infinity",
+        "key",
+        "labyrinth",
+        "ouroboros",
+      ]);
+    });
+
+    it("filters symbols carrying all of the tags", async () => {
+      const result = await database.filterByTags(["cycles", "renewal"], {
+        match: "all",
+      });
+
+      expect(result.data?.map((symbol) => symbol.id)).toEqual(["ouroboros"]);
+    });
+
+    it("counts tags, most used first", async () => {
+      const result = await database.getTags();
+
+      expect(result.data?.slice(0, 3)).toEqual([
+        { tag: "cycles", count: 2 },
+        { tag: "eternity", count: 2 },
+        { tag: "initiation", count: 2 },
+      ]);
+      expect(result.data).toContainEqual({ tag: "flow", count: 1 });
+    });
+
+    it("normalizes tags written through update", async () => {
+      const result = await database.updateSymbol("river", {
+        tags: [" Flow ", "time", "flow", ""],
+      });
+
+      expect(result.data?.tags).toEqual(["flow", "time"]);
+      const history = await database.getRevisions({ entityId: "river" });
+      expect(history.data?.[0]?.changed_fields).toEqual(["tags"]);
+    });
+  });
+
+  describe("translations", () => {
+    it("falls back per field and per interpretation context", async () => {
+      const result = await database.getSymbol("ouroboros");
+      const symbol = localizeSymbol(result.data as Symbol, "es-MX");
+
+      expect(symbol.locale).toBe("es");
+      expect(symbol.name).toBe("Uróboros");
+      expect(symbol.interpretations.dream).toBe(
+        "Ciclos que se repiten o la necesidad de romper un bucle"
+      );
+      expect(symbol.interpretations.mythic).toBe(
+        result.data?.interpretations.mythic
+      );
+      expect(symbol.translations).toBeUndefined();
+    });
+
+    it("keeps the original text for an untranslated locale", async () => {
+      const result = await database.getSymbol("mandala");
+      const symbol = localizeSymbol(result.data as Symbol, "fr");
+
+      expect(symbol.locale).toBe("en");
+      expect(symbol.name).toBe(result.data?.name);
+      expect(symbol.description).toBe(result.data?.description);
+    });
+
+    it("localizes a symbol set and its expanded members", async () => {
+      const result = await database.getSymbolSet("dream-journey", {
+        expand: true,
+      });
+      const symbolSet = localizeSymbolSet(result.data as ExpandedSymbolSet, "de");
+
+      expect(symbolSet.name).toBe("Traumreise");
+      const river = symbolSet.members?.find(
+        (member) => member.symbol_id === "river"
+      );
+      expect(river?.symbol?.name).toBe("Fluss");
+    });
+
+    it("normalizes locale keys written through update", async () => {
+      const result = await database.updateSymbol("key", {
+        translations: { es_mx: { name: "Llave" } },
+      });
+
+      expect(result.data?.translations).toEqual({
+        "es-MX": { name: "Llave" },
+      });
+    });
+  });
+
+  describe("provenance", () => {
+    it("returns citations and origin with the symbol", async () => {
+      const result = await database.getSymbol("ouroboros");
+
+      expect(result.data?.origin).toBe("human");
+      expect(
+        result.data?.citations?.map((citation) => citation.interpretation)
+      ).toEqual([null, "mythic"]);
+    });
+
+    it("leaves out excluded origins from listings", async () => {
+      const all = await database.getSymbols();
+      const curated = await database.getSymbols({ excludeOrigins: ["ai"] });
+
+      const ids = (symbols: Symbol[] = []) => symbols.map((symbol) => symbol.id);
+      expect(ids(all.data)).toContain("infinity");
+      expect(ids(curated.data)).not.toContain("infinity");
+      expect(curated.data?.length).toBe((all.data?.length ?? 0) - 1);
+    });
+
+    it("rejects citations for interpretations the symbol does not have", async () => {
+      const result = await database.updateSymbol("key", {
+        citations: [
+          {
+            source_title: "A Dictionary of Symbols",
+            author: "J. E. Cirlot",
+            url: null,
+            isbn: null,
+            page: null,
+            confidence: null,
+            interpretation: "alchemical",
+          },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("alchemical");
+    });
+
+    it("rejects dropping an interpretation that is still cited", async () => {
+      const result = await database.updateSymbol("ouroboros", {
+        interpretations: { dream: "Recurring cycles" },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("mythic");
+    });
+  });
+
+  describe("property schemas", () => {
+    it("adds schemas and lists them ordered by category", async () => {
+      await database.setPropertySchema({
+        category: "flow",
+        properties: { element: { type: "string", enum: ["water", "air"] } },
+        allow_additional: true,
+      });
+
+      const result = await database.getPropertySchemas();
+
+      expect(result.data?.map((schema) => schema.category)).toEqual([
+        "flow",
+        "transformation",
+      ]);
+    });
+
+    it("replaces a category's schema and keeps its creation time", async () => {
+      const before = await database.getPropertySchema("transformation");
+
+      await database.setPropertySchema({
+        category: "transformation",
+        properties: { origin: { type: "string" } },
+        allow_additional: true,
+      });
+      const after = await database.getPropertySchema("transformation");
+
+      expect(after.data?.properties).toEqual({ origin: { type: "string" } });
+      expect(after.data?.allow_additional).toBe(true);
+      expect(after.data?.created_at).toEqual(before.data?.created_at);
+      expect((await database.getPropertySchemas()).data).toHaveLength(1);
+    });
+
+    it("finds and replaces a schema ignoring the category's case", async () => {
+      const found = await database.getPropertySchema("Transformation");
+
+      await database.setPropertySchema({
+        category: "Transformation",
+        properties: {},
+        allow_additional: true,
+      });
+
+      expect(found.data?.category).toBe("transformation");
+      expect((await database.getPropertySchemas()).data).toEqual([
+        expect.objectContaining({ category: "Transformation" }),
+      ]);
+    });
+
+    it("returns null for a category without a schema", async () => {
+      const result = await database.getPropertySchema("access");
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeNull();
+    });
+
+    it("deletes a schema and reports unknown categories", async () => {
+      const deleted = await database.deletePropertySchema("transformation");
+      const missing = await database.deletePropertySchema("transformation");
+
+      expect(deleted.data).toBe(true);
+      expect(missing.success).toBe(false);
+      expect(missing.error?.message).toContain("not found");
+    });
+  });
+
+  describe("suggestions", () => {
+    it("completes IDs, names, aliases and later words", async () => {
+      const start = await database.suggest("lab");
+      const word = await database.suggest("tail");
+
+      expect(start.data).toEqual([
+        { value: "labyrinth", kind: "id", symbol_id: "labyrinth" },
+        { value: "Labyrinth", kind: "name", symbol_id: "labyrinth" },
+        { value: "Labyrinth", kind: "alias", symbol_id: "labyrinth" },
+      ]);
+      expect(word.data).toEqual([
+        {
+          value: "serpent eating its tail",
+          kind: "alias",
+          symbol_id: "ouroboros",
+        },
+      ]);
+    });
+
+    it("suggests categories from the taxonomy without a symbol", async () => {
+      const result = await database.suggest("PA", { kinds: ["category"] });
+
+      expect(result.data).toEqual([
+        { value: "passage", kind: "category", symbol_id: null },
+      ]);
+    });
+
+    it("puts whole matches first and only suggests the requested kinds", async () => {
+      await database.updateSymbol("mirror", {
+        aliases: [{ label: "A key", language: "en" }],
+      });
+
+      const all = await database.suggest("key");
+      const aliases = await database.suggest("key", { kinds: ["alias"] });
+
+      expect(all.data?.map((suggestion) => suggestion.value)).toEqual([
+        "key",
+        "Key",
+        "A key",
+      ]);
+      expect(aliases.data).toEqual([
+        { value: "A key", kind: "alias", symbol_id: "mirror" },
+      ]);
+    });
+
+    it("limits the suggestions and leaves out trashed symbols", async () => {
+      await database.deleteSymbol("river");
+
+      const limited = await database.suggest("", { limit: 3 });
+      const trashed = await database.suggest("riv");
+
+      expect(limited.data).toHaveLength(3);
+      expect(trashed.data).toEqual([]);
+    });
+  });
 });
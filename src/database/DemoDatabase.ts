@@ -1,16 +1,104 @@
+import { randomUUID } from "crypto";
+
 import demoData from "@/data/demo-symbols.json";
 
-import type {
-  QueryOptions,
-  QueryResult,
-  Symbol,
-  SymbolSet,
+import {
+  SUGGESTION_KINDS,
+  SYMMETRIC_RELATION_TYPES,
+  type CategoryFilterOptions,
+  type CategoryTreeNode,
+  type ChangeContext,
+  type ExpandedSymbolSet,
+  type NeighborhoodOptions,
+  type PropertySchema,
+  type PurgeOptions,
+  type QueryOptions,
+  type QueryResult,
+  type RelationshipQueryOptions,
+  type RelationType,
+  type RemovedSetMembership,
+  type Revision,
+  type RevisionAction,
+  type RevisionEntityType,
+  type RevisionQueryOptions,
+  type SearchOptions,
+  type SimilarityTarget,
+  type SortField,
+  type Suggestion,
+  type SuggestOptions,
+  type Symbol,
+  type SymbolCategory,
+  type SymbolNeighborhood,
+  type SymbolRelationship,
+  type SymbolSet,
+  type SymbolFacets,
+  type SymbolQuery,
+  type SymbolSetQueryOptions,
+  type TagCount,
+  type TagFilterOptions,
 } from "@/types/Symbol.js";
-import type { IDatabase } from "@/database/Database.js";
+import type { DatabaseOptions, IDatabase } from "@/database/Database.js";
+import {
+  changedFields,
+  restorableFields,
+  reverseLinkSummary,
+  summarizeChange,
+} from "@/database/revisions.js";
+import { hasAlias, normalizeAliases } from "@/database/aliases.js";
+import {
+  buildCategoryTree,
+  categoryWithDescendants,
+  createsCategoryCycle,
+} from "@/database/categories.js";
+import {
+  memberWeight,
+  resolveMembers,
+  withMember,
+  withoutMember,
+} from "@/database/setMembers.js";
+import { countTags, matchesTags, normalizeTags } from "@/database/tags.js";
+import { normalizeTranslations } from "@/database/locales.js";
+import { findPropertySchema } from "@/database/propertySchemas.js";
+import {
+  FUZZY_THRESHOLD,
+  fuzzyScore,
+  hasJsonFilters,
+  matchesJsonFilters,
+  rankSymbol,
+  roundScore,
+  searchTerms,
+} from "@/database/search.js";
+import {
+  citationError,
+  matchesOrigin,
+  normalizeCitations,
+} from "@/database/provenance.js";
+import { matchesSymbolQuery } from "@/database/symbolQuery.js";
+import { rankSuggestions, SUGGEST_LIMIT } from "@/database/suggest.js";
+import { countFacets } from "@/database/facets.js";
+import { highlightMatches } from "@/database/highlights.js";
+import {
+  cosineSimilarity,
+  embedSymbol,
+  embedText,
+  SIMILAR_PAGE_SIZE,
+  SIMILARITY_THRESHOLD,
+} from "@/database/embeddings.js";
+import { paginate } from "@/database/pagination.js";
+import {
+  countRelations,
+  resolveSetSort,
+  resolveSort,
+  sortSymbolSets,
+  sortSymbols,
+  totalSetWeights,
+} from "@/database/sorting.js";
 
 interface DemoDataPayload {
   symbols: Array<Omit<Symbol, "created_at" | "updated_at">>;
   symbol_sets: Array<Omit<SymbolSet, "created_at" | "updated_at">>;
+  categories: Array<Omit<SymbolCategory, "created_at" | "updated_at">>;
+  property_schemas: Array<Omit<PropertySchema, "created_at" | "updated_at">>;
 }
 
 const DEMO_DATA = demoData as DemoDataPayload;
@@ -23,22 +111,81 @@ function now(): Date {
   return new Date();
 }
 
+function relationship(
+  sourceId: string,
+  targetId: string,
+  relationType: RelationType,
+  timestamp: Date
+): SymbolRelationship {
+  return {
+    id: randomUUID(),
+    source_id: sourceId,
+    target_id: targetId,
+    relation_type: relationType,
+    weight: null,
+    note: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+}
+
+type RelationLink = Pick<SymbolRelationship, "source_id" | "target_id" | "relation_type"> &
+  Partial<Pick<SymbolRelationship, "weight" | "note">>;
+
+function isSymmetricLink(link: RelationLink): boolean {
+  return (
+    link.source_id !== link.target_id &&
+    SYMMETRIC_RELATION_TYPES.includes(link.relation_type)
+  );
+}
+
 export class DemoDatabase implements IDatabase {
   private symbols: Symbol[] = [];
   private symbolSets: SymbolSet[] = [];
+  private categories: SymbolCategory[] = [];
+  private propertySchemas: PropertySchema[] = [];
+  private relationships: SymbolRelationship[] = [];
+  private revisions: Revision[] = [];
+  private deletedSymbols: Symbol[] = [];
+  private embeddings = new Map<string, number[]>();
+  private readonly symmetricRelations: boolean;
 
-  constructor() {
+  constructor(options: DatabaseOptions = {}) {
+    this.symmetricRelations = options.symmetricRelations ?? false;
     const timestamp = now();
     this.symbols = DEMO_DATA.symbols.map((symbol) => ({
       ...symbol,
+      aliases: normalizeAliases(symbol.aliases ?? []),
+      tags: normalizeTags(symbol.tags ?? []),
+      translations: normalizeTranslations(symbol.translations ?? {}),
+      citations: normalizeCitations(symbol.citations ?? []),
+      origin: symbol.origin ?? null,
+      provenance: symbol.provenance ?? null,
       created_at: timestamp,
       updated_at: timestamp,
     }));
+    this.symbols.forEach((symbol) => this.refreshEmbedding(symbol));
     this.symbolSets = DEMO_DATA.symbol_sets.map((set) => ({
       ...set,
+      translations: normalizeTranslations(set.translations ?? {}),
+      created_at: timestamp,
+      updated_at: timestamp,
+    }));
+    this.categories = DEMO_DATA.categories.map((category) => ({
+      ...category,
+      created_at: timestamp,
+      updated_at: timestamp,
+    }));
+    this.propertySchemas = DEMO_DATA.property_schemas.map((schema) => ({
+      ...schema,
       created_at: timestamp,
       updated_at: timestamp,
     }));
+    this.relationships = this.symbols.flatMap((symbol) =>
+      symbol.related_symbols.map((targetId) =>
+        relationship(symbol.id, targetId, "related", timestamp)
+      )
+    );
   }
 
   async connect(): Promise<void> {
@@ -54,45 +201,185 @@ export class DemoDatabase implements IDatabase {
   }
 
   async getSymbols(options: QueryOptions = {}): Promise<QueryResult<Symbol[]>> {
-    const { limit = 50, offset = 0 } = options;
-    const data = this.symbols.slice(offset, offset + limit);
-    return { success: true, data };
+    const { excludeOrigins } = options;
+    return paginate(
+      this.sorted(
+        this.symbols.filter((symbol) => matchesOrigin(symbol, excludeOrigins)),
+        options
+      ),
+      options
+    );
   }
 
   async getSymbol(id: string): Promise<QueryResult<Symbol | null>> {
-    const symbol = this.symbols.find((item) => item.id === id) ?? null;
+    const symbol =
+      this.symbols.find((item) => item.id === id) ??
+      this.symbols.find((item) => hasAlias(item, id)) ??
+      null;
     return { success: true, data: symbol };
   }
 
   async searchSymbols(
     query: string,
-    options: QueryOptions = {}
+    options: SearchOptions = {}
   ): Promise<QueryResult<Symbol[]>> {
-    const { limit = 50, offset = 0 } = options;
-    const needle = normalize(query);
-    const results = this.symbols.filter((symbol) => {
-      const haystack = [
-        symbol.name,
-        symbol.description ?? "",
-        symbol.category ?? "",
-      ]
-        .join(" ")
-        .toLowerCase();
-      return haystack.includes(needle);
+    const result = paginate(
+      this.sorted(this.searchMatches(query, options), options, "relevance"),
+      options
+    );
+    return {
+      ...result,
+      ...(result.data && {
+        data: result.data.map((symbol) => ({
+          ...symbol,
+          ...highlightMatches(symbol, query, options),
+        })),
+      }),
+    };
+  }
+
+  getSearchFacets(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<QueryResult<SymbolFacets>> {
+    return Promise.resolve({
+      success: true,
+      data: countFacets(this.searchMatches(query, options)),
     });
-    return { success: true, data: results.slice(offset, offset + limit) };
+  }
+
+  /**
+   * Every symbol the search matches, most relevant first
+   */
+  private searchMatches(query: string, options: SearchOptions): Symbol[] {
+    const { excludeOrigins, mode = "fulltext" } = options;
+    const terms = searchTerms(query);
+    const candidates = this.symbols.filter(
+      (symbol) =>
+        matchesOrigin(symbol, excludeOrigins) &&
+        (!options.category || symbol.category === options.category) &&
+        matchesJsonFilters(symbol, options)
+    );
+
+    // Interpretation and property filters alone list their matches by name
+    if (terms.length === 0) {
+      return hasJsonFilters(options)
+        ? [...candidates].sort((a, b) => a.name.localeCompare(b.name))
+        : [];
+    }
+
+    return candidates
+      .map((symbol) => ({
+        ...symbol,
+        score:
+          mode === "fuzzy"
+            ? fuzzyScore(symbol, query)
+            : rankSymbol(symbol, terms),
+      }))
+      .filter((symbol) =>
+        mode === "fuzzy" ? symbol.score >= FUZZY_THRESHOLD : symbol.score > 0
+      )
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  }
+
+  querySymbols(
+    query: SymbolQuery,
+    options: QueryOptions = {}
+  ): Promise<QueryResult<Symbol[]>> {
+    const { excludeOrigins } = options;
+    const results = this.symbols.filter(
+      (symbol) =>
+        matchesOrigin(symbol, excludeOrigins) &&
+        matchesSymbolQuery(symbol, query)
+    );
+    return Promise.resolve(paginate(this.sorted(results, options), options));
+  }
+
+  async findSimilarSymbols(
+    target: SimilarityTarget,
+    options: QueryOptions = {}
+  ): Promise<QueryResult<Symbol[]>> {
+    const { excludeOrigins } = options;
+
+    let vector: number[];
+    let sourceId: string | null = null;
+    if ("symbolId" in target) {
+      const source = (await this.getSymbol(target.symbolId)).data;
+      if (!source) {
+        return {
+          success: false,
+          error: new Error(`Symbol with ID "${target.symbolId}" not found`),
+        };
+      }
+      vector = this.embeddings.get(source.id) ?? embedSymbol(source);
+      sourceId = source.id;
+    } else {
+      vector = embedText(target.text);
+    }
+
+    const results = this.symbols
+      .filter(
+        (symbol) => symbol.id !== sourceId && matchesOrigin(symbol, excludeOrigins)
+      )
+      .map((symbol) => ({
+        ...symbol,
+        score: roundScore(
+          cosineSimilarity(
+            this.embeddings.get(symbol.id) ?? embedSymbol(symbol),
+            vector
+          )
+        ),
+      }))
+      .filter((symbol) => symbol.score >= SIMILARITY_THRESHOLD);
+    return paginate(
+      this.sorted(results, options, "relevance"),
+      options,
+      SIMILAR_PAGE_SIZE
+    );
   }
 
   async filterByCategory(
     category: string,
-    options: QueryOptions = {}
+    options: CategoryFilterOptions = {}
   ): Promise<QueryResult<Symbol[]>> {
-    const { limit = 50, offset = 0 } = options;
+    return paginate(
+      this.sorted(this.categoryMatches(category, options), options),
+      options
+    );
+  }
+
+  getCategoryFacets(
+    category: string,
+    options: CategoryFilterOptions = {}
+  ): Promise<QueryResult<SymbolFacets>> {
+    return Promise.resolve({
+      success: true,
+      data: countFacets(this.categoryMatches(category, options)),
+    });
+  }
+
+  /**
+   * Every symbol in the category, or in it and its descendants
+   */
+  private categoryMatches(
+    category: string,
+    options: CategoryFilterOptions
+  ): Symbol[] {
+    const { includeDescendants = false, excludeOrigins } = options;
     const needle = normalize(category);
-    const results = this.symbols.filter(
-      (symbol) => normalize(symbol.category ?? "") === needle
+    const declared = this.categories.find(
+      (item) => normalize(item.id) === needle
+    );
+    const matching = new Set(
+      includeDescendants && declared
+        ? categoryWithDescendants(this.categories, declared.id).map(normalize)
+        : [needle]
+    );
+    return this.symbols.filter(
+      (symbol) =>
+        matching.has(normalize(symbol.category ?? "")) &&
+        matchesOrigin(symbol, excludeOrigins)
     );
-    return { success: true, data: results.slice(offset, offset + limit) };
   }
 
   async getCategories(): Promise<QueryResult<string[]>> {
@@ -106,19 +393,248 @@ export class DemoDatabase implements IDatabase {
     return { success: true, data: categories };
   }
 
+  suggest(
+    prefix: string,
+    options: SuggestOptions = {}
+  ): Promise<QueryResult<Suggestion[]>> {
+    const { kinds = [...SUGGESTION_KINDS], limit = SUGGEST_LIMIT } = options;
+    const candidates: Suggestion[] = [
+      ...this.symbols.flatMap((symbol): Suggestion[] => [
+        { value: symbol.id, kind: "id", symbol_id: symbol.id },
+        { value: symbol.name, kind: "name", symbol_id: symbol.id },
+        ...(symbol.aliases ?? []).map(
+          (alias): Suggestion => ({
+            value: alias.label,
+            kind: "alias",
+            symbol_id: symbol.id,
+          })
+        ),
+      ]),
+      ...[
+        ...this.categories.map((category) => category.id),
+        ...this.symbols.map((symbol) => symbol.category),
+      ].flatMap((category): Suggestion[] =>
+        category ? [{ value: category, kind: "category", symbol_id: null }] : []
+      ),
+    ];
+    return Promise.resolve({
+      success: true,
+      data: rankSuggestions(
+        candidates.filter((candidate) => kinds.includes(candidate.kind)),
+        prefix,
+        limit
+      ),
+    });
+  }
+
+  filterByTags(
+    tags: string[],
+    options: TagFilterOptions = {}
+  ): Promise<QueryResult<Symbol[]>> {
+    const { match = "any", excludeOrigins } = options;
+    const wanted = normalizeTags(tags);
+    const results = this.symbols.filter(
+      (symbol) =>
+        matchesTags(symbol, wanted, match) &&
+        matchesOrigin(symbol, excludeOrigins)
+    );
+    return Promise.resolve(paginate(this.sorted(results, options), options));
+  }
+
+  getTags(): Promise<QueryResult<TagCount[]>> {
+    return Promise.resolve({ success: true, data: countTags(this.symbols) });
+  }
+
+  getCategoryTree(): Promise<QueryResult<CategoryTreeNode[]>> {
+    return Promise.resolve({
+      success: true,
+      data: buildCategoryTree(this.categories, this.symbols),
+    });
+  }
+
+  createCategory(
+    category: Omit<SymbolCategory, "created_at" | "updated_at">
+  ): Promise<QueryResult<SymbolCategory>> {
+    if (this.categories.some((item) => item.id === category.id)) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Category "${category.id}" already exists`),
+      });
+    }
+    if (
+      category.parent_id &&
+      !this.categories.some((item) => item.id === category.parent_id)
+    ) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(
+          `Parent category with ID "${category.parent_id}" not found`
+        ),
+      });
+    }
+
+    const timestamp = now();
+    const created: SymbolCategory = {
+      ...category,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+    this.categories.push(created);
+    return Promise.resolve({ success: true, data: created });
+  }
+
+  updateCategory(
+    id: string,
+    updates: Partial<Omit<SymbolCategory, "id" | "created_at" | "updated_at">>
+  ): Promise<QueryResult<SymbolCategory>> {
+    const index = this.categories.findIndex((item) => item.id === id);
+    const current = this.categories[index];
+    if (!current) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Category with ID "${id}" not found`),
+      });
+    }
+
+    const parentId = updates.parent_id;
+    if (parentId) {
+      if (!this.categories.some((item) => item.id === parentId)) {
+        return Promise.resolve({
+          success: false,
+          error: new Error(`Parent category with ID "${parentId}" not found`),
+        });
+      }
+      if (createsCategoryCycle(this.categories, id, parentId)) {
+        return Promise.resolve({
+          success: false,
+          error: new Error(
+            `Category "${id}" cannot be placed under itself or one of its descendants`
+          ),
+        });
+      }
+    }
+
+    const updated: SymbolCategory = {
+      ...current,
+      ...(updates.parent_id !== undefined && { parent_id: updates.parent_id }),
+      ...(updates.description !== undefined && {
+        description: updates.description,
+      }),
+      ...(updates.display_order !== undefined && {
+        display_order: updates.display_order,
+      }),
+      updated_at: now(),
+    };
+    this.categories[index] = updated;
+    return Promise.resolve({ success: true, data: updated });
+  }
+
+  deleteCategory(id: string): Promise<QueryResult<boolean>> {
+    const existing = this.categories.find((item) => item.id === id);
+    if (!existing) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Category with ID "${id}" not found`),
+      });
+    }
+
+    const timestamp = now();
+    this.categories = this.categories
+      .filter((item) => item.id !== id)
+      .map((item) =>
+        item.parent_id === id
+          ? { ...item, parent_id: existing.parent_id, updated_at: timestamp }
+          : item
+      );
+    return Promise.resolve({ success: true, data: true });
+  }
+
+  getPropertySchemas(): Promise<QueryResult<PropertySchema[]>> {
+    return Promise.resolve({
+      success: true,
+      data: [...this.propertySchemas].sort((a, b) =>
+        a.category.localeCompare(b.category)
+      ),
+    });
+  }
+
+  getPropertySchema(
+    category: string
+  ): Promise<QueryResult<PropertySchema | null>> {
+    return Promise.resolve({
+      success: true,
+      data: findPropertySchema(this.propertySchemas, category) ?? null,
+    });
+  }
+
+  setPropertySchema(
+    schema: Omit<PropertySchema, "created_at" | "updated_at">
+  ): Promise<QueryResult<PropertySchema>> {
+    const timestamp = now();
+    const existing = findPropertySchema(this.propertySchemas, schema.category);
+    const saved: PropertySchema = {
+      ...schema,
+      created_at: existing?.created_at ?? timestamp,
+      updated_at: timestamp,
+    };
+    this.propertySchemas = [
+      ...this.propertySchemas.filter((item) => item !== existing),
+      saved,
+    ];
+    return Promise.resolve({ success: true, data: saved });
+  }
+
+  deletePropertySchema(category: string): Promise<QueryResult<boolean>> {
+    const existing = findPropertySchema(this.propertySchemas, category);
+    if (!existing) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Property schema for category "${category}" not found`),
+      });
+    }
+
+    this.propertySchemas = this.propertySchemas.filter(
+      (item) => item !== existing
+    );
+    return Promise.resolve({ success: true, data: true });
+  }
+
   async getSymbolSets(
     options: QueryOptions = {}
   ): Promise<QueryResult<SymbolSet[]>> {
-    const { limit = 50, offset = 0 } = options;
-    const data = this.symbolSets.slice(offset, offset + limit);
-    return { success: true, data };
+    const sort = resolveSetSort(options);
+    if (!sort.data) {
+      return { success: false, error: sort.error };
+    }
+    return paginate(sortSymbolSets(this.symbolSets, sort.data), options);
+  }
+
+  getSymbolSet(
+    id: string,
+    options: SymbolSetQueryOptions = {}
+  ): Promise<QueryResult<ExpandedSymbolSet | null>> {
+    const symbolSet = this.symbolSets.find((item) => item.id === id);
+    if (!symbolSet) {
+      return Promise.resolve({ success: true, data: null });
+    }
+    if (!options.expand) {
+      return Promise.resolve({ success: true, data: symbolSet });
+    }
+
+    return Promise.resolve({
+      success: true,
+      data: { ...symbolSet, members: resolveMembers(symbolSet, this.symbols) },
+    });
   }
 
   async searchSymbolSets(
     query: string,
     options: QueryOptions = {}
   ): Promise<QueryResult<SymbolSet[]>> {
-    const { limit = 50, offset = 0 } = options;
+    const sort = resolveSetSort(options);
+    if (!sort.data) {
+      return { success: false, error: sort.error };
+    }
     const needle = normalize(query);
     const results = this.symbolSets.filter((set) => {
       const haystack = [
@@ -130,7 +646,7 @@ export class DemoDatabase implements IDatabase {
         .toLowerCase();
       return haystack.includes(needle);
     });
-    return { success: true, data: results.slice(offset, offset + limit) };
+    return paginate(sortSymbolSets(results, sort.data), options);
   }
 
   async healthCheck(): Promise<QueryResult<{ status: string; timestamp: Date }>> {
@@ -143,29 +659,68 @@ export class DemoDatabase implements IDatabase {
   async createSymbol(
     symbol: Omit<Symbol, "created_at" | "updated_at">
   ): Promise<QueryResult<Symbol>> {
-    if (this.symbols.some((item) => item.id === symbol.id)) {
+    if (
+      [...this.symbols, ...this.deletedSymbols].some(
+        (item) => item.id === symbol.id
+      )
+    ) {
       return {
         success: false,
         error: new Error(`Symbol with ID "${symbol.id}" already exists`),
       };
     }
 
+    const citations = normalizeCitations(symbol.citations ?? []);
+    const invalid = citationError(citations, symbol.interpretations);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
     const timestamp = now();
     const created: Symbol = {
       ...symbol,
+      aliases: normalizeAliases(symbol.aliases ?? []),
+      tags: normalizeTags(symbol.tags ?? []),
+      translations: normalizeTranslations(symbol.translations ?? {}),
+      citations,
+      origin: symbol.origin ?? null,
+      provenance: symbol.provenance ?? null,
       created_at: timestamp,
       updated_at: timestamp,
     };
 
+    const links = created.related_symbols.map((targetId) =>
+      relationship(created.id, targetId, "related", timestamp)
+    );
+
     this.symbols.push(created);
+    this.refreshEmbedding(created);
+    this.relationships.push(...links);
+
+    if (this.symmetricRelations) {
+      this.addReverseLinks(links, timestamp);
+    }
 
     return { success: true, data: created };
   }
 
   async updateSymbol(
     id: string,
-    updates: Partial<Omit<Symbol, "id" | "created_at" | "updated_at">>
+    updates: Partial<Omit<Symbol, "id" | "created_at" | "updated_at">>,
+    context: ChangeContext = {}
   ): Promise<QueryResult<Symbol>> {
+    return this.writeSymbolUpdate(id, updates, context, "update");
+  }
+
+  /**
+   * Apply updates to a symbol and record the version they replace
+   */
+  private writeSymbolUpdate(
+    id: string,
+    updates: Partial<Omit<Symbol, "id" | "created_at" | "updated_at">>,
+    context: ChangeContext,
+    action: RevisionAction
+  ): QueryResult<Symbol> {
     const index = this.symbols.findIndex((item) => item.id === id);
     if (index === -1) {
       return {
@@ -174,44 +729,288 @@ export class DemoDatabase implements IDatabase {
       };
     }
 
-    const current = this.symbols[index];
+    const current = this.symbols[index] as Symbol;
+    const changes = {
+      ...updates,
+      ...(updates.aliases && { aliases: normalizeAliases(updates.aliases) }),
+      ...(updates.tags && { tags: normalizeTags(updates.tags) }),
+      ...(updates.translations && {
+        translations: normalizeTranslations(updates.translations),
+      }),
+      ...(updates.citations && {
+        citations: normalizeCitations(updates.citations),
+      }),
+    };
+
+    if (changes.citations ?? changes.interpretations) {
+      const invalid = citationError(
+        changes.citations ?? current.citations ?? [],
+        changes.interpretations ?? current.interpretations
+      );
+      if (invalid) {
+        return { success: false, error: invalid };
+      }
+    }
+
     const updated: Symbol = {
       ...current,
-      ...updates,
+      ...changes,
       updated_at: now(),
     };
 
+    this.recordRevision("symbol", current, action, changedFields(current, changes), context);
     this.symbols[index] = updated;
+    this.refreshEmbedding(updated);
+
+    // Keep typed relationships in step with the related_symbols list
+    if (updates.related_symbols) {
+      const previous = current.related_symbols;
+      const next = updates.related_symbols;
+      const dropped = this.relationships.filter(
+        (item) => item.source_id === id && !next.includes(item.target_id)
+      );
+      const links = next
+        .filter((targetId) => !previous.includes(targetId))
+        .map((targetId) =>
+          relationship(id, targetId, "related", updated.updated_at)
+        );
+
+      this.relationships = this.relationships.filter(
+        (item) => !dropped.includes(item)
+      );
+      this.relationships.push(...links);
+
+      if (this.symmetricRelations) {
+        this.removeReverseLinks(dropped, context);
+        this.addReverseLinks(links, updated.updated_at, context);
+      }
+    }
 
     return { success: true, data: updated };
   }
 
   async deleteSymbol(
     id: string,
-    cascade = false
+    cascade = false,
+    context: ChangeContext = {}
   ): Promise<QueryResult<boolean>> {
     const index = this.symbols.findIndex((item) => item.id === id);
-    if (index === -1) {
+    const current = this.symbols[index];
+    if (!current) {
       return {
         success: false,
         error: new Error(`Symbol with ID "${id}" not found`),
       };
     }
 
-    this.symbols.splice(index, 1);
+    // Drop outgoing relationships, plus incoming ones when cascading or the
+    // symmetric partners' links back when that policy is on
+    const outgoing = this.relationships.filter((item) => item.source_id === id);
+    const incoming = this.relationships.filter(
+      (item) =>
+        item.target_id === id &&
+        (cascade ||
+          (this.symmetricRelations &&
+            outgoing.some(
+              (link) =>
+                isSymmetricLink(link) &&
+                link.target_id === item.source_id &&
+                link.relation_type === item.relation_type
+            )))
+    );
+    const removed = [...outgoing, ...incoming];
+    this.relationships = this.relationships.filter(
+      (item) => !removed.includes(item)
+    );
 
-    if (cascade) {
-      this.symbols = this.symbols.map((symbol) => ({
+    // Referencing symbols lose this ID once no link back to it remains,
+    // each edit recorded so it shows up in their history
+    const timestamp = now();
+    this.symbols = this.symbols.map((symbol) => {
+      const unlink =
+        symbol.id !== id &&
+        symbol.related_symbols.includes(id) &&
+        (cascade ||
+          (incoming.some((item) => item.source_id === symbol.id) &&
+            !this.relationships.some(
+              (item) => item.source_id === symbol.id && item.target_id === id
+            )));
+      if (!unlink) {
+        return symbol;
+      }
+
+      this.recordRevision("symbol", symbol, "update", ["related_symbols"], {
+        ...context,
+        summary: `Unlinked deleted symbol "${id}"`,
+      });
+      return {
         ...symbol,
         related_symbols: symbol.related_symbols.filter(
           (related) => related !== id
         ),
-      }));
+        updated_at: timestamp,
+      };
+    });
+
+    // Cascading also takes the symbol out of every set that contains it
+    const memberships: RemovedSetMembership[] = [];
+    if (cascade) {
+      this.symbolSets = this.symbolSets.map((symbolSet) => {
+        if (!(id in symbolSet.symbols)) {
+          return symbolSet;
+        }
+
+        this.recordRevision("symbol_set", symbolSet, "update", ["symbols"], {
+          ...context,
+          summary: `Removed deleted symbol "${id}"`,
+        });
+        memberships.push({
+          set_id: symbolSet.id,
+          weight: memberWeight(symbolSet.symbols[id]),
+        });
+        return {
+          ...symbolSet,
+          symbols: withoutMember(symbolSet.symbols, id),
+          updated_at: timestamp,
+        };
+      });
     }
 
+    // Move the symbol to the trash, keeping what was removed for a restore
+    this.recordRevision("symbol", current, "delete", [], context, removed, memberships);
+    this.symbols = this.symbols.filter((symbol) => symbol.id !== id);
+    this.deletedSymbols.push({ ...current, deleted_at: timestamp });
+
     return { success: true, data: true };
   }
 
+  getDeletedSymbols(
+    options: QueryOptions = {}
+  ): Promise<QueryResult<Symbol[]>> {
+    // Most recently deleted first unless another order is asked for
+    const deleted = [...this.deletedSymbols].reverse();
+    return Promise.resolve(
+      paginate(
+        options.sort ? this.sorted(deleted, options) : deleted,
+        options
+      )
+    );
+  }
+
+  restoreSymbol(
+    id: string,
+    context: ChangeContext = {}
+  ): Promise<QueryResult<Symbol>> {
+    const deleted = this.deletedSymbols.find((item) => item.id === id);
+    if (!deleted) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(
+          this.symbols.some((item) => item.id === id)
+            ? `Symbol with ID "${id}" is not deleted`
+            : `Symbol with ID "${id}" not found`
+        ),
+      });
+    }
+
+    const deletion = this.revisions
+      .filter(
+        (item) =>
+          item.entity_type === "symbol" &&
+          item.entity_id === id &&
+          item.action === "delete"
+      )
+      .pop();
+
+    const timestamp = now();
+    const restored: Symbol = { ...deleted, deleted_at: null, updated_at: timestamp };
+    this.recordRevision("symbol", deleted, "restore", ["deleted_at"], context);
+    this.deletedSymbols = this.deletedSymbols.filter((item) => item !== deleted);
+    this.symbols.push(restored);
+
+    // Incoming links only come back from symbols that are still live
+    for (const removed of deletion?.removed_relationships ?? []) {
+      const sourceIndex = this.symbols.findIndex(
+        (item) => item.id === removed.source_id
+      );
+      const source = this.symbols[sourceIndex];
+      const exists = this.relationships.some(
+        (item) =>
+          item.source_id === removed.source_id &&
+          item.target_id === removed.target_id &&
+          item.relation_type === removed.relation_type
+      );
+      if (!source || exists) {
+        continue;
+      }
+
+      this.relationships.push(removed);
+
+      if (source.id !== id && !source.related_symbols.includes(id)) {
+        this.recordRevision("symbol", source, "update", ["related_symbols"], {
+          ...context,
+          summary: `Re-linked restored symbol "${id}"`,
+        });
+        this.symbols[sourceIndex] = {
+          ...source,
+          related_symbols: [...source.related_symbols, id],
+          updated_at: timestamp,
+        };
+      }
+    }
+
+    // Sets the cascade took it out of get it back at its old weight
+    for (const membership of deletion?.removed_memberships ?? []) {
+      const setIndex = this.symbolSets.findIndex(
+        (item) => item.id === membership.set_id
+      );
+      const symbolSet = this.symbolSets[setIndex];
+      if (!symbolSet || id in symbolSet.symbols) {
+        continue;
+      }
+
+      this.recordRevision("symbol_set", symbolSet, "update", ["symbols"], {
+        ...context,
+        summary: `Re-added restored symbol "${id}"`,
+      });
+      this.symbolSets[setIndex] = {
+        ...symbolSet,
+        symbols: withMember(symbolSet.symbols, id, membership.weight),
+        updated_at: timestamp,
+      };
+    }
+
+    return Promise.resolve({ success: true, data: restored });
+  }
+
+  purgeDeleted(
+    options: PurgeOptions = {}
+  ): Promise<QueryResult<string[]>> {
+    const { id, deletedBefore } = options;
+    const purged = this.deletedSymbols.filter(
+      (item) =>
+        (!id || item.id === id) &&
+        (!deletedBefore || (item.deleted_at ?? now()) < deletedBefore)
+    );
+
+    if (id && purged.length === 0) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol with ID "${id}" is not in the trash`),
+      });
+    }
+
+    // Revisions are kept so the history of purged symbols stays readable
+    this.deletedSymbols = this.deletedSymbols.filter(
+      (item) => !purged.includes(item)
+    );
+
+    return Promise.resolve({
+      success: true,
+      data: purged.map((item) => item.id),
+    });
+  }
+
   async createSymbolSet(
     symbolSet: Omit<SymbolSet, "created_at" | "updated_at">
   ): Promise<QueryResult<SymbolSet>> {
@@ -227,6 +1026,7 @@ export class DemoDatabase implements IDatabase {
     const timestamp = now();
     const created: SymbolSet = {
       ...symbolSet,
+      translations: normalizeTranslations(symbolSet.translations ?? {}),
       created_at: timestamp,
       updated_at: timestamp,
     };
@@ -238,8 +1038,21 @@ export class DemoDatabase implements IDatabase {
 
   async updateSymbolSet(
     id: string,
-    updates: Partial<Omit<SymbolSet, "id" | "created_at" | "updated_at">>
+    updates: Partial<Omit<SymbolSet, "id" | "created_at" | "updated_at">>,
+    context: ChangeContext = {}
   ): Promise<QueryResult<SymbolSet>> {
+    return this.writeSymbolSetUpdate(id, updates, context, "update");
+  }
+
+  /**
+   * Apply updates to a symbol set and record the version they replace
+   */
+  private writeSymbolSetUpdate(
+    id: string,
+    updates: Partial<Omit<SymbolSet, "id" | "created_at" | "updated_at">>,
+    context: ChangeContext,
+    action: RevisionAction
+  ): QueryResult<SymbolSet> {
     const index = this.symbolSets.findIndex((item) => item.id === id);
     if (index === -1) {
       return {
@@ -248,15 +1061,594 @@ export class DemoDatabase implements IDatabase {
       };
     }
 
-    const current = this.symbolSets[index];
+    const current = this.symbolSets[index] as SymbolSet;
+    const changes = updates.translations
+      ? { ...updates, translations: normalizeTranslations(updates.translations) }
+      : updates;
     const updated: SymbolSet = {
       ...current,
-      ...updates,
+      ...changes,
       updated_at: now(),
     };
 
+    this.recordRevision("symbol_set", current, action, changedFields(current, changes), context);
     this.symbolSets[index] = updated;
 
     return { success: true, data: updated };
   }
+
+  deleteSymbolSet(
+    id: string,
+    context: ChangeContext = {}
+  ): Promise<QueryResult<boolean>> {
+    const current = this.symbolSets.find((item) => item.id === id);
+    if (!current) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol set with ID "${id}" not found`),
+      });
+    }
+
+    this.recordRevision("symbol_set", current, "delete", [], context);
+    this.symbolSets = this.symbolSets.filter((item) => item.id !== id);
+
+    return Promise.resolve({ success: true, data: true });
+  }
+
+  addSymbolToSet(
+    setId: string,
+    symbolId: string,
+    weight = 1.0,
+    context: ChangeContext = {}
+  ): Promise<QueryResult<SymbolSet>> {
+    const symbolSet = this.symbolSets.find((item) => item.id === setId);
+    if (!symbolSet) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol set with ID "${setId}" not found`),
+      });
+    }
+    if (!this.symbols.some((item) => item.id === symbolId)) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol with ID "${symbolId}" not found`),
+      });
+    }
+    if (symbolId in symbolSet.symbols) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(
+          `Symbol "${symbolId}" is already in symbol set "${setId}"`
+        ),
+      });
+    }
+
+    return Promise.resolve(
+      this.writeSymbolSetUpdate(
+        setId,
+        { symbols: { ...symbolSet.symbols, [symbolId]: { weight } } },
+        { ...context, summary: context.summary ?? `Added "${symbolId}"` },
+        "update"
+      )
+    );
+  }
+
+  removeSymbolFromSet(
+    setId: string,
+    symbolId: string,
+    context: ChangeContext = {}
+  ): Promise<QueryResult<SymbolSet>> {
+    const symbolSet = this.symbolSets.find((item) => item.id === setId);
+    if (!symbolSet) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol set with ID "${setId}" not found`),
+      });
+    }
+    if (!(symbolId in symbolSet.symbols)) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol "${symbolId}" is not in symbol set "${setId}"`),
+      });
+    }
+
+    return Promise.resolve(
+      this.writeSymbolSetUpdate(
+        setId,
+        { symbols: withoutMember(symbolSet.symbols, symbolId) },
+        { ...context, summary: context.summary ?? `Removed "${symbolId}"` },
+        "update"
+      )
+    );
+  }
+
+  setMemberWeight(
+    setId: string,
+    symbolId: string,
+    weight: number,
+    context: ChangeContext = {}
+  ): Promise<QueryResult<SymbolSet>> {
+    const symbolSet = this.symbolSets.find((item) => item.id === setId);
+    if (!symbolSet) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol set with ID "${setId}" not found`),
+      });
+    }
+    const member = symbolSet.symbols[symbolId];
+    if (member === undefined) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol "${symbolId}" is not in symbol set "${setId}"`),
+      });
+    }
+
+    return Promise.resolve(
+      this.writeSymbolSetUpdate(
+        setId,
+        {
+          symbols: {
+            ...symbolSet.symbols,
+            [symbolId]: { ...(member as object), weight },
+          },
+        },
+        {
+          ...context,
+          summary:
+            context.summary ?? `Set weight of "${symbolId}" to ${weight}`,
+        },
+        "update"
+      )
+    );
+  }
+
+  getRelationships(
+    options: RelationshipQueryOptions = {}
+  ): Promise<QueryResult<SymbolRelationship[]>> {
+    const { symbolId, direction = "both", relationType } = options;
+    const results = this.relationships
+      .filter((item) => {
+        if (relationType && item.relation_type !== relationType) {
+          return false;
+        }
+        if (!symbolId) {
+          return true;
+        }
+        const outgoing = item.source_id === symbolId;
+        const incoming = item.target_id === symbolId;
+        if (direction === "outgoing") {
+          return outgoing;
+        }
+        if (direction === "incoming") {
+          return incoming;
+        }
+        return outgoing || incoming;
+      })
+      .sort(
+        (a, b) =>
+          a.source_id.localeCompare(b.source_id) ||
+          a.target_id.localeCompare(b.target_id)
+      );
+    return Promise.resolve(paginate(results, options));
+  }
+
+  createRelationship(
+    input: Omit<SymbolRelationship, "id" | "created_at" | "updated_at">
+  ): Promise<QueryResult<SymbolRelationship>> {
+    const { source_id, target_id, relation_type } = input;
+
+    if (source_id === target_id) {
+      return Promise.resolve({
+        success: false,
+        error: new Error("A symbol cannot be related to itself"),
+      });
+    }
+
+    const sourceIndex = this.symbols.findIndex((item) => item.id === source_id);
+    if (sourceIndex === -1) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol with ID "${source_id}" not found`),
+      });
+    }
+    if (!this.symbols.some((item) => item.id === target_id)) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Symbol with ID "${target_id}" not found`),
+      });
+    }
+
+    if (
+      this.relationships.some(
+        (item) =>
+          item.source_id === source_id &&
+          item.target_id === target_id &&
+          item.relation_type === relation_type
+      )
+    ) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(
+          `Relationship "${relation_type}" from "${source_id}" to "${target_id}" already exists`
+        ),
+      });
+    }
+
+    const timestamp = now();
+    const created: SymbolRelationship = {
+      ...relationship(source_id, target_id, relation_type, timestamp),
+      weight: input.weight,
+      note: input.note,
+    };
+
+    this.relationships.push(created);
+
+    // related_symbols lists every outgoing target regardless of type
+    const source = this.symbols[sourceIndex];
+    if (source && !source.related_symbols.includes(target_id)) {
+      this.symbols[sourceIndex] = {
+        ...source,
+        related_symbols: [...source.related_symbols, target_id],
+        updated_at: timestamp,
+      };
+    }
+
+    if (this.symmetricRelations) {
+      this.addReverseLinks([created], timestamp);
+    }
+
+    return Promise.resolve({ success: true, data: created });
+  }
+
+  updateRelationship(
+    id: string,
+    updates: Partial<Pick<SymbolRelationship, "weight" | "note">>
+  ): Promise<QueryResult<SymbolRelationship>> {
+    const index = this.relationships.findIndex((item) => item.id === id);
+    const current = this.relationships[index];
+    if (!current) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Relationship with ID "${id}" not found`),
+      });
+    }
+
+    const updated: SymbolRelationship = {
+      ...current,
+      ...(updates.weight !== undefined && { weight: updates.weight }),
+      ...(updates.note !== undefined && { note: updates.note }),
+      updated_at: now(),
+    };
+
+    this.relationships[index] = updated;
+
+    // Mirror weight and note onto the reverse link
+    if (this.symmetricRelations && isSymmetricLink(current)) {
+      this.relationships = this.relationships.map((item) =>
+        item.source_id === current.target_id &&
+        item.target_id === current.source_id &&
+        item.relation_type === current.relation_type
+          ? {
+              ...item,
+              weight: updated.weight,
+              note: updated.note,
+              updated_at: updated.updated_at,
+            }
+          : item
+      );
+    }
+
+    return Promise.resolve({ success: true, data: updated });
+  }
+
+  deleteRelationship(id: string): Promise<QueryResult<boolean>> {
+    const existing = this.relationships.find((item) => item.id === id);
+    if (!existing) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Relationship with ID "${id}" not found`),
+      });
+    }
+
+    this.relationships = this.relationships.filter((item) => item.id !== id);
+
+    if (this.symmetricRelations) {
+      this.removeReverseLinks([existing]);
+    }
+
+    // Only unlink related_symbols once no relationship of any type remains
+    const { source_id, target_id } = existing;
+    const stillLinked = this.relationships.some(
+      (item) => item.source_id === source_id && item.target_id === target_id
+    );
+    if (!stillLinked) {
+      this.symbols = this.symbols.map((symbol) =>
+        symbol.id === source_id
+          ? {
+              ...symbol,
+              related_symbols: symbol.related_symbols.filter(
+                (related) => related !== target_id
+              ),
+              updated_at: now(),
+            }
+          : symbol
+      );
+    }
+
+    return Promise.resolve({ success: true, data: true });
+  }
+
+  getNeighborhood(
+    symbolIds: string[],
+    options: NeighborhoodOptions = {}
+  ): Promise<QueryResult<SymbolNeighborhood>> {
+    const { direction = "both", relationTypes } = options;
+    const ids = new Set(symbolIds);
+    const relationships = this.relationships
+      .filter((item) => {
+        if (relationTypes?.length && !relationTypes.includes(item.relation_type)) {
+          return false;
+        }
+        return (
+          (direction !== "incoming" && ids.has(item.source_id)) ||
+          (direction !== "outgoing" && ids.has(item.target_id))
+        );
+      })
+      .sort(
+        (a, b) =>
+          a.source_id.localeCompare(b.source_id) ||
+          a.target_id.localeCompare(b.target_id)
+      );
+    const neighborIds = new Set(
+      relationships.flatMap((item) => [item.source_id, item.target_id])
+    );
+    const symbols = this.symbols.filter((symbol) => neighborIds.has(symbol.id));
+    return Promise.resolve({ success: true, data: { relationships, symbols } });
+  }
+
+  repairSymmetricRelationships(): Promise<QueryResult<number>> {
+    const created = this.addReverseLinks(
+      this.relationships.filter(isSymmetricLink),
+      now()
+    );
+    return Promise.resolve({ success: true, data: created });
+  }
+
+  getRevisions(
+    options: RevisionQueryOptions = {}
+  ): Promise<QueryResult<Revision[]>> {
+    const { entityType, entityId } = options;
+    const results = this.revisions
+      .filter(
+        (item) =>
+          (!entityType || item.entity_type === entityType) &&
+          (!entityId || item.entity_id === entityId)
+      )
+      .reverse();
+    return Promise.resolve(paginate(results, options));
+  }
+
+  getRevision(id: string): Promise<QueryResult<Revision | null>> {
+    const revision = this.revisions.find((item) => item.id === id) ?? null;
+    return Promise.resolve({ success: true, data: revision });
+  }
+
+  restoreRevision(
+    id: string,
+    context: ChangeContext = {}
+  ): Promise<QueryResult<Symbol | SymbolSet>> {
+    const revision = this.revisions.find((item) => item.id === id);
+    if (!revision) {
+      return Promise.resolve({
+        success: false,
+        error: new Error(`Revision with ID "${id}" not found`),
+      });
+    }
+
+    const restoreContext = {
+      ...context,
+      summary: context.summary ?? `Reverted to version ${revision.version}`,
+    };
+
+    return Promise.resolve(
+      revision.entity_type === "symbol"
+        ? this.writeSymbolUpdate(
+            revision.entity_id,
+            restorableFields(revision.snapshot as Symbol),
+            restoreContext,
+            "revert"
+          )
+        : this.writeSymbolSetUpdate(
+            revision.entity_id,
+            restorableFields(revision.snapshot as SymbolSet),
+            restoreContext,
+            "revert"
+          )
+    );
+  }
+
+  /**
+   * Store the version of a record that a change is about to replace
+   */
+  private recordRevision(
+    entityType: RevisionEntityType,
+    snapshot: Symbol | SymbolSet,
+    action: RevisionAction,
+    fields: string[],
+    context: ChangeContext,
+    removedRelationships: SymbolRelationship[] = [],
+    removedMemberships: RemovedSetMembership[] = []
+  ): void {
+    // Edits that leave every field as it was are not worth a revision
+    if (action !== "delete" && fields.length === 0) {
+      return;
+    }
+
+    const previous = this.revisions.filter(
+      (item) => item.entity_type === entityType && item.entity_id === snapshot.id
+    ).length;
+
+    this.revisions.push({
+      id: randomUUID(),
+      entity_type: entityType,
+      entity_id: snapshot.id,
+      version: previous + 1,
+      action,
+      snapshot: { ...snapshot },
+      changed_fields: fields,
+      removed_relationships: removedRelationships,
+      removed_memberships: removedMemberships,
+      actor: context.actor ?? null,
+      summary: summarizeChange(action, fields, context),
+      created_at: now(),
+    });
+  }
+
+  /**
+   * Symbols in the requested order, or by the list's default field
+   */
+  private sorted<T extends Symbol>(
+    symbols: T[],
+    options: QueryOptions,
+    defaultField?: SortField
+  ): T[] {
+    const sort = resolveSort(options, defaultField);
+    return sortSymbols(symbols, sort, {
+      relationCounts:
+        sort.field === "relation_count"
+          ? countRelations(this.relationships)
+          : new Map(),
+      setWeights:
+        sort.field === "set_weight"
+          ? totalSetWeights(this.symbolSets)
+          : new Map(),
+    });
+  }
+
+  private refreshEmbedding(symbol: Symbol): void {
+    this.embeddings.set(symbol.id, embedSymbol(symbol));
+  }
+
+  /**
+   * Create the reverse of every symmetric link whose target exists, listing the
+   * source in the target's related_symbols. Returns the number of links created.
+   */
+  private addReverseLinks(
+    links: RelationLink[],
+    timestamp: Date,
+    context: ChangeContext = {}
+  ): number {
+    let created = 0;
+    const listed = new Map<string, string[]>();
+
+    for (const link of links.filter(isSymmetricLink)) {
+      const target = this.symbols.find((item) => item.id === link.target_id);
+      if (!target) {
+        continue;
+      }
+
+      const exists = this.relationships.some(
+        (item) =>
+          item.source_id === link.target_id &&
+          item.target_id === link.source_id &&
+          item.relation_type === link.relation_type
+      );
+      if (!exists) {
+        this.relationships.push({
+          ...relationship(link.target_id, link.source_id, link.relation_type, timestamp),
+          weight: link.weight ?? null,
+          note: link.note ?? null,
+        });
+        created++;
+      }
+
+      const sourceIds = listed.get(target.id) ?? [];
+      if (
+        !target.related_symbols.includes(link.source_id) &&
+        !sourceIds.includes(link.source_id)
+      ) {
+        listed.set(target.id, [...sourceIds, link.source_id]);
+      }
+    }
+
+    for (const [targetId, sourceIds] of listed) {
+      this.writeRelatedSymbols(
+        targetId,
+        (related) => [...related, ...sourceIds],
+        { ...context, summary: reverseLinkSummary(true, sourceIds) },
+        timestamp
+      );
+    }
+
+    return created;
+  }
+
+  /**
+   * Delete the reverse of every symmetric link, unlisting the source from the
+   * target's related_symbols once no relationship back to it remains
+   */
+  private removeReverseLinks(
+    links: RelationLink[],
+    context: ChangeContext = {}
+  ): void {
+    const unlisted = new Map<string, string[]>();
+
+    for (const link of links.filter(isSymmetricLink)) {
+      this.relationships = this.relationships.filter(
+        (item) =>
+          item.source_id !== link.target_id ||
+          item.target_id !== link.source_id ||
+          item.relation_type !== link.relation_type
+      );
+
+      const stillLinked = this.relationships.some(
+        (item) =>
+          item.source_id === link.target_id && item.target_id === link.source_id
+      );
+      const target = this.symbols.find((item) => item.id === link.target_id);
+      const sourceIds = unlisted.get(link.target_id) ?? [];
+      if (
+        !stillLinked &&
+        target?.related_symbols.includes(link.source_id) &&
+        !sourceIds.includes(link.source_id)
+      ) {
+        unlisted.set(link.target_id, [...sourceIds, link.source_id]);
+      }
+    }
+
+    for (const [targetId, sourceIds] of unlisted) {
+      this.writeRelatedSymbols(
+        targetId,
+        (related) => related.filter((relatedId) => !sourceIds.includes(relatedId)),
+        { ...context, summary: reverseLinkSummary(false, sourceIds) },
+        now()
+      );
+    }
+  }
+
+  /**
+   * Rewrite a symbol's related_symbols, recording the version it replaces and
+   * refreshing its embedding like any other symbol write
+   */
+  private writeRelatedSymbols(
+    id: string,
+    update: (relatedSymbols: string[]) => string[],
+    context: ChangeContext,
+    timestamp: Date
+  ): void {
+    const index = this.symbols.findIndex((item) => item.id === id);
+    const symbol = this.symbols[index];
+    if (!symbol) {
+      return;
+    }
+
+    this.recordRevision("symbol", symbol, "update", ["related_symbols"], context);
+    const updated: Symbol = {
+      ...symbol,
+      related_symbols: update(symbol.related_symbols),
+      updated_at: timestamp,
+    };
+    this.symbols[index] = updated;
+    this.refreshEmbedding(updated);
+  }
 }
@@ -0,0 +1,42 @@
+import type { Symbol, SymbolAlias } from "@/types/Symbol.js";
+
+function aliasKey(alias: SymbolAlias): string {
+  return `${alias.label.toLowerCase()}\u0000${alias.language?.toLowerCase() ?? ""}`;
+}
+
+/**
+ * Trimmed aliases with blanks and case-insensitive duplicates removed,
+ * ordered by label
+ */
+export function normalizeAliases(aliases: SymbolAlias[]): SymbolAlias[] {
+  const seen = new Set<string>();
+  const result: SymbolAlias[] = [];
+
+  for (const alias of aliases) {
+    const label = alias.label.trim();
+    const language = alias.language?.trim();
+    const normalized = { label, language: language ? language : null };
+    const key = aliasKey(normalized);
+
+    if (label && !seen.has(key)) {
+      seen.add(key);
+      result.push(normalized);
+    }
+  }
+
+  return result.sort(
+    (a, b) =>
+      a.label.localeCompare(b.label) ||
+      (a.language ?? "").localeCompare(b.language ?? "")
+  );
+}
+
+/**
+ * Whether any of the symbol's aliases equals the text, ignoring case
+ */
+export function hasAlias(symbol: Symbol, text: string): boolean {
+  const needle = text.trim().toLowerCase();
+  return (symbol.aliases ?? []).some(
+    (alias) => alias.label.toLowerCase() === needle
+  );
+}
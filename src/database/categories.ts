@@ -0,0 +1,79 @@
+import type {
+  CategoryTreeNode,
+  Symbol,
+  SymbolCategory,
+} from "@/types/Symbol.js";
+
+type CategoryLink = Pick<SymbolCategory, "id" | "parent_id">;
+
+/**
+ * The category followed by all of its descendants, nearest first
+ */
+export function categoryWithDescendants(
+  categories: CategoryLink[],
+  id: string
+): string[] {
+  const result = [id];
+  const seen = new Set(result);
+
+  for (let index = 0; index < result.length; index++) {
+    const parentId = result[index];
+    for (const category of categories) {
+      if (category.parent_id === parentId && !seen.has(category.id)) {
+        seen.add(category.id);
+        result.push(category.id);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether moving the category under the given parent would make it its own
+ * ancestor
+ */
+export function createsCategoryCycle(
+  categories: CategoryLink[],
+  id: string,
+  parentId: string
+): boolean {
+  return categoryWithDescendants(categories, id).includes(parentId);
+}
+
+/**
+ * Categories arranged under their parents, siblings in display order.
+ * Categories whose parent does not exist are placed at the top level.
+ */
+export function buildCategoryTree(
+  categories: SymbolCategory[],
+  symbols: Array<Pick<Symbol, "category">>
+): CategoryTreeNode[] {
+  const counts = new Map<string, number>();
+  for (const symbol of symbols) {
+    if (symbol.category) {
+      counts.set(symbol.category, (counts.get(symbol.category) ?? 0) + 1);
+    }
+  }
+
+  const nodes = new Map<string, CategoryTreeNode>(
+    categories.map((category) => [
+      category.id,
+      { ...category, symbol_count: counts.get(category.id) ?? 0, children: [] },
+    ])
+  );
+
+  const roots: CategoryTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  const byDisplayOrder = (a: CategoryTreeNode, b: CategoryTreeNode): number =>
+    a.display_order - b.display_order || a.id.localeCompare(b.id);
+  for (const node of nodes.values()) {
+    node.children.sort(byDisplayOrder);
+  }
+
+  return roots.sort(byDisplayOrder);
+}
@@ -0,0 +1,174 @@
+import symbolConcepts from "@/data/symbol-concepts.json";
+import { textValues } from "@/database/search.js";
+import type { Symbol } from "@/types/Symbol.js";
+
+/**
+ * Length of every symbol and query vector
+ */
+export const EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * Number of similar symbols returned when no limit is given
+ */
+export const SIMILAR_PAGE_SIZE = 10;
+
+/**
+ * Lowest similarity worth reporting; below it, matches are mostly hash
+ * collisions between unrelated words
+ */
+export const SIMILARITY_THRESHOLD = 0.05;
+
+/**
+ * How much a word counts in each part of a symbol
+ */
+const FIELD_WEIGHTS = {
+  name: 3,
+  aliases: 2,
+  tags: 2,
+  category: 1,
+  description: 1,
+  interpretations: 1,
+} as const;
+
+/**
+ * Words too common to say anything, including "symbol" itself
+ */
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be by for from has have in into is it its of on or " +
+    "that the their this to was were which with symbol symbols"
+  ).split(" ")
+);
+
+/**
+ * Crude suffix stripping so that "cycles" and "cycle", or "opened" and
+ * "open", land on the same feature
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) {
+    return `${word.slice(0, -3)}y`;
+  }
+  for (const suffix of ["ing", "ed", "s"]) {
+    if (
+      word.length - suffix.length >= 3 &&
+      word.endsWith(suffix) &&
+      !word.endsWith("ss")
+    ) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Concept names by stemmed word, from the bundled lexicon of related
+ * symbolic vocabulary. A word shares a concept feature with its relatives,
+ * which is what lets "rebirth" find a symbol described by "renewal".
+ */
+const CONCEPTS_BY_WORD = new Map<string, string[]>();
+for (const [concept, words] of Object.entries(
+  symbolConcepts as Record<string, string[]>
+)) {
+  for (const word of words) {
+    const key = stem(word);
+    CONCEPTS_BY_WORD.set(key, [...(CONCEPTS_BY_WORD.get(key) ?? []), concept]);
+  }
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}-]+/u)
+    .flatMap((word) => [word, ...(word.includes("-") ? word.split("-") : [])])
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    value ^= text.charCodeAt(index);
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value;
+}
+
+/**
+ * Unit-length vector from weighted features, each hashed to a dimension with
+ * a hashed sign so that collisions tend to cancel out rather than add up
+ */
+function toVector(features: Map<string, number>): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const [feature, weight] of features) {
+    const value = hash(feature);
+    const index = value % EMBEDDING_DIMENSIONS;
+    vector[index] =
+      (vector[index] ?? 0) + (value & 0x80000000 ? -1 : 1) * Math.log1p(weight);
+  }
+
+  const length = Math.hypot(...vector);
+  return length === 0 ? vector : vector.map((item) => item / length);
+}
+
+function addText(
+  features: Map<string, number>,
+  text: string,
+  weight: number
+): void {
+  for (const word of words(text)) {
+    features.set(`w:${word}`, (features.get(`w:${word}`) ?? 0) + weight);
+    for (const concept of CONCEPTS_BY_WORD.get(word) ?? []) {
+      features.set(
+        `c:${concept}`,
+        (features.get(`c:${concept}`) ?? 0) + weight
+      );
+    }
+  }
+}
+
+/**
+ * Vector for free text, comparable with symbol vectors
+ */
+export function embedText(text: string): number[] {
+  const features = new Map<string, number>();
+  addText(features, text, 1);
+  return toVector(features);
+}
+
+/**
+ * Vector for a symbol's name, aliases, tags, category, description and
+ * interpretations, each weighted by how much it says about the symbol.
+ * Computed locally, with no external model or service.
+ */
+export function embedSymbol(
+  symbol: Pick<
+    Symbol,
+    "name" | "category" | "description" | "interpretations"
+  > &
+    Partial<Pick<Symbol, "aliases" | "tags">>
+): number[] {
+  const features = new Map<string, number>();
+  addText(features, symbol.name, FIELD_WEIGHTS.name);
+  for (const alias of symbol.aliases ?? []) {
+    addText(features, alias.label, FIELD_WEIGHTS.aliases);
+  }
+  for (const tag of symbol.tags ?? []) {
+    addText(features, tag, FIELD_WEIGHTS.tags);
+  }
+  addText(features, symbol.category ?? "", FIELD_WEIGHTS.category);
+  addText(features, symbol.description ?? "", FIELD_WEIGHTS.description);
+  for (const text of textValues(symbol.interpretations)) {
+    addText(features, text, FIELD_WEIGHTS.interpretations);
+  }
+  return toVector(features);
+}
+
+/**
+ * Cosine similarity of two unit-length vectors, from -1 to 1
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  return a.reduce((total, value, index) => total + value * (b[index] ?? 0), 0);
+}
@@ -0,0 +1,89 @@
+import type { FacetCount, Symbol, SymbolFacets } from "@/types/Symbol.js";
+
+/**
+ * Most values listed for a single facet
+ */
+export const FACET_VALUE_LIMIT = 20;
+
+/**
+ * Count of one facet value, as the PostgreSQL facet query returns it. The key
+ * names the property for property facets and is null otherwise.
+ */
+export interface FacetRow {
+  facet: "category" | "tag" | "property" | "interpretation_context";
+  key: string | null;
+  value: string;
+  count: number;
+}
+
+function topValues(rows: FacetRow[]): FacetCount[] {
+  return rows
+    .map(({ value, count }) => ({ value, count: Number(count) }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, FACET_VALUE_LIMIT);
+}
+
+/**
+ * Facets from per-value counts, most common first and at most
+ * FACET_VALUE_LIMIT values each
+ */
+export function buildFacets(rows: FacetRow[]): SymbolFacets {
+  const propertyRows = new Map<string, FacetRow[]>();
+  for (const row of rows) {
+    if (row.facet === "property" && row.key !== null) {
+      propertyRows.set(row.key, [...(propertyRows.get(row.key) ?? []), row]);
+    }
+  }
+
+  return {
+    categories: topValues(rows.filter((row) => row.facet === "category")),
+    tags: topValues(rows.filter((row) => row.facet === "tag")),
+    properties: Object.fromEntries(
+      Array.from(propertyRows)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, keyRows]) => [key, topValues(keyRows)])
+    ),
+    interpretation_contexts: topValues(
+      rows.filter((row) => row.facet === "interpretation_context")
+    ),
+  };
+}
+
+/**
+ * In-memory equivalent of the PostgreSQL facet query
+ */
+export function countFacets(symbols: Symbol[]): SymbolFacets {
+  const counts = new Map<string, FacetRow>();
+  const add = (facet: FacetRow["facet"], key: string | null, value: string) => {
+    const id = JSON.stringify([facet, key, value]);
+    const row = counts.get(id) ?? { facet, key, value, count: 0 };
+    row.count++;
+    counts.set(id, row);
+  };
+
+  for (const symbol of symbols) {
+    if (symbol.category) {
+      add("category", null, symbol.category);
+    }
+    for (const tag of new Set(symbol.tags ?? [])) {
+      add("tag", null, tag);
+    }
+    for (const context of Object.keys(symbol.interpretations)) {
+      add("interpretation_context", null, context);
+    }
+    for (const [key, value] of Object.entries(symbol.properties)) {
+      const values = new Set(
+        (Array.isArray(value) ? value : [value])
+          .filter((item) =>
+            ["string", "number", "boolean"].includes(typeof item)
+          )
+          .map(String)
+      );
+      for (const item of values) {
+        add("property", key, item);
+      }
+    }
+  }
+
+  return buildFacets(Array.from(counts.values()));
+}
@@ -0,0 +1,190 @@
+import { editSimilarity, searchTerms, textValues } from "@/database/search.js";
+import type { SearchHighlight, SearchOptions, Symbol } from "@/types/Symbol.js";
+
+/**
+ * Most snippets returned for a single search hit
+ */
+export const MAX_HIGHLIGHTS = 3;
+
+/**
+ * Longest snippet before the marks and ellipses are added
+ */
+export const SNIPPET_LENGTH = 160;
+
+/**
+ * Text kept ahead of the first match in a snippet
+ */
+const LEAD_LENGTH = 40;
+
+const MARK = "**";
+
+/**
+ * Start and end offsets of a match within a text
+ */
+interface Range {
+  start: number;
+  end: number;
+}
+
+/**
+ * Words that start with one of the terms, the way the search matches them
+ */
+function termRanges(text: string, terms: string[]): Range[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu))
+    .filter((word) =>
+      terms.some((term) => word[0].toLowerCase().startsWith(term))
+    )
+    .map((word) => ({ start: word.index, end: word.index + word[0].length }));
+}
+
+/**
+ * Every occurrence of the phrase, ignoring case
+ */
+function phraseRanges(text: string, phrase: string): Range[] {
+  const haystack = text.toLowerCase();
+  const needle = phrase.toLowerCase();
+  const ranges: Range[] = [];
+  for (
+    let start = haystack.indexOf(needle);
+    needle !== "" && start !== -1;
+    start = haystack.indexOf(needle, start + needle.length)
+  ) {
+    ranges.push({ start, end: start + needle.length });
+  }
+  return ranges;
+}
+
+/**
+ * Ranges in text order with overlapping ones merged
+ */
+function mergeRanges(ranges: Range[]): Range[] {
+  const merged: Range[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Up to SNIPPET_LENGTH characters of the text from a little before the first
+ * match, cut at word boundaries, with the matches inside it marked
+ */
+function snippet(text: string, ranges: Range[]): string {
+  const [first] = ranges;
+  if (!first) {
+    return "";
+  }
+
+  // Lead in further when the match is near the end, so short texts stay whole
+  let start = Math.max(
+    0,
+    Math.min(first.start - LEAD_LENGTH, text.length - SNIPPET_LENGTH)
+  );
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space === -1 || space >= first.start ? first.start : space + 1;
+  }
+  let end = Math.max(first.end, Math.min(text.length, start + SNIPPET_LENGTH));
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    end = space > first.end ? space : first.end;
+  }
+
+  let marked = "";
+  let position = start;
+  for (const range of ranges) {
+    if (range.start < position || range.end > end) {
+      continue;
+    }
+    marked += `${text.slice(position, range.start)}${MARK}${text.slice(range.start, range.end)}${MARK}`;
+    position = range.end;
+  }
+  marked += text.slice(position, end);
+
+  return `${start > 0 ? "…" : ""}${marked.replace(/\s+/g, " ").trim()}${
+    end < text.length ? "…" : ""
+  }`;
+}
+
+/**
+ * Parts of the symbol a search hit matched, with snippets of its description
+ * and interpretations around the matched words. Computed from the returned
+ * symbol the same way for both databases: full-text terms match word
+ * prefixes, fuzzy searches report the closest of the name and aliases, and
+ * the interpretation and property filters report the fields they matched.
+ */
+export function highlightMatches(
+  symbol: Symbol,
+  query: string,
+  options: SearchOptions = {}
+): Required<Pick<Symbol, "matched_fields" | "highlights">> {
+  const {
+    mode = "fulltext",
+    interpretationContext,
+    interpretationText,
+  } = options;
+  const terms = mode === "fulltext" ? searchTerms(query) : [];
+  const matched = new Set<string>();
+  const highlights: SearchHighlight[] = [];
+
+  if (mode === "fuzzy" && query.trim() !== "") {
+    const closest = (labels: string[]) =>
+      Math.max(
+        0,
+        ...labels.map((label) => editSimilarity(query.trim(), label))
+      );
+    const aliases = (symbol.aliases ?? []).map((alias) => alias.label);
+    matched.add(closest(aliases) > closest([symbol.name]) ? "aliases" : "name");
+  }
+
+  const labelled: Array<[string, string[]]> = [
+    ["name", [symbol.name]],
+    ["aliases", (symbol.aliases ?? []).map((alias) => alias.label)],
+    ["category", [symbol.category ?? ""]],
+  ];
+  for (const [field, labels] of labelled) {
+    if (labels.some((label) => termRanges(label, terms).length > 0)) {
+      matched.add(field);
+    }
+  }
+
+  const texts: Array<[string, string, boolean]> = [
+    ["description", symbol.description ?? "", false],
+    ...Object.entries(symbol.interpretations).map(
+      ([context, value]): [string, string, boolean] => [
+        `interpretations.${context}`,
+        textValues(value).join(" "),
+        interpretationContext === undefined ||
+          interpretationContext === context,
+      ]
+    ),
+  ];
+  for (const [field, text, phraseApplies] of texts) {
+    const ranges = mergeRanges([
+      ...termRanges(text, terms),
+      ...(phraseApplies && interpretationText !== undefined
+        ? phraseRanges(text, interpretationText)
+        : []),
+    ]);
+    if (ranges.length > 0) {
+      matched.add(field);
+      if (highlights.length < MAX_HIGHLIGHTS) {
+        highlights.push({ field, snippet: snippet(text, ranges) });
+      }
+    }
+  }
+
+  if (interpretationContext !== undefined) {
+    matched.add(`interpretations.${interpretationContext}`);
+  }
+  for (const key of Object.keys(options.properties ?? {})) {
+    matched.add(`properties.${key}`);
+  }
+
+  return { matched_fields: Array.from(matched), highlights };
+}
@@ -0,0 +1,126 @@
+import {
+  DEFAULT_LOCALE,
+  type ExpandedSymbolSet,
+  type Symbol,
+} from "@/types/Symbol.js";
+
+/**
+ * BCP 47 tag in its usual case, e.g. "es_mx" becomes "es-MX" and
+ * "zh-hant" becomes "zh-Hant"
+ */
+export function normalizeLocale(locale: string): string {
+  return locale
+    .trim()
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((part, index) => {
+      if (index > 0 && part.length === 2) {
+        return part.toUpperCase();
+      }
+      if (index > 0 && part.length === 4) {
+        return part.charAt(0).toUpperCase() + part.slice(1).toLowerCase();
+      }
+      return part.toLowerCase();
+    })
+    .join("-");
+}
+
+/**
+ * Locales to try for a requested locale, most specific first, e.g. "es-MX"
+ * gives ["es-MX", "es"]
+ */
+export function localeChain(locale: string): string[] {
+  const parts = normalizeLocale(locale).split("-").filter(Boolean);
+  return parts.map((_part, index) =>
+    parts.slice(0, parts.length - index).join("-")
+  );
+}
+
+/**
+ * Translations keyed by normalized locale, dropping blank locales
+ */
+export function normalizeTranslations<T>(
+  translations: Record<string, T>
+): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(translations)
+      .map(([locale, translation]): [string, T] => [
+        normalizeLocale(locale),
+        translation,
+      ])
+      .filter(([locale]) => locale.length > 0)
+  );
+}
+
+/**
+ * Translations that apply to the locale, least specific first so that later
+ * ones win, and the locale they resolve to
+ */
+function applicable<T>(
+  translations: Record<string, T> | undefined,
+  locale: string
+): { layers: T[]; resolved: string } {
+  const available = localeChain(locale).filter(
+    (tag) => translations?.[tag] !== undefined
+  );
+  return {
+    layers: available.flatMap((tag) => translations?.[tag] ?? []).reverse(),
+    resolved: available[0] ?? DEFAULT_LOCALE,
+  };
+}
+
+/**
+ * Symbol with its text in the requested locale. Each field falls back from
+ * the full locale to its base language and then to the untranslated text;
+ * interpretation contexts fall back one by one. The translations map is left
+ * out of the result.
+ */
+export function localizeSymbol(symbol: Symbol, locale: string): Symbol {
+  const { layers, resolved } = applicable(symbol.translations, locale);
+
+  const localized: Symbol = {
+    ...symbol,
+    name: layers.reduce((name, layer) => layer.name ?? name, symbol.name),
+    description: layers.reduce<string | null>(
+      (description, layer) => layer.description ?? description,
+      symbol.description
+    ),
+    interpretations: Object.assign(
+      {},
+      symbol.interpretations,
+      ...layers.map((layer) => layer.interpretations ?? {})
+    ) as Record<string, unknown>,
+    locale: resolved,
+  };
+  delete localized.translations;
+  return localized;
+}
+
+/**
+ * Symbol set with its name, description and any expanded member symbols in
+ * the requested locale
+ */
+export function localizeSymbolSet<T extends ExpandedSymbolSet>(
+  symbolSet: T,
+  locale: string
+): T {
+  const { layers, resolved } = applicable(symbolSet.translations, locale);
+
+  const localized: T = {
+    ...symbolSet,
+    name: layers.reduce((name, layer) => layer.name ?? name, symbolSet.name),
+    description: layers.reduce<string | null>(
+      (description, layer) => layer.description ?? description,
+      symbolSet.description
+    ),
+    ...(symbolSet.members && {
+      members: symbolSet.members.map((member) => ({
+        ...member,
+        symbol: member.symbol && localizeSymbol(member.symbol, locale),
+      })),
+    }),
+    locale: resolved,
+  };
+  delete localized.translations;
+  return localized;
+}
@@ -0,0 +1,90 @@
+import { Buffer } from "buffer";
+
+import type { PageInfo, PageOptions, QueryResult } from "@/types/Symbol.js";
+
+/**
+ * Number of results a list returns when no limit is given
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Position of a page within a list
+ */
+export interface PageWindow {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Opaque cursor pointing at the result at this offset. Cursors only record a
+ * position, so they are meant to be passed back with the same filters.
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+/**
+ * Offset a cursor from encodeCursor points at
+ */
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    ) as { offset?: unknown };
+    if (typeof offset === "number" && Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor "${cursor}"`);
+}
+
+/**
+ * Limit and offset of the requested page; a cursor wins over an offset.
+ * Throws when the cursor is not one this module produced.
+ */
+export function pageWindow(
+  options: PageOptions,
+  defaultLimit = DEFAULT_PAGE_SIZE
+): PageWindow {
+  return {
+    limit: options.limit ?? defaultLimit,
+    offset:
+      options.cursor !== undefined
+        ? decodeCursor(options.cursor)
+        : (options.offset ?? 0),
+  };
+}
+
+/**
+ * Paging details for the page at this window of a list with this many results
+ */
+export function pageInfo(total: number, window: PageWindow): PageInfo {
+  const end = window.offset + window.limit;
+  return {
+    total,
+    has_more: end < total,
+    next_cursor: end < total ? encodeCursor(end) : null,
+  };
+}
+
+/**
+ * The requested page of an in-memory list, with its paging details
+ */
+export function paginate<T>(
+  items: T[],
+  options: PageOptions,
+  defaultLimit = DEFAULT_PAGE_SIZE
+): QueryResult<T[]> {
+  try {
+    const window = pageWindow(options, defaultLimit);
+    return {
+      success: true,
+      data: items.slice(window.offset, window.offset + window.limit),
+      page: pageInfo(items.length, window),
+    };
+  } catch (error) {
+    return { success: false, error: error as Error };
+  }
+}
@@ -0,0 +1,103 @@
+import type {
+  PropertyDefinition,
+  PropertySchema,
+  PropertyViolation,
+} from "@/types/Symbol.js";
+
+function typeError(
+  definition: PropertyDefinition,
+  value: unknown
+): string | null {
+  switch (definition.type) {
+    case "string":
+      return typeof value === "string" ? null : "must be a string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? null
+        : "must be a number";
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false";
+    case "string_array":
+      return Array.isArray(value) &&
+        value.every((item) => typeof item === "string")
+        ? null
+        : "must be a list of strings";
+  }
+}
+
+function enumError(
+  definition: PropertyDefinition,
+  value: unknown
+): string | null {
+  if (!definition.enum || definition.enum.length === 0) {
+    return null;
+  }
+  const values = Array.isArray(value) ? value : [value];
+  const unknown = values.filter(
+    (item) => !definition.enum?.includes(item as string)
+  );
+  return unknown.length > 0
+    ? `must be one of ${definition.enum.join(", ")} (got ${unknown.map(String).join(", ")})`
+    : null;
+}
+
+/**
+ * The schema for a category, matching the category ignoring case as category
+ * filters do
+ */
+export function findPropertySchema<T extends Pick<PropertySchema, "category">>(
+  schemas: T[],
+  category: string
+): T | undefined {
+  const needle = category.toLowerCase();
+  return schemas.find((schema) => schema.category.toLowerCase() === needle);
+}
+
+/**
+ * Ways the properties break the schema: missing required keys, values of the
+ * wrong type or outside the enum, and undeclared keys unless the schema
+ * allows them. Empty when the properties conform.
+ */
+export function validateProperties(
+  schema: Pick<PropertySchema, "properties" | "allow_additional">,
+  properties: Record<string, unknown>
+): PropertyViolation[] {
+  const violations: PropertyViolation[] = [];
+
+  for (const [property, definition] of Object.entries(schema.properties)) {
+    const value = properties[property];
+    if (value === undefined || value === null) {
+      if (definition.required) {
+        violations.push({ property, message: `"${property}" is required` });
+      }
+      continue;
+    }
+
+    const error = typeError(definition, value) ?? enumError(definition, value);
+    if (error) {
+      violations.push({ property, message: `"${property}" ${error}` });
+    }
+  }
+
+  if (!schema.allow_additional) {
+    for (const property of Object.keys(properties)) {
+      if (!(property in schema.properties)) {
+        violations.push({
+          property,
+          message: `"${property}" is not defined for this category`,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * One-line error message listing every violation
+ */
+export function describeViolations(violations: PropertyViolation[]): string {
+  return `Properties do not match the category's property schema: ${violations
+    .map((violation) => violation.message)
+    .join("; ")}`;
+}
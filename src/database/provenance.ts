@@ -0,0 +1,66 @@
+import type {
+  Citation,
+  ProvenanceOrigin,
+  Symbol,
+} from "@/types/Symbol.js";
+
+function optionalText(value: string | null | undefined): string | null {
+  const text = value?.trim();
+  return text ? text : null;
+}
+
+/**
+ * Trimmed citations with blank fields stored as null and untitled entries
+ * dropped, description citations first and then by interpretation and title
+ */
+export function normalizeCitations(citations: Citation[]): Citation[] {
+  return citations
+    .map((citation) => ({
+      source_title: citation.source_title.trim(),
+      author: optionalText(citation.author),
+      url: optionalText(citation.url),
+      isbn: optionalText(citation.isbn),
+      page: optionalText(citation.page),
+      confidence: citation.confidence ?? null,
+      interpretation: optionalText(citation.interpretation),
+    }))
+    .filter((citation) => citation.source_title.length > 0)
+    .sort(
+      (a, b) =>
+        (a.interpretation ?? "").localeCompare(b.interpretation ?? "") ||
+        a.source_title.localeCompare(b.source_title)
+    );
+}
+
+/**
+ * Error for citations backing interpretation contexts the symbol does not
+ * have, or null when every citation has something to back
+ */
+export function citationError(
+  citations: Citation[],
+  interpretations: Record<string, unknown>
+): Error | null {
+  const unknown = citations
+    .map((citation) => citation.interpretation)
+    .filter(
+      (context): context is string =>
+        context !== null && !(context in interpretations)
+    );
+
+  return unknown.length > 0
+    ? new Error(
+        `Citations refer to interpretations the symbol does not have: ${Array.from(new Set(unknown)).join(", ")}`
+      )
+    : null;
+}
+
+/**
+ * Whether the symbol survives an origin filter; symbols of unknown origin
+ * are always kept
+ */
+export function matchesOrigin(
+  symbol: Symbol,
+  excludeOrigins: ProvenanceOrigin[] = []
+): boolean {
+  return !symbol.origin || !excludeOrigins.includes(symbol.origin);
+}
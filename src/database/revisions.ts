@@ -0,0 +1,89 @@
+import type {
+  ChangeContext,
+  FieldChange,
+  RevisionAction,
+} from "@/types/Symbol.js";
+
+/**
+ * Bookkeeping fields that never count as part of a change
+ */
+const TRACKING_FIELDS = new Set(["id", "created_at", "updated_at"]);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Top-level fields whose value would change if the updates were applied
+ */
+export function changedFields(current: object, updates: object): string[] {
+  const existing = current as Record<string, unknown>;
+  return Object.entries(updates)
+    .filter(
+      ([field, value]) =>
+        !TRACKING_FIELDS.has(field) &&
+        value !== undefined &&
+        !sameValue(existing[field], value)
+    )
+    .map(([field]) => field);
+}
+
+/**
+ * Field-by-field differences between two versions of a record
+ */
+export function diffRecords(before: object, after: object): FieldChange[] {
+  const previous = before as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  return Array.from(fields)
+    .filter((field) => !TRACKING_FIELDS.has(field))
+    .filter((field) => !sameValue(previous[field], next[field]))
+    .map((field) => ({
+      field,
+      before: previous[field] ?? null,
+      after: next[field] ?? null,
+    }));
+}
+
+/**
+ * Summary stored with a revision when the caller did not give one
+ */
+export function summarizeChange(
+  action: RevisionAction,
+  fields: string[],
+  context: ChangeContext = {}
+): string {
+  if (context.summary) {
+    return context.summary;
+  }
+  if (action === "delete") {
+    return "Deleted";
+  }
+  if (action === "restore") {
+    return "Restored from trash";
+  }
+  return `${action === "revert" ? "Reverted" : "Updated"} ${fields.join(", ")}`;
+}
+
+/**
+ * Summary for the edit that keeps a symmetric link two-way, listing or
+ * unlisting the other ends in a symbol's related_symbols
+ */
+export function reverseLinkSummary(linked: boolean, symbolIds: string[]): string {
+  const names = symbolIds.map((symbolId) => `"${symbolId}"`).join(", ");
+  return linked ? `Linked back to ${names}` : `Unlinked from ${names}`;
+}
+
+/**
+ * Editable fields of a stored snapshot, ready to be written back
+ */
+export function restorableFields<T extends object>(
+  snapshot: T
+): Omit<T, "id" | "created_at" | "updated_at"> {
+  const fields = { ...snapshot } as Record<string, unknown>;
+  for (const field of TRACKING_FIELDS) {
+    delete fields[field];
+  }
+  return fields as Omit<T, "id" | "created_at" | "updated_at">;
+}
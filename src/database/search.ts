@@ -0,0 +1,219 @@
+import type { SearchOptions, Symbol } from "@/types/Symbol.js";
+
+/**
+ * Weight of a match in each part of a symbol, the same as PostgreSQL's
+ * default ts_rank weights for the A to D labels the search vector uses
+ */
+export const SEARCH_WEIGHTS = {
+  name: 1.0,
+  aliases: 0.4,
+  description: 0.2,
+  other: 0.1,
+} as const;
+
+/**
+ * Lowest edit-distance similarity the in-memory fuzzy search accepts, about
+ * one typo in every four letters
+ */
+export const FUZZY_THRESHOLD = 0.7;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Lowercase words of a search query, without punctuation
+ */
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query)));
+}
+
+/**
+ * to_tsquery input requiring every term, each matched as a word prefix.
+ * Terms hold only letters and digits, so they need no escaping. Used with
+ * the 'simple' configuration, which neither stems nor drops stopwords, so it
+ * matches the same words as rankSymbol.
+ */
+export function toTsQuery(terms: string[]): string {
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+/**
+ * Every string inside an interpretations value, however deeply nested
+ */
+export function textValues(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(textValues);
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(textValues);
+  }
+  return [];
+}
+
+/**
+ * Relevance rounded to four places, as both backends report it
+ */
+export function roundScore(score: number): number {
+  return Math.round(score * 10000) / 10000;
+}
+
+/**
+ * In-memory equivalent of the PostgreSQL ranking: each term must prefix a word
+ * somewhere in the symbol, and every matching word adds the weight of the
+ * field it is in. Returns 0 when any term has no match.
+ */
+export function rankSymbol(symbol: Symbol, terms: string[]): number {
+  const fields: Array<[number, string[]]> = [
+    [SEARCH_WEIGHTS.name, tokenize(symbol.name)],
+    [
+      SEARCH_WEIGHTS.aliases,
+      (symbol.aliases ?? []).flatMap((alias) => tokenize(alias.label)),
+    ],
+    [SEARCH_WEIGHTS.description, tokenize(symbol.description ?? "")],
+    [
+      SEARCH_WEIGHTS.other,
+      [
+        ...tokenize(symbol.category ?? ""),
+        ...textValues(symbol.interpretations).flatMap(tokenize),
+      ],
+    ],
+  ];
+
+  let score = 0;
+  for (const term of terms) {
+    const termScore = fields.reduce(
+      (total, [weight, words]) =>
+        total + weight * words.filter((word) => word.startsWith(term)).length,
+      0
+    );
+    if (termScore === 0) {
+      return 0;
+    }
+    score += termScore;
+  }
+  return roundScore(score);
+}
+
+/**
+ * Levenshtein distance: the fewest single-character insertions, deletions and
+ * substitutions that turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_value, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Edit distance scaled to a similarity between 0 (nothing alike) and 1
+ * (identical), ignoring case
+ */
+export function editSimilarity(a: string, b: string): number {
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  const length = Math.max(left.length, right.length);
+  return length === 0 ? 1 : 1 - editDistance(left, right) / length;
+}
+
+/**
+ * In-memory equivalent of the trigram match: how close the query is to the
+ * symbol's name or one of its aliases, taken whole or word by word
+ */
+export function fuzzyScore(symbol: Symbol, query: string): number {
+  const labels = [
+    symbol.name,
+    ...(symbol.aliases ?? []).map((alias) => alias.label),
+  ];
+  const candidates = labels.flatMap((label) => [label, ...tokenize(label)]);
+  return roundScore(
+    Math.max(
+      0,
+      ...candidates.map((candidate) => editSimilarity(query.trim(), candidate))
+    )
+  );
+}
+
+/**
+ * Whether the options narrow a search by interpretations or properties
+ */
+export function hasJsonFilters(options: SearchOptions): boolean {
+  return (
+    options.interpretationContext !== undefined ||
+    options.interpretationText !== undefined ||
+    Object.keys(options.properties ?? {}).length > 0
+  );
+}
+
+/**
+ * Whether the symbol passes the interpretation and property filters
+ */
+export function matchesJsonFilters(
+  symbol: Symbol,
+  options: SearchOptions
+): boolean {
+  const {
+    interpretationContext,
+    interpretationText,
+    properties = {},
+  } = options;
+
+  if (
+    interpretationContext !== undefined &&
+    !(interpretationContext in symbol.interpretations)
+  ) {
+    return false;
+  }
+
+  if (interpretationText !== undefined) {
+    const needle = interpretationText.toLowerCase();
+    const searched =
+      interpretationContext !== undefined
+        ? symbol.interpretations[interpretationContext]
+        : symbol.interpretations;
+    if (
+      !textValues(searched).some((text) => text.toLowerCase().includes(needle))
+    ) {
+      return false;
+    }
+  }
+
+  return Object.entries(properties).every(([key, value]) => {
+    const actual = symbol.properties[key];
+    return (
+      actual === value || (Array.isArray(actual) && actual.includes(value))
+    );
+  });
+}
+
+/**
+ * Property value as written in a filter: text that reads as a number or
+ * boolean matches that type, anything else matches as text
+ */
+export function parsePropertyValue(raw: string): string | number | boolean {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed === "number" || typeof parsed === "boolean") {
+      return parsed;
+    }
+  } catch {
+    // Plain text
+  }
+  return raw;
+}
@@ -0,0 +1,69 @@
+import type {
+  Symbol,
+  SymbolSet,
+  SymbolSetMember,
+} from "@/types/Symbol.js";
+
+/**
+ * Weight stored for a member, whether the entry is `{ weight }` or a bare number
+ */
+export function memberWeight(entry: unknown): number | null {
+  if (typeof entry === "number") {
+    return entry;
+  }
+  if (entry && typeof entry === "object" && "weight" in entry) {
+    const { weight } = entry as { weight: unknown };
+    return typeof weight === "number" ? weight : null;
+  }
+  return null;
+}
+
+/**
+ * Copy of a symbol set's member map without the given symbol
+ */
+export function withoutMember(
+  symbols: SymbolSet["symbols"],
+  symbolId: string
+): SymbolSet["symbols"] {
+  return Object.fromEntries(
+    Object.entries(symbols).filter(([member]) => member !== symbolId)
+  );
+}
+
+/**
+ * Copy of a symbol set's member map with the given symbol at the given weight
+ */
+export function withMember(
+  symbols: SymbolSet["symbols"],
+  symbolId: string,
+  weight: number | null
+): SymbolSet["symbols"] {
+  return { ...symbols, [symbolId]: weight === null ? {} : { weight } };
+}
+
+/**
+ * Members of a set matched to the given symbols, heaviest first. Members
+ * without a matching symbol are kept and flagged as missing.
+ */
+export function resolveMembers(
+  symbolSet: SymbolSet,
+  symbols: Symbol[]
+): SymbolSetMember[] {
+  const byId = new Map(symbols.map((symbol) => [symbol.id, symbol]));
+
+  return Object.entries(symbolSet.symbols)
+    .map(([symbolId, entry]) => {
+      const symbol = byId.get(symbolId) ?? null;
+      return {
+        symbol_id: symbolId,
+        weight: memberWeight(entry),
+        symbol,
+        missing: symbol === null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        (b.weight ?? -1) - (a.weight ?? -1) ||
+        a.symbol_id.localeCompare(b.symbol_id)
+    );
+}
@@ -0,0 +1,166 @@
+import { memberWeight } from "@/database/setMembers.js";
+import {
+  type QueryOptions,
+  type QueryResult,
+  SET_SORT_FIELDS,
+  type SortField,
+  type SortOrder,
+  type Symbol,
+  type SymbolRelationship,
+  type SymbolSet,
+} from "@/types/Symbol.js";
+
+/**
+ * Field and direction a list is sorted by
+ */
+export interface Sort {
+  field: SortField;
+  order: SortOrder;
+}
+
+/**
+ * Sort keys of symbols that are not stored on the symbol itself, by ID
+ */
+export interface SymbolSortKeys {
+  relationCounts: Map<string, number>;
+  setWeights: Map<string, number>;
+}
+
+/**
+ * The requested sort, or the list's default, in the requested direction or
+ * the field's default one
+ */
+export function resolveSort(
+  options: Pick<QueryOptions, "sort" | "order">,
+  defaultField: SortField = "name"
+): Sort {
+  const field = options.sort ?? defaultField;
+  return { field, order: options.order ?? (field === "name" ? "asc" : "desc") };
+}
+
+/**
+ * Sort for a list of symbol sets, which only have names and timestamps to
+ * sort by
+ */
+export function resolveSetSort(
+  options: Pick<QueryOptions, "sort" | "order">
+): QueryResult<Sort> {
+  const sort = resolveSort(options);
+  if (!(SET_SORT_FIELDS as readonly SortField[]).includes(sort.field)) {
+    return {
+      success: false,
+      error: new Error(
+        `Symbol sets cannot be sorted by ${sort.field}; use ${SET_SORT_FIELDS.join(", ")}`
+      ),
+    };
+  }
+  return { success: true, data: sort };
+}
+
+/**
+ * Number of relationships from each symbol
+ */
+export function countRelations(
+  relationships: Pick<SymbolRelationship, "source_id">[]
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const { source_id } of relationships) {
+    counts.set(source_id, (counts.get(source_id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Total weight of each symbol across the sets it belongs to
+ */
+export function totalSetWeights(
+  symbolSets: Pick<SymbolSet, "symbols">[]
+): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const { symbols } of symbolSets) {
+    for (const [symbolId, entry] of Object.entries(symbols)) {
+      weights.set(
+        symbolId,
+        (weights.get(symbolId) ?? 0) + (memberWeight(entry) ?? 0)
+      );
+    }
+  }
+  return weights;
+}
+
+function sortValue(
+  symbol: Symbol,
+  field: SortField,
+  keys: SymbolSortKeys
+): string | number | null {
+  switch (field) {
+    case "name":
+      return symbol.name;
+    case "created_at":
+    case "updated_at":
+      return new Date(symbol[field]).getTime();
+    case "relevance":
+      return symbol.score ?? null;
+    case "relation_count":
+      return keys.relationCounts.get(symbol.id) ?? 0;
+    case "set_weight":
+      return keys.setWeights.get(symbol.id) ?? 0;
+  }
+}
+
+function compareValues(
+  a: string | number | null,
+  b: string | number | null,
+  order: SortOrder
+): number {
+  // Missing values, such as the score of an unranked symbol, always go last
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  const difference =
+    typeof a === "string" && typeof b === "string"
+      ? a.localeCompare(b)
+      : Number(a) - Number(b);
+  return order === "asc" ? difference : -difference;
+}
+
+/**
+ * Symbols in the given order, ties broken by name and then ID, the way the
+ * PostgreSQL database orders them
+ */
+export function sortSymbols<T extends Symbol>(
+  symbols: T[],
+  sort: Sort,
+  keys: SymbolSortKeys
+): T[] {
+  return [...symbols].sort(
+    (a, b) =>
+      compareValues(
+        sortValue(a, sort.field, keys),
+        sortValue(b, sort.field, keys),
+        sort.order
+      ) ||
+      a.name.localeCompare(b.name) ||
+      a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Symbol sets in the given order, ties broken by name and then ID
+ */
+export function sortSymbolSets<T extends SymbolSet>(
+  symbolSets: T[],
+  sort: Sort
+): T[] {
+  const value = (symbolSet: T): string | number =>
+    sort.field === "created_at" || sort.field === "updated_at"
+      ? new Date(symbolSet[sort.field]).getTime()
+      : symbolSet.name;
+
+  return [...symbolSets].sort(
+    (a, b) =>
+      compareValues(value(a), value(b), sort.order) ||
+      a.name.localeCompare(b.name) ||
+      a.id.localeCompare(b.id)
+  );
+}
@@ -0,0 +1,65 @@
+import {
+  type Suggestion,
+  SUGGESTION_KINDS,
+  type SuggestionKind,
+} from "@/types/Symbol.js";
+
+/**
+ * Number of suggestions returned when no limit is given
+ */
+export const SUGGEST_LIMIT = 10;
+
+/**
+ * How well the text completes the prefix: 0 for the whole text, 1 for its
+ * start, 2 for the start of a later word, or null for no match. Ignores case.
+ */
+function prefixRank(text: string, prefix: string): number | null {
+  const haystack = text.toLowerCase();
+  const needle = prefix.trim().toLowerCase();
+  if (haystack === needle) {
+    return 0;
+  }
+  if (haystack.startsWith(needle)) {
+    return 1;
+  }
+  return haystack.includes(` ${needle}`) ? 2 : null;
+}
+
+/**
+ * Candidates that complete the prefix, best first: whole matches, then
+ * matches at the start, then at a later word, each alphabetically. Both
+ * databases gather candidates their own way and rank them here, so they
+ * suggest the same things in the same order.
+ */
+export function rankSuggestions(
+  candidates: Suggestion[],
+  prefix: string,
+  limit = SUGGEST_LIMIT
+): Suggestion[] {
+  const kindOrder = (kind: SuggestionKind) => SUGGESTION_KINDS.indexOf(kind);
+  const seen = new Set<string>();
+
+  return candidates
+    .flatMap((candidate) => {
+      const rank = prefixRank(candidate.value, prefix);
+      return rank === null ? [] : [{ candidate, rank }];
+    })
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        a.candidate.value.localeCompare(b.candidate.value) ||
+        kindOrder(a.candidate.kind) - kindOrder(b.candidate.kind) ||
+        (a.candidate.symbol_id ?? "").localeCompare(b.candidate.symbol_id ?? "")
+    )
+    .map(({ candidate }) => candidate)
+    .filter(({ value, kind, symbol_id }) => {
+      // Categories differing only in case are the same category
+      const key = `${kind}:${symbol_id ?? ""}:${value.toLowerCase()}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { parseSymbolQuery } from "./symbolQuery.js";
+
+describe("parseSymbolQuery", () => {
+  it("parses field, property and interpretation conditions joined by AND", () => {
+    const result = parseSymbolQuery(
+      'category:journey AND property.direction=inward AND interpretation.dream~"decision making"'
+    );
+
+    expect(result.data).toEqual({
+      type: "and",
+      clauses: [
+        { type: "field", field: "category", value: "journey" },
+        { type: "property", key: "direction", value: "inward" },
+        {
+          type: "interpretation",
+          context: "dream",
+          contains: "decision making",
+        },
+      ],
+    });
+  });
+
+  it("binds AND tighter than OR and applies NOT and parentheses", () => {
+    const result = parseSymbolQuery(
+      "tag:Flow river OR NOT (origin:ai OR interpretation.ritual)"
+    );
+
+    expect(result.data).toEqual({
+      type: "or",
+      clauses: [
+        {
+          type: "and",
+          clauses: [
+            { type: "field", field: "tag", value: "flow" },
+            { type: "text", text: "river" },
+          ],
+        },
+        {
+          type: "not",
+          clause: {
+            type: "or",
+            clauses: [
+              { type: "field", field: "origin", value: "ai" },
+              { type: "interpretation", context: "ritual", contains: null },
+            ],
+          },
+        },
+      ],
+    });
+  });
+
+  it("reads unquoted property values as numbers and booleans", () => {
+    const numeric = parseSymbolQuery("property.sides=8");
+    const quoted = parseSymbolQuery('property.sides="8"');
+    const flag = parseSymbolQuery("property.sacred=true");
+
+    expect(numeric.data).toEqual({ type: "property", key: "sides", value: 8 });
+    expect(quoted.data).toEqual({ type: "property", key: "sides", value: "8" });
+    expect(flag.data).toEqual({ type: "property", key: "sacred", value: true });
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(parseSymbolQuery("color:red").error?.message).toContain(
+      'Unknown field "color" at position 1'
+    );
+    expect(parseSymbolQuery("category:journey AND").error?.message).toBe(
+      "Query ends where a condition was expected"
+    );
+    expect(parseSymbolQuery("(tag:flow").error?.message).toBe(
+      'Missing ")" for "(" at position 1'
+    );
+    expect(parseSymbolQuery('interpretation~"open').error?.message).toBe(
+      "Unterminated quote at position 16"
+    );
+    expect(parseSymbolQuery("origin:robot").error?.message).toBe(
+      'Unknown origin "robot" at position 1; expected human, ai, import'
+    );
+    expect(parseSymbolQuery("  ").error?.message).toBe("Query is empty");
+  });
+});
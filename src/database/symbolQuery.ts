@@ -0,0 +1,339 @@
+import {
+  matchesJsonFilters,
+  parsePropertyValue,
+  rankSymbol,
+  searchTerms,
+} from "@/database/search.js";
+import { normalizeTags } from "@/database/tags.js";
+import {
+  PROVENANCE_ORIGINS,
+  QUERY_FIELDS,
+  type QueryField,
+  type QueryResult,
+  type Symbol,
+  type SymbolQuery,
+} from "@/types/Symbol.js";
+
+type Token =
+  | { kind: "(" | ")" | "AND" | "OR" | "NOT"; position: number }
+  | {
+      kind: "term";
+      key: string | null;
+      operator: string | null;
+      value: string;
+      quoted: boolean;
+      position: number;
+    };
+
+const KEYWORDS = ["AND", "OR", "NOT"] as const;
+
+const SYNTAX_HINT =
+  'use category:, tag:, origin:, property.<key>=, interpretation.<context> or interpretation.<context>~"<text>"';
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+/**
+ * Text of the quoted string starting at the opening quote, with backslash
+ * escapes resolved, and the position just past the closing quote
+ */
+function readQuoted(
+  text: string,
+  start: number
+): { value: string; end: number } {
+  let value = "";
+  let index = start + 1;
+  while (index < text.length && text[index] !== '"') {
+    if (text[index] === "\\" && index + 1 < text.length) {
+      index++;
+    }
+    value += text[index];
+    index++;
+  }
+  if (index >= text.length) {
+    fail(`Unterminated quote at position ${start + 1}`);
+  }
+  return { value, end: index + 1 };
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index] ?? "";
+    const position = index + 1;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({ kind: char, position });
+      index++;
+      continue;
+    }
+
+    if (char === '"') {
+      const quoted = readQuoted(text, index);
+      tokens.push({
+        kind: "term",
+        key: null,
+        operator: null,
+        value: quoted.value,
+        quoted: true,
+        position,
+      });
+      index = quoted.end;
+      continue;
+    }
+
+    let end = index;
+    while (end < text.length && /[^\s()"]/.test(text[end] ?? "")) {
+      end++;
+    }
+    const word = text.slice(index, end);
+    index = end;
+
+    const keyword = KEYWORDS.find((candidate) => candidate === word);
+    if (keyword) {
+      tokens.push({ kind: keyword, position });
+      continue;
+    }
+
+    const separator = word.search(/[:=~]/);
+    if (separator <= 0) {
+      // A bare interpretation.<context> asks for the context to exist
+      tokens.push(
+        word.startsWith("interpretation.")
+          ? {
+              kind: "term",
+              key: word,
+              operator: null,
+              value: "",
+              quoted: false,
+              position,
+            }
+          : {
+              kind: "term",
+              key: null,
+              operator: null,
+              value: word,
+              quoted: false,
+              position,
+            }
+      );
+      continue;
+    }
+
+    const key = word.slice(0, separator);
+    const operator = word.charAt(separator);
+    let value = word.slice(separator + 1);
+    let quoted = false;
+    if (value === "" && text[index] === '"') {
+      const quotedValue = readQuoted(text, index);
+      value = quotedValue.value;
+      quoted = true;
+      index = quotedValue.end;
+    }
+    if (value === "") {
+      fail(`Missing value after "${key}${operator}" at position ${position}`);
+    }
+    tokens.push({ kind: "term", key, operator, value, quoted, position });
+  }
+
+  return tokens;
+}
+
+function isQueryField(key: string): key is QueryField {
+  return (QUERY_FIELDS as readonly string[]).includes(key);
+}
+
+/**
+ * Condition for a single term of the query
+ */
+function toCondition(token: Extract<Token, { kind: "term" }>): SymbolQuery {
+  const { key, operator, value, quoted, position } = token;
+
+  if (key === null) {
+    if (searchTerms(value).length === 0) {
+      fail(`Search text "${value}" at position ${position} has no words`);
+    }
+    return { type: "text", text: value };
+  }
+
+  if (isQueryField(key)) {
+    if (operator !== ":") {
+      fail(`Expected ${key}:<value> at position ${position}`);
+    }
+    if (
+      key === "origin" &&
+      !(PROVENANCE_ORIGINS as readonly string[]).includes(value)
+    ) {
+      fail(
+        `Unknown origin "${value}" at position ${position}; expected ${PROVENANCE_ORIGINS.join(", ")}`
+      );
+    }
+    return {
+      type: "field",
+      field: key,
+      value: key === "tag" ? (normalizeTags([value])[0] ?? value) : value,
+    };
+  }
+
+  if (key.startsWith("property.") && key.length > "property.".length) {
+    if (operator !== "=") {
+      fail(`Expected ${key}=<value> at position ${position}`);
+    }
+    return {
+      type: "property",
+      key: key.slice("property.".length),
+      value: quoted ? value : parsePropertyValue(value),
+    };
+  }
+
+  if (key === "interpretation" || key.startsWith("interpretation.")) {
+    const context =
+      key === "interpretation" ? null : key.slice("interpretation.".length);
+    if (context !== "" && operator === "~") {
+      return { type: "interpretation", context, contains: value };
+    }
+    if (context && operator === null) {
+      return { type: "interpretation", context, contains: null };
+    }
+    fail(
+      `Expected interpretation.<context> or ${key}~"<text>" at position ${position}`
+    );
+  }
+
+  fail(`Unknown field "${key}" at position ${position}; ${SYNTAX_HINT}`);
+}
+
+/**
+ * Conditions that must all hold, as a single query
+ */
+export function allOf(clauses: SymbolQuery[]): SymbolQuery {
+  const [first] = clauses;
+  return clauses.length === 1 && first ? first : { type: "and", clauses };
+}
+
+/**
+ * Parse a symbol query such as
+ * `category:journey AND property.direction=inward AND interpretation.dream~"decision"`.
+ *
+ * Conditions are `category:<value>`, `tag:<value>`, `origin:<value>`,
+ * `property.<key>=<value>`, `interpretation.<context>` (the context exists),
+ * `interpretation.<context>~<text>` or `interpretation~<text>` (interpretation
+ * text, ignoring case), and bare or quoted words for full-text search. They
+ * combine with AND, OR, NOT and parentheses; AND binds tighter than OR and
+ * conditions side by side are ANDed. Values with spaces go in double quotes.
+ */
+export function parseSymbolQuery(text: string): QueryResult<SymbolQuery> {
+  try {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) {
+      fail("Query is empty");
+    }
+
+    let index = 0;
+    const peek = (): Token | undefined => tokens[index];
+
+    const parseUnary = (): SymbolQuery => {
+      const token = tokens[index++];
+      if (!token) {
+        fail("Query ends where a condition was expected");
+      }
+      switch (token.kind) {
+        case "NOT":
+          return { type: "not", clause: parseUnary() };
+        case "(": {
+          const inner = parseOr();
+          if (peek()?.kind !== ")") {
+            fail(`Missing ")" for "(" at position ${token.position}`);
+          }
+          index++;
+          return inner;
+        }
+        case "term":
+          return toCondition(token);
+        default:
+          fail(`Unexpected ${token.kind} at position ${token.position}`);
+      }
+    };
+
+    const parseAnd = (): SymbolQuery => {
+      const clauses = [parseUnary()];
+      for (
+        let token = peek();
+        token && token.kind !== "OR" && token.kind !== ")";
+        token = peek()
+      ) {
+        if (token.kind === "AND") {
+          index++;
+        }
+        clauses.push(parseUnary());
+      }
+      return allOf(clauses);
+    };
+
+    const parseOr = (): SymbolQuery => {
+      const clauses = [parseAnd()];
+      while (peek()?.kind === "OR") {
+        index++;
+        clauses.push(parseAnd());
+      }
+      const [first] = clauses;
+      return clauses.length === 1 && first ? first : { type: "or", clauses };
+    };
+
+    const query = parseOr();
+    const extra = peek();
+    if (extra) {
+      fail(`Unexpected ${extra.kind} at position ${extra.position}`);
+    }
+    return { success: true, data: query };
+  } catch (error) {
+    return { success: false, error: error as Error };
+  }
+}
+
+/**
+ * Whether the symbol satisfies the query, evaluated in memory the way the
+ * PostgreSQL database evaluates it in SQL
+ */
+export function matchesSymbolQuery(
+  symbol: Symbol,
+  query: SymbolQuery
+): boolean {
+  switch (query.type) {
+    case "and":
+      return query.clauses.every((clause) =>
+        matchesSymbolQuery(symbol, clause)
+      );
+    case "or":
+      return query.clauses.some((clause) => matchesSymbolQuery(symbol, clause));
+    case "not":
+      return !matchesSymbolQuery(symbol, query.clause);
+    case "field":
+      if (query.field === "tag") {
+        return (symbol.tags ?? []).includes(query.value);
+      }
+      if (query.field === "category") {
+        return symbol.category?.toLowerCase() === query.value.toLowerCase();
+      }
+      return symbol[query.field] === query.value;
+    case "property":
+      return matchesJsonFilters(symbol, {
+        properties: { [query.key]: query.value },
+      });
+    case "interpretation":
+      return matchesJsonFilters(symbol, {
+        ...(query.context !== null && { interpretationContext: query.context }),
+        ...(query.contains !== null && { interpretationText: query.contains }),
+      });
+    case "text":
+      return rankSymbol(symbol, searchTerms(query.text)) > 0;
+  }
+}
@@ -0,0 +1,41 @@
+import type { Symbol, TagCount, TagMatch } from "@/types/Symbol.js";
+
+/**
+ * Trimmed, lowercase tags with blanks and duplicates removed, in
+ * alphabetical order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(
+    new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))
+  ).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Whether the symbol carries any (or all) of the given normalized tags
+ */
+export function matchesTags(
+  symbol: Pick<Symbol, "tags">,
+  tags: string[],
+  match: TagMatch
+): boolean {
+  const carried = new Set(symbol.tags ?? []);
+  return match === "all"
+    ? tags.every((tag) => carried.has(tag))
+    : tags.some((tag) => carried.has(tag));
+}
+
+/**
+ * Every tag used by the symbols with how many carry it, most used first
+ */
+export function countTags(symbols: Array<Pick<Symbol, "tags">>): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const symbol of symbols) {
+    for (const tag of symbol.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
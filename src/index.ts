@@ -2,14 +2,17 @@
  * Symbols Awakening MCP Server
  * CLI entry point for the symbolic ontology MCP server
  */
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 
-import { PrismaDatabase } from "@/database/Database.js";
+import { PrismaDatabase, type DatabaseOptions, type IDatabase } from "@/database/Database.js";
 import { DemoDatabase } from "@/database/DemoDatabase.js";
 import { SymbolsService } from "@/mcp/SymbolsService.js";
 import { CsvService } from "@/services/CsvService.js";
+import { IntegrityService } from "@/services/IntegrityService.js";
+import { DAY_MS, type CategoryTreeNode, type SuggestionKind } from "@/types/Symbol.js";
 import path from "path";
 
 // Version info
@@ -38,28 +41,81 @@ Usage:
   ${SERVER_NAME} export <file.csv> --category <name>  Export by category
   ${SERVER_NAME} sample-csv <file.csv>     Create sample CSV file
 
+  Ontology maintenance:
+  ${SERVER_NAME} validate                  Report integrity issues (exits 1 on errors)
+  ${SERVER_NAME} validate --fix            Repair fixable issues, then report
+  ${SERVER_NAME} validate --json           Print the full report as JSON
+  ${SERVER_NAME} repair-relations          Add missing reverse links for symmetric relations
+
+  Trash:
+  ${SERVER_NAME} trash                     List deleted symbols
+  ${SERVER_NAME} restore <id>              Bring a deleted symbol back
+  ${SERVER_NAME} purge-deleted             Permanently remove everything in the trash
+  ${SERVER_NAME} purge-deleted --older-than <days>  Only purge symbols deleted before then
+
 Environment Variables:
   DATABASE_URL               PostgreSQL connection string
   DEMO_MODE                 Set to true/1 to use demo mode
   NODE_ENV                  Environment (development, production, test)
   PORT                      Port for REST API server (default: 3000)
+  SYMMETRIC_RELATIONS       Set to true/1 to keep related/opposes/complements links two-way
 
   MCP Tools Available:
   Read-only tools:
   • get_symbols              List symbols with optional limit
-  • get_symbol              Get a symbol by ID
-  • search_symbols           Search symbols by text query
-  • filter_by_category       Filter symbols by category
+  • get_symbol              Get a symbol by ID or alias
+  • search_symbols           Full-text search (including aliases) with highlighted snippets
+  • query_symbols            Combine category, tag, property and interpretation conditions
+  • find_similar_symbols     Symbols close in meaning to text or another symbol
+  • filter_by_category       Filter symbols by category (optionally with subcategories)
   • get_categories          Get all available categories
+  • filter_by_tags          Filter symbols by tags (any or all)
+  • get_tags                Get all tags with symbol counts
   • get_symbol_sets         List symbol sets with optional limit
+  • get_symbol_set          Get a symbol set with its member symbols
   • search_symbol_sets      Search symbol sets by text query
   
   Symbol management tools:
   • create_symbol           Create a new symbol
   • update_symbol           Update an existing symbol
-  • delete_symbol           Delete a symbol (with optional cascade)
+  • delete_symbol           Move a symbol to the trash (with optional cascade)
   • create_symbol_set       Create a new symbol set
   • update_symbol_set       Update an existing symbol set
+  • delete_symbol_set       Delete a symbol set
+  • add_symbol_to_set       Add a symbol to a set with an optional weight
+  • remove_symbol_from_set  Remove a symbol from a set
+  • set_member_weight       Change a member's weight in a set
+
+  Category taxonomy tools:
+  • create_category         Add a category, optionally under a parent
+  • update_category         Change a category's parent, description or order
+  • delete_category         Remove a category; subcategories move up
+
+  Property schema tools:
+  • get_property_schemas    List allowed property keys, types and values per category
+  • set_property_schema     Create or replace a category's property schema
+  • delete_property_schema  Remove a category's property schema
+
+  Relationship tools:
+  • get_relationships       List typed relationships between symbols
+  • create_relationship     Create a typed relationship (opposes, aspect_of, ...)
+  • update_relationship     Update a relationship's weight or note
+  • delete_relationship     Delete a relationship
+
+  Graph exploration tools:
+  • traverse_symbol_graph   Explore the symbols reachable from a start symbol
+  • find_symbol_path        Explain how two symbols are connected
+
+  History tools:
+  • get_symbol_history      List prior versions of a symbol or symbol set
+  • revert_symbol           Restore a prior version (undo bad edits)
+
+  Trash tools:
+  • restore_symbol          Bring a deleted symbol back with its relationships
+  • purge_deleted           Permanently remove deleted symbols
+
+  Maintenance tools:
+  • validate_ontology       Check for broken references and gaps, optionally fixing them
 
 For more information, visit: https://github.com/yogimathius/symbols-awakening-mcp
 `);
@@ -106,6 +162,31 @@ async function handleCliArgs(): Promise<boolean> {
       await handleSampleCsvCommand(args.slice(1));
       return false;
     }
+
+    if (command === "validate") {
+      await handleValidateCommand(args.slice(1));
+      return false;
+    }
+
+    if (command === "repair-relations") {
+      await handleRepairRelationsCommand();
+      return false;
+    }
+
+    if (command === "trash") {
+      await handleTrashCommand();
+      return false;
+    }
+
+    if (command === "restore" && args.length >= 2) {
+      await handleRestoreCommand(args.slice(1));
+      return false;
+    }
+
+    if (command === "purge-deleted") {
+      await handlePurgeDeletedCommand(args.slice(1));
+      return false;
+    }
   }
 
   return true;
@@ -130,7 +211,7 @@ async function handleImportCommand(args: string[]): Promise<void> {
   console.log(`📥 Importing symbols from ${filePath}...`);
   
   try {
-    const database = new PrismaDatabase();
+    const database = new PrismaDatabase(databaseOptions());
     await database.connect();
     
     const csvService = new CsvService(database);
@@ -200,7 +281,7 @@ async function handleExportCommand(args: string[]): Promise<void> {
   }
   
   try {
-    const database = new PrismaDatabase();
+    const database = new PrismaDatabase(databaseOptions());
     await database.connect();
     
     const csvService = new CsvService(database);
@@ -270,6 +351,194 @@ async function handleSampleCsvCommand(args: string[]): Promise<void> {
   }
 }
 
+/**
+ * Handle ontology validation command
+ */
+async function handleValidateCommand(args: string[]): Promise<void> {
+  const fix = args.includes('--fix');
+  const json = args.includes('--json');
+
+  if (!json) {
+    console.log(`🔍 Validating ontology${fix ? ' and repairing fixable issues' : ''}...`);
+  }
+
+  try {
+    const options = databaseOptions();
+    const database = isDemoMode() ? new DemoDatabase(options) : new PrismaDatabase(options);
+    await database.connect();
+
+    const integrityService = new IntegrityService(database);
+    const result = await integrityService.validate({ fix });
+
+    await database.disconnect();
+
+    if (!result.success || !result.data) {
+      console.error(`❌ Validation failed: ${result.error?.message ?? 'Unknown error'}`);
+      process.exit(1);
+    }
+
+    const { summary, issues } = result.data;
+
+    if (json) {
+      console.log(JSON.stringify(result.data, null, 2));
+    } else {
+      console.log(`📈 Summary:`);
+      console.log(`   • Symbols checked: ${summary.symbols}`);
+      console.log(`   • Symbol sets checked: ${summary.symbol_sets}`);
+      console.log(`   • Errors: ${summary.errors}`);
+      console.log(`   • Warnings: ${summary.warnings}`);
+      console.log(`   • Info: ${summary.info}`);
+      if (fix) {
+        console.log(`   • Fixed: ${summary.fixed}`);
+      }
+
+      issues.forEach(issue => {
+        const marker = issue.fixed ? '🔧' : issue.severity === 'error' ? '❌' : issue.severity === 'warning' ? '⚠️ ' : 'ℹ️ ';
+        console.log(`   ${marker} [${issue.type}] ${issue.message}`);
+      });
+
+      if (summary.issues === 0) {
+        console.log(`✅ No integrity issues found`);
+      }
+    }
+
+    const unfixedErrors = issues.filter(issue => issue.severity === 'error' && !issue.fixed);
+    if (unfixedErrors.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(`❌ Validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle symmetric relationship repair command
+ */
+async function handleRepairRelationsCommand(): Promise<void> {
+  console.log(`🔧 Adding missing reverse links for symmetric relations...`);
+
+  try {
+    const options = databaseOptions();
+    const database = isDemoMode() ? new DemoDatabase(options) : new PrismaDatabase(options);
+    await database.connect();
+
+    const result = await database.repairSymmetricRelationships();
+
+    await database.disconnect();
+
+    if (!result.success) {
+      console.error(`❌ Repair failed: ${result.error?.message ?? 'Unknown error'}`);
+      process.exit(1);
+    }
+
+    console.log(`✅ Created ${result.data ?? 0} reverse link(s)`);
+  } catch (error) {
+    console.error(`❌ Repair failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle trash listing command
+ */
+async function handleTrashCommand(): Promise<void> {
+  try {
+    const options = databaseOptions();
+    const database = isDemoMode() ? new DemoDatabase(options) : new PrismaDatabase(options);
+    await database.connect();
+
+    const result = await database.getDeletedSymbols({ limit: 1000 });
+
+    await database.disconnect();
+
+    if (!result.success) {
+      console.error(`❌ Listing trash failed: ${result.error?.message ?? 'Unknown error'}`);
+      process.exit(1);
+    }
+
+    const symbols = result.data ?? [];
+    if (symbols.length === 0) {
+      console.log('🗑️  Trash is empty');
+      return;
+    }
+
+    console.log(`🗑️  ${symbols.length} deleted symbol(s):`);
+    for (const symbol of symbols) {
+      console.log(`   • ${symbol.id} (${symbol.name}) deleted ${symbol.deleted_at?.toISOString() ?? 'unknown'}`);
+    }
+  } catch (error) {
+    console.error(`❌ Listing trash failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle restore command
+ */
+async function handleRestoreCommand(args: string[]): Promise<void> {
+  const id = args[0] ?? '';
+
+  console.log(`♻️  Restoring symbol "${id}"...`);
+
+  try {
+    const options = databaseOptions();
+    const database = isDemoMode() ? new DemoDatabase(options) : new PrismaDatabase(options);
+    await database.connect();
+
+    const result = await database.restoreSymbol(id, { actor: 'cli' });
+
+    await database.disconnect();
+
+    if (!result.success) {
+      console.error(`❌ Restore failed: ${result.error?.message ?? 'Unknown error'}`);
+      process.exit(1);
+    }
+
+    console.log(`✅ Restored symbol "${id}"`);
+  } catch (error) {
+    console.error(`❌ Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Handle purge-deleted command
+ */
+async function handlePurgeDeletedCommand(args: string[]): Promise<void> {
+  const olderThanIndex = args.indexOf('--older-than');
+  const olderThan = olderThanIndex !== -1 ? Number(args[olderThanIndex + 1]) : undefined;
+
+  if (olderThan !== undefined && (!Number.isInteger(olderThan) || olderThan < 0)) {
+    console.error('❌ Error: --older-than must be a whole number of days');
+    process.exit(1);
+  }
+
+  console.log(`🧹 Purging deleted symbols...`);
+
+  try {
+    const options = databaseOptions();
+    const database = isDemoMode() ? new DemoDatabase(options) : new PrismaDatabase(options);
+    await database.connect();
+
+    const result = await database.purgeDeleted(
+      olderThan !== undefined ? { deletedBefore: new Date(Date.now() - olderThan * DAY_MS) } : {}
+    );
+
+    await database.disconnect();
+
+    if (!result.success) {
+      console.error(`❌ Purge failed: ${result.error?.message ?? 'Unknown error'}`);
+      process.exit(1);
+    }
+
+    console.log(`✅ Permanently removed ${result.data?.length ?? 0} symbol(s)`);
+  } catch (error) {
+    console.error(`❌ Purge failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
 /**
  * Main server function
  */
@@ -302,6 +571,23 @@ function isDemoMode(): boolean {
   return process.argv.includes("--demo") || envFlag === "true" || envFlag === "1";
 }
 
+function databaseOptions(): DatabaseOptions {
+  const envFlag = process.env.SYMMETRIC_RELATIONS?.toLowerCase();
+  return { symmetricRelations: envFlag === "true" || envFlag === "1" };
+}
+
+/**
+ * Values completing an MCP argument, or none when the database can't be read
+ */
+async function completions(
+  database: IDatabase,
+  value: string,
+  kinds: SuggestionKind[]
+): Promise<string[]> {
+  const result = await database.suggest(value, { kinds });
+  return Array.from(new Set((result.data ?? []).map((suggestion) => suggestion.value)));
+}
+
 /**
  * Start the REST API server
  */
@@ -311,7 +597,7 @@ async function startRestApiServer(demoMode: boolean): Promise<void> {
   const { ApiServer } = await import("@/api/ApiServer.js");
 
   // Initialize database
-  const database = demoMode ? new DemoDatabase() : new PrismaDatabase();
+  const database = demoMode ? new DemoDatabase(databaseOptions()) : new PrismaDatabase(databaseOptions());
   
   if (!demoMode) {
     // Connect to database
@@ -381,7 +667,7 @@ async function startMcpServer(demoMode: boolean): Promise<void> {
     );
 
     // Initialize database
-    const database = demoMode ? new DemoDatabase() : new PrismaDatabase();
+    const database = demoMode ? new DemoDatabase(databaseOptions()) : new PrismaDatabase(databaseOptions());
 
     if (!demoMode) {
       // Try to connect to database (graceful degradation if not available)
@@ -408,9 +694,12 @@ async function startMcpServer(demoMode: boolean): Promise<void> {
       "symbols-categories",
       "symbols://categories",
       async (uri) => {
-        const result = await database.getCategories();
+        const [result, used] = await Promise.all([
+          database.getCategoryTree(),
+          database.getCategories(),
+        ]);
 
-        if (!result.success) {
+        if (!result.success || !used.success) {
           return {
             contents: [
               {
@@ -418,7 +707,8 @@ async function startMcpServer(demoMode: boolean): Promise<void> {
                 text: JSON.stringify(
                   {
                     error: "Database not available",
-                    message: result.error?.message ?? "Unknown database error",
+                    message:
+                      (result.error ?? used.error)?.message ?? "Unknown database error",
                   },
                   null,
                   2
@@ -428,14 +718,28 @@ async function startMcpServer(demoMode: boolean): Promise<void> {
           };
         }
 
+        const tree = result.data ?? [];
+        const declared = new Set<string>();
+        const collect = (nodes: CategoryTreeNode[]): void => {
+          for (const node of nodes) {
+            declared.add(node.id);
+            collect(node.children);
+          }
+        };
+        collect(tree);
+
         return {
           contents: [
             {
               uri: uri.href,
               text: JSON.stringify(
                 {
-                  categories: result.data ?? [],
-                  total: result.data?.length ?? 0,
+                  categories: tree,
+                  total: declared.size,
+                  // Categories used by symbols but not placed in the taxonomy
+                  unplaced: (used.data ?? []).filter(
+                    (category) => !declared.has(category)
+                  ),
                 },
                 null,
                 2
@@ -448,7 +752,20 @@ async function startMcpServer(demoMode: boolean): Promise<void> {
 
     server.resource(
       "symbols-by-category",
-      new ResourceTemplate("symbols://category/{category}", { list: undefined }),
+      new ResourceTemplate("symbols://category/{category}", {
+        list: async () => {
+          const result = await database.getCategories();
+          return {
+            resources: (result.data ?? []).map((category) => ({
+              uri: `symbols://category/${category}`,
+              name: category,
+            })),
+          };
+        },
+        complete: {
+          category: (value) => completions(database, value, ["category"]),
+        },
+      }),
       async (uri, { category }) => {
         const result = await database.filterByCategory(category, { limit: 20 });
 
@@ -494,7 +811,10 @@ async function startMcpServer(demoMode: boolean): Promise<void> {
     server.prompt(
       "analyze-symbol",
       {
-        symbol: z.string().min(1).describe("Symbol name or ID to analyze"),
+        symbol: completable(
+          z.string().min(1).describe("Symbol name or ID to analyze"),
+          (value) => completions(database, value, ["id", "name", "alias"])
+        ),
         focus: z
           .string()
           .optional()
@@ -587,15 +907,41 @@ async function startMcpServer(demoMode: boolean): Promise<void> {
                     "get_symbols",
                     "get_symbol",
                     "search_symbols",
+                    "query_symbols",
+                    "find_similar_symbols",
                     "filter_by_category",
                     "get_categories",
+                    "filter_by_tags",
+                    "get_tags",
                     "get_symbol_sets",
+                    "get_symbol_set",
                     "search_symbol_sets",
                     "create_symbol",
                     "update_symbol",
                     "delete_symbol",
                     "create_symbol_set",
                     "update_symbol_set",
+                    "delete_symbol_set",
+                    "add_symbol_to_set",
+                    "remove_symbol_from_set",
+                    "set_member_weight",
+                    "create_category",
+                    "update_category",
+                    "delete_category",
+                    "get_property_schemas",
+                    "set_property_schema",
+                    "delete_property_schema",
+                    "get_relationships",
+                    "create_relationship",
+                    "update_relationship",
+                    "delete_relationship",
+                    "traverse_symbol_graph",
+                    "find_symbol_path",
+                    "get_symbol_history",
+                    "revert_symbol",
+                    "restore_symbol",
+                    "purge_deleted",
+                    "validate_ontology",
                   ],
                   message:
                     "Symbols Awakening MCP Server is operational with Prisma",
@@ -1,7 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import type { IDatabase } from "@/database/Database.js";
-import type { Symbol, SymbolSet } from "@/types/Symbol.js";
+import type { PropertySchema, Symbol, SymbolSet } from "@/types/Symbol.js";
 
 import { SymbolsService, TOOL_SCHEMAS } from "./SymbolsService.js";
 
@@ -18,9 +18,25 @@ const mockDatabase: IDatabase = {
   getSymbols: vi.fn(),
   getSymbol: vi.fn(),
   searchSymbols: vi.fn(),
+  getSearchFacets: vi.fn(),
+  querySymbols: vi.fn(),
+  findSimilarSymbols: vi.fn(),
   filterByCategory: vi.fn(),
+  getCategoryFacets: vi.fn(),
   getCategories: vi.fn(),
+  suggest: vi.fn(),
+  getPropertySchemas: vi.fn(),
+  getPropertySchema: vi.fn(),
+  setPropertySchema: vi.fn(),
+  deletePropertySchema: vi.fn(),
+  filterByTags: vi.fn(),
+  getTags: vi.fn(),
+  getCategoryTree: vi.fn(),
+  createCategory: vi.fn(),
+  updateCategory: vi.fn(),
+  deleteCategory: vi.fn(),
   getSymbolSets: vi.fn(),
+  getSymbolSet: vi.fn(),
   searchSymbolSets: vi.fn(),
   healthCheck: vi.fn(),
   // CRUD operations
@@ -29,6 +45,32 @@ const mockDatabase: IDatabase = {
   deleteSymbol: vi.fn(),
   createSymbolSet: vi.fn(),
   updateSymbolSet: vi.fn(),
+  deleteSymbolSet: vi.fn(),
+  addSymbolToSet: vi.fn(),
+  removeSymbolFromSet: vi.fn(),
+  setMemberWeight: vi.fn(),
+  getRelationships: vi.fn(),
+  createRelationship: vi.fn(),
+  updateRelationship: vi.fn(),
+  deleteRelationship: vi.fn(),
+  getNeighborhood: vi.fn(),
+  repairSymmetricRelationships: vi.fn(),
+  getRevisions: vi.fn(),
+  getRevision: vi.fn(),
+  restoreRevision: vi.fn(),
+  getDeletedSymbols: vi.fn(),
+  restoreSymbol: vi.fn(),
+  purgeDeleted: vi.fn(),
+};
+
+const transformationSchema: PropertySchema = {
+  category: "transformation",
+  properties: {
+    origin: { type: "string", enum: ["ancient", "medieval", "modern"], required: true },
+  },
+  allow_additional: false,
+  created_at: new Date("2024-01-01T00:00:00Z"),
+  updated_at: new Date("2024-01-01T00:00:00Z"),
 };
 
 describe("SymbolsService", () => {
@@ -36,6 +78,14 @@ describe("SymbolsService", () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(mockDatabase.getPropertySchema).mockResolvedValue({
+      success: true,
+      data: null,
+    });
+    vi.mocked(mockDatabase.getSearchFacets).mockResolvedValue({
+      success: true,
+      data: { categories: [], tags: [], properties: {}, interpretation_contexts: [] },
+    });
     service = new SymbolsService(mockServer as any, mockDatabase);
   });
 
@@ -78,6 +128,14 @@ describe("SymbolsService", () => {
       expect(typeof schema.limit).toBe("object");
     });
 
+    it("should only offer name and timestamp orders for symbol sets", () => {
+      const schema = TOOL_SCHEMAS.get_symbol_sets;
+
+      expect(schema.sort.safeParse("updated_at").success).toBe(true);
+      expect(schema.sort.safeParse("relation_count").success).toBe(false);
+      expect(TOOL_SCHEMAS.get_symbols.sort.safeParse("relation_count").success).toBe(true);
+    });
+
     it("should have valid Zod schema for search_symbol_sets", () => {
       const schema = TOOL_SCHEMAS.search_symbol_sets;
 
@@ -96,10 +154,10 @@ describe("SymbolsService", () => {
   });
 
   describe("registerTools", () => {
-    it("should register all 12 required tools", () => {
+    it("should register all 38 required tools", () => {
       service.registerTools();
 
-      expect(mockServer.tool).toHaveBeenCalledTimes(12);
+      expect(mockServer.tool).toHaveBeenCalledTimes(38);
 
       // Verify all tool names are registered
       const registeredTools = mockServer.tool.mock.calls.map((call) => call[0]);
@@ -108,9 +166,14 @@ describe("SymbolsService", () => {
       expect(registeredTools).toContain("get_symbols");
       expect(registeredTools).toContain("get_symbol");
       expect(registeredTools).toContain("search_symbols");
+      expect(registeredTools).toContain("query_symbols");
+      expect(registeredTools).toContain("find_similar_symbols");
       expect(registeredTools).toContain("filter_by_category");
       expect(registeredTools).toContain("get_categories");
+      expect(registeredTools).toContain("filter_by_tags");
+      expect(registeredTools).toContain("get_tags");
       expect(registeredTools).toContain("get_symbol_sets");
+      expect(registeredTools).toContain("get_symbol_set");
       expect(registeredTools).toContain("search_symbol_sets");
       
       // CRUD tools
@@ -119,6 +182,41 @@ describe("SymbolsService", () => {
       expect(registeredTools).toContain("delete_symbol");
       expect(registeredTools).toContain("create_symbol_set");
       expect(registeredTools).toContain("update_symbol_set");
+      expect(registeredTools).toContain("delete_symbol_set");
+      expect(registeredTools).toContain("add_symbol_to_set");
+      expect(registeredTools).toContain("remove_symbol_from_set");
+      expect(registeredTools).toContain("set_member_weight");
+
+      // Category taxonomy tools
+      expect(registeredTools).toContain("create_category");
+      expect(registeredTools).toContain("update_category");
+      expect(registeredTools).toContain("delete_category");
+
+      // Property schema tools
+      expect(registeredTools).toContain("get_property_schemas");
+      expect(registeredTools).toContain("set_property_schema");
+      expect(registeredTools).toContain("delete_property_schema");
+
+      // Relationship tools
+      expect(registeredTools).toContain("get_relationships");
+      expect(registeredTools).toContain("create_relationship");
+      expect(registeredTools).toContain("update_relationship");
+      expect(registeredTools).toContain("delete_relationship");
+
+      // Graph exploration tools
+      expect(registeredTools).toContain("traverse_symbol_graph");
+      expect(registeredTools).toContain("find_symbol_path");
+
+      // History tools
+      expect(registeredTools).toContain("get_symbol_history");
+      expect(registeredTools).toContain("revert_symbol");
+
+      // Trash tools
+      expect(registeredTools).toContain("restore_symbol");
+      expect(registeredTools).toContain("purge_deleted");
+
+      // Maintenance tools
+      expect(registeredTools).toContain("validate_ontology");
     });
 
     it("should register tools with correct descriptions", () => {
@@ -136,7 +234,7 @@ describe("SymbolsService", () => {
       );
 
       expect(getSymbolsCall?.[1]).toBe("List symbols with optional limit");
-      expect(getSymbolCall?.[1]).toBe("Get a symbol by ID");
+      expect(getSymbolCall?.[1]).toBe("Get a symbol by ID or alias");
       expect(searchSymbolsCall?.[1]).toContain("Search symbols by text query");
     });
 
@@ -224,6 +322,48 @@ describe("SymbolsService", () => {
         });
       });
 
+      it("should pass a cursor through and report paging details", async () => {
+        vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
+          success: true,
+          data: [mockSymbol],
+          page: { total: 3, has_more: true, next_cursor: "next" },
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_symbols"
+        )?.[3];
+        const result = await toolHandler?.({ limit: 1, cursor: "current" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.total).toBe(3);
+        expect(responseData.has_more).toBe(true);
+        expect(responseData.next_cursor).toBe("next");
+        expect(mockDatabase.getSymbols).toHaveBeenCalledWith({
+          limit: 1,
+          offset: 0,
+          cursor: "current",
+        });
+      });
+
+      it("should pass the requested sort through", async () => {
+        vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
+          success: true,
+          data: [mockSymbol],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_symbols"
+        )?.[3];
+        await toolHandler?.({ limit: 10, sort: "updated_at", order: "desc" });
+
+        expect(mockDatabase.getSymbols).toHaveBeenCalledWith({
+          limit: 10,
+          offset: 0,
+          sort: "updated_at",
+          order: "desc",
+        });
+      });
+
       it("should handle database errors", async () => {
         vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
           success: false,
@@ -258,6 +398,24 @@ describe("SymbolsService", () => {
           offset: 0,
         });
       });
+
+      it("should pass excluded origins through to the database", async () => {
+        vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
+          success: true,
+          data: [],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_symbols"
+        )?.[3];
+        await toolHandler?.({ exclude_origins: ["ai"] });
+
+        expect(mockDatabase.getSymbols).toHaveBeenCalledWith({
+          limit: 50,
+          offset: 0,
+          excludeOrigins: ["ai"],
+        });
+      });
     });
 
     describe("get_symbol tool", () => {
@@ -298,6 +456,37 @@ describe("SymbolsService", () => {
         );
       });
 
+      it("should return the symbol in the requested locale", async () => {
+        vi.mocked(mockDatabase.getSymbol).mockResolvedValue({
+          success: true,
+          data: {
+            ...mockSymbol,
+            translations: {
+              es: {
+                name: "Símbolo de prueba",
+                interpretations: { test: "interpretación de prueba" },
+              },
+            },
+          },
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_symbol"
+        )?.[3];
+        const result = await toolHandler?.({
+          id: "test-symbol-1",
+          locale: "es-AR",
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.symbol).toEqual({
+          ...expectedSymbol,
+          name: "Símbolo de prueba",
+          interpretations: { test: "interpretación de prueba" },
+          locale: "es",
+        });
+      });
+
       it("should handle database errors", async () => {
         vi.mocked(mockDatabase.getSymbol).mockResolvedValue({
           success: false,
@@ -340,6 +529,85 @@ describe("SymbolsService", () => {
         });
       });
 
+      it("should keep each hit's matched fields and snippets when localizing", async () => {
+        const highlighted = {
+          ...mockSymbol,
+          matched_fields: ["description"],
+          highlights: [{ field: "description", snippet: "A **test** symbol" }],
+        };
+        vi.mocked(mockDatabase.searchSymbols).mockResolvedValue({
+          success: true,
+          data: [highlighted],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "search_symbols"
+        )?.[3];
+        const result = await toolHandler?.({ query: "test", locale: "es" });
+
+        const [symbol] = JSON.parse(result.content[0].text).symbols;
+        expect(symbol.matched_fields).toEqual(["description"]);
+        expect(symbol.highlights).toEqual(highlighted.highlights);
+      });
+
+      it("should include facet counts over all matches", async () => {
+        const facets = {
+          categories: [
+            { value: "transformation", count: 12 },
+            { value: "journey", count: 4 },
+          ],
+          tags: [{ value: "cycles", count: 3 }],
+          properties: { origin: [{ value: "ancient", count: 2 }] },
+          interpretation_contexts: [{ value: "dream", count: 16 }],
+        };
+        vi.mocked(mockDatabase.searchSymbols).mockResolvedValue({
+          success: true,
+          data: [mockSymbol],
+        });
+        vi.mocked(mockDatabase.getSearchFacets).mockResolvedValue({
+          success: true,
+          data: facets,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "search_symbols"
+        )?.[3];
+        const result = await toolHandler?.({ query: "test", limit: 1 });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.facets).toEqual(facets);
+        expect(mockDatabase.getSearchFacets).toHaveBeenCalledWith("test", {
+          limit: 1,
+          offset: 0,
+        });
+      });
+
+      it("should suggest close names when nothing matches", async () => {
+        vi.mocked(mockDatabase.searchSymbols)
+          .mockResolvedValueOnce({ success: true, data: [] })
+          .mockResolvedValueOnce({
+            success: true,
+            data: [{ ...mockSymbol, id: "ouroboros", name: "Ouroboros", score: 0.9 }],
+          });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "search_symbols"
+        )?.[3];
+        const result = await toolHandler?.({ query: "ourobouros" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.count).toBe(0);
+        expect(responseData.did_you_mean).toEqual([
+          { id: "ouroboros", name: "Ouroboros", score: 0.9 },
+        ]);
+        expect(responseData.message).toContain('Did you mean "Ouroboros"?');
+        expect(mockDatabase.searchSymbols).toHaveBeenLastCalledWith("ourobouros", {
+          mode: "fuzzy",
+          limit: 5,
+          offset: 0,
+        });
+      });
+
       it("should reject empty query", async () => {
         const toolHandler = mockServer.tool.mock.calls.find(
           (call) => call[0] === "search_symbols"
@@ -350,6 +618,33 @@ describe("SymbolsService", () => {
         expect(responseData.error).toBe("Search query cannot be empty");
       });
 
+      it("should search by interpretation and property filters without a query", async () => {
+        vi.mocked(mockDatabase.searchSymbols).mockResolvedValue({
+          success: true,
+          data: [mockSymbol],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "search_symbols"
+        )?.[3];
+        const result = await toolHandler?.({
+          query: "",
+          interpretation_context: "dream",
+          properties: { element: "water" },
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.count).toBe(1);
+        expect(responseData.message).toBe("Found 1 symbols matching the filters");
+        expect(responseData.did_you_mean).toBeUndefined();
+        expect(mockDatabase.searchSymbols).toHaveBeenCalledWith("", {
+          limit: 50,
+          offset: 0,
+          interpretationContext: "dream",
+          properties: { element: "water" },
+        });
+      });
+
       it("should handle search errors", async () => {
         vi.mocked(mockDatabase.searchSymbols).mockResolvedValue({
           success: false,
@@ -369,6 +664,112 @@ describe("SymbolsService", () => {
       });
     });
 
+    describe("query_symbols tool", () => {
+      it("should run the parsed query against the database", async () => {
+        vi.mocked(mockDatabase.querySymbols).mockResolvedValue({
+          success: true,
+          data: [mockSymbol],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "query_symbols"
+        )?.[3];
+        const result = await toolHandler?.({
+          query: "category:journey AND property.direction=inward",
+          limit: 10,
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.count).toBe(1);
+        expect(responseData.parsed.type).toBe("and");
+        expect(mockDatabase.querySymbols).toHaveBeenCalledWith(
+          {
+            type: "and",
+            clauses: [
+              { type: "field", field: "category", value: "journey" },
+              { type: "property", key: "direction", value: "inward" },
+            ],
+          },
+          { limit: 10, offset: 0 }
+        );
+      });
+
+      it("should report syntax errors without querying", async () => {
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "query_symbols"
+        )?.[3];
+        const result = await toolHandler?.({ query: "category:journey AND" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.error).toBe("Invalid query");
+        expect(responseData.details).toBe(
+          "Query ends where a condition was expected"
+        );
+        expect(mockDatabase.querySymbols).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("find_similar_symbols tool", () => {
+      it("should find symbols similar to free text", async () => {
+        vi.mocked(mockDatabase.findSimilarSymbols).mockResolvedValue({
+          success: true,
+          data: [{ ...mockSymbol, score: 0.42 }],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "find_similar_symbols"
+        )?.[3];
+        const result = await toolHandler?.({ query: " rebirth ", limit: 5 });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.count).toBe(1);
+        expect(responseData.symbols[0].score).toBe(0.42);
+        expect(responseData.message).toBe(
+          'Found 1 symbols similar to "rebirth"'
+        );
+        expect(mockDatabase.findSimilarSymbols).toHaveBeenCalledWith(
+          { text: "rebirth" },
+          { limit: 5, offset: 0 }
+        );
+      });
+
+      it("should find symbols similar to another symbol", async () => {
+        vi.mocked(mockDatabase.findSimilarSymbols).mockResolvedValue({
+          success: true,
+          data: [],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "find_similar_symbols"
+        )?.[3];
+        await toolHandler?.({ symbol_id: "ouroboros" });
+
+        expect(mockDatabase.findSimilarSymbols).toHaveBeenCalledWith(
+          { symbolId: "ouroboros" },
+          { limit: 10, offset: 0 }
+        );
+      });
+
+      it("should require exactly one of query and symbol_id", async () => {
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "find_similar_symbols"
+        )?.[3];
+        const neither = await toolHandler?.({});
+        const both = await toolHandler?.({
+          query: "rebirth",
+          symbol_id: "ouroboros",
+        });
+
+        expect(JSON.parse(neither.content[0].text).error).toBe(
+          "Provide either query or symbol_id"
+        );
+        expect(JSON.parse(both.content[0].text).error).toBe(
+          "Provide either query or symbol_id"
+        );
+        expect(mockDatabase.findSimilarSymbols).not.toHaveBeenCalled();
+      });
+    });
+
     describe("filter_by_category tool", () => {
       it("should filter symbols by category", async () => {
         vi.mocked(mockDatabase.filterByCategory).mockResolvedValue({
@@ -391,6 +792,25 @@ describe("SymbolsService", () => {
         expect(mockDatabase.filterByCategory).toHaveBeenCalledWith("test", {
           limit: 10,
           offset: 0,
+          includeDescendants: false,
+        });
+      });
+
+      it("should pass include_descendants through to the database", async () => {
+        vi.mocked(mockDatabase.filterByCategory).mockResolvedValue({
+          success: true,
+          data: [],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "filter_by_category"
+        )?.[3];
+        await toolHandler?.({ category: "esoteric", include_descendants: true });
+
+        expect(mockDatabase.filterByCategory).toHaveBeenCalledWith("esoteric", {
+          limit: 50,
+          offset: 0,
+          includeDescendants: true,
         });
       });
 
@@ -405,6 +825,55 @@ describe("SymbolsService", () => {
       });
     });
 
+    describe("filter_by_tags tool", () => {
+      it("should pass tags and match mode through to the database", async () => {
+        vi.mocked(mockDatabase.filterByTags).mockResolvedValue({
+          success: true,
+          data: [mockSymbol],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "filter_by_tags"
+        )?.[3];
+        const result = await toolHandler?.({ tags: ["flow", "time"], match: "all" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.count).toBe(1);
+        expect(responseData.message).toBe(
+          "Found 1 symbols tagged with all of: flow, time"
+        );
+        expect(mockDatabase.filterByTags).toHaveBeenCalledWith(["flow", "time"], {
+          limit: 50,
+          offset: 0,
+          match: "all",
+        });
+      });
+    });
+
+    describe("get_tags tool", () => {
+      it("should return tags with their counts", async () => {
+        vi.mocked(mockDatabase.getTags).mockResolvedValue({
+          success: true,
+          data: [
+            { tag: "cycles", count: 2 },
+            { tag: "flow", count: 1 },
+          ],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_tags"
+        )?.[3];
+        const result = await toolHandler?.({});
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.tags).toEqual([
+          { tag: "cycles", count: 2 },
+          { tag: "flow", count: 1 },
+        ]);
+        expect(responseData.count).toBe(2);
+      });
+    });
+
     describe("get_categories tool", () => {
       it("should return categories successfully", async () => {
         vi.mocked(mockDatabase.getCategories).mockResolvedValue({
@@ -465,6 +934,50 @@ describe("SymbolsService", () => {
       });
     });
 
+    describe("get_symbol_set tool", () => {
+      it("should expand members by default and flag missing ones", async () => {
+        vi.mocked(mockDatabase.getSymbolSet).mockResolvedValueOnce({
+          success: true,
+          data: {
+            ...mockSymbolSet,
+            members: [
+              { symbol_id: "test-symbol-1", weight: 1.0, symbol: mockSymbol, missing: false },
+              { symbol_id: "phoenix", weight: 0.5, symbol: null, missing: true },
+            ],
+          },
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_symbol_set"
+        )?.[3];
+        const result = await toolHandler?.({ id: "test-set-1" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.found).toBe(true);
+        expect(responseData.symbol_set.members[0].symbol).toEqual(expectedSymbol);
+        expect(responseData.message).toContain("1 member(s) no longer exist");
+        expect(mockDatabase.getSymbolSet).toHaveBeenCalledWith("test-set-1", {
+          expand: true,
+        });
+      });
+
+      it("should report a missing symbol set", async () => {
+        vi.mocked(mockDatabase.getSymbolSet).mockResolvedValueOnce({
+          success: true,
+          data: null,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_symbol_set"
+        )?.[3];
+        const result = await toolHandler?.({ id: "missing", expand: false });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.found).toBe(false);
+        expect(responseData.symbol_set).toBeNull();
+      });
+    });
+
     describe("search_symbol_sets tool", () => {
       it("should search symbol sets successfully", async () => {
         vi.mocked(mockDatabase.searchSymbolSets).mockResolvedValue({
@@ -537,23 +1050,108 @@ describe("SymbolsService", () => {
         expect(responseData.message).toContain('Successfully created symbol "New Test Symbol"');
       });
 
-      it("should handle create symbol failure", async () => {
+      it("should pass aliases through with an omitted language as null", async () => {
         vi.mocked(mockDatabase.createSymbol).mockResolvedValueOnce({
-          success: false,
-          error: new Error("Symbol already exists"),
+          success: true,
+          data: mockSymbol,
         });
 
         const toolHandler = mockServer.tool.mock.calls.find(
           (call) => call[0] === "create_symbol"
         )?.[3];
-        const result = await toolHandler?.({
-          id: "existing-symbol",
-          name: "Existing Symbol",
-          category: "test",
-          description: "A test symbol",
+        await toolHandler?.({
+          id: "ouroboros",
+          name: "Ouroboros",
+          category: "transformation",
+          description: "A serpent eating its tail",
+          aliases: [{ label: "Uroboros", language: "en" }, { label: "ouroboros" }],
         });
 
-        const responseData = JSON.parse(result.content[0].text);
+        expect(mockDatabase.createSymbol).toHaveBeenCalledWith(
+          expect.objectContaining({
+            aliases: [
+              { label: "Uroboros", language: "en" },
+              { label: "ouroboros", language: null },
+            ],
+          })
+        );
+      });
+
+      it("should record the symbol as AI-written through MCP unless told otherwise", async () => {
+        vi.mocked(mockDatabase.createSymbol).mockResolvedValue({
+          success: true,
+          data: mockSymbol,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "create_symbol"
+        )?.[3];
+        await toolHandler?.({
+          id: "ouroboros",
+          name: "Ouroboros",
+          category: "transformation",
+          description: "A serpent eating its tail",
+        });
+        await toolHandler?.({
+          id: "mandala",
+          name: "Mandala",
+          category: "psyche",
+          description: "A circle of wholeness",
+          origin: "human",
+        });
+
+        expect(mockDatabase.createSymbol).toHaveBeenNthCalledWith(
+          1,
+          expect.objectContaining({ origin: "ai", provenance: "mcp:create_symbol" })
+        );
+        expect(mockDatabase.createSymbol).toHaveBeenNthCalledWith(
+          2,
+          expect.objectContaining({ origin: "human" })
+        );
+      });
+
+      it("should reject properties that break the category property schema", async () => {
+        vi.mocked(mockDatabase.getPropertySchema).mockResolvedValue({
+          success: true,
+          data: transformationSchema,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "create_symbol"
+        )?.[3];
+        const result = await toolHandler?.({
+          id: "phoenix",
+          name: "Phoenix",
+          category: "transformation",
+          description: "A bird reborn from its ashes",
+          properties: { origin: "ancient_egypt", color: "red" },
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(false);
+        expect(responseData.error).toContain('"origin" must be one of ancient, medieval, modern');
+        expect(responseData.error).toContain('"color" is not defined for this category');
+        expect(mockDatabase.getPropertySchema).toHaveBeenCalledWith("transformation");
+        expect(mockDatabase.createSymbol).not.toHaveBeenCalled();
+      });
+
+      it("should handle create symbol failure", async () => {
+        vi.mocked(mockDatabase.createSymbol).mockResolvedValueOnce({
+          success: false,
+          error: new Error("Symbol already exists"),
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "create_symbol"
+        )?.[3];
+        const result = await toolHandler?.({
+          id: "existing-symbol",
+          name: "Existing Symbol",
+          category: "test",
+          description: "A test symbol",
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
         expect(responseData.success).toBe(false);
         expect(responseData.error).toBe("Symbol already exists");
       });
@@ -587,10 +1185,38 @@ describe("SymbolsService", () => {
           created_at: fixedDate.toISOString(),
           updated_at: fixedDate.toISOString(),
         });
-        expect(mockDatabase.updateSymbol).toHaveBeenCalledWith("test-symbol-1", {
-          name: "Updated Test Symbol",
-          description: "Updated description",
+        expect(mockDatabase.updateSymbol).toHaveBeenCalledWith(
+          "test-symbol-1",
+          {
+            name: "Updated Test Symbol",
+            description: "Updated description",
+          },
+          { actor: "mcp" }
+        );
+      });
+
+      it("should check changed properties against the stored symbol's category", async () => {
+        vi.mocked(mockDatabase.getSymbol).mockResolvedValueOnce({
+          success: true,
+          data: { ...mockSymbol, category: "transformation", properties: { origin: "ancient" } },
+        });
+        vi.mocked(mockDatabase.getPropertySchema).mockResolvedValue({
+          success: true,
+          data: transformationSchema,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "update_symbol"
+        )?.[3];
+        const result = await toolHandler?.({
+          id: "test-symbol-1",
+          properties: {},
         });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(false);
+        expect(responseData.error).toContain('"origin" is required');
+        expect(mockDatabase.updateSymbol).not.toHaveBeenCalled();
       });
 
       it("should handle update symbol failure", async () => {
@@ -632,7 +1258,7 @@ describe("SymbolsService", () => {
         expect(responseData.success).toBe(true);
         expect(responseData.deleted).toBe(true);
         expect(responseData.message).toBe('Successfully deleted symbol "test-symbol-1"');
-        expect(mockDatabase.deleteSymbol).toHaveBeenCalledWith("test-symbol-1", false);
+        expect(mockDatabase.deleteSymbol).toHaveBeenCalledWith("test-symbol-1", false, { actor: "mcp" });
       });
 
       it("should delete a symbol with cascade", async () => {
@@ -652,7 +1278,7 @@ describe("SymbolsService", () => {
         const responseData = JSON.parse(result.content[0].text);
         expect(responseData.success).toBe(true);
         expect(responseData.message).toContain("removed it from related symbols");
-        expect(mockDatabase.deleteSymbol).toHaveBeenCalledWith("test-symbol-1", true);
+        expect(mockDatabase.deleteSymbol).toHaveBeenCalledWith("test-symbol-1", true, { actor: "mcp" });
       });
     });
 
@@ -719,5 +1345,502 @@ describe("SymbolsService", () => {
         });
       });
     });
+
+    describe("delete_symbol_set tool", () => {
+      it("should delete a symbol set", async () => {
+        vi.mocked(mockDatabase.deleteSymbolSet).mockResolvedValueOnce({
+          success: true,
+          data: true,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "delete_symbol_set"
+        )?.[3];
+        const result = await toolHandler?.({ id: "test-set-1" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(true);
+        expect(mockDatabase.deleteSymbolSet).toHaveBeenCalledWith("test-set-1", {
+          actor: "mcp",
+        });
+      });
+    });
+
+    describe("add_symbol_to_set tool", () => {
+      it("should add a symbol with the given weight", async () => {
+        vi.mocked(mockDatabase.addSymbolToSet).mockResolvedValueOnce({
+          success: true,
+          data: mockSymbolSet,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "add_symbol_to_set"
+        )?.[3];
+        const result = await toolHandler?.({
+          set_id: "test-set-1",
+          symbol_id: "test-symbol-1",
+          weight: 0.4,
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(true);
+        expect(mockDatabase.addSymbolToSet).toHaveBeenCalledWith(
+          "test-set-1",
+          "test-symbol-1",
+          0.4,
+          { actor: "mcp" }
+        );
+      });
+
+      it("should report a symbol that is already a member", async () => {
+        vi.mocked(mockDatabase.addSymbolToSet).mockResolvedValueOnce({
+          success: false,
+          error: new Error('Symbol "test-symbol-1" is already in symbol set "test-set-1"'),
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "add_symbol_to_set"
+        )?.[3];
+        const result = await toolHandler?.({
+          set_id: "test-set-1",
+          symbol_id: "test-symbol-1",
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(false);
+        expect(responseData.error).toContain("already in symbol set");
+      });
+    });
+
+    describe("set_member_weight tool", () => {
+      it("should change a member's weight", async () => {
+        vi.mocked(mockDatabase.setMemberWeight).mockResolvedValueOnce({
+          success: true,
+          data: mockSymbolSet,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "set_member_weight"
+        )?.[3];
+        await toolHandler?.({
+          set_id: "test-set-1",
+          symbol_id: "test-symbol-1",
+          weight: 0.2,
+        });
+
+        expect(mockDatabase.setMemberWeight).toHaveBeenCalledWith(
+          "test-set-1",
+          "test-symbol-1",
+          0.2,
+          { actor: "mcp" }
+        );
+      });
+    });
+
+    describe("create_category tool", () => {
+      it("should create a category under its parent", async () => {
+        vi.mocked(mockDatabase.createCategory).mockResolvedValueOnce({
+          success: true,
+          data: {
+            id: "alchemical",
+            parent_id: "esoteric",
+            description: null,
+            display_order: 0,
+            created_at: new Date(),
+            updated_at: new Date(),
+          },
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "create_category"
+        )?.[3];
+        const result = await toolHandler?.({ id: "alchemical", parent_id: "esoteric" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(true);
+        expect(mockDatabase.createCategory).toHaveBeenCalledWith({
+          id: "alchemical",
+          parent_id: "esoteric",
+          description: null,
+          display_order: 0,
+        });
+      });
+    });
+
+    describe("update_category tool", () => {
+      it("should only pass the given fields", async () => {
+        vi.mocked(mockDatabase.updateCategory).mockResolvedValueOnce({
+          success: false,
+          error: new Error('Category "esoteric" cannot be placed under itself or one of its descendants'),
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "update_category"
+        )?.[3];
+        const result = await toolHandler?.({ id: "esoteric", parent_id: "transformation" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(false);
+        expect(responseData.error).toContain("cannot be placed under itself");
+        expect(mockDatabase.updateCategory).toHaveBeenCalledWith("esoteric", {
+          parent_id: "transformation",
+        });
+      });
+    });
+
+    describe("get_relationships tool", () => {
+      it("should pass filters through to the database", async () => {
+        vi.mocked(mockDatabase.getRelationships).mockResolvedValueOnce({
+          success: true,
+          data: [],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_relationships"
+        )?.[3];
+        const result = await toolHandler?.({
+          symbol_id: "test-symbol-1",
+          direction: "outgoing",
+          relation_type: "opposes",
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.count).toBe(0);
+        expect(mockDatabase.getRelationships).toHaveBeenCalledWith({
+          symbolId: "test-symbol-1",
+          direction: "outgoing",
+          relationType: "opposes",
+          limit: 50,
+          offset: 0,
+        });
+      });
+    });
+
+    describe("create_relationship tool", () => {
+      it("should create a relationship with defaults for optional fields", async () => {
+        vi.mocked(mockDatabase.createRelationship).mockResolvedValueOnce({
+          success: true,
+          data: {
+            id: "rel-1",
+            source_id: "test-symbol-1",
+            target_id: "test-symbol-2",
+            relation_type: "opposes",
+            weight: null,
+            note: null,
+            created_at: fixedDate,
+            updated_at: fixedDate,
+          },
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "create_relationship"
+        )?.[3];
+        const result = await toolHandler?.({
+          source_id: "test-symbol-1",
+          target_id: "test-symbol-2",
+          relation_type: "opposes",
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(true);
+        expect(responseData.relationship.id).toBe("rel-1");
+        expect(mockDatabase.createRelationship).toHaveBeenCalledWith({
+          source_id: "test-symbol-1",
+          target_id: "test-symbol-2",
+          relation_type: "opposes",
+          weight: null,
+          note: null,
+        });
+      });
+
+      it("should report database failures", async () => {
+        vi.mocked(mockDatabase.createRelationship).mockResolvedValueOnce({
+          success: false,
+          error: new Error('Symbol with ID "missing" not found'),
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "create_relationship"
+        )?.[3];
+        const result = await toolHandler?.({
+          source_id: "test-symbol-1",
+          target_id: "missing",
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(false);
+        expect(responseData.error).toContain("not found");
+      });
+    });
+
+    describe("delete_relationship tool", () => {
+      it("should delete a relationship successfully", async () => {
+        vi.mocked(mockDatabase.deleteRelationship).mockResolvedValueOnce({
+          success: true,
+          data: true,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "delete_relationship"
+        )?.[3];
+        const result = await toolHandler?.({ id: "rel-1" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(true);
+        expect(mockDatabase.deleteRelationship).toHaveBeenCalledWith("rel-1");
+      });
+    });
+
+    describe("traverse_symbol_graph tool", () => {
+      it("should return nodes and edges reachable from the start symbol", async () => {
+        vi.mocked(mockDatabase.getSymbol).mockResolvedValueOnce({
+          success: true,
+          data: mockSymbol,
+        });
+        vi.mocked(mockDatabase.getNeighborhood).mockResolvedValueOnce({
+          success: true,
+          data: {
+            relationships: [
+              {
+                id: "rel-1",
+                source_id: "test-symbol-1",
+                target_id: "test-symbol-2",
+                relation_type: "related",
+                weight: null,
+                note: null,
+                created_at: fixedDate,
+                updated_at: fixedDate,
+              },
+            ],
+            symbols: [mockSymbol],
+          },
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "traverse_symbol_graph"
+        )?.[3];
+        const result = await toolHandler?.({
+          start_id: "test-symbol-1",
+          max_depth: 1,
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.root_id).toBe("test-symbol-1");
+        expect(responseData.node_count).toBe(2);
+        expect(responseData.edge_count).toBe(1);
+        expect(responseData.nodes[1]).toMatchObject({
+          id: "test-symbol-2",
+          depth: 1,
+          missing: true,
+        });
+        expect(mockDatabase.getNeighborhood).toHaveBeenCalledWith(
+          ["test-symbol-1"],
+          { direction: "outgoing" }
+        );
+      });
+
+      it("should report an unknown start symbol", async () => {
+        vi.mocked(mockDatabase.getSymbol).mockResolvedValueOnce({
+          success: true,
+          data: null,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "traverse_symbol_graph"
+        )?.[3];
+        const result = await toolHandler?.({ start_id: "missing" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.error).toBe(
+          "Internal error while traversing symbol graph"
+        );
+        expect(responseData.details).toContain("not found");
+      });
+    });
+
+    describe("find_symbol_path tool", () => {
+      it("should report when two symbols are not connected", async () => {
+        vi.mocked(mockDatabase.getSymbol).mockImplementation((id) =>
+          Promise.resolve({ success: true, data: { ...mockSymbol, id } })
+        );
+        vi.mocked(mockDatabase.getNeighborhood).mockResolvedValue({
+          success: true,
+          data: { relationships: [], symbols: [] },
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "find_symbol_path"
+        )?.[3];
+        const result = await toolHandler?.({
+          from_id: "test-symbol-1",
+          to_id: "test-symbol-2",
+          max_hops: 2,
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.connected).toBe(false);
+        expect(responseData.paths).toEqual([]);
+        expect(responseData.message).toContain("within 2 hops");
+        expect(mockDatabase.getNeighborhood).toHaveBeenCalledWith(
+          ["test-symbol-1"],
+          { direction: "both" }
+        );
+      });
+    });
+
+    describe("validate_ontology tool", () => {
+      it("should report dangling related symbols", async () => {
+        vi.mocked(mockDatabase.getSymbols).mockResolvedValueOnce({
+          success: true,
+          data: [mockSymbol],
+        });
+        vi.mocked(mockDatabase.getSymbolSets).mockResolvedValueOnce({
+          success: true,
+          data: [],
+        });
+        vi.mocked(mockDatabase.getRelationships).mockResolvedValueOnce({
+          success: true,
+          data: [],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "validate_ontology"
+        )?.[3];
+        const result = await toolHandler?.({
+          checks: ["dangling_related_symbol"],
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.fix_applied).toBe(false);
+        expect(responseData.summary.errors).toBe(
+          mockSymbol.related_symbols.length
+        );
+        expect(responseData.message).toContain("error(s)");
+        expect(mockDatabase.updateSymbol).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("get_symbol_history tool", () => {
+      it("should list revisions of a symbol", async () => {
+        vi.mocked(mockDatabase.getRevisions).mockResolvedValueOnce({
+          success: true,
+          data: [
+            {
+              id: "revision-1",
+              entity_type: "symbol",
+              entity_id: "test-symbol-1",
+              version: 1,
+              action: "update",
+              snapshot: mockSymbol,
+              changed_fields: ["description"],
+              removed_relationships: [],
+              removed_memberships: [],
+              actor: "mcp",
+              summary: "Updated description",
+              created_at: new Date("2024-01-02T00:00:00Z"),
+            },
+          ],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "get_symbol_history"
+        )?.[3];
+        const result = await toolHandler?.({ id: "test-symbol-1" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.count).toBe(1);
+        expect(responseData.revisions[0].changed_fields).toEqual(["description"]);
+        expect(mockDatabase.getRevisions).toHaveBeenCalledWith({
+          entityType: "symbol",
+          entityId: "test-symbol-1",
+          limit: 20,
+          offset: 0,
+        });
+      });
+    });
+
+    describe("revert_symbol tool", () => {
+      it("should restore a revision on behalf of the given actor", async () => {
+        vi.mocked(mockDatabase.restoreRevision).mockResolvedValueOnce({
+          success: true,
+          data: mockSymbol,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "revert_symbol"
+        )?.[3];
+        const result = await toolHandler?.({
+          revision_id: "revision-1",
+          actor: "curator",
+          change_summary: "Undo bad edit",
+        });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(true);
+        expect(responseData.restored.id).toBe("test-symbol-1");
+        expect(mockDatabase.restoreRevision).toHaveBeenCalledWith("revision-1", {
+          actor: "curator",
+          summary: "Undo bad edit",
+        });
+      });
+
+      it("should report a missing revision", async () => {
+        vi.mocked(mockDatabase.restoreRevision).mockResolvedValueOnce({
+          success: false,
+          error: new Error('Revision with ID "missing" not found'),
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "revert_symbol"
+        )?.[3];
+        const result = await toolHandler?.({ revision_id: "missing" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(false);
+        expect(responseData.error).toContain("not found");
+      });
+    });
+
+    describe("restore_symbol tool", () => {
+      it("should restore a deleted symbol", async () => {
+        vi.mocked(mockDatabase.restoreSymbol).mockResolvedValueOnce({
+          success: true,
+          data: mockSymbol,
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "restore_symbol"
+        )?.[3];
+        const result = await toolHandler?.({ id: "test-symbol-1" });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(true);
+        expect(responseData.symbol.id).toBe("test-symbol-1");
+        expect(mockDatabase.restoreSymbol).toHaveBeenCalledWith("test-symbol-1", {
+          actor: "mcp",
+        });
+      });
+    });
+
+    describe("purge_deleted tool", () => {
+      it("should purge symbols deleted before the cutoff", async () => {
+        vi.mocked(mockDatabase.purgeDeleted).mockResolvedValueOnce({
+          success: true,
+          data: ["test-symbol-1"],
+        });
+
+        const toolHandler = mockServer.tool.mock.calls.find(
+          (call) => call[0] === "purge_deleted"
+        )?.[3];
+        const result = await toolHandler?.({ older_than_days: 30 });
+
+        const responseData = JSON.parse(result.content[0].text);
+        expect(responseData.success).toBe(true);
+        expect(responseData.purged).toEqual(["test-symbol-1"]);
+        expect(mockDatabase.purgeDeleted).toHaveBeenCalledWith({
+          deletedBefore: expect.any(Date),
+        });
+      });
+    });
   });
 });
@@ -2,6 +2,43 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
 import type { IDatabase } from "@/database/Database.js";
+import { localizeSymbol, localizeSymbolSet } from "@/database/locales.js";
+import { describeViolations } from "@/database/propertySchemas.js";
+import { hasJsonFilters } from "@/database/search.js";
+import { parseSymbolQuery } from "@/database/symbolQuery.js";
+import { GraphService } from "@/services/GraphService.js";
+import { IntegrityService } from "@/services/IntegrityService.js";
+import { PropertySchemaService } from "@/services/PropertySchemaService.js";
+import { SearchService } from "@/services/SearchService.js";
+import {
+  DAY_MS,
+  INTEGRITY_CHECKS,
+  PROPERTY_TYPES,
+  PROVENANCE_ORIGINS,
+  RELATION_TYPES,
+  SEARCH_MODES,
+  SET_SORT_FIELDS,
+  SORT_FIELDS,
+  SORT_ORDERS,
+  type ChangeContext,
+  type Citation,
+  type IntegrityCheck,
+  type PropertyDefinition,
+  type PropertyFilter,
+  type ProvenanceOrigin,
+  type RelationshipDirection,
+  type ExpandedSymbolSet,
+  type RelationType,
+  type SearchMode,
+  type SearchOptions,
+  type SortField,
+  type SortOrder,
+  type Symbol,
+  type SymbolAlias,
+  type SymbolSetTranslation,
+  type SymbolTranslation,
+  type TagMatch,
+} from "@/types/Symbol.js";
 
 /**
  * Zod schema definitions for MCP tool parameters
@@ -15,20 +52,147 @@ export const TOOL_SCHEMAS = {
       .default(50)
       .optional()
       .describe("Maximum number of symbols to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of symbols to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+    sort: z
+      .enum(SORT_FIELDS)
+      .optional()
+      .describe(
+        "Order of the results: name, created_at, updated_at, relevance (search score), relation_count (relationships from the symbol) or set_weight (total weight across symbol sets); defaults to name"
+      ),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("Sort direction; defaults to asc for name and desc for everything else"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+    exclude_origins: z
+      .array(z.enum(PROVENANCE_ORIGINS))
+      .optional()
+      .describe("Leave out symbols written by these origins, e.g. [\"ai\"]; symbols of unknown origin are kept"),
   },
 
   get_symbol: {
     id: z
       .string()
       .min(1)
-      .describe("Unique identifier of the symbol to retrieve"),
+      .describe("ID of the symbol to retrieve, or one of its aliases"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
   },
 
   search_symbols: {
     query: z
       .string()
+      .default("")
+      .describe(
+        "Search words; every word must match, as a word or the start of one. May be empty when filtering by interpretations or properties"
+      ),
+    mode: z
+      .enum(SEARCH_MODES)
+      .default("fulltext")
+      .optional()
+      .describe(
+        "fulltext matches words anywhere in the symbol; fuzzy tolerates misspelled names and aliases, e.g. \"ourobouros\""
+      ),
+    limit: z
+      .number()
+      .min(1)
+      .max(100)
+      .default(50)
+      .optional()
+      .describe("Maximum number of symbols to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of symbols to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+    sort: z
+      .enum(SORT_FIELDS)
+      .optional()
+      .describe(
+        "Order of the results: name, created_at, updated_at, relevance (search score), relation_count (relationships from the symbol) or set_weight (total weight across symbol sets); defaults to relevance"
+      ),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("Sort direction; defaults to asc for name and desc for everything else"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+    exclude_origins: z
+      .array(z.enum(PROVENANCE_ORIGINS))
+      .optional()
+      .describe("Leave out symbols written by these origins, e.g. [\"ai\"]; symbols of unknown origin are kept"),
+    interpretation_context: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Only symbols with an interpretation in this context, e.g. \"dream\"; also limits interpretation_text to it"
+      ),
+    interpretation_text: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Only symbols whose interpretations contain this text, ignoring case"
+      ),
+    properties: z
+      .record(z.union([z.string(), z.number(), z.boolean()]))
+      .optional()
+      .describe(
+        "Only symbols with these property values, e.g. {\"element\": \"water\"}; a list property matches when it contains the value"
+      ),
+    category: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Only symbols in this category"),
+  },
+
+  query_symbols: {
+    query: z
+      .string()
+      .min(1)
       .describe(
-        "Search text to match against symbol names, descriptions, and categories"
+        "Query such as category:journey AND property.direction=inward AND interpretation.dream~\"decision\". Conditions: category:<value>, tag:<value>, origin:<value>, property.<key>=<value>, interpretation.<context> (has the context), interpretation.<context>~\"<text>\" or interpretation~\"<text>\" (interpretation text), and bare or quoted words for full-text search. Combine with AND, OR, NOT and parentheses."
       ),
     limit: z
       .number()
@@ -37,10 +201,109 @@ export const TOOL_SCHEMAS = {
       .default(50)
       .optional()
       .describe("Maximum number of symbols to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of symbols to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+    sort: z
+      .enum(SORT_FIELDS)
+      .optional()
+      .describe(
+        "Order of the results: name, created_at, updated_at, relevance (search score), relation_count (relationships from the symbol) or set_weight (total weight across symbol sets); defaults to name"
+      ),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("Sort direction; defaults to asc for name and desc for everything else"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+    exclude_origins: z
+      .array(z.enum(PROVENANCE_ORIGINS))
+      .optional()
+      .describe("Leave out symbols written by these origins, e.g. [\"ai\"]; symbols of unknown origin are kept"),
+  },
+
+  find_similar_symbols: {
+    query: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "Free text to find symbols close in meaning to, e.g. \"rebirth\"; give this or symbol_id"
+      ),
+    symbol_id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "ID or alias of a symbol to find symbols like; the symbol itself is left out"
+      ),
+    limit: z
+      .number()
+      .min(1)
+      .max(100)
+      .default(10)
+      .optional()
+      .describe("Maximum number of symbols to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of symbols to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+    sort: z
+      .enum(SORT_FIELDS)
+      .optional()
+      .describe(
+        "Order of the results: name, created_at, updated_at, relevance (search score), relation_count (relationships from the symbol) or set_weight (total weight across symbol sets); defaults to relevance"
+      ),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("Sort direction; defaults to asc for name and desc for everything else"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+    exclude_origins: z
+      .array(z.enum(PROVENANCE_ORIGINS))
+      .optional()
+      .describe("Leave out symbols written by these origins, e.g. [\"ai\"]; symbols of unknown origin are kept"),
   },
 
   filter_by_category: {
     category: z.string().describe("Category name to filter symbols by"),
+    include_descendants: z
+      .boolean()
+      .default(false)
+      .optional()
+      .describe("Also return symbols in the category's descendant categories"),
     limit: z
       .number()
       .min(1)
@@ -48,10 +311,101 @@ export const TOOL_SCHEMAS = {
       .default(50)
       .optional()
       .describe("Maximum number of symbols to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of symbols to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+    sort: z
+      .enum(SORT_FIELDS)
+      .optional()
+      .describe(
+        "Order of the results: name, created_at, updated_at, relevance (search score), relation_count (relationships from the symbol) or set_weight (total weight across symbol sets); defaults to name"
+      ),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("Sort direction; defaults to asc for name and desc for everything else"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+    exclude_origins: z
+      .array(z.enum(PROVENANCE_ORIGINS))
+      .optional()
+      .describe("Leave out symbols written by these origins, e.g. [\"ai\"]; symbols of unknown origin are kept"),
   },
 
   get_categories: {},
 
+  filter_by_tags: {
+    tags: z
+      .array(z.string().min(1))
+      .min(1)
+      .describe("Tags to filter symbols by, e.g. [\"flow\", \"time\"]"),
+    match: z
+      .enum(["any", "all"])
+      .default("any")
+      .optional()
+      .describe("Return symbols with any of the tags or only those with all of them"),
+    limit: z
+      .number()
+      .min(1)
+      .max(100)
+      .default(50)
+      .optional()
+      .describe("Maximum number of symbols to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of symbols to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+    sort: z
+      .enum(SORT_FIELDS)
+      .optional()
+      .describe(
+        "Order of the results: name, created_at, updated_at, relevance (search score), relation_count (relationships from the symbol) or set_weight (total weight across symbol sets); defaults to name"
+      ),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("Sort direction; defaults to asc for name and desc for everything else"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+    exclude_origins: z
+      .array(z.enum(PROVENANCE_ORIGINS))
+      .optional()
+      .describe("Leave out symbols written by these origins, e.g. [\"ai\"]; symbols of unknown origin are kept"),
+  },
+
+  get_tags: {},
+
   get_symbol_sets: {
     limit: z
       .number()
@@ -60,6 +414,57 @@ export const TOOL_SCHEMAS = {
       .default(50)
       .optional()
       .describe("Maximum number of symbol sets to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of symbol sets to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+    sort: z
+      .enum(SET_SORT_FIELDS)
+      .optional()
+      .describe("Order of the symbol sets: name, created_at or updated_at; defaults to name"),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("Sort direction; defaults to asc for name and desc for everything else"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for set and member names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+  },
+
+  get_symbol_set: {
+    id: z
+      .string()
+      .min(1)
+      .describe("Unique identifier of the symbol set to retrieve"),
+    expand: z
+      .boolean()
+      .default(true)
+      .optional()
+      .describe(
+        "Resolve members to full symbol records sorted by weight, flagging members that no longer exist"
+      ),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for set and member names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
   },
 
   search_symbol_sets: {
@@ -75,6 +480,35 @@ export const TOOL_SCHEMAS = {
       .default(50)
       .optional()
       .describe("Maximum number of symbol sets to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of symbol sets to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+    sort: z
+      .enum(SET_SORT_FIELDS)
+      .optional()
+      .describe("Order of the symbol sets: name, created_at or updated_at; defaults to name"),
+    order: z
+      .enum(SORT_ORDERS)
+      .optional()
+      .describe("Sort direction; defaults to asc for name and desc for everything else"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for set and member names, descriptions and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
   },
 
   // Symbol creation and editing tools
@@ -111,7 +545,67 @@ export const TOOL_SCHEMAS = {
     properties: z
       .record(z.unknown())
       .default({})
-      .describe("Additional properties and metadata"),
+      .describe("Additional properties and metadata; checked against the category's property schema when it has one"),
+    aliases: z
+      .array(
+        z.object({
+          label: z.string().min(1).max(500).describe("Alternate name or translation"),
+          language: z
+            .string()
+            .max(35)
+            .optional()
+            .describe("BCP 47 language tag of the label, e.g. en or el"),
+        })
+      )
+      .default([])
+      .describe("Alternate names and multilingual labels the symbol can be found by"),
+    tags: z
+      .array(z.string().min(1).max(100))
+      .default([])
+      .describe("Themes the symbol touches beyond its category, e.g. flow, time"),
+    translations: z
+      .record(
+        z.object({
+          name: z.string().min(1).max(255).optional(),
+          description: z.string().min(1).max(2000).optional(),
+          interpretations: z.record(z.string()).optional(),
+        })
+      )
+      .default({})
+      .describe(
+        "Name, description and interpretations by locale, e.g. { es: { name: \"Río\" } }; omitted fields fall back to the original text"
+      ),
+    citations: z
+      .array(
+        z.object({
+          source_title: z.string().min(1).max(500).describe("Title of the book, article, site or tradition"),
+          author: z.string().max(255).nullable().default(null),
+          url: z.string().url().nullable().default(null),
+          isbn: z.string().max(20).nullable().default(null),
+          page: z.string().max(50).nullable().default(null),
+          confidence: z
+            .number()
+            .min(0)
+            .max(1)
+            .nullable()
+            .default(null)
+            .describe("How firmly the source supports the text, from 0 to 1"),
+          interpretation: z
+            .string()
+            .nullable()
+            .default(null)
+            .describe("Interpretation context the citation backs; omit to cite the description"),
+        })
+      )
+      .default([])
+      .describe("Sources backing the description and individual interpretations"),
+    origin: z
+      .enum(PROVENANCE_ORIGINS)
+      .default("ai")
+      .optional()
+      .describe(
+        "Who wrote the content: ai (default) when the agent produced it, human when the user supplied it, import when copied from a dataset"
+      ),
   },
 
   update_symbol: {
@@ -148,7 +642,68 @@ export const TOOL_SCHEMAS = {
     properties: z
       .record(z.unknown())
       .optional()
-      .describe("Additional properties and metadata"),
+      .describe("Additional properties and metadata, replacing the current ones; checked against the category's property schema when it has one"),
+    aliases: z
+      .array(
+        z.object({
+          label: z.string().min(1).max(500).describe("Alternate name or translation"),
+          language: z
+            .string()
+            .max(35)
+            .optional()
+            .describe("BCP 47 language tag of the label, e.g. en or el"),
+        })
+      )
+      .optional()
+      .describe("Replaces the symbol's alternate names and multilingual labels"),
+    tags: z
+      .array(z.string().min(1).max(100))
+      .optional()
+      .describe("Replaces the symbol's tags"),
+    translations: z
+      .record(
+        z.object({
+          name: z.string().min(1).max(255).optional(),
+          description: z.string().min(1).max(2000).optional(),
+          interpretations: z.record(z.string()).optional(),
+        })
+      )
+      .optional()
+      .describe("Replaces the symbol's translations, keyed by locale"),
+    citations: z
+      .array(
+        z.object({
+          source_title: z.string().min(1).max(500).describe("Title of the book, article, site or tradition"),
+          author: z.string().max(255).nullable().default(null),
+          url: z.string().url().nullable().default(null),
+          isbn: z.string().max(20).nullable().default(null),
+          page: z.string().max(50).nullable().default(null),
+          confidence: z
+            .number()
+            .min(0)
+            .max(1)
+            .nullable()
+            .default(null)
+            .describe("How firmly the source supports the text, from 0 to 1"),
+          interpretation: z
+            .string()
+            .nullable()
+            .default(null)
+            .describe("Interpretation context the citation backs; omit to cite the description"),
+        })
+      )
+      .optional()
+      .describe("Replaces the symbol's citations"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
   },
 
   delete_symbol: {
@@ -159,7 +714,17 @@ export const TOOL_SCHEMAS = {
     cascade: z
       .boolean()
       .default(false)
-      .describe("Whether to remove this symbol from related_symbols arrays of other symbols"),
+      .describe("Whether to remove this symbol from related_symbols arrays of other symbols and from every symbol set"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
   },
 
   create_symbol_set: {
@@ -188,6 +753,15 @@ export const TOOL_SCHEMAS = {
       .record(z.object({ weight: z.number().min(0).max(1).default(1.0) }))
       .default({})
       .describe("Map of symbol IDs to their weights in this set"),
+    translations: z
+      .record(
+        z.object({
+          name: z.string().min(1).max(255).optional(),
+          description: z.string().min(1).max(2000).optional(),
+        })
+      )
+      .default({})
+      .describe("Name and description by locale, e.g. { de: { name: \"Traumreise\" } }"),
   },
 
   update_symbol_set: {
@@ -217,75 +791,2365 @@ export const TOOL_SCHEMAS = {
       .record(z.object({ weight: z.number().min(0).max(1).default(1.0) }))
       .optional()
       .describe("Map of symbol IDs to their weights in this set"),
+    translations: z
+      .record(
+        z.object({
+          name: z.string().min(1).max(255).optional(),
+          description: z.string().min(1).max(2000).optional(),
+        })
+      )
+      .optional()
+      .describe("Replaces the symbol set's translations, keyed by locale"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
   },
-} as const;
 
-/**
- * Service class that registers all MCP tools for the symbols ontology
- */
-export class SymbolsService {
-  constructor(
-    private readonly server: McpServer,
-    private readonly database: IDatabase
-  ) {}
+  delete_symbol_set: {
+    id: z
+      .string()
+      .min(1)
+      .describe("Unique identifier of the symbol set to delete"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
+  },
 
-  /**
+  add_symbol_to_set: {
+    set_id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol set"),
+    symbol_id: z
+      .string()
+      .min(1)
+      .describe("ID of the member symbol"),
+    weight: z
+      .number()
+      .min(0)
+      .max(1)
+      .default(1.0)
+      .optional()
+      .describe("Weight of the symbol in this set between 0 and 1"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
+  },
+
+  remove_symbol_from_set: {
+    set_id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol set"),
+    symbol_id: z
+      .string()
+      .min(1)
+      .describe("ID of the member symbol"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
+  },
+
+  set_member_weight: {
+    set_id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol set"),
+    symbol_id: z
+      .string()
+      .min(1)
+      .describe("ID of the member symbol"),
+    weight: z
+      .number()
+      .min(0)
+      .max(1)
+      .describe("New weight of the symbol in this set between 0 and 1"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
+  },
+
+  // Category taxonomy tools
+  create_category: {
+    id: z
+      .string()
+      .min(1)
+      .max(100)
+      .describe("Category name, as used in symbol categories"),
+    parent_id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Parent category (omit for a top-level category)"),
+    description: z
+      .string()
+      .max(2000)
+      .optional()
+      .describe("What the category covers"),
+    display_order: z
+      .number()
+      .int()
+      .default(0)
+      .optional()
+      .describe("Position among sibling categories, lowest first"),
+  },
+
+  update_category: {
+    id: z
+      .string()
+      .min(1)
+      .describe("Name of the category to update"),
+    parent_id: z
+      .string()
+      .min(1)
+      .nullable()
+      .optional()
+      .describe("New parent category, or null to make it top-level"),
+    description: z
+      .string()
+      .max(2000)
+      .nullable()
+      .optional()
+      .describe("New description, or null to clear it"),
+    display_order: z
+      .number()
+      .int()
+      .optional()
+      .describe("New position among sibling categories"),
+  },
+
+  delete_category: {
+    id: z
+      .string()
+      .min(1)
+      .describe("Name of the category to remove from the taxonomy"),
+  },
+
+  // Property schema tools
+  get_property_schemas: {
+    category: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Only return the schema for this category"),
+  },
+
+  set_property_schema: {
+    category: z
+      .string()
+      .min(1)
+      .max(100)
+      .describe("Category the schema applies to, as used in symbol categories"),
+    properties: z
+      .record(
+        z.object({
+          type: z
+            .enum(PROPERTY_TYPES)
+            .describe("Value type the property must have"),
+          enum: z
+            .array(z.string().min(1))
+            .min(1)
+            .optional()
+            .describe("Allowed values for string and string_array properties"),
+          required: z
+            .boolean()
+            .optional()
+            .describe("Whether every symbol in the category must set the property"),
+          description: z
+            .string()
+            .max(500)
+            .optional()
+            .describe("What the property records"),
+        })
+      )
+      .describe("Property definitions keyed by property name, e.g. {\"origin\": {\"type\": \"string\", \"enum\": [\"ancient\", \"medieval\"]}}"),
+    allow_additional: z
+      .boolean()
+      .default(false)
+      .optional()
+      .describe("Accept property keys that have no definition"),
+  },
+
+  delete_property_schema: {
+    category: z
+      .string()
+      .min(1)
+      .describe("Category whose property schema to remove"),
+  },
+
+  // Relationship tools
+  get_relationships: {
+    symbol_id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Only return relationships touching this symbol ID"),
+    direction: z
+      .enum(["outgoing", "incoming", "both"])
+      .default("both")
+      .optional()
+      .describe("Which side of the relationship symbol_id must be on"),
+    relation_type: z
+      .enum(RELATION_TYPES)
+      .optional()
+      .describe("Only return relationships of this type"),
+    limit: z
+      .number()
+      .min(1)
+      .max(100)
+      .default(50)
+      .optional()
+      .describe("Maximum number of relationships to return"),
+    offset: z
+      .number()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of relationships to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+  },
+
+  create_relationship: {
+    source_id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol the relationship starts from"),
+    target_id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol the relationship points to"),
+    relation_type: z
+      .enum(RELATION_TYPES)
+      .default("related")
+      .describe("How the source symbol relates to the target symbol"),
+    weight: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe("Optional strength of the relationship between 0 and 1"),
+    note: z
+      .string()
+      .max(2000)
+      .optional()
+      .describe("Optional note explaining the relationship"),
+  },
+
+  update_relationship: {
+    id: z
+      .string()
+      .min(1)
+      .describe("Unique identifier of the relationship to update"),
+    weight: z
+      .number()
+      .min(0)
+      .max(1)
+      .nullable()
+      .optional()
+      .describe("Strength of the relationship between 0 and 1, or null to clear"),
+    note: z
+      .string()
+      .max(2000)
+      .nullable()
+      .optional()
+      .describe("Note explaining the relationship, or null to clear"),
+  },
+
+  delete_relationship: {
+    id: z
+      .string()
+      .min(1)
+      .describe("Unique identifier of the relationship to delete"),
+  },
+
+  // Graph exploration tools
+  traverse_symbol_graph: {
+    start_id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol to start exploring from"),
+    max_depth: z
+      .number()
+      .int()
+      .min(1)
+      .max(5)
+      .default(2)
+      .optional()
+      .describe("Maximum number of hops from the start symbol"),
+    direction: z
+      .enum(["outgoing", "incoming", "both"])
+      .default("outgoing")
+      .optional()
+      .describe("Follow outgoing links, incoming links, or both"),
+    relation_types: z
+      .array(z.enum(RELATION_TYPES))
+      .optional()
+      .describe("Only follow relationships of these types"),
+    categories: z
+      .array(z.string())
+      .optional()
+      .describe("Only include symbols in these categories"),
+    max_nodes: z
+      .number()
+      .int()
+      .min(1)
+      .max(200)
+      .default(100)
+      .optional()
+      .describe("Maximum number of nodes to return"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for symbol names and descriptions, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+  },
+
+  find_symbol_path: {
+    from_id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol to start from"),
+    to_id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol to reach"),
+    max_hops: z
+      .number()
+      .int()
+      .min(1)
+      .max(6)
+      .default(4)
+      .optional()
+      .describe("Maximum number of hops a path may take"),
+    direction: z
+      .enum(["outgoing", "incoming", "both"])
+      .default("both")
+      .optional()
+      .describe("Walk links forwards only, backwards only, or both ways"),
+    relation_types: z
+      .array(z.enum(RELATION_TYPES))
+      .optional()
+      .describe("Only walk relationships of these types"),
+    max_paths: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .default(3)
+      .optional()
+      .describe("Maximum number of equally short paths to return"),
+    locale: z
+      .string()
+      .min(2)
+      .max(35)
+      .optional()
+      .describe(
+        "Locale for symbol names and interpretations, e.g. es or es-MX; missing text falls back to the base language, then the original"
+      ),
+  },
+
+  get_symbol_history: {
+    id: z
+      .string()
+      .min(1)
+      .describe("ID of the symbol (or symbol set) whose history to list"),
+    entity_type: z
+      .enum(["symbol", "symbol_set"])
+      .default("symbol")
+      .optional()
+      .describe("Whether the ID refers to a symbol or a symbol set"),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(20)
+      .optional()
+      .describe("Maximum number of revisions to return"),
+    offset: z
+      .number()
+      .int()
+      .min(0)
+      .default(0)
+      .optional()
+      .describe("Number of revisions to skip"),
+    cursor: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        "next_cursor from the previous response, to read the page after it; takes precedence over offset"
+      ),
+  },
+
+  revert_symbol: {
+    revision_id: z
+      .string()
+      .min(1)
+      .describe("ID of the revision to restore, as listed by get_symbol_history"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
+  },
+
+  restore_symbol: {
+    id: z
+      .string()
+      .min(1)
+      .describe("ID of the deleted symbol to bring back from the trash"),
+    actor: z
+      .string()
+      .max(255)
+      .optional()
+      .describe("Who is making the change, recorded in revision history (default: mcp)"),
+    change_summary: z
+      .string()
+      .max(500)
+      .optional()
+      .describe("Short summary of the change, recorded in revision history"),
+  },
+
+  purge_deleted: {
+    id: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Only purge this symbol (default: everything in the trash)"),
+    older_than_days: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Only purge symbols deleted more than this many days ago"),
+  },
+
+  validate_ontology: {
+    fix: z
+      .boolean()
+      .default(false)
+      .optional()
+      .describe(
+        "Repair fixable issues (dangling links, missing set members, one-way links) instead of only reporting them"
+      ),
+    checks: z
+      .array(z.enum(INTEGRITY_CHECKS))
+      .optional()
+      .describe("Only run these checks (default: all)"),
+  },
+} as const;
+
+/**
+ * Aliases from tool arguments, with an omitted language stored as null
+ */
+function toAliases(value: unknown): SymbolAlias[] {
+  return ((value as Array<{ label: string; language?: string }> | undefined) ?? []).map(
+    (alias) => ({ label: alias.label, language: alias.language ?? null })
+  );
+}
+
+/**
+ * Offset or cursor of the page a list tool asks for
+ */
+function pageArgs(args: { offset?: unknown; cursor?: unknown }): {
+  offset: number;
+  cursor?: string;
+} {
+  return {
+    offset: typeof args.offset === "number" ? args.offset : 0,
+    ...(typeof args.cursor === "string" && { cursor: args.cursor }),
+  };
+}
+
+/**
+ * Sort field and direction a list tool asks for
+ */
+function sortArgs(args: { sort?: unknown; order?: unknown }): {
+  sort?: SortField;
+  order?: SortOrder;
+} {
+  return {
+    ...(typeof args.sort === "string" && { sort: args.sort as SortField }),
+    ...(typeof args.order === "string" && { order: args.order as SortOrder }),
+  };
+}
+
+/**
+ * Symbols in the requested locale, or as stored when no locale is given
+ */
+function localizeSymbols(symbols: Symbol[], locale: unknown): Symbol[] {
+  return typeof locale === "string"
+    ? symbols.map((symbol) => localizeSymbol(symbol, locale))
+    : symbols;
+}
+
+/**
+ * Symbol sets in the requested locale, or as stored when no locale is given
+ */
+function localizeSymbolSets<T extends ExpandedSymbolSet>(
+  symbolSets: T[],
+  locale: unknown
+): T[] {
+  return typeof locale === "string"
+    ? symbolSets.map((symbolSet) => localizeSymbolSet(symbolSet, locale))
+    : symbolSets;
+}
+
+/**
+ * Service class that registers all MCP tools for the symbols ontology
+ */
+export class SymbolsService {
+  private readonly graphService: GraphService;
+  private readonly integrityService: IntegrityService;
+  private readonly propertySchemaService: PropertySchemaService;
+  private readonly searchService: SearchService;
+
+  constructor(
+    private readonly server: McpServer,
+    private readonly database: IDatabase
+  ) {
+    this.graphService = new GraphService(database);
+    this.integrityService = new IntegrityService(database);
+    this.propertySchemaService = new PropertySchemaService(database);
+    this.searchService = new SearchService(database);
+  }
+
+  /**
    * Register all MCP tools with the server
    */
-  registerTools(): void {
-    // Read-only tools
-    this.registerGetSymbols();
-    this.registerGetSymbol();
-    this.registerSearchSymbols();
-    this.registerFilterByCategory();
-    this.registerGetCategories();
-    this.registerGetSymbolSets();
-    this.registerSearchSymbolSets();
-    
-    // CRUD tools
-    this.registerCreateSymbol();
-    this.registerUpdateSymbol();
-    this.registerDeleteSymbol();
-    this.registerCreateSymbolSet();
-    this.registerUpdateSymbolSet();
+  registerTools(): void {
+    // Read-only tools
+    this.registerGetSymbols();
+    this.registerGetSymbol();
+    this.registerSearchSymbols();
+    this.registerQuerySymbols();
+    this.registerFindSimilarSymbols();
+    this.registerFilterByCategory();
+    this.registerGetCategories();
+    this.registerFilterByTags();
+    this.registerGetTags();
+    this.registerGetSymbolSets();
+    this.registerGetSymbolSet();
+    this.registerSearchSymbolSets();
+    
+    // CRUD tools
+    this.registerCreateSymbol();
+    this.registerUpdateSymbol();
+    this.registerDeleteSymbol();
+    this.registerCreateSymbolSet();
+    this.registerUpdateSymbolSet();
+    this.registerDeleteSymbolSet();
+    this.registerAddSymbolToSet();
+    this.registerRemoveSymbolFromSet();
+    this.registerSetMemberWeight();
+
+    // Category taxonomy tools
+    this.registerCreateCategory();
+    this.registerUpdateCategory();
+    this.registerDeleteCategory();
+
+    // Property schema tools
+    this.registerGetPropertySchemas();
+    this.registerSetPropertySchema();
+    this.registerDeletePropertySchema();
+
+    // Relationship tools
+    this.registerGetRelationships();
+    this.registerCreateRelationship();
+    this.registerUpdateRelationship();
+    this.registerDeleteRelationship();
+
+    // Graph exploration tools
+    this.registerTraverseSymbolGraph();
+    this.registerFindSymbolPath();
+
+    // History tools
+    this.registerGetSymbolHistory();
+    this.registerRevertSymbol();
+
+    // Trash tools
+    this.registerRestoreSymbol();
+    this.registerPurgeDeleted();
+
+    // Maintenance tools
+    this.registerValidateOntology();
+  }
+
+  /**
+   * Who made a change through MCP, for the revision history
+   */
+  private changeContext(args: Record<string, unknown>): ChangeContext {
+    return {
+      actor: typeof args.actor === "string" && args.actor.trim() ? args.actor : "mcp",
+      ...(typeof args.change_summary === "string" && {
+        summary: args.change_summary,
+      }),
+    };
+  }
+
+  /**
+   * Get a symbol by ID
+   */
+  private registerGetSymbol(): void {
+    this.server.tool(
+      "get_symbol",
+      "Get a symbol by ID or alias",
+      TOOL_SCHEMAS.get_symbol,
+      async (args) => {
+        try {
+          const { id } = args as { id: string };
+
+          if (!id.trim()) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      error: "Symbol ID cannot be empty",
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const result = await this.database.getSymbol(id);
+
+          if (!result.success) {
+            throw new Error(result.error?.message ?? "Failed to get symbol");
+          }
+
+          const [symbol = null] = localizeSymbols(
+            result.data ? [result.data] : [],
+            args.locale
+          );
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    found: symbol !== null,
+                    symbol,
+                    message:
+                      symbol !== null
+                        ? `Found symbol "${id}"`
+                        : `No symbol found with ID "${id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while retrieving symbol",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Get symbols with optional limit
+   */
+  private registerGetSymbols(): void {
+    this.server.tool(
+      "get_symbols",
+      "List symbols with optional limit",
+      TOOL_SCHEMAS.get_symbols,
+      async (args) => {
+        try {
+          const limit = typeof args.limit === "number" ? args.limit : 50;
+
+          const result = await this.database.getSymbols({
+            limit,
+            ...pageArgs(args),
+            ...sortArgs(args),
+            ...(args.exclude_origins && {
+              excludeOrigins: args.exclude_origins as ProvenanceOrigin[],
+            }),
+          });
+
+          if (!result.success) {
+            throw new Error(result.error?.message ?? "Failed to get symbols");
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    symbols: localizeSymbols(result.data ?? [], args.locale),
+                    count: result.data?.length ?? 0,
+                    ...result.page,
+                    message: `Retrieved ${result.data?.length ?? 0} symbols`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while retrieving symbols",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Search symbols by text query
+   */
+  private registerSearchSymbols(): void {
+    this.server.tool(
+      "search_symbols",
+      "Search symbols by text query: full-text search over names, aliases, descriptions, categories and interpretations, most relevant first, with each result's relevance score, matched_fields and highlights (short snippets of the description or interpretations with the matched words in **). Use mode \"fuzzy\" for misspelled names; a full-text search that finds nothing returns did_you_mean suggestions. Narrow results to a category, interpretation context, interpretation text or property values; with those filters the query may be empty. The facets field counts all matches by category, tag, property value and interpretation context, for narrowing further.",
+      TOOL_SCHEMAS.search_symbols,
+      async (args) => {
+        try {
+          const query = typeof args.query === "string" ? args.query : "";
+          const filters: SearchOptions = {
+            ...(args.category && { category: args.category as string }),
+            ...(args.interpretation_context && {
+              interpretationContext: args.interpretation_context as string,
+            }),
+            ...(args.interpretation_text && {
+              interpretationText: args.interpretation_text as string,
+            }),
+            ...(args.properties && {
+              properties: args.properties as PropertyFilter,
+            }),
+          };
+
+          if (!query.trim() && !hasJsonFilters(filters)) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      error: "Search query cannot be empty",
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const searchLimit = typeof args.limit === "number" ? args.limit : 50;
+
+          const result = await this.searchService.searchSymbols(query, {
+            limit: searchLimit,
+            ...pageArgs(args),
+            ...sortArgs(args),
+            ...(args.mode && { mode: args.mode as SearchMode }),
+            ...(args.exclude_origins && {
+              excludeOrigins: args.exclude_origins as ProvenanceOrigin[],
+            }),
+            ...filters,
+          });
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to search symbols"
+            );
+          }
+
+          const symbols = result.data?.symbols ?? [];
+          const suggestions = result.data?.did_you_mean ?? [];
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    symbols: localizeSymbols(symbols, args.locale),
+                    count: symbols.length,
+                    ...result.page,
+                    query,
+                    ...(suggestions.length > 0 && { did_you_mean: suggestions }),
+                    facets: result.data?.facets,
+                    message:
+                      suggestions.length > 0
+                        ? `Found 0 symbols matching "${query}". Did you mean ${suggestions
+                            .map((suggestion) => `"${suggestion.name}"`)
+                            .join(", ")}?`
+                        : `Found ${symbols.length} symbols matching ${
+                            query.trim() ? `"${query}"` : "the filters"
+                          }`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while searching symbols",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Filter symbols by category
+   */
+  private registerFilterByCategory(): void {
+    this.server.tool(
+      "filter_by_category",
+      "Filter symbols by category name, optionally including its subcategories",
+      TOOL_SCHEMAS.filter_by_category,
+      async (args) => {
+        try {
+          const { category, include_descendants } = args as {
+            category: string;
+            include_descendants?: boolean;
+            limit?: number;
+          };
+
+          if (!category.trim()) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      error: "Category name cannot be empty",
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const filterLimit = typeof args.limit === "number" ? args.limit : 50;
+
+          const result = await this.database.filterByCategory(category, {
+            limit: filterLimit,
+            ...pageArgs(args),
+            ...sortArgs(args),
+            includeDescendants: include_descendants ?? false,
+            ...(args.exclude_origins && {
+              excludeOrigins: args.exclude_origins as ProvenanceOrigin[],
+            }),
+          });
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to filter symbols by category"
+            );
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    symbols: localizeSymbols(result.data ?? [], args.locale),
+                    count: result.data?.length ?? 0,
+                    ...result.page,
+                    category,
+                    message: `Found ${
+                      result.data?.length ?? 0
+                    } symbols in category "${category}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while filtering symbols",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Get all available categories
+   */
+  private registerGetCategories(): void {
+    this.server.tool(
+      "get_categories",
+      "Get all available symbol categories",
+      TOOL_SCHEMAS.get_categories,
+      async () => {
+        try {
+          const result = await this.database.getCategories();
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to get categories"
+            );
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    categories: result.data ?? [],
+                    count: result.data?.length ?? 0,
+                    message: `Retrieved ${result.data?.length ?? 0} categories`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while retrieving categories",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Find symbols matching a structured query
+   */
+  private registerQuerySymbols(): void {
+    this.server.tool(
+      "query_symbols",
+      "Find symbols matching a structured query that combines category, tag, origin, property, interpretation and full-text conditions with AND, OR and NOT, e.g. category:journey AND property.direction=inward AND interpretation.dream~\"decision\". Results are ordered by name.",
+      TOOL_SCHEMAS.query_symbols,
+      async (args) => {
+        try {
+          const { query } = args as { query: string };
+
+          const parsed = parseSymbolQuery(query);
+          if (!parsed.success || !parsed.data) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      error: "Invalid query",
+                      details: parsed.error?.message,
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const result = await this.database.querySymbols(parsed.data, {
+            limit: typeof args.limit === "number" ? args.limit : 50,
+            ...pageArgs(args),
+            ...sortArgs(args),
+            ...(args.exclude_origins && {
+              excludeOrigins: args.exclude_origins as ProvenanceOrigin[],
+            }),
+          });
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to query symbols"
+            );
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    symbols: localizeSymbols(result.data ?? [], args.locale),
+                    count: result.data?.length ?? 0,
+                    ...result.page,
+                    query,
+                    parsed: parsed.data,
+                    message: `Found ${result.data?.length ?? 0} symbols matching ${query}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while querying symbols",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Find symbols close in meaning to free text or to another symbol
+   */
+  private registerFindSimilarSymbols(): void {
+    this.server.tool(
+      "find_similar_symbols",
+      "Find symbols close in meaning to free text or to another symbol, most similar first, each with a similarity score from 0 to 1. Catches conceptual matches that word search misses, e.g. \"rebirth\" finds the phoenix and the ouroboros. Give either query or symbol_id.",
+      TOOL_SCHEMAS.find_similar_symbols,
+      async (args) => {
+        try {
+          const { query, symbol_id } = args as {
+            query?: string;
+            symbol_id?: string;
+          };
+
+          const text = query?.trim() ?? "";
+          const id = symbol_id?.trim() ?? "";
+          if ((text === "") === (id === "")) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    { error: "Provide either query or symbol_id" },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const result = await this.database.findSimilarSymbols(
+            text !== "" ? { text } : { symbolId: id },
+            {
+              limit: typeof args.limit === "number" ? args.limit : 10,
+              ...pageArgs(args),
+              ...sortArgs(args),
+              ...(args.exclude_origins && {
+                excludeOrigins: args.exclude_origins as ProvenanceOrigin[],
+              }),
+            }
+          );
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to find similar symbols"
+            );
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    symbols: localizeSymbols(result.data ?? [], args.locale),
+                    count: result.data?.length ?? 0,
+                    ...result.page,
+                    ...(text !== "" ? { query: text } : { symbol_id: id }),
+                    message: `Found ${result.data?.length ?? 0} symbols similar to ${text !== "" ? `"${text}"` : `symbol "${id}"`}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while finding similar symbols",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Filter symbols by tags
+   */
+  private registerFilterByTags(): void {
+    this.server.tool(
+      "filter_by_tags",
+      "Filter symbols by tags, matching any or all of them",
+      TOOL_SCHEMAS.filter_by_tags,
+      async (args) => {
+        try {
+          const { tags, match = "any" } = args as {
+            tags: string[];
+            match?: TagMatch;
+            limit?: number;
+          };
+
+          const filterLimit = typeof args.limit === "number" ? args.limit : 50;
+
+          const result = await this.database.filterByTags(tags, {
+            limit: filterLimit,
+            ...pageArgs(args),
+            ...sortArgs(args),
+            match,
+            ...(args.exclude_origins && {
+              excludeOrigins: args.exclude_origins as ProvenanceOrigin[],
+            }),
+          });
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to filter symbols by tags"
+            );
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    symbols: localizeSymbols(result.data ?? [], args.locale),
+                    count: result.data?.length ?? 0,
+                    ...result.page,
+                    tags,
+                    match,
+                    message: `Found ${
+                      result.data?.length ?? 0
+                    } symbols tagged with ${match} of: ${tags.join(", ")}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while filtering symbols by tags",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Get all tags with their symbol counts
+   */
+  private registerGetTags(): void {
+    this.server.tool(
+      "get_tags",
+      "Get all symbol tags with the number of symbols carrying each, most used first",
+      TOOL_SCHEMAS.get_tags,
+      async () => {
+        try {
+          const result = await this.database.getTags();
+
+          if (!result.success) {
+            throw new Error(result.error?.message ?? "Failed to get tags");
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    tags: result.data ?? [],
+                    count: result.data?.length ?? 0,
+                    message: `Retrieved ${result.data?.length ?? 0} tags`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while retrieving tags",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Get symbol sets with optional limit
+   */
+  private registerGetSymbolSets(): void {
+    this.server.tool(
+      "get_symbol_sets",
+      "List symbol sets with optional limit",
+      TOOL_SCHEMAS.get_symbol_sets,
+      async (args) => {
+        try {
+          const symbolSetLimit =
+            typeof args.limit === "number" ? args.limit : 50;
+
+          const result = await this.database.getSymbolSets({
+            limit: symbolSetLimit,
+            ...pageArgs(args),
+            ...sortArgs(args),
+          });
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to get symbol sets"
+            );
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    symbol_sets: localizeSymbolSets(result.data ?? [], args.locale),
+                    count: result.data?.length ?? 0,
+                    ...result.page,
+                    message: `Retrieved ${
+                      result.data?.length ?? 0
+                    } symbol sets`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while retrieving symbol sets",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+  /**
+   * Get a symbol set by ID with its members resolved
+   */
+  private registerGetSymbolSet(): void {
+    this.server.tool(
+      "get_symbol_set",
+      "Get a symbol set by ID with its member symbols, heaviest first",
+      TOOL_SCHEMAS.get_symbol_set,
+      async (args) => {
+        try {
+          const id = args.id as string;
+
+          const result = await this.database.getSymbolSet(id, {
+            expand: args.expand !== false,
+          });
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to get symbol set"
+            );
+          }
+
+          const [symbolSet = null] = localizeSymbolSets(
+            result.data ? [result.data] : [],
+            args.locale
+          );
+          const missing =
+            symbolSet?.members?.filter((member) => member.missing) ?? [];
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    found: symbolSet !== null,
+                    symbol_set: symbolSet,
+                    message:
+                      symbolSet === null
+                        ? `No symbol set found with ID "${id}"`
+                        : missing.length > 0
+                          ? `Found symbol set "${id}"; ${missing.length} member(s) no longer exist`
+                          : `Found symbol set "${id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while retrieving symbol set",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+
+  /**
+   * Search symbol sets by text query
+   */
+  private registerSearchSymbolSets(): void {
+    this.server.tool(
+      "search_symbol_sets",
+      "Search symbol sets by text query across names, descriptions, and categories",
+      TOOL_SCHEMAS.search_symbol_sets,
+      async (args) => {
+        try {
+          const { query } = args as {
+            query: string;
+            limit?: number;
+          };
+
+          if (!query.trim()) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      error: "Search query cannot be empty",
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const searchSetLimit =
+            typeof args.limit === "number" ? args.limit : 50;
+
+          const result = await this.database.searchSymbolSets(query, {
+            limit: searchSetLimit,
+            ...pageArgs(args),
+            ...sortArgs(args),
+          });
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to search symbol sets"
+            );
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    symbol_sets: localizeSymbolSets(result.data ?? [], args.locale),
+                    count: result.data?.length ?? 0,
+                    ...result.page,
+                    query,
+                    message: `Found ${
+                      result.data?.length ?? 0
+                    } symbol sets matching "${query}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while searching symbol sets",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Create a new symbol
+   */
+  private registerCreateSymbol(): void {
+    this.server.tool(
+      "create_symbol",
+      "Create a new symbol in the ontology",
+      TOOL_SCHEMAS.create_symbol,
+      async (args) => {
+        try {
+          const symbolData = {
+            id: args.id as string,
+            name: args.name as string,
+            category: args.category as string,
+            description: args.description as string,
+            interpretations: args.interpretations as Record<string, unknown> || {},
+            related_symbols: args.related_symbols as string[] || [],
+            properties: args.properties as Record<string, unknown> || {},
+            aliases: toAliases(args.aliases),
+            tags: (args.tags as string[] | undefined) ?? [],
+            translations:
+              (args.translations as Record<string, SymbolTranslation> | undefined) ?? {},
+            citations: (args.citations as Citation[] | undefined) ?? [],
+            origin: (args.origin as ProvenanceOrigin | undefined) ?? "ai",
+            provenance: "mcp:create_symbol",
+          };
+
+          const check = await this.propertySchemaService.check(
+            symbolData.category,
+            symbolData.properties
+          );
+          if (!check.success) {
+            throw check.error;
+          }
+          if (check.data && check.data.length > 0) {
+            throw new Error(describeViolations(check.data));
+          }
+
+          const result = await this.database.createSymbol(symbolData);
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    symbol: result.data,
+                    message: `Successfully created symbol "${args.name}" with ID "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to create symbol: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Update an existing symbol
+   */
+  private registerUpdateSymbol(): void {
+    this.server.tool(
+      "update_symbol",
+      "Update an existing symbol in the ontology",
+      TOOL_SCHEMAS.update_symbol,
+      async (args) => {
+        try {
+          const updates: Record<string, unknown> = {};
+          
+          if (args.name !== undefined) {updates.name = args.name;}
+          if (args.category !== undefined) {updates.category = args.category;}
+          if (args.description !== undefined) {updates.description = args.description;}
+          if (args.interpretations !== undefined) {updates.interpretations = args.interpretations;}
+          if (args.related_symbols !== undefined) {updates.related_symbols = args.related_symbols;}
+          if (args.properties !== undefined) {updates.properties = args.properties;}
+          if (args.aliases !== undefined) {updates.aliases = toAliases(args.aliases);}
+          if (args.tags !== undefined) {updates.tags = args.tags;}
+          if (args.translations !== undefined) {updates.translations = args.translations;}
+          if (args.citations !== undefined) {updates.citations = args.citations;}
+
+          const check = await this.propertySchemaService.checkUpdate(
+            args.id as string,
+            updates
+          );
+          if (!check.success) {
+            throw check.error;
+          }
+          if (check.data && check.data.length > 0) {
+            throw new Error(describeViolations(check.data));
+          }
+
+          const result = await this.database.updateSymbol(
+            args.id as string,
+            updates,
+            this.changeContext(args)
+          );
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    symbol: result.data,
+                    message: `Successfully updated symbol with ID "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to update symbol: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Delete a symbol
+   */
+  private registerDeleteSymbol(): void {
+    this.server.tool(
+      "delete_symbol",
+      "Move a symbol to the trash; it can be brought back with restore_symbol until purged",
+      TOOL_SCHEMAS.delete_symbol,
+      async (args) => {
+        try {
+          const result = await this.database.deleteSymbol(
+            args.id as string, 
+            args.cascade as boolean || false,
+            this.changeContext(args)
+          );
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    deleted: result.data,
+                    message: args.cascade 
+                      ? `Successfully deleted symbol "${args.id}" and removed it from related symbols`
+                      : `Successfully deleted symbol "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to delete symbol: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Create a new symbol set
+   */
+  private registerCreateSymbolSet(): void {
+    this.server.tool(
+      "create_symbol_set",
+      "Create a new symbol set in the ontology",
+      TOOL_SCHEMAS.create_symbol_set,
+      async (args) => {
+        try {
+          const symbolSetData = {
+            id: args.id as string,
+            name: args.name as string,
+            category: args.category as string,
+            description: args.description as string,
+            symbols: args.symbols as Record<string, unknown> || {},
+            translations:
+              (args.translations as Record<string, SymbolSetTranslation> | undefined) ?? {},
+          };
+
+          const result = await this.database.createSymbolSet(symbolSetData);
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    symbol_set: result.data,
+                    message: `Successfully created symbol set "${args.name}" with ID "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to create symbol set: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Update an existing symbol set
+   */
+  private registerUpdateSymbolSet(): void {
+    this.server.tool(
+      "update_symbol_set",
+      "Update an existing symbol set in the ontology",
+      TOOL_SCHEMAS.update_symbol_set,
+      async (args) => {
+        try {
+          const updates: Record<string, unknown> = {};
+          
+          if (args.name !== undefined) {updates.name = args.name;}
+          if (args.category !== undefined) {updates.category = args.category;}
+          if (args.description !== undefined) {updates.description = args.description;}
+          if (args.symbols !== undefined) {updates.symbols = args.symbols;}
+          if (args.translations !== undefined) {updates.translations = args.translations;}
+
+          const result = await this.database.updateSymbolSet(
+            args.id as string,
+            updates,
+            this.changeContext(args)
+          );
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    symbol_set: result.data,
+                    message: `Successfully updated symbol set with ID "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to update symbol set: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+  /**
+   * Delete a symbol set
+   */
+  private registerDeleteSymbolSet(): void {
+    this.server.tool(
+      "delete_symbol_set",
+      "Delete a symbol set from the ontology; its member symbols are kept",
+      TOOL_SCHEMAS.delete_symbol_set,
+      async (args) => {
+        try {
+          const result = await this.database.deleteSymbolSet(
+            args.id as string,
+            this.changeContext(args)
+          );
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    message: `Successfully deleted symbol set "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to delete symbol set: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Add a symbol to a symbol set
+   */
+  private registerAddSymbolToSet(): void {
+    this.server.tool(
+      "add_symbol_to_set",
+      "Add an existing symbol to a symbol set with an optional weight",
+      TOOL_SCHEMAS.add_symbol_to_set,
+      async (args) => {
+        try {
+          const result = await this.database.addSymbolToSet(
+            args.set_id as string,
+            args.symbol_id as string,
+            args.weight as number | undefined,
+            this.changeContext(args)
+          );
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    symbol_set: result.data,
+                    message: `Successfully added "${args.symbol_id}" to symbol set "${args.set_id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to add symbol to set: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Remove a symbol from a symbol set
+   */
+  private registerRemoveSymbolFromSet(): void {
+    this.server.tool(
+      "remove_symbol_from_set",
+      "Remove a symbol from a symbol set; the symbol itself is kept",
+      TOOL_SCHEMAS.remove_symbol_from_set,
+      async (args) => {
+        try {
+          const result = await this.database.removeSymbolFromSet(
+            args.set_id as string,
+            args.symbol_id as string,
+            this.changeContext(args)
+          );
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    symbol_set: result.data,
+                    message: `Successfully removed "${args.symbol_id}" from symbol set "${args.set_id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to remove symbol from set: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Change a member's weight in a symbol set
+   */
+  private registerSetMemberWeight(): void {
+    this.server.tool(
+      "set_member_weight",
+      "Change the weight of a symbol that is already in a symbol set",
+      TOOL_SCHEMAS.set_member_weight,
+      async (args) => {
+        try {
+          const result = await this.database.setMemberWeight(
+            args.set_id as string,
+            args.symbol_id as string,
+            args.weight as number,
+            this.changeContext(args)
+          );
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    symbol_set: result.data,
+                    message: `Successfully set weight of "${args.symbol_id}" in symbol set "${args.set_id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to set member weight: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+
+  /**
+   * Create a taxonomy category
+   */
+  private registerCreateCategory(): void {
+    this.server.tool(
+      "create_category",
+      "Add a category to the taxonomy, optionally under a parent category",
+      TOOL_SCHEMAS.create_category,
+      async (args) => {
+        try {
+          const result = await this.database.createCategory({
+            id: args.id as string,
+            parent_id: (args.parent_id as string | undefined) ?? null,
+            description: (args.description as string | undefined) ?? null,
+            display_order: typeof args.display_order === "number" ? args.display_order : 0,
+          });
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    category: result.data,
+                    message: `Successfully created category "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to create category: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Update a taxonomy category
+   */
+  private registerUpdateCategory(): void {
+    this.server.tool(
+      "update_category",
+      "Change a category's parent, description or display order",
+      TOOL_SCHEMAS.update_category,
+      async (args) => {
+        try {
+          const updates: {
+            parent_id?: string | null;
+            description?: string | null;
+            display_order?: number;
+          } = {};
+
+          if (args.parent_id !== undefined) {updates.parent_id = args.parent_id as string | null;}
+          if (args.description !== undefined) {updates.description = args.description as string | null;}
+          if (args.display_order !== undefined) {updates.display_order = args.display_order as number;}
+
+          const result = await this.database.updateCategory(args.id as string, updates);
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    category: result.data,
+                    message: `Successfully updated category "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to update category: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
   }
 
   /**
-   * Get a symbol by ID
+   * Delete a taxonomy category
    */
-  private registerGetSymbol(): void {
+  private registerDeleteCategory(): void {
     this.server.tool(
-      "get_symbol",
-      "Get a symbol by ID",
-      TOOL_SCHEMAS.get_symbol,
+      "delete_category",
+      "Remove a category from the taxonomy; its subcategories move up to its parent and symbols keep their category",
+      TOOL_SCHEMAS.delete_category,
       async (args) => {
         try {
-          const { id } = args as { id: string };
+          const result = await this.database.deleteCategory(args.id as string);
 
-          if (!id.trim()) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(
-                    {
-                      error: "Symbol ID cannot be empty",
-                    },
-                    null,
-                    2
-                  ),
-                },
-              ],
-            };
+          if (!result.success) {
+            throw result.error;
           }
 
-          const result = await this.database.getSymbol(id);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    message: `Successfully deleted category "${args.id}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to delete category: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * Get category property schemas
+   */
+  private registerGetPropertySchemas(): void {
+    this.server.tool(
+      "get_property_schemas",
+      "Get the property schemas that define the allowed property keys, types and values for each category",
+      TOOL_SCHEMAS.get_property_schemas,
+      async (args) => {
+        try {
+          const result =
+            typeof args.category === "string"
+              ? await this.database.getPropertySchema(args.category)
+              : await this.database.getPropertySchemas();
 
           if (!result.success) {
-            throw new Error(result.error?.message ?? "Failed to get symbol");
+            throw new Error(
+              result.error?.message ?? "Failed to get property schemas"
+            );
           }
 
-          const symbol = result.data ?? null;
+          const schemas = [result.data ?? []].flat();
 
           return {
             content: [
@@ -293,12 +3157,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    found: symbol !== null,
-                    symbol,
-                    message:
-                      symbol !== null
-                        ? `Found symbol "${id}"`
-                        : `No symbol found with ID "${id}"`,
+                    property_schemas: schemas,
+                    count: schemas.length,
+                    message: `Retrieved ${schemas.length} property schemas`,
                   },
                   null,
                   2
@@ -313,7 +3174,7 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    error: "Internal error while retrieving symbol",
+                    error: "Internal error while retrieving property schemas",
                     details: (error as Error).message,
                   },
                   null,
@@ -328,24 +3189,23 @@ export class SymbolsService {
   }
 
   /**
-   * Get symbols with optional limit
+   * Create or replace a category's property schema
    */
-  private registerGetSymbols(): void {
+  private registerSetPropertySchema(): void {
     this.server.tool(
-      "get_symbols",
-      "List symbols with optional limit",
-      TOOL_SCHEMAS.get_symbols,
+      "set_property_schema",
+      "Create or replace the property schema for a category. New and updated symbols in the category must then conform; run validate_ontology to find existing symbols that do not.",
+      TOOL_SCHEMAS.set_property_schema,
       async (args) => {
         try {
-          const limit = typeof args.limit === "number" ? args.limit : 50;
-
-          const result = await this.database.getSymbols({
-            limit,
-            offset: 0,
+          const result = await this.database.setPropertySchema({
+            category: args.category as string,
+            properties: args.properties as Record<string, PropertyDefinition>,
+            allow_additional: (args.allow_additional as boolean | undefined) ?? false,
           });
 
           if (!result.success) {
-            throw new Error(result.error?.message ?? "Failed to get symbols");
+            throw result.error;
           }
 
           return {
@@ -354,9 +3214,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    symbols: result.data ?? [],
-                    count: result.data?.length ?? 0,
-                    message: `Retrieved ${result.data?.length ?? 0} symbols`,
+                    success: true,
+                    property_schema: result.data,
+                    message: `Successfully saved property schema for category "${args.category}"`,
                   },
                   null,
                   2
@@ -371,8 +3231,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    error: "Internal error while retrieving symbols",
-                    details: (error as Error).message,
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to save property schema: ${(error as Error).message}`,
                   },
                   null,
                   2
@@ -386,48 +3247,148 @@ export class SymbolsService {
   }
 
   /**
-   * Search symbols by text query
+   * Delete a category's property schema
    */
-  private registerSearchSymbols(): void {
+  private registerDeletePropertySchema(): void {
     this.server.tool(
-      "search_symbols",
-      "Search symbols by text query across names, descriptions, and categories",
-      TOOL_SCHEMAS.search_symbols,
+      "delete_property_schema",
+      "Remove a category's property schema so its symbols accept any properties again",
+      TOOL_SCHEMAS.delete_property_schema,
       async (args) => {
         try {
-          const { query } = args as {
-            query: string;
-            limit?: number;
+          const result = await this.database.deletePropertySchema(args.category as string);
+
+          if (!result.success) {
+            throw result.error;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    message: `Successfully deleted property schema for category "${args.category}"`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to delete property schema: ${(error as Error).message}`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
           };
+        }
+      }
+    );
+  }
 
-          if (!query.trim()) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(
-                    {
-                      error: "Search query cannot be empty",
-                    },
-                    null,
-                    2
-                  ),
-                },
-              ],
-            };
+  /**
+   * List typed relationships
+   */
+  private registerGetRelationships(): void {
+    this.server.tool(
+      "get_relationships",
+      "List typed relationships, optionally for one symbol, direction, or relation type",
+      TOOL_SCHEMAS.get_relationships,
+      async (args) => {
+        try {
+          const limit = typeof args.limit === "number" ? args.limit : 50;
+
+          const result = await this.database.getRelationships({
+            ...(args.symbol_id && { symbolId: args.symbol_id as string }),
+            ...(args.direction && {
+              direction: args.direction as "outgoing" | "incoming" | "both",
+            }),
+            ...(args.relation_type && {
+              relationType: args.relation_type as RelationType,
+            }),
+            limit,
+            ...pageArgs(args),
+          });
+
+          if (!result.success) {
+            throw new Error(
+              result.error?.message ?? "Failed to get relationships"
+            );
           }
 
-          const searchLimit = typeof args.limit === "number" ? args.limit : 50;
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    relationships: result.data ?? [],
+                    count: result.data?.length ?? 0,
+                    ...result.page,
+                    message: `Retrieved ${
+                      result.data?.length ?? 0
+                    } relationships`,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    error: "Internal error while retrieving relationships",
+                    details: (error as Error).message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
 
-          const result = await this.database.searchSymbols(query, {
-            limit: searchLimit,
-            offset: 0,
+  /**
+   * Create a typed relationship between two symbols
+   */
+  private registerCreateRelationship(): void {
+    this.server.tool(
+      "create_relationship",
+      "Create a typed, directional relationship between two symbols",
+      TOOL_SCHEMAS.create_relationship,
+      async (args) => {
+        try {
+          const result = await this.database.createRelationship({
+            source_id: args.source_id as string,
+            target_id: args.target_id as string,
+            relation_type: (args.relation_type as RelationType) || "related",
+            weight: typeof args.weight === "number" ? args.weight : null,
+            note: (args.note as string | undefined) ?? null,
           });
 
           if (!result.success) {
-            throw new Error(
-              result.error?.message ?? "Failed to search symbols"
-            );
+            throw result.error;
           }
 
           return {
@@ -436,12 +3397,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    symbols: result.data ?? [],
-                    count: result.data?.length ?? 0,
-                    query,
-                    message: `Found ${
-                      result.data?.length ?? 0
-                    } symbols matching "${query}"`,
+                    success: true,
+                    relationship: result.data,
+                    message: `Successfully created "${result.data?.relation_type}" relationship from "${args.source_id}" to "${args.target_id}"`,
                   },
                   null,
                   2
@@ -456,8 +3414,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    error: "Internal error while searching symbols",
-                    details: (error as Error).message,
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to create relationship: ${(error as Error).message}`,
                   },
                   null,
                   2
@@ -471,48 +3430,24 @@ export class SymbolsService {
   }
 
   /**
-   * Filter symbols by category
+   * Update the weight or note of a relationship
    */
-  private registerFilterByCategory(): void {
+  private registerUpdateRelationship(): void {
     this.server.tool(
-      "filter_by_category",
-      "Filter symbols by category name",
-      TOOL_SCHEMAS.filter_by_category,
+      "update_relationship",
+      "Update the weight or note of an existing relationship",
+      TOOL_SCHEMAS.update_relationship,
       async (args) => {
         try {
-          const { category } = args as {
-            category: string;
-            limit?: number;
-          };
-
-          if (!category.trim()) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(
-                    {
-                      error: "Category name cannot be empty",
-                    },
-                    null,
-                    2
-                  ),
-                },
-              ],
-            };
-          }
+          const updates: { weight?: number | null; note?: string | null } = {};
 
-          const filterLimit = typeof args.limit === "number" ? args.limit : 50;
+          if (args.weight !== undefined) {updates.weight = args.weight as number | null;}
+          if (args.note !== undefined) {updates.note = args.note as string | null;}
 
-          const result = await this.database.filterByCategory(category, {
-            limit: filterLimit,
-            offset: 0,
-          });
+          const result = await this.database.updateRelationship(args.id as string, updates);
 
           if (!result.success) {
-            throw new Error(
-              result.error?.message ?? "Failed to filter symbols by category"
-            );
+            throw result.error;
           }
 
           return {
@@ -521,12 +3456,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    symbols: result.data ?? [],
-                    count: result.data?.length ?? 0,
-                    category,
-                    message: `Found ${
-                      result.data?.length ?? 0
-                    } symbols in category "${category}"`,
+                    success: true,
+                    relationship: result.data,
+                    message: `Successfully updated relationship with ID "${args.id}"`,
                   },
                   null,
                   2
@@ -541,8 +3473,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    error: "Internal error while filtering symbols",
-                    details: (error as Error).message,
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to update relationship: ${(error as Error).message}`,
                   },
                   null,
                   2
@@ -556,21 +3489,19 @@ export class SymbolsService {
   }
 
   /**
-   * Get all available categories
+   * Delete a relationship
    */
-  private registerGetCategories(): void {
+  private registerDeleteRelationship(): void {
     this.server.tool(
-      "get_categories",
-      "Get all available symbol categories",
-      TOOL_SCHEMAS.get_categories,
-      async () => {
+      "delete_relationship",
+      "Delete a typed relationship between two symbols",
+      TOOL_SCHEMAS.delete_relationship,
+      async (args) => {
         try {
-          const result = await this.database.getCategories();
+          const result = await this.database.deleteRelationship(args.id as string);
 
           if (!result.success) {
-            throw new Error(
-              result.error?.message ?? "Failed to get categories"
-            );
+            throw result.error;
           }
 
           return {
@@ -579,9 +3510,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    categories: result.data ?? [],
-                    count: result.data?.length ?? 0,
-                    message: `Retrieved ${result.data?.length ?? 0} categories`,
+                    success: true,
+                    deleted: result.data,
+                    message: `Successfully deleted relationship "${args.id}"`,
                   },
                   null,
                   2
@@ -596,8 +3527,9 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    error: "Internal error while retrieving categories",
-                    details: (error as Error).message,
+                    success: false,
+                    error: (error as Error).message,
+                    message: `Failed to delete relationship: ${(error as Error).message}`,
                   },
                   null,
                   2
@@ -611,26 +3543,50 @@ export class SymbolsService {
   }
 
   /**
-   * Get symbol sets with optional limit
+   * Explore the neighborhood of a symbol in one call
    */
-  private registerGetSymbolSets(): void {
+  private registerTraverseSymbolGraph(): void {
     this.server.tool(
-      "get_symbol_sets",
-      "List symbol sets with optional limit",
-      TOOL_SCHEMAS.get_symbol_sets,
+      "traverse_symbol_graph",
+      "Return the subgraph of symbols and relationships reachable from a start symbol",
+      TOOL_SCHEMAS.traverse_symbol_graph,
       async (args) => {
         try {
-          const symbolSetLimit =
-            typeof args.limit === "number" ? args.limit : 50;
+          const startId = args.start_id as string;
 
-          const result = await this.database.getSymbolSets({
-            limit: symbolSetLimit,
-            offset: 0,
+          if (!startId.trim()) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      error: "Start symbol ID cannot be empty",
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const result = await this.graphService.traverse(startId, {
+            maxDepth: typeof args.max_depth === "number" ? args.max_depth : 2,
+            maxNodes: typeof args.max_nodes === "number" ? args.max_nodes : 100,
+            ...(args.direction && {
+              direction: args.direction as RelationshipDirection,
+            }),
+            ...(args.relation_types && {
+              relationTypes: args.relation_types as RelationType[],
+            }),
+            ...(args.categories && { categories: args.categories as string[] }),
+            ...(typeof args.locale === "string" && { locale: args.locale }),
           });
 
-          if (!result.success) {
+          if (!result.success || !result.data) {
             throw new Error(
-              result.error?.message ?? "Failed to get symbol sets"
+              result.error?.message ?? "Failed to traverse symbol graph"
             );
           }
 
@@ -640,11 +3596,10 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    symbol_sets: result.data ?? [],
-                    count: result.data?.length ?? 0,
-                    message: `Retrieved ${
-                      result.data?.length ?? 0
-                    } symbol sets`,
+                    ...result.data,
+                    node_count: result.data.nodes.length,
+                    edge_count: result.data.edges.length,
+                    message: `Reached ${result.data.nodes.length} symbols through ${result.data.edges.length} relationships from "${startId}"`,
                   },
                   null,
                   2
@@ -659,7 +3614,7 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    error: "Internal error while retrieving symbol sets",
+                    error: "Internal error while traversing symbol graph",
                     details: (error as Error).message,
                   },
                   null,
@@ -674,28 +3629,26 @@ export class SymbolsService {
   }
 
   /**
-   * Search symbol sets by text query
+   * Explain how two symbols are connected
    */
-  private registerSearchSymbolSets(): void {
+  private registerFindSymbolPath(): void {
     this.server.tool(
-      "search_symbol_sets",
-      "Search symbol sets by text query across names, descriptions, and categories",
-      TOOL_SCHEMAS.search_symbol_sets,
+      "find_symbol_path",
+      "Find the shortest relationship paths between two symbols, with the interpretations behind each hop",
+      TOOL_SCHEMAS.find_symbol_path,
       async (args) => {
         try {
-          const { query } = args as {
-            query: string;
-            limit?: number;
-          };
+          const fromId = args.from_id as string;
+          const toId = args.to_id as string;
 
-          if (!query.trim()) {
+          if (!fromId.trim() || !toId.trim()) {
             return {
               content: [
                 {
                   type: "text",
                   text: JSON.stringify(
                     {
-                      error: "Search query cannot be empty",
+                      error: "Both symbol IDs are required",
                     },
                     null,
                     2
@@ -705,32 +3658,39 @@ export class SymbolsService {
             };
           }
 
-          const searchSetLimit =
-            typeof args.limit === "number" ? args.limit : 50;
-
-          const result = await this.database.searchSymbolSets(query, {
-            limit: searchSetLimit,
-            offset: 0,
+          const result = await this.graphService.findPaths(fromId, toId, {
+            maxHops: typeof args.max_hops === "number" ? args.max_hops : 4,
+            maxPaths: typeof args.max_paths === "number" ? args.max_paths : 3,
+            ...(args.direction && {
+              direction: args.direction as RelationshipDirection,
+            }),
+            ...(args.relation_types && {
+              relationTypes: args.relation_types as RelationType[],
+            }),
+            ...(typeof args.locale === "string" && { locale: args.locale }),
           });
 
-          if (!result.success) {
+          if (!result.success || !result.data) {
             throw new Error(
-              result.error?.message ?? "Failed to search symbol sets"
+              result.error?.message ?? "Failed to find symbol path"
             );
           }
 
+          const shortest = result.data.paths[0]?.length;
+
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    symbol_sets: result.data ?? [],
-                    count: result.data?.length ?? 0,
-                    query,
-                    message: `Found ${
-                      result.data?.length ?? 0
-                    } symbol sets matching "${query}"`,
+                    ...result.data,
+                    count: result.data.paths.length,
+                    message: result.data.connected
+                      ? `Found ${result.data.paths.length} path(s) of ${shortest} hop(s) from "${fromId}" to "${toId}"`
+                      : `No path from "${fromId}" to "${toId}" within ${
+                          typeof args.max_hops === "number" ? args.max_hops : 4
+                        } hops`,
                   },
                   null,
                   2
@@ -745,7 +3705,7 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    error: "Internal error while searching symbol sets",
+                    error: "Internal error while finding symbol path",
                     details: (error as Error).message,
                   },
                   null,
@@ -760,40 +3720,43 @@ export class SymbolsService {
   }
 
   /**
-   * Create a new symbol
+   * Check the ontology for broken references and gaps
    */
-  private registerCreateSymbol(): void {
+  private registerValidateOntology(): void {
     this.server.tool(
-      "create_symbol",
-      "Create a new symbol in the ontology",
-      TOOL_SCHEMAS.create_symbol,
+      "validate_ontology",
+      "Check the ontology for dangling references, missing set members, one-way links, orphan categories, empty descriptions and properties that break their category schema, optionally repairing what can be fixed",
+      TOOL_SCHEMAS.validate_ontology,
       async (args) => {
         try {
-          const symbolData = {
-            id: args.id as string,
-            name: args.name as string,
-            category: args.category as string,
-            description: args.description as string,
-            interpretations: args.interpretations as Record<string, unknown> || {},
-            related_symbols: args.related_symbols as string[] || [],
-            properties: args.properties as Record<string, unknown> || {},
-          };
+          const fix = args.fix === true;
 
-          const result = await this.database.createSymbol(symbolData);
+          const result = await this.integrityService.validate({
+            fix,
+            ...(args.checks && { checks: args.checks as IntegrityCheck[] }),
+          });
 
-          if (!result.success) {
-            throw result.error;
+          if (!result.success || !result.data) {
+            throw new Error(
+              result.error?.message ?? "Failed to validate ontology"
+            );
           }
 
+          const { summary } = result.data;
+
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    success: true,
-                    symbol: result.data,
-                    message: `Successfully created symbol "${args.name}" with ID "${args.id}"`,
+                    ...result.data,
+                    message:
+                      summary.issues === 0
+                        ? "No integrity issues found"
+                        : `Found ${summary.issues} issue(s): ${summary.errors} error(s), ${summary.warnings} warning(s), ${summary.info} info${
+                            fix ? `; fixed ${summary.fixed}` : ""
+                          }`,
                   },
                   null,
                   2
@@ -808,9 +3771,8 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    success: false,
-                    error: (error as Error).message,
-                    message: `Failed to create symbol: ${(error as Error).message}`,
+                    error: "Internal error while validating ontology",
+                    details: (error as Error).message,
                   },
                   null,
                   2
@@ -824,28 +3786,30 @@ export class SymbolsService {
   }
 
   /**
-   * Update an existing symbol
+   * List prior versions of a symbol or symbol set
    */
-  private registerUpdateSymbol(): void {
+  private registerGetSymbolHistory(): void {
     this.server.tool(
-      "update_symbol",
-      "Update an existing symbol in the ontology",
-      TOOL_SCHEMAS.update_symbol,
+      "get_symbol_history",
+      "List the prior versions of a symbol or symbol set, newest first, with who changed what and when",
+      TOOL_SCHEMAS.get_symbol_history,
       async (args) => {
         try {
-          const updates: Record<string, unknown> = {};
-          
-          if (args.name !== undefined) {updates.name = args.name;}
-          if (args.category !== undefined) {updates.category = args.category;}
-          if (args.description !== undefined) {updates.description = args.description;}
-          if (args.interpretations !== undefined) {updates.interpretations = args.interpretations;}
-          if (args.related_symbols !== undefined) {updates.related_symbols = args.related_symbols;}
-          if (args.properties !== undefined) {updates.properties = args.properties;}
-
-          const result = await this.database.updateSymbol(args.id as string, updates);
+          const id = args.id as string;
+          const entityType =
+            args.entity_type === "symbol_set" ? "symbol_set" : "symbol";
+
+          const result = await this.database.getRevisions({
+            entityType,
+            entityId: id,
+            limit: typeof args.limit === "number" ? args.limit : 20,
+            ...pageArgs(args),
+          });
 
-          if (!result.success) {
-            throw result.error;
+          if (!result.success || !result.data) {
+            throw new Error(
+              result.error?.message ?? "Failed to get revision history"
+            );
           }
 
           return {
@@ -854,9 +3818,15 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    success: true,
-                    symbol: result.data,
-                    message: `Successfully updated symbol with ID "${args.id}"`,
+                    entity_type: entityType,
+                    entity_id: id,
+                    revisions: result.data,
+                    count: result.data.length,
+                    ...result.page,
+                    message:
+                      result.data.length === 0
+                        ? `No revisions recorded for ${entityType.replace("_", " ")} "${id}"`
+                        : `Found ${result.data.length} revision(s) for ${entityType.replace("_", " ")} "${id}"`,
                   },
                   null,
                   2
@@ -871,9 +3841,8 @@ export class SymbolsService {
                 type: "text",
                 text: JSON.stringify(
                   {
-                    success: false,
-                    error: (error as Error).message,
-                    message: `Failed to update symbol: ${(error as Error).message}`,
+                    error: "Internal error while getting revision history",
+                    details: (error as Error).message,
                   },
                   null,
                   2
@@ -887,18 +3856,20 @@ export class SymbolsService {
   }
 
   /**
-   * Delete a symbol
+   * Undo edits by restoring a prior version
    */
-  private registerDeleteSymbol(): void {
+  private registerRevertSymbol(): void {
     this.server.tool(
-      "delete_symbol",
-      "Delete a symbol from the ontology",
-      TOOL_SCHEMAS.delete_symbol,
+      "revert_symbol",
+      "Restore a symbol or symbol set to a prior revision; the version being replaced is kept in history",
+      TOOL_SCHEMAS.revert_symbol,
       async (args) => {
         try {
-          const result = await this.database.deleteSymbol(
-            args.id as string, 
-            args.cascade as boolean || false
+          const revisionId = args.revision_id as string;
+
+          const result = await this.database.restoreRevision(
+            revisionId,
+            this.changeContext(args)
           );
 
           if (!result.success) {
@@ -912,10 +3883,8 @@ export class SymbolsService {
                 text: JSON.stringify(
                   {
                     success: true,
-                    deleted: result.data,
-                    message: args.cascade 
-                      ? `Successfully deleted symbol "${args.id}" and removed it from related symbols`
-                      : `Successfully deleted symbol "${args.id}"`,
+                    restored: result.data,
+                    message: `Successfully restored revision "${revisionId}"`,
                   },
                   null,
                   2
@@ -932,7 +3901,7 @@ export class SymbolsService {
                   {
                     success: false,
                     error: (error as Error).message,
-                    message: `Failed to delete symbol: ${(error as Error).message}`,
+                    message: `Failed to restore revision: ${(error as Error).message}`,
                   },
                   null,
                   2
@@ -946,24 +3915,19 @@ export class SymbolsService {
   }
 
   /**
-   * Create a new symbol set
+   * Bring a deleted symbol back from the trash
    */
-  private registerCreateSymbolSet(): void {
+  private registerRestoreSymbol(): void {
     this.server.tool(
-      "create_symbol_set",
-      "Create a new symbol set in the ontology",
-      TOOL_SCHEMAS.create_symbol_set,
+      "restore_symbol",
+      "Restore a deleted symbol from the trash, along with the relationships removed when it was deleted",
+      TOOL_SCHEMAS.restore_symbol,
       async (args) => {
         try {
-          const symbolSetData = {
-            id: args.id as string,
-            name: args.name as string,
-            category: args.category as string,
-            description: args.description as string,
-            symbols: args.symbols as Record<string, unknown> || {},
-          };
-
-          const result = await this.database.createSymbolSet(symbolSetData);
+          const result = await this.database.restoreSymbol(
+            args.id as string,
+            this.changeContext(args)
+          );
 
           if (!result.success) {
             throw result.error;
@@ -976,8 +3940,8 @@ export class SymbolsService {
                 text: JSON.stringify(
                   {
                     success: true,
-                    symbol_set: result.data,
-                    message: `Successfully created symbol set "${args.name}" with ID "${args.id}"`,
+                    symbol: result.data,
+                    message: `Successfully restored symbol "${args.id}"`,
                   },
                   null,
                   2
@@ -994,7 +3958,7 @@ export class SymbolsService {
                   {
                     success: false,
                     error: (error as Error).message,
-                    message: `Failed to create symbol set: ${(error as Error).message}`,
+                    message: `Failed to restore symbol: ${(error as Error).message}`,
                   },
                   null,
                   2
@@ -1008,28 +3972,30 @@ export class SymbolsService {
   }
 
   /**
-   * Update an existing symbol set
+   * Permanently remove symbols from the trash
    */
-  private registerUpdateSymbolSet(): void {
+  private registerPurgeDeleted(): void {
     this.server.tool(
-      "update_symbol_set",
-      "Update an existing symbol set in the ontology",
-      TOOL_SCHEMAS.update_symbol_set,
+      "purge_deleted",
+      "Permanently remove deleted symbols from the trash; their revision history is kept",
+      TOOL_SCHEMAS.purge_deleted,
       async (args) => {
         try {
-          const updates: Record<string, unknown> = {};
-          
-          if (args.name !== undefined) {updates.name = args.name;}
-          if (args.category !== undefined) {updates.category = args.category;}
-          if (args.description !== undefined) {updates.description = args.description;}
-          if (args.symbols !== undefined) {updates.symbols = args.symbols;}
+          const olderThanDays = args.older_than_days as number | undefined;
 
-          const result = await this.database.updateSymbolSet(args.id as string, updates);
+          const result = await this.database.purgeDeleted({
+            ...(args.id && { id: args.id as string }),
+            ...(olderThanDays !== undefined && {
+              deletedBefore: new Date(Date.now() - olderThanDays * DAY_MS),
+            }),
+          });
 
           if (!result.success) {
             throw result.error;
           }
 
+          const purged = result.data ?? [];
+
           return {
             content: [
               {
@@ -1037,8 +4003,8 @@ export class SymbolsService {
                 text: JSON.stringify(
                   {
                     success: true,
-                    symbol_set: result.data,
-                    message: `Successfully updated symbol set with ID "${args.id}"`,
+                    purged,
+                    message: `Permanently removed ${purged.length} symbol(s) from the trash`,
                   },
                   null,
                   2
@@ -1055,7 +4021,7 @@ export class SymbolsService {
                   {
                     success: false,
                     error: (error as Error).message,
-                    message: `Failed to update symbol set: ${(error as Error).message}`,
+                    message: `Failed to purge deleted symbols: ${(error as Error).message}`,
                   },
                   null,
                   2
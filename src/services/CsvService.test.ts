@@ -14,9 +14,25 @@ const mockDatabase: IDatabase = {
   getSymbols: vi.fn(),
   getSymbol: vi.fn(),
   searchSymbols: vi.fn(),
+  getSearchFacets: vi.fn(),
+  querySymbols: vi.fn(),
+  findSimilarSymbols: vi.fn(),
   filterByCategory: vi.fn(),
+  getCategoryFacets: vi.fn(),
   getCategories: vi.fn(),
+  suggest: vi.fn(),
+  getPropertySchemas: vi.fn(),
+  getPropertySchema: vi.fn(),
+  setPropertySchema: vi.fn(),
+  deletePropertySchema: vi.fn(),
+  filterByTags: vi.fn(),
+  getTags: vi.fn(),
+  getCategoryTree: vi.fn(),
+  createCategory: vi.fn(),
+  updateCategory: vi.fn(),
+  deleteCategory: vi.fn(),
   getSymbolSets: vi.fn(),
+  getSymbolSet: vi.fn(),
   searchSymbolSets: vi.fn(),
   healthCheck: vi.fn(),
   createSymbol: vi.fn(),
@@ -24,6 +40,22 @@ const mockDatabase: IDatabase = {
   deleteSymbol: vi.fn(),
   createSymbolSet: vi.fn(),
   updateSymbolSet: vi.fn(),
+  deleteSymbolSet: vi.fn(),
+  addSymbolToSet: vi.fn(),
+  removeSymbolFromSet: vi.fn(),
+  setMemberWeight: vi.fn(),
+  getRelationships: vi.fn(),
+  createRelationship: vi.fn(),
+  updateRelationship: vi.fn(),
+  deleteRelationship: vi.fn(),
+  getNeighborhood: vi.fn(),
+  repairSymmetricRelationships: vi.fn(),
+  getRevisions: vi.fn(),
+  getRevision: vi.fn(),
+  restoreRevision: vi.fn(),
+  getDeletedSymbols: vi.fn(),
+  restoreSymbol: vi.fn(),
+  purgeDeleted: vi.fn(),
 };
 
 describe('CsvService', () => {
@@ -32,6 +64,10 @@ describe('CsvService', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(mockDatabase.getPropertySchema).mockResolvedValue({
+      success: true,
+      data: null,
+    });
     csvService = new CsvService(mockDatabase);
     
     // Create temporary directory for test files
@@ -86,7 +122,86 @@ another_symbol,Another Symbol,test,Another test symbol,"{""test"": ""another""}"
         interpretations: { test: 'interpretation' },
         related_symbols: ['related1', 'related2'],
         properties: { test: true },
+        tags: [],
+        translations: {},
+        origin: 'import',
+        provenance: 'csv:valid-symbols.csv',
+      });
+    });
+
+    it('should import the tags column', async () => {
+      const csvContent = `id,name,category,description,interpretations,related_symbols,properties,tags
+river,River,flow,Flowing water,"{}","","{}","flow, time, boundaries"`;
+
+      const csvFile = path.join(tempDir, 'tagged-symbols.csv');
+      fs.writeFileSync(csvFile, csvContent);
+
+      vi.mocked(mockDatabase.createSymbol).mockResolvedValue({
+        success: true,
+        data: {} as Symbol,
+      });
+      vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
+        success: true,
+        data: [],
+      });
+
+      const result = await csvService.importSymbols(csvFile);
+
+      expect(result.created).toBe(1);
+      expect(mockDatabase.createSymbol).toHaveBeenCalledWith(
+        expect.objectContaining({ tags: ['flow', 'time', 'boundaries'] })
+      );
+    });
+
+    it('should import locale columns as translations', async () => {
+      const csvContent = `id,name,category,description,interpretations,related_symbols,properties,name_es,description_es,interpretations_es,name_pt_BR
+river,River,flow,Flowing water,"{""dream"": ""Change""}","","{}",Río,Agua que fluye,"{""dream"": ""Cambio""}",Rio`;
+
+      const csvFile = path.join(tempDir, 'translated-symbols.csv');
+      fs.writeFileSync(csvFile, csvContent);
+
+      vi.mocked(mockDatabase.createSymbol).mockResolvedValue({
+        success: true,
+        data: {} as Symbol,
+      });
+      vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
+        success: true,
+        data: [],
+      });
+
+      const result = await csvService.importSymbols(csvFile);
+
+      expect(result.created).toBe(1);
+      expect(mockDatabase.createSymbol).toHaveBeenCalledWith(
+        expect.objectContaining({
+          translations: {
+            es: {
+              name: 'Río',
+              description: 'Agua que fluye',
+              interpretations: { dream: 'Cambio' },
+            },
+            'pt-BR': { name: 'Rio' },
+          },
+        })
+      );
+    });
+
+    it('should reject invalid JSON in a locale interpretations column', async () => {
+      const csvContent = `id,name,category,description,interpretations,related_symbols,properties,interpretations_es
+river,River,flow,Flowing water,"{}","","{}","{invalid json}"`;
+
+      const csvFile = path.join(tempDir, 'invalid-translation.csv');
+      fs.writeFileSync(csvFile, csvContent);
+
+      vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
+        success: true,
+        data: [],
       });
+
+      const result = await csvService.importSymbols(csvFile);
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]?.error).toContain('Invalid JSON format in interpretations_es field');
     });
 
     it('should handle invalid JSON in interpretations field', async () => {
@@ -149,6 +264,42 @@ failing_symbol,Failing Symbol,test,A symbol that fails,"{}","","{}"`;
       expect(result.errors[0]?.error).toBe('Database connection failed');
     });
 
+    it('should report rows whose properties break the category property schema', async () => {
+      const csvContent = `id,name,category,description,interpretations,related_symbols,properties
+ouroboros,Ouroboros,transformation,Serpent eating its tail,"{}","","{""origin"": ""ancient""}"
+phoenix,Phoenix,transformation,Bird reborn from fire,"{}","","{""origin"": ""ancient_egypt""}"`;
+
+      const csvFile = path.join(tempDir, 'schema-symbols.csv');
+      fs.writeFileSync(csvFile, csvContent);
+
+      vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
+        success: true,
+        data: [],
+      });
+      vi.mocked(mockDatabase.getPropertySchema).mockResolvedValue({
+        success: true,
+        data: {
+          category: 'transformation',
+          properties: { origin: { type: 'string', enum: ['ancient', 'medieval', 'modern'] } },
+          allow_additional: false,
+          created_at: new Date('2024-01-01'),
+          updated_at: new Date('2024-01-01'),
+        },
+      });
+      vi.mocked(mockDatabase.createSymbol).mockResolvedValue({
+        success: true,
+        data: {} as Symbol,
+      });
+
+      const result = await csvService.importSymbols(csvFile);
+
+      expect(result.created).toBe(1);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]?.row).toBe(2);
+      expect(result.errors[0]?.error).toContain('"origin" must be one of ancient, medieval, modern');
+      expect(mockDatabase.createSymbol).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle maxRows limitation', async () => {
       const csvContent = `id,name,category,description,interpretations,related_symbols,properties
 symbol1,Symbol 1,test,First symbol,"{}","","{}"
@@ -193,6 +344,7 @@ symbol3,Symbol 3,test,Third symbol,"{}","","{}"`;
           interpretations: { test: 'interpretation' },
           related_symbols: ['test2'],
           properties: { verified: true },
+          tags: ['flow', 'time'],
           created_at: new Date('2024-01-01'),
           updated_at: new Date('2024-01-01'),
         },
@@ -228,6 +380,46 @@ symbol3,Symbol 3,test,Third symbol,"{}","","{}"`;
       expect(content).toContain('Test Symbol 1');
       expect(content).toContain('test2');
       expect(content).toContain('Test Symbol 2');
+      expect(content.split('\n')[0]).toBe(
+        'id,name,category,description,interpretations,related_symbols,properties,tags'
+      );
+      expect(content).toContain('"flow, time"');
+    });
+
+    it('should export a group of locale columns per translated locale', async () => {
+      const mockSymbols: Symbol[] = [
+        {
+          id: 'river',
+          name: 'River',
+          category: 'flow',
+          description: 'Flowing water',
+          interpretations: { dream: 'Change' },
+          related_symbols: [],
+          properties: {},
+          translations: {
+            es: { name: 'Río', interpretations: { dream: 'Cambio' } },
+            de: { name: 'Fluss' },
+          },
+          created_at: new Date('2024-01-01'),
+          updated_at: new Date('2024-01-01'),
+        },
+      ];
+
+      vi.mocked(mockDatabase.getSymbols).mockResolvedValue({
+        success: true,
+        data: mockSymbols,
+      });
+
+      const exportFile = path.join(tempDir, 'translated-symbols.csv');
+      const result = await csvService.exportSymbols({ filePath: exportFile });
+
+      expect(result.success).toBe(true);
+      const [header, row] = fs.readFileSync(exportFile, 'utf-8').split('\n');
+      expect(header).toBe(
+        'id,name,category,description,interpretations,related_symbols,properties,tags,' +
+          'name_de,description_de,interpretations_de,name_es,description_es,interpretations_es'
+      );
+      expect(row).toContain('Fluss,,,Río,,"{""dream"":""Cambio""}"');
     });
 
     it('should export symbols filtered by category', async () => {
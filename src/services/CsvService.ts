@@ -3,19 +3,30 @@ import path from 'path';
 import csv from 'csv-parser';
 import * as createCsvWriter from 'csv-writer';
 import { z } from 'zod';
-import type { Symbol } from '@/types/Symbol.js';
+import type { Symbol, SymbolTranslation } from '@/types/Symbol.js';
 import type { IDatabase } from '@/database/Database.js';
+import { normalizeLocale } from '@/database/locales.js';
+import { describeViolations } from '@/database/propertySchemas.js';
+import { PropertySchemaService } from '@/services/PropertySchemaService.js';
 
 /**
  * CSV format for symbols:
- * id,name,category,description,interpretations,related_symbols,properties
+ * id,name,category,description,interpretations,related_symbols,properties,tags
  * 
  * Where:
  * - interpretations: JSON string of key-value pairs
  * - related_symbols: comma-separated list of IDs (within quotes if needed)
  * - properties: JSON string of arbitrary data
+ * - tags: comma-separated list of tags (optional column)
+ * - name_<locale>, description_<locale>, interpretations_<locale>: translations
+ *   for a locale such as es or es-MX (optional columns, interpretations as JSON)
  */
 
+/**
+ * Header of a translation column, capturing the field and the locale
+ */
+const LOCALE_COLUMN = /^(name|description|interpretations)_([a-zA-Z]{2,3}(?:[-_][a-zA-Z0-9]{2,8})*)$/;
+
 /**
  * Zod schema for validating CSV symbol data
  */
@@ -44,8 +55,42 @@ const CsvSymbolSchema = z.object({
       throw new Error('Invalid JSON format in properties field');
     }
   }),
+  tags: z.string().optional().transform((str) => {
+    if (!str || str.trim() === '') {
+      return [];
+    }
+    return str.split(',').map(s => s.trim()).filter(s => s.length > 0);
+  }),
 });
 
+/**
+ * Translations from a row's locale columns, ignoring empty cells
+ */
+function parseTranslations(row: Record<string, unknown>): Record<string, SymbolTranslation> {
+  const translations: Record<string, SymbolTranslation> = {};
+
+  for (const [column, value] of Object.entries(row)) {
+    const match = LOCALE_COLUMN.exec(column);
+    if (!match || typeof value !== 'string' || value.trim() === '') {
+      continue;
+    }
+
+    const field = match[1] as keyof SymbolTranslation;
+    const translation = (translations[normalizeLocale(match[2] ?? '')] ??= {});
+    if (field === 'interpretations') {
+      try {
+        translation.interpretations = JSON.parse(value) as Record<string, string>;
+      } catch {
+        throw new Error(`Invalid JSON format in ${column} field`);
+      }
+    } else {
+      translation[field] = value;
+    }
+  }
+
+  return translations;
+}
+
 /**
  * CSV import/export statistics
  */
@@ -100,7 +145,11 @@ export interface ExportOptions {
  * Service for handling CSV import/export operations
  */
 export class CsvService {
-  constructor(private database: IDatabase) {}
+  private readonly propertySchemaService: PropertySchemaService;
+
+  constructor(private database: IDatabase) {
+    this.propertySchemaService = new PropertySchemaService(database);
+  }
 
   /**
    * Import symbols from CSV file
@@ -183,6 +232,22 @@ export class CsvService {
                 console.log(`Note: Skipping relation validation for ${validatedData.id}`);
               }
 
+              // Check properties against the category's property schema
+              const propertyCheck = await this.propertySchemaService.check(
+                validatedData.category,
+                validatedData.properties
+              );
+              if (!propertyCheck.success || (propertyCheck.data && propertyCheck.data.length > 0)) {
+                result.errors.push({
+                  row: symbolData._rowNumber,
+                  error: propertyCheck.data
+                    ? describeViolations(propertyCheck.data)
+                    : propertyCheck.error?.message ?? 'Failed to check property schema',
+                  data: symbolData,
+                });
+                continue;
+              }
+
               // Create symbol
               const createResult = await this.database.createSymbol({
                 id: validatedData.id,
@@ -192,6 +257,10 @@ export class CsvService {
                 interpretations: validatedData.interpretations,
                 related_symbols: validatedData.related_symbols,
                 properties: validatedData.properties,
+                tags: validatedData.tags,
+                translations: parseTranslations(symbolData),
+                origin: 'import',
+                provenance: `csv:${path.basename(filePath)}`,
               });
 
               if (createResult.success) {
@@ -279,6 +348,14 @@ export class CsvService {
         fs.mkdirSync(dir, { recursive: true });
       }
 
+      // One group of translation columns per locale any symbol is translated into
+      const locales = Array.from(
+        new Set(symbols.flatMap((symbol) => Object.keys(symbol.translations ?? {})))
+      ).sort();
+      const localeColumns = locales.flatMap((locale) =>
+        ['name', 'description', 'interpretations'].map((field) => `${field}_${locale}`)
+      );
+
       // Create CSV writer
       const csvWriter = createCsvWriter.createObjectCsvWriter({
         path: filePath,
@@ -290,6 +367,8 @@ export class CsvService {
           { id: 'interpretations', title: 'interpretations' },
           { id: 'related_symbols', title: 'related_symbols' },
           { id: 'properties', title: 'properties' },
+          { id: 'tags', title: 'tags' },
+          ...localeColumns.map((column) => ({ id: column, title: column })),
         ],
       });
 
@@ -307,6 +386,20 @@ export class CsvService {
           interpretations: JSON.stringify(symbol.interpretations),
           related_symbols: symbol.related_symbols.join(', '),
           properties: JSON.stringify(symbol.properties),
+          tags: (symbol.tags ?? []).join(', '),
+          ...Object.fromEntries(
+            locales.flatMap((locale) => {
+              const translation = symbol.translations?.[locale];
+              return [
+                [`name_${locale}`, translation?.name ?? ''],
+                [`description_${locale}`, translation?.description ?? ''],
+                [
+                  `interpretations_${locale}`,
+                  translation?.interpretations ? JSON.stringify(translation.interpretations) : '',
+                ],
+              ];
+            })
+          ),
         };
       });
 
@@ -343,6 +436,10 @@ export class CsvService {
           interpretations: '{"philosophical": "Example meaning", "spiritual": "Example significance"}',
           related_symbols: 'sample_symbol_2, sample_symbol_3',
           properties: '{"complexity": "low", "origin": "modern"}',
+          tags: 'example, modern',
+          name_es: 'Símbolo de ejemplo',
+          description_es: 'Un símbolo de ejemplo para demostración',
+          interpretations_es: '{"philosophical": "Significado de ejemplo"}',
         },
         {
           id: 'sample_symbol_2', 
@@ -352,6 +449,10 @@ export class CsvService {
           interpretations: '{"mathematical": "Some formula", "cultural": "Cultural meaning"}',
           related_symbols: 'sample_symbol_1',
           properties: '{"verified": true, "year": 2024}',
+          tags: 'example',
+          name_es: '',
+          description_es: '',
+          interpretations_es: '',
         },
       ];
 
@@ -365,6 +466,10 @@ export class CsvService {
           { id: 'interpretations', title: 'interpretations' },
           { id: 'related_symbols', title: 'related_symbols' },
           { id: 'properties', title: 'properties' },
+          { id: 'tags', title: 'tags' },
+          { id: 'name_es', title: 'name_es' },
+          { id: 'description_es', title: 'description_es' },
+          { id: 'interpretations_es', title: 'interpretations_es' },
         ],
       });
 
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { GraphService } from './GraphService.js';
+
+describe('GraphService', () => {
+  let database: DemoDatabase;
+  let graphService: GraphService;
+
+  beforeEach(() => {
+    database = new DemoDatabase();
+    graphService = new GraphService(database);
+  });
+
+  describe('traverse', () => {
+    it('should follow outgoing links up to the max depth', async () => {
+      const result = await graphService.traverse('labyrinth', { maxDepth: 1 });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.root_id).toBe('labyrinth');
+      expect(result.data?.nodes.map((node) => node.id)).toEqual([
+        'labyrinth',
+        'key',
+        'threshold',
+      ]);
+      expect(result.data?.edges).toHaveLength(2);
+    });
+
+    it('should start from the symbol an alias resolves to', async () => {
+      const result = await graphService.traverse('maze', { maxDepth: 1 });
+
+      expect(result.data?.root_id).toBe('labyrinth');
+      expect(result.data?.nodes.map((node) => node.id)).toEqual([
+        'labyrinth',
+        'key',
+        'threshold',
+      ]);
+      expect(result.data?.edges).toHaveLength(2);
+    });
+
+    it('should mark referenced symbols that do not exist as missing', async () => {
+      const result = await graphService.traverse('labyrinth', { maxDepth: 1 });
+
+      const threshold = result.data?.nodes.find((node) => node.id === 'threshold');
+      expect(threshold?.missing).toBe(true);
+      expect(threshold?.depth).toBe(1);
+    });
+
+    it('should reach further symbols at greater depth', async () => {
+      const result = await graphService.traverse('labyrinth', { maxDepth: 2 });
+
+      const door = result.data?.nodes.find((node) => node.id === 'door');
+      expect(door?.depth).toBe(2);
+      // The key -> labyrinth back-link is kept as an edge without a new node
+      expect(result.data?.edges.some(
+        (edge) => edge.source_id === 'key' && edge.target_id === 'labyrinth'
+      )).toBe(true);
+    });
+
+    it('should follow incoming links when asked', async () => {
+      const result = await graphService.traverse('ouroboros', {
+        maxDepth: 1,
+        direction: 'incoming',
+      });
+
+      expect(result.data?.nodes.map((node) => node.id).sort()).toEqual([
+        'infinity',
+        'mandala',
+        'ouroboros',
+      ]);
+    });
+
+    it('should filter by relation type and category', async () => {
+      await database.createRelationship({
+        source_id: 'mirror',
+        target_id: 'river',
+        relation_type: 'opposes',
+        weight: null,
+        note: null,
+      });
+
+      const byType = await graphService.traverse('mirror', {
+        relationTypes: ['opposes'],
+      });
+      expect(byType.data?.nodes.map((node) => node.id)).toEqual(['mirror', 'river']);
+
+      const byCategory = await graphService.traverse('ouroboros', {
+        categories: ['Wholeness'],
+      });
+      expect(byCategory.data?.nodes.map((node) => node.id)).toEqual([
+        'ouroboros',
+        'mandala',
+      ]);
+    });
+
+    it('should stop at the node limit and report truncation', async () => {
+      const result = await graphService.traverse('labyrinth', { maxNodes: 2 });
+
+      expect(result.data?.nodes).toHaveLength(2);
+      expect(result.data?.truncated).toBe(true);
+    });
+
+    it('should fail for an unknown start symbol', async () => {
+      const result = await graphService.traverse('missing');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('not found');
+    });
+  });
+
+  describe('findPaths', () => {
+    it('should find the shortest path with the interpretations behind each hop', async () => {
+      const result = await graphService.findPaths('ouroboros', 'mandala');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.connected).toBe(true);
+      const path = result.data?.paths[0];
+      expect(path?.length).toBe(1);
+      expect(path?.hops[0]?.from.id).toBe('ouroboros');
+      expect(path?.hops[0]?.to.id).toBe('mandala');
+      expect(path?.hops[0]?.reversed).toBe(false);
+      expect(path?.hops[0]?.shared_contexts).toEqual(['dream']);
+      expect(path?.hops[0]?.to.interpretations).toHaveProperty('ritual');
+    });
+
+    it('should resolve aliases at either end', async () => {
+      const result = await graphService.findPaths('Uroboros', 'serpent eating its tail');
+      const between = await graphService.findPaths('maze', 'key');
+
+      expect(result.data).toMatchObject({ from_id: 'ouroboros', to_id: 'ouroboros', connected: true });
+      expect(between.data?.from_id).toBe('labyrinth');
+      expect(between.data?.paths[0]?.hops.map((hop) => hop.to.id)).toEqual(['key']);
+    });
+
+    it('should connect symbols through intermediate hops', async () => {
+      await database.createRelationship({
+        source_id: 'key',
+        target_id: 'mirror',
+        relation_type: 'aspect_of',
+        weight: 0.5,
+        note: 'Both reveal what is hidden',
+      });
+
+      const result = await graphService.findPaths('labyrinth', 'mirror');
+
+      const path = result.data?.paths[0];
+      expect(path?.hops.map((hop) => hop.to.id)).toEqual(['key', 'mirror']);
+      expect(path?.hops[1]?.relation_type).toBe('aspect_of');
+      expect(path?.hops[1]?.note).toBe('Both reveal what is hidden');
+    });
+
+    it('should walk links backwards unless restricted to outgoing', async () => {
+      await database.createRelationship({
+        source_id: 'mirror',
+        target_id: 'river',
+        relation_type: 'complements',
+        weight: null,
+        note: null,
+      });
+
+      const both = await graphService.findPaths('river', 'mirror');
+      expect(both.data?.paths[0]?.hops[0]?.reversed).toBe(true);
+
+      const outgoing = await graphService.findPaths('river', 'mirror', {
+        direction: 'outgoing',
+      });
+      expect(outgoing.data?.connected).toBe(false);
+      expect(outgoing.data?.paths).toEqual([]);
+    });
+
+    it('should respect the hop limit', async () => {
+      const result = await graphService.findPaths('labyrinth', 'river', { maxHops: 3 });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.connected).toBe(false);
+    });
+
+    it('should fail when either symbol does not exist', async () => {
+      const result = await graphService.findPaths('labyrinth', 'shadow');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('"shadow" not found');
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import type { IDatabase } from '@/database/Database.js';
+import { localizeSymbol } from '@/database/locales.js';
+import type {
+  QueryResult,
+  RelationshipDirection,
+  RelationType,
+  Symbol,
+  SymbolGraph,
+  SymbolGraphEdge,
+  SymbolGraphNode,
+  SymbolPath,
+  SymbolPathNode,
+  SymbolPathResult,
+  SymbolRelationship,
+} from '@/types/Symbol.js';
+
+/**
+ * Options for traversing the symbol relationship graph
+ */
+export interface TraversalOptions {
+  /** Maximum number of hops from the start symbol (default: 2) */
+  maxDepth?: number;
+  /** Which relationships to follow from each symbol (default: outgoing) */
+  direction?: RelationshipDirection;
+  /** Only follow relationships of these types */
+  relationTypes?: RelationType[];
+  /** Only include symbols in these categories (the start symbol is always included) */
+  categories?: string[];
+  /** Stop once this many nodes have been collected (default: 100) */
+  maxNodes?: number;
+  /** Locale for symbol names and descriptions */
+  locale?: string;
+}
+
+/**
+ * Options for finding paths between two symbols
+ */
+export interface PathOptions {
+  /** Maximum number of hops a path may take (default: 4) */
+  maxHops?: number;
+  /** Which way relationships may be walked (default: both) */
+  direction?: RelationshipDirection;
+  /** Only walk relationships of these types */
+  relationTypes?: RelationType[];
+  /** Maximum number of equally short paths to return (default: 3) */
+  maxPaths?: number;
+  /** Locale for symbol names and interpretations */
+  locale?: string;
+}
+
+/**
+ * One shortest way a symbol was reached during a path search
+ */
+interface PathLink {
+  fromId: string;
+  relationship: SymbolRelationship;
+  reversed: boolean;
+}
+
+function localizeIf(symbol: Symbol, locale: string | undefined): Symbol {
+  return locale ? localizeSymbol(symbol, locale) : symbol;
+}
+
+function toPathNode(symbol: Symbol): SymbolPathNode {
+  return {
+    id: symbol.id,
+    name: symbol.name,
+    category: symbol.category,
+    interpretations: symbol.interpretations,
+  };
+}
+
+function toNode(id: string, symbol: Symbol | undefined, depth: number): SymbolGraphNode {
+  return {
+    id,
+    name: symbol?.name ?? null,
+    category: symbol?.category ?? null,
+    description: symbol?.description ?? null,
+    depth,
+    missing: symbol === undefined,
+  };
+}
+
+function toEdge(relationship: SymbolRelationship): SymbolGraphEdge {
+  return {
+    id: relationship.id,
+    source_id: relationship.source_id,
+    target_id: relationship.target_id,
+    relation_type: relationship.relation_type,
+    weight: relationship.weight,
+  };
+}
+
+/**
+ * Service for exploring the symbol relationship graph.
+ * Walks the graph breadth-first, issuing one neighborhood query per level.
+ */
+export class GraphService {
+  constructor(private database: IDatabase) {}
+
+  /**
+   * Collect the subgraph reachable from a start symbol
+   */
+  async traverse(startId: string, options: TraversalOptions = {}): Promise<QueryResult<SymbolGraph>> {
+    const {
+      maxDepth = 2,
+      direction = 'outgoing',
+      relationTypes,
+      maxNodes = 100,
+      locale,
+    } = options;
+    const categories = options.categories?.map((category) => category.toLowerCase());
+
+    const rootResult = await this.database.getSymbol(startId);
+    if (!rootResult.success) {
+      return { success: false, error: rootResult.error ?? new Error('Failed to get symbol') };
+    }
+    if (!rootResult.data) {
+      return { success: false, error: new Error(`Symbol with ID "${startId}" not found`) };
+    }
+
+    // Start from the canonical ID when given an alias
+    const rootId = rootResult.data.id;
+    const nodes = new Map<string, SymbolGraphNode>([
+      [rootId, toNode(rootId, localizeIf(rootResult.data, locale), 0)],
+    ]);
+    const edges = new Map<string, SymbolGraphEdge>();
+    let frontier = [rootId];
+    let truncated = false;
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const neighborhood = await this.database.getNeighborhood(frontier, {
+        direction,
+        ...(relationTypes && { relationTypes }),
+      });
+      if (!neighborhood.success || !neighborhood.data) {
+        return { success: false, error: neighborhood.error ?? new Error('Failed to load neighborhood') };
+      }
+
+      const symbolsById = new Map(neighborhood.data.symbols.map((symbol) => [symbol.id, symbol]));
+      const current = new Set(frontier);
+      const next: string[] = [];
+
+      for (const relationship of neighborhood.data.relationships) {
+        const neighbors: string[] = [];
+        if (direction !== 'incoming' && current.has(relationship.source_id)) {
+          neighbors.push(relationship.target_id);
+        }
+        if (direction !== 'outgoing' && current.has(relationship.target_id)) {
+          neighbors.push(relationship.source_id);
+        }
+
+        for (const neighborId of neighbors) {
+          if (!nodes.has(neighborId)) {
+            const symbol = symbolsById.get(neighborId);
+
+            if (categories && !categories.includes(symbol?.category?.toLowerCase() ?? '')) {
+              continue;
+            }
+            if (nodes.size >= maxNodes) {
+              truncated = true;
+              continue;
+            }
+
+            nodes.set(neighborId, toNode(neighborId, symbol && localizeIf(symbol, locale), depth));
+            if (symbol) {
+              next.push(neighborId);
+            }
+          }
+
+          edges.set(relationship.id, toEdge(relationship));
+        }
+      }
+
+      frontier = next;
+    }
+
+    return {
+      success: true,
+      data: {
+        root_id: rootId,
+        nodes: Array.from(nodes.values()),
+        edges: Array.from(edges.values()),
+        truncated,
+      },
+    };
+  }
+
+  /**
+   * Find the shortest paths between two symbols, explaining every hop
+   */
+  async findPaths(fromId: string, toId: string, options: PathOptions = {}): Promise<QueryResult<SymbolPathResult>> {
+    const {
+      maxHops = 4,
+      direction = 'both',
+      relationTypes,
+      maxPaths = 3,
+      locale,
+    } = options;
+
+    // Search between canonical IDs when given aliases
+    const symbols = new Map<string, Symbol>();
+    const ends: string[] = [];
+    for (const id of [fromId, toId]) {
+      const result = await this.database.getSymbol(id);
+      if (!result.success) {
+        return { success: false, error: result.error ?? new Error('Failed to get symbol') };
+      }
+      if (!result.data) {
+        return { success: false, error: new Error(`Symbol with ID "${id}" not found`) };
+      }
+      symbols.set(result.data.id, result.data);
+      ends.push(result.data.id);
+    }
+    const [startId, endId] = ends as [string, string];
+
+    // Breadth-first search that remembers every shortest way into each symbol
+    const parents = new Map<string, PathLink[]>();
+    const visited = new Set([startId]);
+    let frontier = [startId];
+    let found = startId === endId;
+
+    for (let hop = 1; hop <= maxHops && !found && frontier.length > 0; hop++) {
+      const neighborhood = await this.database.getNeighborhood(frontier, {
+        direction,
+        ...(relationTypes && { relationTypes }),
+      });
+      if (!neighborhood.success || !neighborhood.data) {
+        return { success: false, error: neighborhood.error ?? new Error('Failed to load neighborhood') };
+      }
+
+      for (const symbol of neighborhood.data.symbols) {
+        symbols.set(symbol.id, symbol);
+      }
+
+      const current = new Set(frontier);
+      const discovered = new Set<string>();
+
+      for (const relationship of neighborhood.data.relationships) {
+        const links: Array<{ nodeId: string; link: PathLink }> = [];
+        if (direction !== 'incoming' && current.has(relationship.source_id)) {
+          links.push({
+            nodeId: relationship.target_id,
+            link: { fromId: relationship.source_id, relationship, reversed: false },
+          });
+        }
+        if (direction !== 'outgoing' && current.has(relationship.target_id)) {
+          links.push({
+            nodeId: relationship.source_id,
+            link: { fromId: relationship.target_id, relationship, reversed: true },
+          });
+        }
+
+        for (const { nodeId, link } of links) {
+          // Skip symbols reached on an earlier level and references to missing symbols
+          if ((visited.has(nodeId) && !discovered.has(nodeId)) || !symbols.has(nodeId)) {
+            continue;
+          }
+
+          discovered.add(nodeId);
+          const existing = parents.get(nodeId) ?? [];
+          const duplicate = existing.findIndex(
+            (item) =>
+              item.fromId === link.fromId &&
+              item.relationship.relation_type === link.relationship.relation_type
+          );
+          if (duplicate === -1) {
+            existing.push(link);
+          } else if (existing[duplicate]?.reversed && !link.reversed) {
+            // Prefer describing a mutual link in its forward direction
+            existing[duplicate] = link;
+          }
+          parents.set(nodeId, existing);
+        }
+      }
+
+      for (const nodeId of discovered) {
+        visited.add(nodeId);
+      }
+      found = discovered.has(endId);
+      frontier = Array.from(discovered);
+    }
+
+    const linkPaths: PathLink[][] = [];
+    const walk = (nodeId: string, suffix: PathLink[]): void => {
+      if (linkPaths.length >= maxPaths) {
+        return;
+      }
+      if (nodeId === startId) {
+        linkPaths.push(suffix);
+        return;
+      }
+      for (const link of parents.get(nodeId) ?? []) {
+        walk(link.fromId, [link, ...suffix]);
+      }
+    };
+    if (found) {
+      walk(endId, []);
+    }
+
+    const paths: SymbolPath[] = linkPaths.map((links) => {
+      let previousId = startId;
+      const hops = links.map((link) => {
+        const nextId = link.reversed ? link.relationship.source_id : link.relationship.target_id;
+        const from = symbols.get(previousId) as Symbol;
+        const to = symbols.get(nextId) as Symbol;
+        previousId = nextId;
+
+        return {
+          from: toPathNode(localizeIf(from, locale)),
+          to: toPathNode(localizeIf(to, locale)),
+          relation_type: link.relationship.relation_type,
+          reversed: link.reversed,
+          weight: link.relationship.weight,
+          note: link.relationship.note,
+          shared_contexts: Object.keys(from.interpretations).filter(
+            (context) => context in to.interpretations
+          ),
+        };
+      });
+
+      return { length: hops.length, hops };
+    });
+
+    return {
+      success: true,
+      data: {
+        from_id: startId,
+        to_id: endId,
+        connected: found,
+        paths,
+      },
+    };
+  }
+}
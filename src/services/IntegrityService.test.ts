@@ -0,0 +1,229 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { IntegrityService } from './IntegrityService.js';
+
+describe('IntegrityService', () => {
+  let database: DemoDatabase;
+  let integrityService: IntegrityService;
+
+  beforeEach(() => {
+    database = new DemoDatabase();
+    integrityService = new IntegrityService(database);
+  });
+
+  describe('validate', () => {
+    it('should report related symbols that do not exist', async () => {
+      const result = await integrityService.validate({ checks: ['dangling_related_symbol'] });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.summary.errors).toBe(8);
+      expect(result.data?.issues).toContainEqual(
+        expect.objectContaining({
+          type: 'dangling_related_symbol',
+          severity: 'error',
+          entity_id: 'labyrinth',
+          reference: 'threshold',
+          fixable: true,
+          fixed: false,
+        })
+      );
+    });
+
+    it('should report set members that do not exist', async () => {
+      await database.updateSymbolSet('dream-journey', {
+        symbols: { labyrinth: 1.0, phoenix: 0.5 },
+      });
+
+      const result = await integrityService.validate({ checks: ['missing_set_member'] });
+
+      expect(result.data?.issues).toEqual([
+        expect.objectContaining({
+          type: 'missing_set_member',
+          entity: 'symbol_set',
+          entity_id: 'dream-journey',
+          reference: 'phoenix',
+        }),
+      ]);
+    });
+
+    it('should report symmetric links that have no reverse link', async () => {
+      await database.createRelationship({
+        source_id: 'mirror',
+        target_id: 'river',
+        relation_type: 'complements',
+        weight: null,
+        note: null,
+      });
+      await database.createRelationship({
+        source_id: 'key',
+        target_id: 'labyrinth',
+        relation_type: 'aspect_of',
+        weight: null,
+        note: null,
+      });
+
+      const result = await integrityService.validate({ checks: ['one_way_link'] });
+
+      expect(result.data?.issues).toEqual([
+        expect.objectContaining({
+          type: 'one_way_link',
+          severity: 'warning',
+          entity_id: 'mirror',
+          reference: 'river',
+        }),
+      ]);
+    });
+
+    it('should not report categories the taxonomy declares and symbols use', async () => {
+      const result = await integrityService.validate({ checks: ['orphan_category'] });
+
+      expect(result.data?.issues).toEqual([]);
+    });
+
+    it('should report categories used but not declared', async () => {
+      await database.updateSymbol('key', { category: 'mythic' });
+      await database.updateSymbol('river', { category: 'Flow' });
+
+      const result = await integrityService.validate({ checks: ['orphan_category'] });
+
+      expect(result.data?.issues).toEqual([
+        expect.objectContaining({
+          type: 'orphan_category',
+          severity: 'info',
+          entity: 'category',
+          entity_id: 'mythic',
+        }),
+        expect.objectContaining({ entity_id: 'access' }),
+      ]);
+    });
+
+    it('should report declared categories nothing uses', async () => {
+      await database.createCategory({
+        id: 'ritual',
+        parent_id: 'passage',
+        description: null,
+        display_order: 4,
+      });
+
+      const result = await integrityService.validate({ checks: ['orphan_category'] });
+
+      expect(result.data?.issues).toEqual([
+        expect.objectContaining({
+          type: 'orphan_category',
+          entity_id: 'ritual',
+          message: 'Category "ritual" is declared but no symbol or symbol set uses it',
+        }),
+      ]);
+    });
+
+    it('should report empty descriptions', async () => {
+      await database.updateSymbol('key', { description: '   ' });
+
+      const result = await integrityService.validate({ checks: ['empty_description'] });
+
+      expect(result.data?.issues).toEqual([
+        expect.objectContaining({
+          type: 'empty_description',
+          entity: 'symbol',
+          entity_id: 'key',
+          fixable: false,
+        }),
+      ]);
+    });
+
+    it('should report symbols whose properties break their category schema', async () => {
+      await database.updateSymbol('ouroboros', {
+        properties: { origin: 'ancient_egypt', polarity: 'dual', color: 'green' },
+      });
+
+      const result = await integrityService.validate({ checks: ['property_schema_violation'] });
+
+      expect(result.data?.summary.errors).toBe(2);
+      expect(result.data?.issues).toEqual([
+        expect.objectContaining({
+          type: 'property_schema_violation',
+          entity: 'symbol',
+          entity_id: 'ouroboros',
+          reference: 'origin',
+          fixable: false,
+        }),
+        expect.objectContaining({
+          entity_id: 'ouroboros',
+          reference: 'color',
+        }),
+      ]);
+    });
+
+    it('should check properties against the schema whatever the category case', async () => {
+      await database.updateSymbol('ouroboros', {
+        category: 'Transformation',
+        properties: { polarity: 'dual' },
+      });
+
+      const result = await integrityService.validate({ checks: ['property_schema_violation'] });
+
+      expect(result.data?.issues).toEqual([
+        expect.objectContaining({ entity_id: 'ouroboros', reference: 'origin' }),
+      ]);
+    });
+
+    it('should not change anything without fix mode', async () => {
+      await integrityService.validate();
+
+      const labyrinth = await database.getSymbol('labyrinth');
+      expect(labyrinth.data?.related_symbols).toContain('threshold');
+    });
+  });
+
+  describe('fix mode', () => {
+    it('should remove dangling references and missing set members', async () => {
+      await database.updateSymbolSet('dream-journey', {
+        symbols: { labyrinth: 1.0, phoenix: 0.5 },
+      });
+
+      const result = await integrityService.validate({ fix: true });
+
+      expect(result.data?.fix_applied).toBe(true);
+      expect(result.data?.summary.fixed).toBe(9);
+
+      const labyrinth = await database.getSymbol('labyrinth');
+      expect(labyrinth.data?.related_symbols).toEqual(['key']);
+
+      const sets = await database.getSymbolSets();
+      const dreamJourney = sets.data?.find((set) => set.id === 'dream-journey');
+      expect(dreamJourney?.symbols).toEqual({ labyrinth: 1.0 });
+
+      const recheck = await integrityService.validate();
+      expect(recheck.data?.summary.errors).toBe(0);
+    });
+
+    it('should add the missing reverse link', async () => {
+      await database.createRelationship({
+        source_id: 'mirror',
+        target_id: 'river',
+        relation_type: 'complements',
+        weight: 0.4,
+        note: null,
+      });
+
+      const result = await integrityService.validate({ fix: true, checks: ['one_way_link'] });
+
+      expect(result.data?.summary.fixed).toBe(1);
+      const reverse = await database.getRelationships({
+        symbolId: 'river',
+        direction: 'outgoing',
+        relationType: 'complements',
+      });
+      expect(reverse.data).toEqual([
+        expect.objectContaining({ target_id: 'mirror', weight: 0.4 }),
+      ]);
+    });
+
+    it('should leave issues it cannot repair unfixed', async () => {
+      const result = await integrityService.validate({ fix: true, checks: ['orphan_category'] });
+
+      expect(result.data?.summary.fixed).toBe(0);
+      expect(result.data?.issues.every((issue) => !issue.fixed)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import type { IDatabase } from '@/database/Database.js';
+import { findPropertySchema, validateProperties } from '@/database/propertySchemas.js';
+import {
+  INTEGRITY_CHECKS,
+  SYMMETRIC_RELATION_TYPES,
+  type CategoryTreeNode,
+  type IntegrityCheck,
+  type IntegrityIssue,
+  type IntegrityReport,
+  type QueryResult,
+  type Symbol,
+  type SymbolRelationship,
+  type SymbolSet,
+} from '@/types/Symbol.js';
+
+/**
+ * Options for validating the ontology
+ */
+export interface ValidationOptions {
+  /** Repair fixable issues instead of only reporting them */
+  fix?: boolean;
+  /** Only run these checks (default: all) */
+  checks?: IntegrityCheck[];
+}
+
+/**
+ * Upper bound on records loaded for a full scan
+ */
+const SCAN_LIMIT = 10000;
+
+/**
+ * Service for checking the ontology for broken references and gaps.
+ * Loads every symbol, set and relationship once and cross-checks them in memory.
+ */
+export class IntegrityService {
+  constructor(private database: IDatabase) {}
+
+  /**
+   * Scan the ontology and optionally repair what can be repaired automatically
+   */
+  async validate(options: ValidationOptions = {}): Promise<QueryResult<IntegrityReport>> {
+    const { fix = false } = options;
+    const checks = new Set(options.checks ?? INTEGRITY_CHECKS);
+
+    const [symbolsResult, setsResult, relationshipsResult] = await Promise.all([
+      this.database.getSymbols({ limit: SCAN_LIMIT }),
+      this.database.getSymbolSets({ limit: SCAN_LIMIT }),
+      this.database.getRelationships({ limit: SCAN_LIMIT }),
+    ]);
+    if (!symbolsResult.success || !symbolsResult.data) {
+      return { success: false, error: symbolsResult.error ?? new Error('Failed to load symbols') };
+    }
+    if (!setsResult.success || !setsResult.data) {
+      return { success: false, error: setsResult.error ?? new Error('Failed to load symbol sets') };
+    }
+    if (!relationshipsResult.success || !relationshipsResult.data) {
+      return {
+        success: false,
+        error: relationshipsResult.error ?? new Error('Failed to load relationships'),
+      };
+    }
+
+    const symbols = symbolsResult.data;
+    const symbolSets = setsResult.data;
+    const relationships = relationshipsResult.data;
+    const symbolIds = new Set(symbols.map((symbol) => symbol.id));
+    const issues: IntegrityIssue[] = [];
+    // One-way links and the relationship each would be repaired from
+    const oneWayLinks = new Map<IntegrityIssue, SymbolRelationship>();
+
+    if (checks.has('dangling_related_symbol')) {
+      for (const symbol of symbols) {
+        for (const relatedId of symbol.related_symbols) {
+          if (!symbolIds.has(relatedId)) {
+            issues.push({
+              type: 'dangling_related_symbol',
+              severity: 'error',
+              entity: 'symbol',
+              entity_id: symbol.id,
+              reference: relatedId,
+              message: `Symbol "${symbol.id}" is related to missing symbol "${relatedId}"`,
+              fixable: true,
+              fixed: false,
+            });
+          }
+        }
+      }
+    }
+
+    if (checks.has('missing_set_member')) {
+      for (const symbolSet of symbolSets) {
+        for (const memberId of Object.keys(symbolSet.symbols)) {
+          if (!symbolIds.has(memberId)) {
+            issues.push({
+              type: 'missing_set_member',
+              severity: 'error',
+              entity: 'symbol_set',
+              entity_id: symbolSet.id,
+              reference: memberId,
+              message: `Symbol set "${symbolSet.id}" contains missing symbol "${memberId}"`,
+              fixable: true,
+              fixed: false,
+            });
+          }
+        }
+      }
+    }
+
+    if (checks.has('one_way_link')) {
+      const linkKeys = new Set(
+        relationships.map((rel) => `${rel.source_id}\u0000${rel.target_id}\u0000${rel.relation_type}`)
+      );
+      for (const rel of relationships) {
+        if (!SYMMETRIC_RELATION_TYPES.includes(rel.relation_type) || !symbolIds.has(rel.target_id)) {
+          continue;
+        }
+        if (!linkKeys.has(`${rel.target_id}\u0000${rel.source_id}\u0000${rel.relation_type}`)) {
+          const issue: IntegrityIssue = {
+            type: 'one_way_link',
+            severity: 'warning',
+            entity: 'symbol',
+            entity_id: rel.source_id,
+            reference: rel.target_id,
+            message: `Symbol "${rel.source_id}" ${rel.relation_type === 'related' ? 'is related to' : rel.relation_type} "${rel.target_id}" but not the other way round`,
+            fixable: true,
+            fixed: false,
+          };
+          issues.push(issue);
+          oneWayLinks.set(issue, rel);
+        }
+      }
+    }
+
+    if (checks.has('orphan_category')) {
+      const treeResult = await this.database.getCategoryTree();
+      if (!treeResult.success || !treeResult.data) {
+        return { success: false, error: treeResult.error ?? new Error('Failed to load categories') };
+      }
+
+      // Categories match ignoring case, as in category filters
+      const usedCategories = new Map<string, string>();
+      for (const item of [...symbols, ...symbolSets]) {
+        if (item.category && !usedCategories.has(item.category.toLowerCase())) {
+          usedCategories.set(item.category.toLowerCase(), item.category);
+        }
+      }
+      const declaredCategories = new Set<string>();
+      const unusedCategories: string[] = [];
+      // A declared category is in use when it or one of its descendants is
+      const visit = (node: CategoryTreeNode): boolean => {
+        declaredCategories.add(node.id.toLowerCase());
+        const childrenUsed = node.children.map(visit).some(Boolean);
+        const used = childrenUsed || usedCategories.has(node.id.toLowerCase());
+        if (!used) {
+          unusedCategories.push(node.id);
+        }
+        return used;
+      };
+      treeResult.data.forEach(visit);
+
+      for (const [key, category] of usedCategories) {
+        if (!declaredCategories.has(key)) {
+          issues.push({
+            type: 'orphan_category',
+            severity: 'info',
+            entity: 'category',
+            entity_id: category,
+            message: `Category "${category}" is used but not declared in the taxonomy`,
+            fixable: false,
+            fixed: false,
+          });
+        }
+      }
+      for (const category of unusedCategories) {
+        issues.push({
+          type: 'orphan_category',
+          severity: 'info',
+          entity: 'category',
+          entity_id: category,
+          message: `Category "${category}" is declared but no symbol or symbol set uses it`,
+          fixable: false,
+          fixed: false,
+        });
+      }
+    }
+
+    if (checks.has('empty_description')) {
+      for (const symbol of symbols) {
+        if (!symbol.description?.trim()) {
+          issues.push({
+            type: 'empty_description',
+            severity: 'warning',
+            entity: 'symbol',
+            entity_id: symbol.id,
+            message: `Symbol "${symbol.id}" has no description`,
+            fixable: false,
+            fixed: false,
+          });
+        }
+      }
+      for (const symbolSet of symbolSets) {
+        if (!symbolSet.description?.trim()) {
+          issues.push({
+            type: 'empty_description',
+            severity: 'warning',
+            entity: 'symbol_set',
+            entity_id: symbolSet.id,
+            message: `Symbol set "${symbolSet.id}" has no description`,
+            fixable: false,
+            fixed: false,
+          });
+        }
+      }
+    }
+
+    if (checks.has('property_schema_violation')) {
+      const schemasResult = await this.database.getPropertySchemas();
+      if (!schemasResult.success || !schemasResult.data) {
+        return { success: false, error: schemasResult.error ?? new Error('Failed to load property schemas') };
+      }
+
+      for (const symbol of symbols) {
+        const schema = symbol.category
+          ? findPropertySchema(schemasResult.data, symbol.category)
+          : undefined;
+        if (!schema) {
+          continue;
+        }
+        for (const violation of validateProperties(schema, symbol.properties)) {
+          issues.push({
+            type: 'property_schema_violation',
+            severity: 'error',
+            entity: 'symbol',
+            entity_id: symbol.id,
+            reference: violation.property,
+            message: `Symbol "${symbol.id}" property ${violation.message}`,
+            fixable: false,
+            fixed: false,
+          });
+        }
+      }
+    }
+
+    if (fix) {
+      const fixResult = await this.applyFixes(issues, symbols, symbolSets, oneWayLinks);
+      if (!fixResult.success) {
+        return { success: false, error: fixResult.error ?? new Error('Failed to repair ontology') };
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        checked_at: new Date(),
+        fix_applied: fix,
+        summary: {
+          symbols: symbols.length,
+          symbol_sets: symbolSets.length,
+          issues: issues.length,
+          errors: issues.filter((issue) => issue.severity === 'error').length,
+          warnings: issues.filter((issue) => issue.severity === 'warning').length,
+          info: issues.filter((issue) => issue.severity === 'info').length,
+          fixed: issues.filter((issue) => issue.fixed).length,
+        },
+        issues,
+      },
+    };
+  }
+
+  /**
+   * Repair fixable issues in place, marking each one as fixed once written
+   */
+  private async applyFixes(
+    issues: IntegrityIssue[],
+    symbols: Symbol[],
+    symbolSets: SymbolSet[],
+    oneWayLinks: Map<IntegrityIssue, SymbolRelationship>
+  ): Promise<QueryResult<boolean>> {
+    // Drop references to missing symbols, one update per affected symbol
+    for (const symbol of symbols) {
+      const dangling = issues.filter(
+        (issue) => issue.type === 'dangling_related_symbol' && issue.entity_id === symbol.id
+      );
+      if (dangling.length === 0) {
+        continue;
+      }
+
+      const missing = new Set(dangling.map((issue) => issue.reference));
+      const result = await this.database.updateSymbol(symbol.id, {
+        related_symbols: symbol.related_symbols.filter((id) => !missing.has(id)),
+      });
+      if (!result.success) {
+        return { success: false, error: result.error ?? new Error(`Failed to update symbol "${symbol.id}"`) };
+      }
+      dangling.forEach((issue) => (issue.fixed = true));
+    }
+
+    // Drop missing members, one update per affected set
+    for (const symbolSet of symbolSets) {
+      const missing = issues.filter(
+        (issue) => issue.type === 'missing_set_member' && issue.entity_id === symbolSet.id
+      );
+      if (missing.length === 0) {
+        continue;
+      }
+
+      const members = { ...symbolSet.symbols };
+      missing.forEach((issue) => delete members[issue.reference ?? '']);
+      const result = await this.database.updateSymbolSet(symbolSet.id, { symbols: members });
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error ?? new Error(`Failed to update symbol set "${symbolSet.id}"`),
+        };
+      }
+      missing.forEach((issue) => (issue.fixed = true));
+    }
+
+    // Add the missing reverse link for every one-way symmetric relationship
+    for (const [issue, rel] of oneWayLinks) {
+      const result = await this.database.createRelationship({
+        source_id: rel.target_id,
+        target_id: rel.source_id,
+        relation_type: rel.relation_type,
+        weight: rel.weight,
+        note: rel.note,
+      });
+      if (!result.success) {
+        return { success: false, error: result.error ?? new Error('Failed to create reverse relationship') };
+      }
+      issue.fixed = true;
+    }
+
+    return { success: true, data: true };
+  }
+}
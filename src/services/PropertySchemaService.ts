@@ -0,0 +1,62 @@
+import type { IDatabase } from '@/database/Database.js';
+import { validateProperties } from '@/database/propertySchemas.js';
+import type { PropertyViolation, QueryResult, Symbol } from '@/types/Symbol.js';
+
+/**
+ * Service for checking symbol properties against their category's property
+ * schema before they are written. Schemas are matched to categories ignoring
+ * case, and categories without a schema accept any properties.
+ */
+export class PropertySchemaService {
+  constructor(private database: IDatabase) {}
+
+  /**
+   * Violations for a new symbol's properties (empty when they conform)
+   */
+  async check(
+    category: string | null | undefined,
+    properties: Record<string, unknown> = {}
+  ): Promise<QueryResult<PropertyViolation[]>> {
+    if (!category) {
+      return { success: true, data: [] };
+    }
+
+    const schemaResult = await this.database.getPropertySchema(category);
+    if (!schemaResult.success) {
+      return { success: false, error: schemaResult.error ?? new Error('Failed to load property schema') };
+    }
+
+    return {
+      success: true,
+      data: schemaResult.data ? validateProperties(schemaResult.data, properties) : [],
+    };
+  }
+
+  /**
+   * Violations for an update, checked against the symbol as it will be
+   * stored. Updates that touch neither category nor properties are not
+   * checked, so existing violations do not block unrelated edits.
+   */
+  async checkUpdate(
+    id: string,
+    updates: Partial<Pick<Symbol, 'category' | 'properties'>>
+  ): Promise<QueryResult<PropertyViolation[]>> {
+    if (updates.category === undefined && updates.properties === undefined) {
+      return { success: true, data: [] };
+    }
+
+    const symbolResult = await this.database.getSymbol(id);
+    if (!symbolResult.success) {
+      return { success: false, error: symbolResult.error ?? new Error('Failed to load symbol') };
+    }
+    // Let the update itself report the missing symbol
+    if (!symbolResult.data) {
+      return { success: true, data: [] };
+    }
+
+    return this.check(
+      updates.category !== undefined ? updates.category : symbolResult.data.category,
+      updates.properties ?? symbolResult.data.properties
+    );
+  }
+}
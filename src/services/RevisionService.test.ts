@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { RevisionService } from './RevisionService.js';
+
+describe('RevisionService', () => {
+  let database: DemoDatabase;
+  let revisionService: RevisionService;
+
+  beforeEach(() => {
+    database = new DemoDatabase();
+    revisionService = new RevisionService(database);
+  });
+
+  async function revisionIds(entityId: string): Promise<string[]> {
+    const result = await database.getRevisions({ entityId });
+    return (result.data ?? []).map((revision) => revision.id);
+  }
+
+  describe('diff', () => {
+    it('should compare a revision with the current record', async () => {
+      await database.updateSymbol('river', { category: 'water', related_symbols: ['bridge'] });
+      const [revisionId] = await revisionIds('river');
+
+      const result = await revisionService.diff(revisionId ?? '');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.against).toBe('current');
+      expect(result.data?.changes).toEqual([
+        { field: 'category', before: 'flow', after: 'water' },
+        { field: 'related_symbols', before: ['bridge', 'boat'], after: ['bridge'] },
+      ]);
+    });
+
+    it('should compare two revisions of the same record', async () => {
+      await database.updateSymbol('river', { name: 'Stream' });
+      await database.updateSymbol('river', { name: 'Brook' });
+      const [newer, older] = await revisionIds('river');
+
+      const result = await revisionService.diff(older ?? '', newer);
+
+      expect(result.data?.changes).toEqual([
+        { field: 'name', before: 'River', after: 'Stream' },
+      ]);
+    });
+
+    it('should compare symbol set revisions', async () => {
+      await database.updateSymbolSet('cycles-of-change', { description: 'Renewal' });
+      const [revisionId] = await revisionIds('cycles-of-change');
+
+      const result = await revisionService.diff(revisionId ?? '');
+
+      expect(result.data?.entity_type).toBe('symbol_set');
+      expect(result.data?.changes.map((change) => change.field)).toEqual(['description']);
+    });
+
+    it('should refuse to compare revisions of different records', async () => {
+      await database.updateSymbol('river', { name: 'Stream' });
+      await database.updateSymbol('key', { name: 'Skeleton Key' });
+      const [riverRevision] = await revisionIds('river');
+      const [keyRevision] = await revisionIds('key');
+
+      const result = await revisionService.diff(riverRevision ?? '', keyRevision);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('different records');
+    });
+
+    it('should report an unknown revision', async () => {
+      const result = await revisionService.diff('missing');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Revision with ID "missing" not found');
+    });
+  });
+});
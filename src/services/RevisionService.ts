@@ -0,0 +1,96 @@
+import type { IDatabase } from '@/database/Database.js';
+import { diffRecords } from '@/database/revisions.js';
+import type {
+  QueryResult,
+  Revision,
+  RevisionDiff,
+  Symbol,
+  SymbolSet,
+} from '@/types/Symbol.js';
+
+/**
+ * Service for comparing stored revisions with each other or with the live record
+ */
+export class RevisionService {
+  constructor(private database: IDatabase) {}
+
+  /**
+   * Compare a revision with another revision of the same record, or with the
+   * record as it is now when no other revision is given
+   */
+  async diff(revisionId: string, againstId?: string): Promise<QueryResult<RevisionDiff>> {
+    const revisionResult = await this.loadRevision(revisionId);
+    if (!revisionResult.success || !revisionResult.data) {
+      return { success: false, error: revisionResult.error ?? new Error('Failed to get revision') };
+    }
+    const revision = revisionResult.data;
+
+    let after: Symbol | SymbolSet;
+    if (againstId) {
+      const againstResult = await this.loadRevision(againstId);
+      if (!againstResult.success || !againstResult.data) {
+        return { success: false, error: againstResult.error ?? new Error('Failed to get revision') };
+      }
+      if (
+        againstResult.data.entity_type !== revision.entity_type ||
+        againstResult.data.entity_id !== revision.entity_id
+      ) {
+        return {
+          success: false,
+          error: new Error('Revisions belong to different records and cannot be compared'),
+        };
+      }
+      after = againstResult.data.snapshot;
+    } else {
+      const currentResult = await this.loadCurrent(revision);
+      if (!currentResult.success || !currentResult.data) {
+        return { success: false, error: currentResult.error ?? new Error('Failed to load current record') };
+      }
+      after = currentResult.data;
+    }
+
+    return {
+      success: true,
+      data: {
+        revision_id: revision.id,
+        entity_type: revision.entity_type,
+        entity_id: revision.entity_id,
+        against: againstId ?? 'current',
+        changes: diffRecords(revision.snapshot, after),
+      },
+    };
+  }
+
+  private async loadRevision(id: string): Promise<QueryResult<Revision>> {
+    const result = await this.database.getRevision(id);
+    if (!result.success) {
+      return { success: false, error: result.error ?? new Error('Failed to get revision') };
+    }
+    if (!result.data) {
+      return { success: false, error: new Error(`Revision with ID "${id}" not found`) };
+    }
+    return { success: true, data: result.data };
+  }
+
+  private async loadCurrent(revision: Revision): Promise<QueryResult<Symbol | SymbolSet>> {
+    if (revision.entity_type === 'symbol') {
+      const result = await this.database.getSymbol(revision.entity_id);
+      if (!result.success) {
+        return { success: false, error: result.error ?? new Error('Failed to get symbol') };
+      }
+      if (!result.data) {
+        return { success: false, error: new Error(`Symbol with ID "${revision.entity_id}" not found`) };
+      }
+      return { success: true, data: result.data };
+    }
+
+    const result = await this.database.getSymbolSet(revision.entity_id);
+    if (!result.success) {
+      return { success: false, error: result.error ?? new Error('Failed to get symbol set') };
+    }
+    if (!result.data) {
+      return { success: false, error: new Error(`Symbol set with ID "${revision.entity_id}" not found`) };
+    }
+    return { success: true, data: result.data };
+  }
+}
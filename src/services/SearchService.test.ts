@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DemoDatabase } from '@/database/DemoDatabase.js';
+import { SearchService } from './SearchService.js';
+
+describe('SearchService', () => {
+  let database: DemoDatabase;
+  let searchService: SearchService;
+
+  beforeEach(() => {
+    database = new DemoDatabase();
+    searchService = new SearchService(database);
+  });
+
+  describe('searchSymbols', () => {
+    it('should not suggest anything when the search finds symbols', async () => {
+      const result = await searchService.searchSymbols('mandala');
+
+      expect(result.data?.symbols.map((symbol) => symbol.id)).toEqual(['mandala']);
+      expect(result.data?.did_you_mean).toEqual([]);
+    });
+
+    it('should suggest close names when a full-text search finds nothing', async () => {
+      const result = await searchService.searchSymbols('ourobouros');
+
+      expect(result.data?.symbols).toEqual([]);
+      expect(result.data?.did_you_mean).toEqual([
+        { id: 'ouroboros', name: 'Ouroboros', score: 0.9 },
+      ]);
+    });
+
+    it('should find misspelled names in fuzzy mode without suggestions', async () => {
+      const result = await searchService.searchSymbols('mandela', { mode: 'fuzzy' });
+
+      expect(result.data?.symbols.map((symbol) => symbol.id)).toEqual(['mandala']);
+      expect(result.data?.did_you_mean).toEqual([]);
+    });
+
+    it('should only suggest on the first page', async () => {
+      const result = await searchService.searchSymbols('mandela', { offset: 10 });
+
+      expect(result.data?.did_you_mean).toEqual([]);
+    });
+
+    it('should keep excluded origins out of suggestions', async () => {
+      const result = await searchService.searchSymbols('infinty', { excludeOrigins: ['ai'] });
+
+      expect(result.data?.did_you_mean).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import type { IDatabase } from '@/database/Database.js';
+import type {
+  QueryResult,
+  SearchOptions,
+  SearchSuggestion,
+  SymbolSearchResult,
+} from '@/types/Symbol.js';
+
+/**
+ * Number of "did you mean" suggestions offered for a search that finds nothing
+ */
+const SUGGESTION_LIMIT = 5;
+
+/**
+ * Service for symbol searches shared by the MCP tools and the REST API.
+ * Results come with facet counts over every match. When a full-text search
+ * comes back empty it retries the query fuzzily and offers the closest names
+ * as suggestions.
+ */
+export class SearchService {
+  constructor(private database: IDatabase) {}
+
+  /**
+   * Search symbols with facet counts, adding "did you mean" suggestions when
+   * a full-text search for some text finds nothing on its first page
+   */
+  async searchSymbols(query: string, options: SearchOptions = {}): Promise<QueryResult<SymbolSearchResult>> {
+    const result = await this.database.searchSymbols(query, options);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error ?? new Error('Failed to search symbols') };
+    }
+
+    const facets = await this.database.getSearchFacets(query, options);
+    if (!facets.success || !facets.data) {
+      return { success: false, error: facets.error ?? new Error('Failed to count search facets') };
+    }
+
+    const symbols = result.data;
+    const page = result.page && { page: result.page };
+    const wantsSuggestions =
+      symbols.length === 0 &&
+      query.trim() !== '' &&
+      (options.mode ?? 'fulltext') === 'fulltext' &&
+      !options.offset &&
+      !options.cursor;
+    if (!wantsSuggestions) {
+      return { success: true, data: { symbols, did_you_mean: [], facets: facets.data }, ...page };
+    }
+
+    const suggestions = await this.suggest(query, options);
+    if (!suggestions.success) {
+      return { success: false, error: suggestions.error ?? new Error('Failed to find suggestions') };
+    }
+
+    return { success: true, data: { symbols, did_you_mean: suggestions.data ?? [], facets: facets.data }, ...page };
+  }
+
+  /**
+   * Symbols whose name or an alias is close to the query, closest first
+   */
+  async suggest(query: string, options: SearchOptions = {}): Promise<QueryResult<SearchSuggestion[]>> {
+    const result = await this.database.searchSymbols(query, {
+      ...(options.excludeOrigins && { excludeOrigins: options.excludeOrigins }),
+      mode: 'fuzzy',
+      limit: SUGGESTION_LIMIT,
+      offset: 0,
+    });
+    if (!result.success) {
+      return { success: false, error: result.error ?? new Error('Failed to find suggestions') };
+    }
+
+    return {
+      success: true,
+      data: (result.data ?? []).map((symbol) => ({
+        id: symbol.id,
+        name: symbol.name,
+        score: symbol.score ?? 0,
+      })),
+    };
+  }
+}
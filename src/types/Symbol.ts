@@ -23,13 +23,130 @@ export interface Symbol {
   /** Additional properties and metadata */
   properties: Record<string, unknown>;
 
+  /** Alternate names and translations; searchable and resolvable to the ID */
+  aliases?: SymbolAlias[];
+
+  /** Free-form lowercase tags, for themes that cut across categories */
+  tags?: string[];
+
+  /** Name, description and interpretations in other languages, keyed by locale */
+  translations?: Record<string, SymbolTranslation>;
+
+  /**
+   * Locale the text was resolved to on a localized read: the requested
+   * locale, its base language, or DEFAULT_LOCALE when no translation applied
+   */
+  locale?: string;
+
+  /** Sources backing the description and individual interpretations */
+  citations?: Citation[];
+
+  /** Whether a person, an AI agent or an import wrote the symbol (null when unknown) */
+  origin?: ProvenanceOrigin | null;
+
+  /** Client and tool that created the symbol, e.g. "mcp:create_symbol" or "csv:symbols.csv" */
+  provenance?: string | null;
+
+  /** Relevance to the search query, higher first (search results only) */
+  score?: number;
+
+  /**
+   * Parts of the symbol the search matched, e.g. name, description or
+   * interpretations.dream (search results only)
+   */
+  matched_fields?: string[];
+
+  /** Excerpts of the description and interpretations around the match (search results only) */
+  highlights?: SearchHighlight[];
+
   /** Creation timestamp */
   created_at: Date;
 
   /** Last update timestamp */
   updated_at: Date;
+
+  /** When the symbol was moved to the trash (null or absent while live) */
+  deleted_at?: Date | null;
+}
+
+/**
+ * Excerpt of a symbol's text around a search match
+ */
+export interface SearchHighlight {
+  /** Field the text comes from: description or interpretations.<context> */
+  field: string;
+
+  /** Text around the match with the matched words wrapped in **, trimmed at word boundaries with … */
+  snippet: string;
+}
+
+/**
+ * Alternate name or translated label for a symbol
+ */
+export interface SymbolAlias {
+  /** The alternate name, e.g. "Uroboros" or "serpent eating its tail" */
+  label: string;
+
+  /** BCP 47 language tag of the label, e.g. "en" or "el" (nullable) */
+  language: string | null;
 }
 
+/**
+ * Source backing a symbol's description or one of its interpretations
+ */
+export interface Citation {
+  /** Title of the book, article, site or tradition */
+  source_title: string;
+
+  /** Author or editor of the source (nullable) */
+  author: string | null;
+
+  /** Where the source can be read online (nullable) */
+  url: string | null;
+
+  /** ISBN of a printed source (nullable) */
+  isbn: string | null;
+
+  /** Page or page range, e.g. "112" or "45-47" (nullable) */
+  page: string | null;
+
+  /** How firmly the source supports the text, from 0 to 1 (nullable) */
+  confidence: number | null;
+
+  /** Interpretation context the citation backs, or null when it backs the description */
+  interpretation: string | null;
+}
+
+/**
+ * Who wrote a symbol's content
+ */
+export const PROVENANCE_ORIGINS = ["human", "ai", "import"] as const;
+
+export type ProvenanceOrigin = (typeof PROVENANCE_ORIGINS)[number];
+
+/**
+ * Text of a symbol in one locale. Missing fields, and interpretation contexts
+ * missing from the map, fall back to the next locale in line.
+ */
+export interface SymbolTranslation {
+  name?: string;
+  description?: string;
+  interpretations?: Record<string, unknown>;
+}
+
+/**
+ * Text of a symbol set in one locale
+ */
+export interface SymbolSetTranslation {
+  name?: string;
+  description?: string;
+}
+
+/**
+ * Locale of the untranslated name, description and interpretations
+ */
+export const DEFAULT_LOCALE = "en";
+
 /**
  * Symbol Set type representing a collection of related symbols
  */
@@ -49,6 +166,12 @@ export interface SymbolSet {
   /** Map of symbol IDs to their roles/weights in this set */
   symbols: Record<string, unknown>;
 
+  /** Name and description in other languages, keyed by locale */
+  translations?: Record<string, SymbolSetTranslation>;
+
+  /** Locale the text was resolved to on a localized read */
+  locale?: string;
+
   /** Creation timestamp */
   created_at: Date;
 
@@ -56,11 +179,330 @@ export interface SymbolSet {
   updated_at: Date;
 }
 
+/**
+ * Member of a symbol set resolved to its symbol record
+ */
+export interface SymbolSetMember {
+  /** ID of the member symbol */
+  symbol_id: string;
+
+  /** Weight of the symbol in the set (nullable when the entry has none) */
+  weight: number | null;
+
+  /** Full symbol record, or null when the symbol does not exist */
+  symbol: Symbol | null;
+
+  /** True when the member refers to a symbol that does not exist or is deleted */
+  missing: boolean;
+}
+
+/**
+ * Symbol set as returned by a single-set lookup
+ */
+export interface ExpandedSymbolSet extends SymbolSet {
+  /** Members resolved to symbol records, heaviest first (only when expanded) */
+  members?: SymbolSetMember[];
+}
+
+/**
+ * Options for retrieving a single symbol set
+ */
+export interface SymbolSetQueryOptions {
+  /** Resolve members to full symbol records */
+  expand?: boolean;
+}
+
 /**
  * Category type for organizing symbols
  */
 export type Category = string;
 
+/**
+ * Entry in the category taxonomy. Symbols refer to it through their category.
+ */
+export interface SymbolCategory {
+  /** Category name as stored in Symbol.category, e.g. "alchemical" */
+  id: string;
+
+  /** ID of the parent category (null for top-level categories) */
+  parent_id: string | null;
+
+  /** What the category covers (nullable) */
+  description: string | null;
+
+  /** Position among sibling categories, lowest first */
+  display_order: number;
+
+  /** Creation timestamp */
+  created_at: Date;
+
+  /** Last update timestamp */
+  updated_at: Date;
+}
+
+/**
+ * Category with its child categories, as returned by the taxonomy tree
+ */
+export interface CategoryTreeNode extends SymbolCategory {
+  /** Number of symbols filed directly under this category */
+  symbol_count: number;
+
+  /** Child categories in display order */
+  children: CategoryTreeNode[];
+}
+
+/**
+ * Value types a property schema can require
+ */
+export const PROPERTY_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "string_array",
+] as const;
+
+export type PropertyType = (typeof PROPERTY_TYPES)[number];
+
+/**
+ * Rules for a single key in a symbol's properties
+ */
+export interface PropertyDefinition {
+  type: PropertyType;
+
+  /** Allowed values for string and string_array properties */
+  enum?: string[];
+
+  /** Whether every symbol in the category must set the property */
+  required?: boolean;
+
+  /** What the property records */
+  description?: string;
+}
+
+/**
+ * Allowed property keys, types and values for symbols in one category
+ */
+export interface PropertySchema {
+  /** Category name the schema applies to, as stored in Symbol.category */
+  category: string;
+
+  /** Definitions keyed by property name */
+  properties: Record<string, PropertyDefinition>;
+
+  /** Whether keys without a definition are accepted */
+  allow_additional: boolean;
+
+  /** Creation timestamp */
+  created_at: Date;
+
+  /** Last update timestamp */
+  updated_at: Date;
+}
+
+/**
+ * Property that does not satisfy its category's schema
+ */
+export interface PropertyViolation {
+  property: string;
+  message: string;
+}
+
+/**
+ * Options for filtering symbols by category
+ */
+export interface CategoryFilterOptions extends QueryOptions {
+  /** Also match symbols filed under any descendant category */
+  includeDescendants?: boolean;
+}
+
+/**
+ * How a symbol's tags must match the requested tags
+ */
+export type TagMatch = "any" | "all";
+
+/**
+ * Options for filtering symbols by tags
+ */
+export interface TagFilterOptions extends QueryOptions {
+  /** Match symbols with any of the tags (default) or with all of them */
+  match?: TagMatch;
+}
+
+/**
+ * Tag with the number of symbols carrying it
+ */
+export interface TagCount {
+  /** The tag, e.g. "flow" */
+  tag: string;
+
+  /** Number of live symbols tagged with it */
+  count: number;
+}
+
+/**
+ * How search text is matched: full-text on words and word prefixes, or fuzzy
+ * on names and aliases to tolerate misspellings
+ */
+export const SEARCH_MODES = ["fulltext", "fuzzy"] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+/**
+ * Options for searching symbols
+ */
+export interface SearchOptions extends QueryOptions {
+  /** Matching mode (default: fulltext) */
+  mode?: SearchMode;
+
+  /** Only symbols with this interpretation context, e.g. "dream" */
+  interpretationContext?: string;
+
+  /**
+   * Text the symbol's interpretations must contain, ignoring case; only the
+   * interpretationContext one when that is given
+   */
+  interpretationText?: string;
+
+  /** Property values the symbol must have, e.g. { element: "water" } */
+  properties?: PropertyFilter;
+}
+
+/**
+ * Required property values by key. A list-valued property matches when it
+ * contains the value.
+ */
+export type PropertyFilter = Record<string, string | number | boolean>;
+
+/**
+ * Close match offered when a search finds nothing
+ */
+export interface SearchSuggestion {
+  /** ID of the suggested symbol */
+  id: string;
+
+  /** Name of the suggested symbol */
+  name: string;
+
+  /** How close the symbol's name or an alias is to the query, higher first */
+  score: number;
+}
+
+/**
+ * What a prefix suggestion completes: a symbol's ID, name or alias, or a
+ * category
+ */
+export const SUGGESTION_KINDS = ["id", "name", "alias", "category"] as const;
+
+export type SuggestionKind = (typeof SUGGESTION_KINDS)[number];
+
+/**
+ * Completion for a typed prefix
+ */
+export interface Suggestion {
+  /** The completed text: an ID, name, alias label or category */
+  value: string;
+
+  kind: SuggestionKind;
+
+  /** Symbol the ID, name or alias belongs to (null for categories) */
+  symbol_id: string | null;
+}
+
+/**
+ * Options for prefix suggestions
+ */
+export interface SuggestOptions {
+  /** Kinds to suggest (default all) */
+  kinds?: SuggestionKind[];
+
+  /** Most suggestions to return (default 10) */
+  limit?: number;
+}
+
+/**
+ * Value of a facet with the number of matching symbols that have it
+ */
+export interface FacetCount {
+  /** The value, e.g. "transformation"; property values are given as text */
+  value: string;
+
+  /** Number of matching symbols with the value */
+  count: number;
+}
+
+/**
+ * Breakdown of every symbol a search or filter matches, not only the returned
+ * page, for narrowing the results. Each list is most common first.
+ */
+export interface SymbolFacets {
+  categories: FacetCount[];
+  tags: FacetCount[];
+
+  /** Value counts by property key; list properties count each element */
+  properties: Record<string, FacetCount[]>;
+
+  interpretation_contexts: FacetCount[];
+}
+
+/**
+ * Symbols found by a search, with suggestions when there are none
+ */
+export interface SymbolSearchResult {
+  symbols: Symbol[];
+
+  /** Close matches for a full-text search that found nothing, best first */
+  did_you_mean: SearchSuggestion[];
+
+  /** Counts over all matches, for narrowing the search */
+  facets: SymbolFacets;
+}
+
+/**
+ * What to find similar symbols to: free text, or another symbol
+ */
+export type SimilarityTarget = { text: string } | { symbolId: string };
+
+/**
+ * Symbol fields a query can match exactly with field:value
+ */
+export const QUERY_FIELDS = ["category", "tag", "origin"] as const;
+
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+/**
+ * Parsed symbol query, e.g. from
+ * `category:journey AND property.direction=inward AND interpretation.dream~"decision"`
+ */
+export type SymbolQuery =
+  | { type: "and"; clauses: SymbolQuery[] }
+  | { type: "or"; clauses: SymbolQuery[] }
+  | { type: "not"; clause: SymbolQuery }
+  /** Exact category, normalized tag or origin */
+  | { type: "field"; field: QueryField; value: string }
+  /** Property value, or an element of a list-valued property */
+  | { type: "property"; key: string; value: string | number | boolean }
+  /**
+   * Interpretation in the context (any context when null) containing the
+   * text, ignoring case; any interpretation there when contains is null
+   */
+  | { type: "interpretation"; context: string | null; contains: string | null }
+  /** Full-text match, every word as a word or the start of one */
+  | { type: "text"; text: string };
+
+/**
+ * Where a page of a list sits among all of its results
+ */
+export interface PageInfo {
+  /** Number of results across every page */
+  total: number;
+
+  /** Whether more results follow this page */
+  has_more: boolean;
+
+  /** Cursor for the next page, or null on the last page */
+  next_cursor: string | null;
+}
+
 /**
  * Database query result wrapper
  */
@@ -68,21 +510,426 @@ export interface QueryResult<T> {
   success: boolean;
   data?: T;
   error?: Error;
+
+  /** Paging details, set by operations that return a page of a list */
+  page?: PageInfo;
 }
 
 /**
- * Common query options for listing and searching
+ * Orders a list can be sorted in. relevance is the search score, so lists
+ * that are not ranked fall back to name order; relation_count counts the
+ * relationships from a symbol; set_weight totals its weight across every
+ * symbol set it belongs to.
+ */
+export const SORT_FIELDS = [
+  "name",
+  "created_at",
+  "updated_at",
+  "relevance",
+  "relation_count",
+  "set_weight",
+] as const;
+
+export type SortField = (typeof SORT_FIELDS)[number];
+
+/**
+ * Orders that apply to symbol sets, which have only names and timestamps
+ */
+export const SET_SORT_FIELDS = ["name", "created_at", "updated_at"] as const;
+
+export const SORT_ORDERS = ["asc", "desc"] as const;
+
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+/**
+ * Options for reading one page of a list
  */
-export interface QueryOptions {
+export interface PageOptions {
   /** Maximum number of results to return */
   limit?: number;
 
   /** Offset for pagination */
   offset?: number;
 
+  /** next_cursor of the previous page; takes precedence over offset */
+  cursor?: string;
+}
+
+/**
+ * Common query options for listing and searching
+ */
+export interface QueryOptions extends PageOptions {
+  /** Order of the results (default depends on the list, usually name) */
+  sort?: SortField;
+
+  /**
+   * Direction of the sort; defaults to ascending for name and descending for
+   * everything else
+   */
+  order?: SortOrder;
+
   /** Search query string */
   query?: string;
 
   /** Category filter */
   category?: string;
+
+  /** Leave out symbols written by these origins, e.g. ["ai"] */
+  excludeOrigins?: ProvenanceOrigin[];
+}
+
+/**
+ * Supported relation types between two symbols
+ */
+export const RELATION_TYPES = [
+  "related",
+  "opposes",
+  "complements",
+  "derives_from",
+  "aspect_of",
+] as const;
+
+/**
+ * Relation type describing how a source symbol relates to a target symbol
+ */
+export type RelationType = (typeof RELATION_TYPES)[number];
+
+/**
+ * Relation types that read the same in both directions, so every link of
+ * these types is expected to have a matching reverse link
+ */
+export const SYMMETRIC_RELATION_TYPES: readonly RelationType[] = [
+  "related",
+  "opposes",
+  "complements",
+];
+
+/**
+ * Typed, directional relationship between two symbols
+ */
+export interface SymbolRelationship {
+  /** Unique identifier for the relationship */
+  id: string;
+
+  /** ID of the symbol the relationship starts from */
+  source_id: string;
+
+  /** ID of the symbol the relationship points to */
+  target_id: string;
+
+  /** How the source relates to the target */
+  relation_type: RelationType;
+
+  /** Optional strength of the relationship between 0 and 1 (nullable) */
+  weight: number | null;
+
+  /** Optional curator note explaining the relationship (nullable) */
+  note: string | null;
+
+  /** Creation timestamp */
+  created_at: Date;
+
+  /** Last update timestamp */
+  updated_at: Date;
+}
+
+/**
+ * Which side of a relationship a symbol must be on
+ */
+export type RelationshipDirection = "outgoing" | "incoming" | "both";
+
+/**
+ * Query options for listing relationships
+ */
+export interface RelationshipQueryOptions extends PageOptions {
+  /** Only return relationships touching this symbol */
+  symbolId?: string;
+
+  /** Which side of the relationship symbolId must be on (default: both) */
+  direction?: RelationshipDirection;
+
+  /** Relation type filter */
+  relationType?: RelationType;
+}
+
+/**
+ * Options for a single-hop neighborhood query
+ */
+export interface NeighborhoodOptions {
+  /** Which relationships of the given symbols to follow (default: both) */
+  direction?: RelationshipDirection;
+
+  /** Only follow relationships of these types */
+  relationTypes?: RelationType[];
+}
+
+/**
+ * Relationships touching a set of symbols, plus every symbol they reference
+ */
+export interface SymbolNeighborhood {
+  /** Relationships with at least one endpoint in the queried set */
+  relationships: SymbolRelationship[];
+
+  /** Existing symbols found at either end of those relationships */
+  symbols: Symbol[];
+}
+
+/**
+ * Node in a traversed symbol graph
+ */
+export interface SymbolGraphNode {
+  id: string;
+  name: string | null;
+  category: string | null;
+  description: string | null;
+
+  /** Number of hops from the start symbol */
+  depth: number;
+
+  /** True when the node is referenced but no such symbol exists */
+  missing: boolean;
+}
+
+/**
+ * Edge in a traversed symbol graph
+ */
+export interface SymbolGraphEdge {
+  id: string;
+  source_id: string;
+  target_id: string;
+  relation_type: RelationType;
+  weight: number | null;
+}
+
+/**
+ * Subgraph reachable from a start symbol
+ */
+export interface SymbolGraph {
+  root_id: string;
+  nodes: SymbolGraphNode[];
+  edges: SymbolGraphEdge[];
+
+  /** True when the node limit stopped the traversal early */
+  truncated: boolean;
 }
+
+/**
+ * Symbol as it appears on a path, with the interpretations that explain it
+ */
+export interface SymbolPathNode {
+  id: string;
+  name: string;
+  category: string | null;
+  interpretations: Record<string, unknown>;
+}
+
+/**
+ * One hop along a path between two symbols
+ */
+export interface SymbolPathHop {
+  from: SymbolPathNode;
+  to: SymbolPathNode;
+  relation_type: RelationType;
+
+  /** True when the underlying relationship points from `to` back to `from` */
+  reversed: boolean;
+
+  weight: number | null;
+  note: string | null;
+
+  /** Interpretation contexts (e.g. "dream") that both symbols speak to */
+  shared_contexts: string[];
+}
+
+/**
+ * Path between two symbols through the relationship graph
+ */
+export interface SymbolPath {
+  length: number;
+  hops: SymbolPathHop[];
+}
+
+/**
+ * Shortest paths found between two symbols
+ */
+export interface SymbolPathResult {
+  from_id: string;
+  to_id: string;
+  connected: boolean;
+  paths: SymbolPath[];
+}
+
+/**
+ * Kinds of problems the ontology integrity checker reports
+ */
+export const INTEGRITY_CHECKS = [
+  "dangling_related_symbol",
+  "missing_set_member",
+  "one_way_link",
+  "orphan_category",
+  "empty_description",
+  "property_schema_violation",
+] as const;
+
+export type IntegrityCheck = (typeof INTEGRITY_CHECKS)[number];
+
+/**
+ * Single problem found by the integrity checker
+ */
+export interface IntegrityIssue {
+  type: IntegrityCheck;
+  severity: "error" | "warning" | "info";
+
+  /** Kind of record the issue was found on */
+  entity: "symbol" | "symbol_set" | "category";
+
+  /** ID of the record (or category name) the issue was found on */
+  entity_id: string;
+
+  /** ID of the symbol the record refers to, or the offending property key, when relevant */
+  reference?: string;
+
+  message: string;
+
+  /** Whether auto-fix mode knows how to repair this issue */
+  fixable: boolean;
+
+  /** Whether the issue was repaired during this run */
+  fixed: boolean;
+}
+
+/**
+ * Result of scanning the ontology for integrity problems
+ */
+export interface IntegrityReport {
+  checked_at: Date;
+  fix_applied: boolean;
+  summary: {
+    symbols: number;
+    symbol_sets: number;
+    issues: number;
+    errors: number;
+    warnings: number;
+    info: number;
+    fixed: number;
+  };
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Kind of record a revision belongs to
+ */
+export type RevisionEntityType = "symbol" | "symbol_set";
+
+/**
+ * Change that caused a revision to be recorded
+ */
+export type RevisionAction = "update" | "delete" | "revert" | "restore";
+
+/**
+ * Who made a change and why, recorded alongside the revision it creates
+ */
+export interface ChangeContext {
+  /** Person or agent making the change (e.g. "mcp", "api", a user name) */
+  actor?: string;
+
+  /** Short human-readable summary of the change */
+  summary?: string;
+}
+
+/**
+ * A symbol's place in a symbol set, kept when a cascade delete removes it
+ */
+export interface RemovedSetMembership {
+  /** ID of the set the symbol was removed from */
+  set_id: string;
+
+  /** Weight the symbol had in the set (null when the entry had none) */
+  weight: number | null;
+}
+
+/**
+ * Prior version of a symbol or symbol set, stored before it was changed
+ */
+export interface Revision {
+  id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+
+  /** Sequence number of this revision for its record, starting at 1 */
+  version: number;
+
+  action: RevisionAction;
+
+  /** The record as it was before the change */
+  snapshot: Symbol | SymbolSet;
+
+  /** Top-level fields the change touched */
+  changed_fields: string[];
+
+  /**
+   * Relationships removed along with a deleted symbol, recreated when the
+   * symbol is restored. Empty for every other action.
+   */
+  removed_relationships: SymbolRelationship[];
+
+  /**
+   * Set memberships removed along with a symbol deleted with cascade, put
+   * back when the symbol is restored. Empty for every other action.
+   */
+  removed_memberships: RemovedSetMembership[];
+
+  actor: string | null;
+  summary: string | null;
+  created_at: Date;
+}
+
+/**
+ * Options for listing revisions
+ */
+export interface RevisionQueryOptions extends PageOptions {
+  /** Only return revisions of this kind of record */
+  entityType?: RevisionEntityType;
+
+  /** Only return revisions of this record */
+  entityId?: string;
+}
+
+/**
+ * Difference in a single field between two versions of a record
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Field-by-field comparison of a revision with the current record or another revision
+ */
+export interface RevisionDiff {
+  revision_id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+
+  /** "current" or the ID of the revision compared against */
+  against: string;
+
+  changes: FieldChange[];
+}
+
+/**
+ * Options for permanently removing symbols from the trash
+ */
+export interface PurgeOptions {
+  /** Only purge this symbol */
+  id?: string;
+
+  /** Only purge symbols deleted before this time */
+  deletedBefore?: Date;
+}
+
+/**
+ * Milliseconds in a day, for turning "older than N days" into a cutoff
+ */
+export const DAY_MS = 24 * 60 * 60 * 1000;
@@ -9,8 +9,6 @@ export default defineConfig({
     exclude: [
       "**/node_modules/**",
       "**/dist/**",
-      // Temporarily exclude API tests due to Express.js bundling issues
-      "src/api/**/*.test.ts",
     ],
     coverage: {
       provider: "v8",